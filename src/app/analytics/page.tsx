@@ -0,0 +1,35 @@
+import Link from "next/link";
+import { BarChart3, ArrowRight } from "lucide-react";
+import { AnalyticsDashboard } from "@/components/analytics/AnalyticsDashboard";
+
+export default function AnalyticsPage() {
+  return (
+    <div className="flex min-h-screen flex-col">
+      {/* Header */}
+      <header className="relative bg-card px-6 py-3.5 border-b border-border/60 shadow-[0_1px_3px_0_rgba(0,0,0,0.04)]">
+        <div className="absolute top-0 inset-x-0 h-0.5 bg-gradient-to-l from-primary via-primary/70 to-primary/30" />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center h-8 w-8 rounded-lg bg-primary/10">
+              <BarChart3 className="h-5 w-5 text-primary" />
+            </div>
+            <h1 className="text-lg font-bold text-foreground tracking-tight">שימוש והוצאות</h1>
+          </div>
+          <Link
+            href="/"
+            className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+          >
+            <ArrowRight className="h-3.5 w-3.5" />
+            חזרה למחולל
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="mx-auto max-w-5xl">
+          <AnalyticsDashboard />
+        </div>
+      </main>
+    </div>
+  );
+}
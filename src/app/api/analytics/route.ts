@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logsToCsv, readLogRange, summarizeLogs } from "@/lib/analytics";
+import { parseLogRange } from "@/lib/file-utils";
+import { ANALYTICS_DEFAULT_DAYS } from "@/lib/constants";
+
+export const maxDuration = 60;
+
+/**
+ * Usage and spend summary for `from`..`to` (YYYY-MM-DD, default: the last
+ * ANALYTICS_DEFAULT_DAYS days). `format=csv` downloads the raw entries instead.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const defaultFrom = new Date(Date.now() - (ANALYTICS_DEFAULT_DAYS - 1) * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+  const range = parseLogRange(params, defaultFrom);
+  if ("error" in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 });
+  }
+  const { from, to } = range;
+
+  try {
+    const entries = await readLogRange(from, to);
+
+    if (params.get("format") === "csv") {
+      // BOM so spreadsheet apps read Hebrew prompts as UTF-8
+      return new NextResponse("﻿" + logsToCsv(entries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="generation-logs-${from}-to-${to}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(summarizeLogs(entries, from, to));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to build analytics" },
+      { status: 500 }
+    );
+  }
+}
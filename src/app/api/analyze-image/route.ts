@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { GeminiProvider } from "@/lib/providers/gemini-provider";
+import { getErrorCategory } from "@/lib/providers/errors";
 
 export const maxDuration = 60;
 
@@ -37,6 +38,7 @@ export async function POST(request: NextRequest) {
       {
         error:
           error instanceof Error ? error.message : "Failed to analyze image",
+        errorCategory: getErrorCategory(error),
       },
       { status: 500 }
     );
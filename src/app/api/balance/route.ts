@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const FAL_API_BASE = "https://api.fal.ai/v1";
+import { FAL_API_BASE, fetchFalBillingEvents, getFalAdminHeaders } from "@/lib/fal-billing";
 
 export async function GET(request: NextRequest) {
   const provider = request.nextUrl.searchParams.get("provider") ?? "fal";
@@ -13,51 +12,33 @@ export async function GET(request: NextRequest) {
     });
   }
 
-  const key = process.env.FAL_KEY;
-  if (!key) {
-    return NextResponse.json({ error: "FAL_KEY not configured" }, { status: 500 });
+  if (provider === "mock") {
+    return NextResponse.json({
+      source: "mock",
+      provider: "mock",
+      monthlySpendUsd: 0,
+      requestCount: 0,
+    });
   }
 
-  const headers: HeadersInit = {
-    Authorization: `Key ${key}`,
-    "Content-Type": "application/json",
-  };
+  let headers: HeadersInit;
+  try {
+    headers = getFalAdminHeaders();
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
 
   // Try billing-events endpoint (gives per-request cost data)
   try {
     const now = new Date();
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+    const events = await fetchFalBillingEvents(startOfMonth);
 
-    const billingRes = await fetch(
-      `${FAL_API_BASE}/models/billing-events?start_date=${startOfMonth}&limit=1000`,
-      { headers, next: { revalidate: 0 } }
-    );
-
-    if (billingRes.ok) {
-      const billingData = await billingRes.json();
-      const events = billingData.data ?? billingData.events ?? billingData ?? [];
-
-      let totalCostNanoUsd = 0;
-      let requestCount = 0;
-
-      if (Array.isArray(events)) {
-        for (const event of events) {
-          // cost_estimate_nano_usd is in nano-USD (divide by 1e9 for dollars)
-          if (event.cost_estimate_nano_usd) {
-            totalCostNanoUsd += event.cost_estimate_nano_usd;
-          } else if (event.cost) {
-            totalCostNanoUsd += event.cost * 1e9;
-          }
-          requestCount++;
-        }
-      }
-
-      const totalCostUsd = totalCostNanoUsd / 1e9;
-
+    if (events) {
       return NextResponse.json({
         source: "billing-events",
-        monthlySpendUsd: totalCostUsd,
-        requestCount,
+        monthlySpendUsd: events.reduce((sum, e) => sum + e.costUsd, 0),
+        requestCount: events.length,
         month: `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`,
       });
     }
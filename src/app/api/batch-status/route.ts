@@ -10,7 +10,8 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const logs = await readLogs(date ?? undefined, batchId);
+    // Edits and post-processing are logged under the batch too, but aren't batch items
+    const logs = (await readLogs(date ?? undefined, batchId)).filter((l) => !l.operation);
 
     return NextResponse.json({
       batchId,
@@ -27,6 +28,7 @@ export async function GET(request: NextRequest) {
         .map((l) => ({
           index: l.imageIndex,
           error: l.error ?? "Unknown error",
+          errorCategory: l.errorCategory,
         })),
       totalLogged: logs.length,
     });
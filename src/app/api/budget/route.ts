@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBudgetLimits, getSpend } from "@/lib/budget";
+import { saveBudgetLimits } from "@/lib/file-utils";
+import type { BudgetLimits, BudgetStatus } from "@/types/budget";
+
+/** Current spend caps and month-to-date spend from the generation logs. */
+export async function GET() {
+  try {
+    const [limits, spend] = await Promise.all([getBudgetLimits(), getSpend()]);
+    return NextResponse.json({ limits, spend } satisfies BudgetStatus);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load budget" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Replace the spend caps. A missing, empty or non-positive value removes that cap. */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = (await request.json()) as Partial<Record<keyof BudgetLimits, unknown>>;
+    const toLimit = (value: unknown): number | null => {
+      const n = Number(value);
+      return value !== null && value !== "" && Number.isFinite(n) && n > 0 ? n : null;
+    };
+    const limits: BudgetLimits = {
+      batch: toLimit(body.batch),
+      day: toLimit(body.day),
+      month: toLimit(body.month),
+    };
+    await saveBudgetLimits(limits);
+    const spend = await getSpend();
+    return NextResponse.json({ limits, spend } satisfies BudgetStatus);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save budget" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GeminiProvider } from "@/lib/providers/gemini-provider";
+import { getErrorCategory } from "@/lib/providers/errors";
+import { GEMINI_CAPTION_SYSTEM_PROMPT } from "@/lib/constants";
+
+export const maxDuration = 60;
+
+interface CaptionRequest {
+  imageUrl: string;
+}
+
+/** One-sentence alt text for a generated image. */
+export async function POST(request: NextRequest) {
+  try {
+    const { imageUrl } = (await request.json()) as CaptionRequest;
+
+    if (!imageUrl) {
+      return NextResponse.json({ error: "Missing imageUrl" }, { status: 400 });
+    }
+
+    const provider = new GeminiProvider();
+    const caption = await provider.analyzeImage({ imageUrl, systemPrompt: GEMINI_CAPTION_SYSTEM_PROMPT });
+
+    return NextResponse.json({ caption });
+  } catch (error) {
+    console.error("[caption-image] Error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to caption image",
+        errorCategory: getErrorCategory(error),
+      },
+      { status: 500 }
+    );
+  }
+}
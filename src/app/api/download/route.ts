@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import archiver from "archiver";
 import { Readable, PassThrough } from "stream";
-import { padIndex, sanitizeFilename } from "@/lib/format-utils";
+import { extensionForContentType, padIndex, sanitizeFilename } from "@/lib/format-utils";
 
 interface DownloadItem {
   index: number;
   url: string;
   prompt: string;
   outputFormat: string;
+  /** Actual type of the file (e.g. after a format conversion); takes precedence over outputFormat */
+  contentType?: string;
   versionLabel?: string;
 }
 
@@ -25,7 +27,7 @@ export async function POST(request: NextRequest) {
 
     const total = images.length;
     const fetches = images.map(async (item) => {
-      const ext = item.outputFormat || "png";
+      const ext = extensionForContentType(item.contentType, item.outputFormat || "png");
       const versionSuffix = item.versionLabel ? `-${item.versionLabel}` : "";
       const filename = `${padIndex(item.index, total)}-${sanitizeFilename(item.prompt)}${versionSuffix}.${ext}`;
 
@@ -0,0 +1,50 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+// Edits are logged under <cwd>/data, so run against a scratch directory with the mock provider
+let dataRoot: string;
+let route: typeof import("./route");
+
+function edit(prompt: string): Promise<Response> {
+  const body = {
+    imageUrl: "https://fal.media/files/source.png",
+    prompt,
+    provider: "mock",
+    model: "mock",
+    settings: { resolution: "1K", aspectRatio: "1:1", outputFormat: "png", safetyTolerance: 2, enableWebSearch: false },
+  };
+  return route.POST(new NextRequest("http://localhost:3000/api/edit", { method: "POST", body: JSON.stringify(body) }));
+}
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-edit-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.stubEnv("VERCEL", "");
+  vi.stubEnv("SUPABASE_URL", "");
+  vi.stubEnv("MOCK_DELAY_MS", "0");
+  vi.stubEnv("USD_TO_ILS_RATE", "3.6");
+  route = await import("./route");
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("/api/edit", () => {
+  it("answers 400 when the provider rejects the input", async () => {
+    const response = await edit("make it blue [mock:fail=invalid_input]");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ errorCategory: "invalid_input" });
+  });
+
+  it("answers 500 for other provider failures", async () => {
+    const response = await edit("make it blue [mock:fail=upstream_5xx]");
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ errorCategory: "upstream_5xx" });
+  });
+});
@@ -1,14 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getProvider } from "@/lib/providers";
+import { getProvider, getErrorCategory, toProviderError } from "@/lib/providers";
 import { persistFile } from "@/lib/supabase-storage";
-import type { Provider } from "@/types/generation";
+import { appendLog } from "@/lib/file-utils";
+import { releaseBudget, reserveBudget } from "@/lib/budget";
+import { getExchangeRate } from "@/lib/exchange-rate";
+import { estimateCost, estimateCostUsd, getMaskModel, MAX_COMPOSITION_IMAGES } from "@/lib/constants";
+import { describeBudgetExceeded } from "@/lib/format-utils";
+import type { Provider, ProviderErrorCategory } from "@/types/generation";
+import type { LogEntry } from "@/types/log";
 
 export const maxDuration = 300;
 
 interface EditRequestBody {
-  imageUrl: string;
+  imageUrl?: string;
+  /** Several input images for a composition, in the order the prompt refers to them; replaces imageUrl */
+  imageUrls?: string[];
   prompt: string;
+  /** Inpainting mask (white = repaint); routed to the provider's inpainting model */
+  maskUrl?: string;
   provider?: string;
+  model?: string;
+  /** Batch and image the edit belongs to, for the log */
+  batchId?: string;
+  imageIndex?: number;
   settings: {
     resolution: string;
     aspectRatio: string;
@@ -25,107 +39,183 @@ interface EditVariation {
 }
 
 interface ParallelEditRequestBody {
-  imageUrl: string;
+  imageUrl?: string;
+  imageUrls?: string[];
+  maskUrl?: string;
   variations: EditVariation[];
   provider?: string;
+  model?: string;
+  batchId?: string;
+  imageIndex?: number;
   settings: EditRequestBody["settings"];
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
+interface EditResult {
+  image: { url: string; contentType: string; width: number; height: number };
+  seed?: number;
+  requestId?: string;
+}
 
-    // Parallel mode: multiple variations
-    if (body.variations) {
-      return handleParallelEdit(body as ParallelEditRequestBody);
-    }
+function inputImages(body: { imageUrl?: string; imageUrls?: string[] }): string[] {
+  return (body.imageUrls ?? [body.imageUrl]).filter((url): url is string => !!url);
+}
 
-    // Single edit
-    return handleSingleEdit(body as EditRequestBody);
-  } catch (error) {
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Edit failed" },
-      { status: 500 }
-    );
-  }
+/** Model the edit runs on, for pricing and the log: a masked edit goes to the provider's inpainting model. */
+function editModel(body: { provider?: string; model?: string; maskUrl?: string }): string | undefined {
+  if (!body.maskUrl) return body.model;
+  return getMaskModel((body.provider as Provider) ?? "fal", body.model)?.id ?? body.model;
 }
 
-async function handleSingleEdit(body: EditRequestBody) {
-  const { imageUrl, prompt, settings } = body;
+/**
+ * Run one edit and store the result. Every call is logged like a batch image
+ * (failures at no cost), so edits count toward spend and reconciliation.
+ */
+async function runEdit(
+  body: Omit<EditRequestBody, "prompt">,
+  prompt: string,
+  usdToIls: number
+): Promise<EditResult> {
+  const { settings } = body;
   const providerName = (body.provider as Provider) ?? "fal";
-  const provider = getProvider(providerName);
-
-  const result = await provider.editImage({
-    prompt,
-    imageUrls: [imageUrl],
+  const imageUrls = inputImages(body);
+  const model = editModel(body);
+  const parameters: LogEntry["parameters"] = {
+    provider: providerName,
+    model,
     resolution: settings.resolution,
     aspectRatio: settings.aspectRatio,
     outputFormat: settings.outputFormat,
     safetyTolerance: settings.safetyTolerance,
-    enableWebSearch: settings.enableWebSearch,
+    numImages: 1,
     seed: settings.seed,
-  });
+    enableWebSearch: settings.enableWebSearch,
+    hasReferenceImages: imageUrls.length > 1,
+  };
+  const entry = {
+    operation: "edit" as const,
+    batchId: body.batchId ?? "",
+    imageIndex: body.imageIndex ?? 0,
+    prompt,
+    parameters,
+  };
+  const startTime = Date.now();
+
+  let result;
+  try {
+    result = await getProvider(providerName).editImage({
+      model: body.model,
+      prompt,
+      imageUrls,
+      maskUrl: body.maskUrl,
+      resolution: settings.resolution,
+      aspectRatio: settings.aspectRatio,
+      outputFormat: settings.outputFormat,
+      safetyTolerance: settings.safetyTolerance,
+      enableWebSearch: settings.enableWebSearch,
+      seed: settings.seed,
+    });
+  } catch (error) {
+    const providerError = toProviderError(error, providerName);
+    await appendLog({
+      ...entry,
+      timestamp: new Date().toISOString(),
+      status: "failed",
+      durationMs: Date.now() - startTime,
+      error: providerError.message,
+      errorCategory: providerError.category,
+      cost: 0,
+    }).catch(() => undefined);
+    throw providerError;
+  }
 
   const image = result.images[0];
-  const permanentUrl = await persistFile(image.url, "edits", image.contentType);
+  const url = (await persistFile(image.url, "edits", image.contentType)) ?? image.url;
+  const costUsd = estimateCostUsd(1, 1, settings.resolution, settings.enableWebSearch, providerName, model);
+  await appendLog({
+    ...entry,
+    timestamp: new Date().toISOString(),
+    status: "completed",
+    durationMs: Date.now() - startTime,
+    resultUrl: url,
+    width: image.width,
+    height: image.height,
+    requestId: result.requestId,
+    cost: costUsd * usdToIls,
+    costUsd,
+    exchangeRate: usdToIls,
+  }).catch((error) => console.warn("[edit] Failed to log edit:", error));
 
-  return NextResponse.json({
-    image: {
-      url: permanentUrl ?? image.url,
-      contentType: image.contentType,
-      width: image.width,
-      height: image.height,
-    },
+  return {
+    image: { url, contentType: image.contentType, width: image.width, height: image.height },
     seed: result.seed,
     requestId: result.requestId,
-  });
+  };
 }
 
-async function handleParallelEdit(body: ParallelEditRequestBody) {
-  const { imageUrl, variations, settings } = body;
-  const providerName = (body.provider as Provider) ?? "fal";
-  const provider = getProvider(providerName);
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
 
-  const results = await Promise.allSettled(
-    variations.map(async (variation) => {
-      const result = await provider.editImage({
-        prompt: variation.prompt,
-        imageUrls: [imageUrl],
-        resolution: settings.resolution,
-        aspectRatio: settings.aspectRatio,
-        outputFormat: settings.outputFormat,
-        safetyTolerance: settings.safetyTolerance,
-        enableWebSearch: settings.enableWebSearch,
-        seed: settings.seed,
-      });
+    const images = inputImages(body);
+    if (images.length === 0 || images.length > MAX_COMPOSITION_IMAGES) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_COMPOSITION_IMAGES} input images are supported` },
+        { status: 400 }
+      );
+    }
+    if (body.maskUrl && images.length > 1) {
+      return NextResponse.json({ error: "A mask applies to a single input image" }, { status: 400 });
+    }
+
+    const editCount = body.variations?.length ?? 1;
+    const { rate } = await getExchangeRate();
+    // Held while the edits run, so parallel requests can't all fit under one cap; each edit logs its cost
+    const { budget, reservationId } = await reserveBudget(
+      estimateCost(editCount, 1, body.settings.resolution, body.settings.enableWebSearch, body.provider ?? "fal", editModel(body), rate),
+      { batchId: body.batchId, ttlMs: maxDuration * 1000 }
+    );
+    if (!budget.allowed) {
+      return NextResponse.json({ error: describeBudgetExceeded(budget), budget }, { status: 402 });
+    }
+
+    try {
+      // Parallel mode: multiple variations
+      if (body.variations) {
+        return await handleParallelEdit(body as ParallelEditRequestBody, rate);
+      }
 
-      const image = result.images[0];
-      const permanentUrl = await persistFile(image.url, "edits", image.contentType);
-
-      return {
-        label: variation.label,
-        prompt: variation.prompt,
-        image: {
-          url: permanentUrl ?? image.url,
-          contentType: image.contentType,
-          width: image.width,
-          height: image.height,
-        },
-        seed: result.seed,
-        requestId: result.requestId,
-      };
-    })
+      // Single edit
+      return await handleSingleEdit(body as EditRequestBody, rate);
+    } finally {
+      await releaseBudget(reservationId).catch(() => undefined);
+    }
+  } catch (error) {
+    const errorCategory = getErrorCategory(error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Edit failed", errorCategory },
+      { status: errorCategory === "invalid_input" ? 400 : 500 }
+    );
+  }
+}
+
+async function handleSingleEdit(body: EditRequestBody, usdToIls: number) {
+  return NextResponse.json(await runEdit(body, body.prompt, usdToIls));
+}
+
+async function handleParallelEdit(body: ParallelEditRequestBody, usdToIls: number) {
+  const { variations } = body;
+
+  const results = await Promise.allSettled(
+    variations.map(async (variation) => ({
+      label: variation.label,
+      prompt: variation.prompt,
+      ...(await runEdit(body, variation.prompt, usdToIls)),
+    }))
   );
 
-  const successResults: Array<{
-    label: string;
-    prompt: string;
-    image: { url: string; contentType: string; width: number; height: number };
-    seed?: number;
-    requestId?: string;
-  }> = [];
+  const successResults: Array<EditResult & { label: string; prompt: string }> = [];
 
-  const failedResults: Array<{ label: string; error: string }> = [];
+  const failedResults: Array<{ label: string; error: string; errorCategory: ProviderErrorCategory }> = [];
 
   for (let i = 0; i < results.length; i++) {
     const r = results[i];
@@ -135,6 +225,7 @@ async function handleParallelEdit(body: ParallelEditRequestBody) {
       failedResults.push({
         label: variations[i]?.label ?? `Variation ${i + 1}`,
         error: r.reason instanceof Error ? r.reason.message : "Unknown error",
+        errorCategory: getErrorCategory(r.reason),
       });
     }
   }
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { getExchangeRate } from "@/lib/exchange-rate";
+
+export async function GET() {
+  return NextResponse.json(await getExchangeRate());
+}
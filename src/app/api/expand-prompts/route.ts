@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GeminiProvider } from "@/lib/providers/gemini-provider";
+import { getErrorCategory } from "@/lib/providers/errors";
+import { GEMINI_CONCURRENCY, GEMINI_EXPAND_SYSTEM_PROMPT, MAX_EXPAND_PROMPTS } from "@/lib/constants";
+
+export const maxDuration = 120;
+
+interface ExpandRequest {
+  prompts: string[];
+  /** Overrides the default rewriting instructions */
+  systemPrompt?: string;
+}
+
+/** Rewrite short image prompts into detailed ones, in order. */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as ExpandRequest;
+    const prompts = body.prompts ?? [];
+
+    if (prompts.length === 0 || prompts.length > MAX_EXPAND_PROMPTS) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_EXPAND_PROMPTS} prompts are supported` },
+        { status: 400 }
+      );
+    }
+    if (!prompts.every((prompt) => typeof prompt === "string" && prompt.trim())) {
+      return NextResponse.json({ error: "Prompts must be non-empty strings" }, { status: 400 });
+    }
+
+    const provider = new GeminiProvider();
+    const systemPrompt = body.systemPrompt || GEMINI_EXPAND_SYSTEM_PROMPT;
+    const expanded: string[] = [];
+    for (let i = 0; i < prompts.length; i += GEMINI_CONCURRENCY) {
+      const chunk = prompts.slice(i, i + GEMINI_CONCURRENCY);
+      expanded.push(...(await Promise.all(chunk.map((text) => provider.generateText({ systemPrompt, text })))));
+    }
+
+    return NextResponse.json({ prompts: expanded });
+  } catch (error) {
+    console.error("[expand-prompts] Error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to expand prompts",
+        errorCategory: getErrorCategory(error),
+      },
+      { status: 500 }
+    );
+  }
+}
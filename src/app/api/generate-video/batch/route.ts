@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getVideoBatchStatus, kickVideoPoller } from "@/lib/video-tasks";
+import type { VideoBatchStatus } from "@/types/video";
+
+/**
+ * Server-side state of a video batch's tasks, so the gallery can resume after
+ * a reload. Restarts the poller if tasks are in flight and nothing tracks them.
+ */
+export async function GET(request: NextRequest) {
+  const batchId = request.nextUrl.searchParams.get("batchId");
+  if (!batchId) {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  try {
+    const { tasks, polling, needsPoller } = await getVideoBatchStatus(batchId);
+    if (needsPoller) {
+      const origin = request.nextUrl.origin;
+      after(() => kickVideoPoller(batchId, origin));
+    }
+    const status: VideoBatchStatus = {
+      batchId,
+      polling: polling || needsPoller,
+      tasks: tasks.map(({ taskId, index, state, videoUrl, error, createdAt }) => ({
+        taskId,
+        index,
+        state,
+        videoUrl,
+        error,
+        createdAt,
+      })),
+    };
+    return NextResponse.json(status);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load video batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { KieProvider } from "@/lib/providers/kie-provider";
-import { persistFile } from "@/lib/supabase-storage";
+import { refreshVideoTask } from "@/lib/video-tasks";
 
 export const maxDuration = 60;
 
@@ -15,21 +14,6 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ results: [] });
   }
 
-  const provider = new KieProvider();
-
-  const results = await Promise.all(
-    taskIds.map((taskId) => provider.pollVideoTask(taskId))
-  );
-
-  const persistedResults = await Promise.all(
-    results.map(async (result) => {
-      if (result.state === "success" && result.videoUrl) {
-        const permanentUrl = await persistFile(result.videoUrl, "videos", "video/mp4");
-        return { ...result, videoUrl: permanentUrl ?? result.videoUrl };
-      }
-      return result;
-    })
-  );
-
-  return NextResponse.json({ results: persistedResults });
+  const results = await Promise.all(taskIds.map((taskId) => refreshVideoTask(taskId)));
+  return NextResponse.json({ results });
 }
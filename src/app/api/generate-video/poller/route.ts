@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { runVideoPoller } from "@/lib/video-tasks";
+
+export const maxDuration = 300;
+
+/**
+ * Tracks a video batch's tasks in the background of this invocation. Called
+ * when tasks are created, by the batch status endpoint when nothing is
+ * polling, and by the poller itself when it runs out of time.
+ */
+export async function POST(request: NextRequest) {
+  const { batchId } = (await request.json()) as { batchId?: string };
+  if (!batchId) {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  const origin = request.nextUrl.origin;
+  after(async () => {
+    try {
+      await runVideoPoller(batchId, origin);
+    } catch (err) {
+      console.error(`[generate-video/poller] Batch ${batchId} failed:`, err);
+    }
+  });
+
+  return NextResponse.json({ batchId, accepted: true }, { status: 202 });
+}
@@ -1,34 +1,142 @@
-import { NextRequest, NextResponse } from "next/server";
-import { KieProvider } from "@/lib/providers/kie-provider";
+import { NextRequest, NextResponse, after } from "next/server";
+import { getVideoProvider } from "@/lib/providers";
+import { getErrorCategory } from "@/lib/providers/errors";
+import { releaseBudget, reserveBudget } from "@/lib/budget";
+import { getExchangeRate } from "@/lib/exchange-rate";
+import { recordVideoTaskCreated, recordVideoTaskRejected, type VideoTaskInput } from "@/lib/video-log";
+import { kickVideoPoller } from "@/lib/video-tasks";
+import { generateFirstFrame } from "@/lib/first-frame";
+import {
+  estimateCostUsd,
+  estimateVideoCostUsd,
+  getVideoModel,
+  isVideoConfigValid,
+  supportsVideoFrames,
+  VIDEO_TASK_MAX_AGE_MS,
+} from "@/lib/constants";
+import { describeBudgetExceeded } from "@/lib/format-utils";
+import type { GenerationSettings } from "@/types/generation";
 
-export const maxDuration = 30;
+// Generating a first frame can take a minute or more before the task is created
+export const maxDuration = 300;
 
 interface CreateTaskRequest {
+  batchId?: string;
   index: number;
-  imageUrl: string;
+  /** Source image; omitted for text-to-video */
+  imageUrl?: string;
+  /** Last frame and intermediate keyframes, for models that take them */
+  endImageUrl?: string;
+  keyframeUrls?: string[];
+  /** Text-to-video: generate the source image from the prompt with these image settings first */
+  firstFrameSettings?: GenerationSettings;
   prompt: string;
-  duration: "6" | "10";
-  resolution: "768P" | "1080P";
+  duration: string;
+  resolution: string;
+  aspectRatio?: string;
+  /** Video model id; legacy "pro" / "standard" values are accepted */
   model?: string;
 }
 
 export async function POST(request: NextRequest) {
   const body = (await request.json()) as CreateTaskRequest;
-  const { index, imageUrl, prompt, duration, resolution, model } = body;
-  const provider = new KieProvider();
+  const { batchId, index, prompt, duration, resolution, aspectRatio, firstFrameSettings, endImageUrl, keyframeUrls } = body;
+  const model = getVideoModel(body.model);
+
+  if (!isVideoConfigValid(duration, resolution, model.id, aspectRatio)) {
+    return NextResponse.json(
+      { index, error: `${model.label} does not support ${duration}s at ${resolution}${aspectRatio ? ` (${aspectRatio})` : ""}` },
+      { status: 400 }
+    );
+  }
+
+  if (!supportsVideoFrames(model.id, { endImageUrl, keyframeUrls })) {
+    return NextResponse.json({ index, error: `${model.label} does not take an end frame or this many keyframes` }, { status: 400 });
+  }
+
+  // MOCK_VIDEO=true routes video tasks to the offline mock provider
+  const useMock = process.env.MOCK_VIDEO === "true";
+  const frameSettings = body.imageUrl ? undefined : firstFrameSettings;
+  if (!body.imageUrl && !frameSettings && !model.textToVideoEndpoint && !useMock) {
+    return NextResponse.json({ index, error: `${model.label} needs a source image or a generated first frame` }, { status: 400 });
+  }
+
+  const { rate } = await getExchangeRate();
+  const costUsd = useMock ? 0 : estimateVideoCostUsd(1, duration, resolution, model.id);
+  const frameCostUsd = frameSettings
+    ? estimateCostUsd(1, 1, frameSettings.resolution, frameSettings.enableWebSearch, frameSettings.provider, frameSettings.model)
+    : 0;
+
+  // Held until the task's cost is logged when it finishes (or it is no longer tracked),
+  // so tasks started in parallel or still running count against the caps
+  const { budget, reservationId } = await reserveBudget((costUsd + frameCostUsd) * rate, {
+    batchId,
+    ttlMs: VIDEO_TASK_MAX_AGE_MS,
+  });
+  if (!budget.allowed) {
+    return NextResponse.json({ index, error: describeBudgetExceeded(budget), budget }, { status: 402 });
+  }
+
+  let imageUrl = body.imageUrl;
+  if (frameSettings) {
+    try {
+      imageUrl = (await generateFirstFrame(prompt, frameSettings, { batchId, index }, rate)).url;
+      // The frame is logged with its cost; keep holding the video's
+      await releaseBudget(reservationId, costUsd * rate);
+    } catch (error) {
+      await releaseBudget(reservationId).catch(() => undefined);
+      return NextResponse.json(
+        { index, error: `First frame failed: ${error instanceof Error ? error.message : "Unknown error"}`, errorCategory: getErrorCategory(error) },
+        { status: 500 }
+      );
+    }
+  }
+
+  const providerName = useMock ? "mock" : model.provider;
+  const provider = getVideoProvider(providerName);
+
+  const task: VideoTaskInput = {
+    provider: providerName,
+    batchId,
+    index,
+    prompt,
+    imageUrl,
+    endImageUrl,
+    keyframeUrls,
+    duration,
+    resolution,
+    aspectRatio,
+    model: model.id,
+    costUsd,
+    exchangeRate: rate,
+    ...(reservationId && { reservationId }),
+  };
 
   try {
     const { taskId } = await provider.createVideoTask({
       prompt,
       imageUrl,
+      endImageUrl,
+      keyframeUrls,
       duration,
       resolution,
-      model,
+      aspectRatio,
+      model: model.id,
     });
-    return NextResponse.json({ index, taskId });
+    await recordVideoTaskCreated(taskId, task).catch((error) =>
+      console.warn(`[generate-video] Failed to record task ${taskId}:`, error)
+    );
+    if (batchId) {
+      // The server tracks the task from here, whether or not the browser keeps polling
+      const origin = request.nextUrl.origin;
+      after(() => kickVideoPoller(batchId, origin));
+    }
+    return NextResponse.json({ index, taskId, imageUrl });
   } catch (error) {
+    await releaseBudget(reservationId).catch(() => undefined);
+    await recordVideoTaskRejected(task, error).catch(() => undefined);
     return NextResponse.json(
-      { index, error: error instanceof Error ? error.message : "Unknown error" },
+      { index, error: error instanceof Error ? error.message : "Unknown error", errorCategory: getErrorCategory(error) },
       { status: 500 }
     );
   }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { renderStoryboard } from "@/lib/storyboard";
+import { isAllowedMediaUrl } from "@/lib/media-hosts";
+import { MAX_STORYBOARD_CLIPS, STORYBOARD_TRANSITION_LABELS } from "@/lib/constants";
+import type { StoryboardClip, StoryboardTransition } from "@/types/video";
+
+export const maxDuration = 300;
+
+interface StoryboardRequestBody {
+  /** Clips in playing order */
+  clips: StoryboardClip[];
+  transition?: StoryboardTransition;
+}
+
+/** Render a video batch's clips into one MP4 reel, stored under "videos". */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as StoryboardRequestBody;
+
+    const clips = body.clips ?? [];
+    if (clips.length === 0 || clips.length > MAX_STORYBOARD_CLIPS) {
+      return NextResponse.json({ error: `Between 1 and ${MAX_STORYBOARD_CLIPS} clips are supported` }, { status: 400 });
+    }
+    if (!clips.every((clip) => typeof clip?.videoUrl === "string" && clip.videoUrl)) {
+      return NextResponse.json({ error: "Every clip needs a videoUrl" }, { status: 400 });
+    }
+    const refused = clips.find((clip) => !isAllowedMediaUrl(clip.videoUrl));
+    if (refused) {
+      return NextResponse.json({ error: `Clip URL is not on an allowed host: ${refused.videoUrl}` }, { status: 400 });
+    }
+    const transition = body.transition ?? "cut";
+    if (!(transition in STORYBOARD_TRANSITION_LABELS)) {
+      return NextResponse.json({ error: `Unknown transition: ${transition}` }, { status: 400 });
+    }
+
+    const result = await renderStoryboard(clips, transition);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[generate-video/storyboard] Render failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Storyboard render failed" },
+      { status: 500 }
+    );
+  }
+}
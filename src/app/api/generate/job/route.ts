@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadJob } from "@/lib/file-utils";
+
+/**
+ * A batch job's status and per-item progress, without subscribing to its
+ * events. The client checks it after a reload to decide whether to re-attach.
+ */
+export async function GET(request: NextRequest) {
+  const batchId = request.nextUrl.searchParams.get("batchId");
+  if (!batchId) {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  const job = await loadJob(batchId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    batchId,
+    status: job.status,
+    items: job.items.map(({ index, status, outcome }) => ({ index, status, ...(outcome && { outcome }) })),
+  });
+}
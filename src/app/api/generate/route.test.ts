@@ -0,0 +1,207 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { DEFAULT_SETTINGS } from "@/lib/constants";
+import type { GenerationEvent, GenerationRequest, GenerationSettings, Provider } from "@/types/generation";
+
+// Jobs and logs are written under <cwd>/data, so run against a scratch directory.
+// Modules that read the data dir are imported after cwd is redirected.
+let dataRoot: string;
+let route: typeof import("./route");
+let jobRoute: typeof import("./job/route");
+let runBatchJob: typeof import("@/lib/batch-worker").runBatchJob;
+
+const settings: GenerationSettings = {
+  ...DEFAULT_SETTINGS,
+  provider: "kie",
+  model: "nano-banana-pro",
+  concurrency: 2,
+  retryPolicy: { ...DEFAULT_SETTINGS.retryPolicy, maxAttempts: 1 },
+};
+
+/** Stand-in for the network: the worker route runs in-process, Kie answers from fixtures. */
+async function fakeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+
+  if (url.pathname === "/api/generate/worker") {
+    const { batchId } = JSON.parse(String(init?.body));
+    void runBatchJob(batchId, url.origin);
+    return Response.json({ batchId, accepted: true }, { status: 202 });
+  }
+
+  if (url.pathname.endsWith("/createTask")) {
+    const { input: kieInput } = JSON.parse(String(init?.body));
+    if (kieInput.prompt.includes("rate limited")) {
+      return new Response("Too many requests", { status: 429 });
+    }
+    return Response.json({ code: 200, data: { taskId: `task-${kieInput.prompt.replace(/\W+/g, "-")}` } });
+  }
+
+  if (url.pathname.endsWith("/recordInfo")) {
+    const taskId = url.searchParams.get("taskId");
+    return Response.json({
+      code: 200,
+      data: { state: "success", resultJson: JSON.stringify({ resultUrls: [`https://kie.example/${taskId}.png`] }) },
+    });
+  }
+
+  // Result download in persistFile (Supabase is not configured, so the temp URL is kept)
+  return new Response("image-bytes", { headers: { "Content-Type": "image/png" } });
+}
+
+interface SSEMessage {
+  id: number | null;
+  event: GenerationEvent;
+}
+
+async function readSSE(response: Response): Promise<SSEMessage[]> {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter((block) => block.includes("data: "))
+    .map((block) => {
+      const lines = block.split("\n");
+      const id = lines.find((l) => l.startsWith("id: "))?.slice(4);
+      const data = lines.find((l) => l.startsWith("data: "))!.slice(6);
+      return { id: id !== undefined ? Number(id) : null, event: JSON.parse(data) };
+    });
+}
+
+function submit(batchId: string, prompts: string[]): Promise<Response> {
+  const body: GenerationRequest = { batchId, prompts, settings };
+  return route.POST(
+    new NextRequest("http://localhost:3000/api/generate", { method: "POST", body: JSON.stringify(body) })
+  );
+}
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-test-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  vi.stubEnv("VERCEL", "");
+  vi.stubEnv("KIE_KEY", "test-key");
+  vi.stubEnv("SUPABASE_URL", "");
+  vi.stubEnv("USD_TO_ILS_RATE", "3.6");
+  vi.stubGlobal("fetch", vi.fn(fakeFetch));
+
+  route = await import("./route");
+  jobRoute = await import("./job/route");
+  ({ runBatchJob } = await import("@/lib/batch-worker"));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("/api/generate", () => {
+  it("streams image updates until the batch completes", { timeout: 30000 }, async () => {
+    const response = await submit("batch-sse", ["a red fox", "rate limited cat"]);
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const messages = await readSSE(response);
+
+    // Every event carries its position in the job's event log
+    expect(messages.map((m) => m.id)).toEqual(messages.map((_, i) => i));
+    expect(messages.at(-1)!.event).toEqual({ type: "batch_complete" });
+
+    const updatesFor = (index: number) =>
+      messages.map((m) => m.event).filter((e) => e.type === "image_update" && e.index === index);
+
+    const fox = updatesFor(0);
+    expect(fox[0]).toMatchObject({ status: "queued", attempt: 1 });
+    expect(fox.at(-1)).toMatchObject({
+      status: "completed",
+      image: { url: "https://kie.example/task-a-red-fox.png" },
+      requestId: "task-a-red-fox",
+      attempt: 1,
+    });
+
+    const cat = updatesFor(1);
+    expect(cat.at(-1)).toMatchObject({ status: "failed", errorCategory: "rate_limited", attempt: 1 });
+    expect(cat.at(-1)!.error).toContain("429");
+  });
+
+  it("replays only events after Last-Event-ID on reconnect", { timeout: 30000 }, async () => {
+    const all = await readSSE(await submit("batch-replay", ["a blue whale"]));
+    expect(all.length).toBeGreaterThan(2);
+
+    const response = await route.GET(
+      new NextRequest("http://localhost:3000/api/generate?batchId=batch-replay", {
+        headers: { "Last-Event-ID": "1" },
+      })
+    );
+    const replayed = await readSSE(response);
+
+    expect(replayed.map((m) => m.id)).toEqual(all.slice(2).map((m) => m.id));
+    expect(replayed.map((m) => m.event)).toEqual(all.slice(2).map((m) => m.event));
+  });
+
+  it("refuses a batch that would exceed a spend cap", async () => {
+    vi.stubEnv("BUDGET_BATCH_LIMIT_ILS", "0.1");
+    try {
+      const response = await submit("batch-over-budget", ["an expensive castle"]);
+      expect(response.status).toBe(402);
+      const body = await response.json();
+      expect(body.budget).toMatchObject({ allowed: false, exceeded: { scope: "batch", limit: 0.1, spent: 0 } });
+    } finally {
+      vi.stubEnv("BUDGET_BATCH_LIMIT_ILS", "");
+    }
+  });
+
+  it("refuses a provider this deployment doesn't serve", async () => {
+    const body: GenerationRequest = {
+      batchId: "batch-unavailable-provider",
+      prompts: ["a red fox", "a blue whale"],
+      settings,
+      overrides: [undefined, { provider: "retired" as Provider }],
+    };
+    const response = await route.POST(
+      new NextRequest("http://localhost:3000/api/generate", { method: "POST", body: JSON.stringify(body) })
+    );
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Provider not available: retired" });
+
+    const job = await jobRoute.GET(
+      new NextRequest("http://localhost:3000/api/generate/job?batchId=batch-unavailable-provider")
+    );
+    expect(job.status).toBe(404);
+  });
+
+  it("requeues only failed items when a batch is resubmitted", { timeout: 30000 }, async () => {
+    await readSSE(await submit("batch-resubmit", ["a green frog", "rate limited owl"]));
+
+    // A client resuming after a reload sends every prompt it has no result for
+    const messages = await readSSE(await submit("batch-resubmit", ["a green frog", "rate limited owl"]));
+    const updatedIndices = new Set(
+      messages.map((m) => m.event).flatMap((e) => (e.type === "image_update" ? [e.index] : []))
+    );
+    expect([...updatedIndices]).toEqual([1]);
+
+    const job = await jobRoute.GET(
+      new NextRequest("http://localhost:3000/api/generate/job?batchId=batch-resubmit")
+    );
+    expect(await job.json()).toEqual({
+      batchId: "batch-resubmit",
+      status: "completed",
+      items: [
+        { index: 0, status: "done", outcome: "completed" },
+        { index: 1, status: "done", outcome: "failed" },
+      ],
+    });
+  });
+
+  it("reports an unknown batch on reconnect", async () => {
+    const response = await route.GET(
+      new NextRequest("http://localhost:3000/api/generate?batchId=missing")
+    );
+    const messages = await readSSE(response);
+    expect(messages).toEqual([{ id: null, event: { type: "batch_error", error: "Job missing not found" } }]);
+  });
+});
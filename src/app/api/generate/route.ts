@@ -1,177 +1,153 @@
-import { NextRequest } from "next/server";
-import { appendLog } from "@/lib/file-utils";
-import { PRICING, KIE_PRICING, WEB_SEARCH_ADDON_PRICE, USD_TO_ILS, MAX_CONCURRENCY } from "@/lib/constants";
-import { getProvider } from "@/lib/providers";
-import { persistFile } from "@/lib/supabase-storage";
-import type { GenerationRequest, GenerationEvent } from "@/types/generation";
-import type { LogEntry } from "@/types/log";
+import { NextRequest, NextResponse } from "next/server";
+import { countJobEvents, updateJob } from "@/lib/file-utils";
+import { kickBatchJob } from "@/lib/batch-worker";
+import { hasProvider } from "@/lib/providers";
+import { createJobEventStream, parseLastEventId } from "@/lib/job-stream";
+import { checkBudget } from "@/lib/budget";
+import { getExchangeRate } from "@/lib/exchange-rate";
+import { estimatePromptsCost } from "@/lib/prompt-overrides";
+import { describeBudgetExceeded } from "@/lib/format-utils";
+import type { GenerationRequest } from "@/types/generation";
+import type { BatchJob, JobItem } from "@/types/job";
 
 export const maxDuration = 300;
 
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+/**
+ * Whether a resubmitted item goes back in the queue. In-flight items are left
+ * alone, and so are completed ones, which would otherwise be generated (and
+ * billed) again when a client resumes with a stale view of the batch.
+ */
+function isRequeueable(item: JobItem): boolean {
+  if (item.status === "running" || item.status === "submitted") return false;
+  return item.status !== "done" || item.outcome !== "completed";
+}
+
+/**
+ * Submit prompts as a server-owned job (or add them to an existing one) and
+ * subscribe to its events. Processing continues if the client disconnects.
+ */
 export async function POST(request: NextRequest) {
   const body = (await request.json()) as GenerationRequest;
-  const { batchId, prompts, settings } = body;
-  const concurrency = Math.min(Math.max(settings.concurrency ?? 1, 1), MAX_CONCURRENCY);
-  const providerName = settings.provider ?? "fal";
-  const provider = getProvider(providerName);
-  const pricingTable = providerName === "kie" ? KIE_PRICING : PRICING;
-
-  const encoder = new TextEncoder();
-  const stream = new ReadableStream({
-    async start(controller) {
-      const sendEvent = (event: GenerationEvent) => {
-        try {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
-        } catch {
-          // Stream closed
-        }
-      };
-
-      // Shared index counter for worker pool
-      let nextIndex = 0;
-
-      async function processImage(i: number): Promise<void> {
-        const fullPrompt = [settings.promptPrefix, prompts[i], settings.promptSuffix]
-          .filter(Boolean)
-          .join(" ")
-          .trim();
-
-        const startTime = Date.now();
-
-        sendEvent({ type: "image_update", index: i, status: "queued" });
-
-        try {
-          const result = await provider.generateImage(
-            {
-              prompt: fullPrompt,
-              resolution: settings.resolution,
-              aspectRatio: settings.aspectRatio,
-              outputFormat: settings.outputFormat,
-              safetyTolerance: settings.safetyTolerance,
-              numImages: providerName === "kie" ? 1 : settings.numImages,
-              seed: settings.seed,
-              enableWebSearch: settings.enableWebSearch,
-              referenceImageUrls: settings.referenceImageUrls,
-            },
-            (status) => {
-              sendEvent({ type: "image_update", index: i, status });
-            }
-          );
-
-          const durationMs = Date.now() - startTime;
-          const image = result.images[0];
-          const permanentUrl = await persistFile(image.url, "images", image.contentType);
-          const finalUrl = permanentUrl ?? image.url;
-
-          sendEvent({
-            type: "image_update",
-            index: i,
-            status: "completed",
-            image: {
-              url: finalUrl,
-              contentType: image.contentType,
-              width: image.width,
-              height: image.height,
-            },
-            seed: result.seed,
-            requestId: result.requestId,
-            durationMs,
-          });
-
-          const logEntry: LogEntry = {
-            timestamp: new Date().toISOString(),
-            batchId,
-            imageIndex: i,
-            prompt: fullPrompt,
-            parameters: {
-              provider: providerName,
-              resolution: settings.resolution,
-              aspectRatio: settings.aspectRatio,
-              outputFormat: settings.outputFormat,
-              safetyTolerance: settings.safetyTolerance,
-              numImages: settings.numImages,
-              seed: settings.seed,
-              enableWebSearch: settings.enableWebSearch,
-              hasReferenceImages: settings.referenceImageUrls.length > 0,
-            },
-            status: "completed",
-            durationMs,
-            resultUrl: finalUrl,
-            width: image.width,
-            height: image.height,
-            requestId: result.requestId,
-            cost: ((pricingTable[settings.resolution] ?? 0.15) + (providerName === "fal" && settings.enableWebSearch ? WEB_SEARCH_ADDON_PRICE : 0)) * USD_TO_ILS,
-          };
-          await appendLog(logEntry);
-        } catch (error) {
-          const durationMs = Date.now() - startTime;
-          const errorMessage = error instanceof Error ? error.message : "Unknown error";
-
-          sendEvent({
-            type: "image_update",
-            index: i,
-            status: "failed",
-            error: errorMessage,
-            durationMs,
-          });
-
-          const logEntry: LogEntry = {
-            timestamp: new Date().toISOString(),
-            batchId,
-            imageIndex: i,
-            prompt: fullPrompt,
-            parameters: {
-              provider: providerName,
-              resolution: settings.resolution,
-              aspectRatio: settings.aspectRatio,
-              outputFormat: settings.outputFormat,
-              safetyTolerance: settings.safetyTolerance,
-              numImages: settings.numImages,
-              seed: settings.seed,
-              enableWebSearch: settings.enableWebSearch,
-              hasReferenceImages: settings.referenceImageUrls.length > 0,
-            },
-            status: "failed",
-            durationMs,
-            error: errorMessage,
-            cost: 0,
-          };
-          await appendLog(logEntry);
-        }
+  const { batchId, prompts, settings, indices, overrides } = body;
+
+  // Saved settings or per-prompt overrides can name a provider this deployment doesn't serve
+  const providers = new Set([
+    settings.provider ?? "fal",
+    ...(overrides ?? []).flatMap((override) => (override?.provider ? [override.provider] : [])),
+  ]);
+  const unavailable = [...providers].filter((provider) => !hasProvider(provider));
+  if (unavailable.length > 0) {
+    return NextResponse.json({ error: `Provider not available: ${unavailable.join(", ")}` }, { status: 400 });
+  }
+
+  // Refuse up front if the submitted prompts would push spend past a cap
+  const { rate } = await getExchangeRate();
+  const budget = await checkBudget(
+    estimatePromptsCost(settings, prompts.map((_, i) => overrides?.[i]), rate),
+    batchId
+  );
+  if (!budget.allowed) {
+    return NextResponse.json({ error: describeBudgetExceeded(budget), budget }, { status: 402 });
+  }
+
+  const submitted: JobItem[] = prompts.map((prompt, i) => ({
+    index: indices?.[i] ?? i,
+    prompt,
+    ...(overrides?.[i] && { overrides: overrides[i] }),
+    status: "pending",
+  }));
+
+  // A job that already finished starts a new run; its old events are not replayed
+  const eventCount = await countJobEvents(batchId);
+
+  await updateJob(batchId, (current) => {
+    const now = new Date().toISOString();
+    if (!current) {
+      return {
+        batchId,
+        status: "queued",
+        settings,
+        items: submitted,
+        createdAt: now,
+        updatedAt: now,
+        runEventOffset: eventCount,
+      } satisfies BatchJob;
+    }
+
+    const isTerminal = current.status === "completed" || current.status === "cancelled";
+    const items = [...current.items];
+    for (const item of submitted) {
+      const existing = items.findIndex((it) => it.index === item.index);
+      if (existing === -1) {
+        items.push(item);
+      } else if (isRequeueable(items[existing])) {
+        items[existing] = item;
       }
+    }
+
+    return {
+      ...current,
+      status: isTerminal ? "queued" : current.status,
+      settings,
+      items,
+      runEventOffset: isTerminal ? eventCount : current.runEventOffset,
+    };
+  });
 
-      // Worker pool: each worker grabs the next available index
-      async function worker(): Promise<void> {
-        while (nextIndex < prompts.length) {
-          if (request.signal.aborted) return;
-          const i = nextIndex++;
-          if (i >= prompts.length) return;
-          await processImage(i);
-        }
-      }
-
-      // Launch N workers in parallel
-      const workers = Array.from(
-        { length: Math.min(concurrency, prompts.length) },
-        () => worker()
-      );
-      await Promise.all(workers);
-
-      sendEvent({ type: "batch_complete" });
+  const origin = request.nextUrl.origin;
+  await kickBatchJob(batchId, origin);
 
-      try {
-        controller.close();
-      } catch {
-        // Already closed
-      }
-    },
+  const stream = createJobEventStream(batchId, {
+    signal: request.signal,
+    origin,
+    workerKicked: true,
   });
+  return new Response(stream, { headers: SSE_HEADERS });
+}
 
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
+/**
+ * Re-subscribe to a job's events, e.g. after a reload or a dropped connection.
+ * Send Last-Event-ID (header or `lastEventId` param) to receive only missed events.
+ */
+export async function GET(request: NextRequest) {
+  const batchId = request.nextUrl.searchParams.get("batchId");
+  if (!batchId) {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  const lastEventId = parseLastEventId(
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId")
+  );
+
+  const stream = createJobEventStream(batchId, {
+    signal: request.signal,
+    origin: request.nextUrl.origin,
+    lastEventId,
   });
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/** Cancel (pause) a job. Images already in flight finish and are logged. */
+export async function DELETE(request: NextRequest) {
+  const batchId = request.nextUrl.searchParams.get("batchId");
+  if (!batchId) {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  const job = await updateJob(batchId, (current) =>
+    current && current.status !== "completed"
+      ? { ...current, status: "cancelled" }
+      : null
+  );
+
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  return NextResponse.json({ batchId, status: job.status });
 }
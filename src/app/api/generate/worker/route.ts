@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { runBatchJob } from "@/lib/batch-worker";
+
+export const maxDuration = 300;
+
+/**
+ * Runs a batch job in the background of this invocation. Called by
+ * /api/generate on submit, and by the worker itself to continue a job
+ * that outlived one invocation.
+ */
+export async function POST(request: NextRequest) {
+  const { batchId } = (await request.json()) as { batchId?: string };
+  if (!batchId) {
+    return NextResponse.json({ error: "Missing batchId" }, { status: 400 });
+  }
+
+  const origin = request.nextUrl.origin;
+  after(async () => {
+    try {
+      await runBatchJob(batchId, origin);
+    } catch (err) {
+      console.error(`[generate/worker] Job ${batchId} failed:`, err);
+    }
+  });
+
+  return NextResponse.json({ batchId, accepted: true }, { status: 202 });
+}
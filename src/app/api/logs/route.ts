@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { readLogs } from "@/lib/file-utils";
 
+/**
+ * One day's log entries (`date`, default today) as an array, optionally for
+ * one `batchId`. Ranged, filtered and paginated queries: /api/logs/search.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseLogQuery, queryLogs, queryLogsPage } from "@/lib/log-query";
+import { LOG_QUERY_DEFAULT_LIMIT, LOG_QUERY_MAX_LIMIT } from "@/lib/constants";
+
+export const maxDuration = 60;
+
+/**
+ * Log entries for `from`..`to` (or a single `date`), filtered by provider,
+ * status, kind, batchId, requestId and prompt substring `q`. Returns a page of
+ * `limit` entries with `nextCursor`; `format=ndjson` streams every match
+ * (up to `limit`, if given) as one JSON object per line.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = parseLogQuery(params);
+  if ("error" in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : null;
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+
+  if (params.get("format") === "ndjson") {
+    const encoder = new TextEncoder();
+    const entries = queryLogs(query);
+    let sent = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await entries.next();
+          if (done || (limit !== null && sent >= limit)) {
+            await entries.return(undefined);
+            controller.close();
+            return;
+          }
+          sent++;
+          controller.enqueue(encoder.encode(JSON.stringify(value.entry) + "\n"));
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await entries.return(undefined);
+      },
+    });
+    return new Response(stream, {
+      headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-cache" },
+    });
+  }
+
+  try {
+    const page = await queryLogsPage(query, Math.min(limit ?? LOG_QUERY_DEFAULT_LIMIT, LOG_QUERY_MAX_LIMIT));
+    return NextResponse.json(page);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read logs" },
+      { status: 500 }
+    );
+  }
+}
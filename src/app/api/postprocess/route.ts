@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getErrorCategory } from "@/lib/providers";
+import { isAllowedSourceUrl, runPostProcess, type PostProcessProviderStep } from "@/lib/postprocess";
+import { appendLog } from "@/lib/file-utils";
+import { checkBudget } from "@/lib/budget";
+import { getExchangeRate } from "@/lib/exchange-rate";
+import { ASPECT_RATIOS, MAX_POSTPROCESS_OPERATIONS, OUTPUT_FORMATS, estimatePostProcessCostUsd } from "@/lib/constants";
+import { describeBudgetExceeded, describePostProcess } from "@/lib/format-utils";
+import type { Provider } from "@/types/generation";
+import type { LogEntry } from "@/types/log";
+import type { PostProcessOperation } from "@/types/postprocess";
+
+export const maxDuration = 300;
+
+interface PostProcessRequestBody {
+  imageUrl: string;
+  operations: PostProcessOperation[];
+  /** Provider whose models run upscaling and background removal */
+  provider?: string;
+  /** Batch and image being processed, for the log */
+  batchId?: string;
+  imageIndex?: number;
+}
+
+function isValidOperation(op: PostProcessOperation): boolean {
+  switch (op?.type) {
+    case "upscale":
+      return op.scale === 2 || op.scale === 4;
+    case "remove_background":
+      return true;
+    case "crop":
+      return op.aspectRatio !== "auto" && (ASPECT_RATIOS as readonly string[]).includes(op.aspectRatio);
+    case "convert":
+      return OUTPUT_FORMATS.includes(op.format);
+    case "compress":
+      return Number.isInteger(op.quality) && op.quality >= 1 && op.quality <= 100;
+    default:
+      return false;
+  }
+}
+
+/** Log a step that ran on a provider model like a batch image, so it counts toward spend and reconciliation. */
+async function logProviderStep(
+  body: PostProcessRequestBody,
+  provider: Provider,
+  step: PostProcessProviderStep,
+  usdToIls: number
+): Promise<void> {
+  const parameters: LogEntry["parameters"] = {
+    provider,
+    model: step.operation.type,
+    resolution: step.operation.type === "upscale" ? `x${step.operation.scale}` : "",
+    aspectRatio: "",
+    outputFormat: "",
+    safetyTolerance: 0,
+    numImages: 1,
+    enableWebSearch: false,
+    hasReferenceImages: false,
+  };
+  await appendLog({
+    operation: "postprocess",
+    timestamp: new Date().toISOString(),
+    batchId: body.batchId ?? "",
+    imageIndex: body.imageIndex ?? 0,
+    prompt: describePostProcess([step.operation]),
+    parameters,
+    status: "completed",
+    durationMs: step.durationMs,
+    requestId: step.requestId,
+    cost: step.costUsd * usdToIls,
+    costUsd: step.costUsd,
+    exchangeRate: usdToIls,
+  }).catch((error) => console.warn("[postprocess] Failed to log step:", error));
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as PostProcessRequestBody;
+
+    if (!body.imageUrl) {
+      return NextResponse.json({ error: "imageUrl is required" }, { status: 400 });
+    }
+    if (!isAllowedSourceUrl(body.imageUrl)) {
+      return NextResponse.json({ error: `Image URL is not on an allowed host: ${body.imageUrl}` }, { status: 400 });
+    }
+    const operations = body.operations ?? [];
+    if (operations.length === 0 || operations.length > MAX_POSTPROCESS_OPERATIONS) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_POSTPROCESS_OPERATIONS} operations are supported` },
+        { status: 400 }
+      );
+    }
+    if (!operations.every(isValidOperation)) {
+      return NextResponse.json({ error: "Unknown or invalid operation" }, { status: 400 });
+    }
+
+    const provider = (body.provider as Provider) ?? "fal";
+    const { rate } = await getExchangeRate();
+    const budget = await checkBudget(estimatePostProcessCostUsd(operations, provider) * rate);
+    if (!budget.allowed) {
+      return NextResponse.json({ error: describeBudgetExceeded(budget), budget }, { status: 402 });
+    }
+
+    const result = await runPostProcess(body.imageUrl, operations, provider, (step) =>
+      logProviderStep(body, provider, step, rate)
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    const errorCategory = getErrorCategory(error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Post-processing failed", errorCategory },
+      { status: errorCategory === "invalid_input" ? 400 : 500 }
+    );
+  }
+}
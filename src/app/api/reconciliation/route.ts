@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildReconciliationReport, syncFalBilling } from "@/lib/reconciliation";
+import { parseLogRange } from "@/lib/file-utils";
+
+export const maxDuration = 60;
+
+/**
+ * Estimated vs billed cost report for `from`..`to` (YYYY-MM-DD, default: this
+ * month). Fal billing is fetched first unless `sync=0`.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const range = parseLogRange(params, `${new Date().toISOString().slice(0, 7)}-01`);
+  if ("error" in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 });
+  }
+  const { from, to } = range;
+
+  try {
+    let synced: number | null = null;
+    if (params.get("sync") !== "0") {
+      synced = await syncFalBilling(from, to).catch((error) => {
+        console.warn("[reconciliation] Fal billing sync failed:", error);
+        return null;
+      });
+    }
+    const report = await buildReconciliationReport(from, to);
+    return NextResponse.json({ ...report, synced });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Reconciliation failed" },
+      { status: 500 }
+    );
+  }
+}
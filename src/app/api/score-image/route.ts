@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GeminiProvider } from "@/lib/providers/gemini-provider";
+import { getErrorCategory } from "@/lib/providers/errors";
+import { parseQaResponse } from "@/lib/image-review";
+import { GEMINI_QA_SYSTEM_PROMPT } from "@/lib/constants";
+
+export const maxDuration = 60;
+
+interface ScoreRequest {
+  imageUrl: string;
+  /** Prompt the image was generated from */
+  prompt: string;
+}
+
+/** Score a generated image against its prompt (0-10) and list mismatches. */
+export async function POST(request: NextRequest) {
+  try {
+    const { imageUrl, prompt } = (await request.json()) as ScoreRequest;
+
+    if (!imageUrl) {
+      return NextResponse.json({ error: "Missing imageUrl" }, { status: 400 });
+    }
+    if (!prompt) {
+      return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
+    }
+
+    const provider = new GeminiProvider();
+    const answer = await provider.compareImage({ imageUrl, prompt, systemPrompt: GEMINI_QA_SYSTEM_PROMPT });
+
+    return NextResponse.json(parseQaResponse(answer));
+  } catch (error) {
+    console.error("[score-image] Error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to score image",
+        errorCategory: getErrorCategory(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { DEFAULT_SETTINGS } from "@/lib/constants";
+import type { GenerationEvent, GenerationRequest, GenerationSettings } from "@/types/generation";
+
+// Jobs and logs are written under <cwd>/data, so run against a scratch directory.
+// Modules that read the data dir are imported after cwd is redirected.
+let dataRoot: string;
+let route: typeof import("./route");
+let generateRoute: typeof import("@/app/api/generate/route");
+let runBatchJob: typeof import("@/lib/batch-worker").runBatchJob;
+let fileUtils: typeof import("@/lib/file-utils");
+
+const settings: GenerationSettings = {
+  ...DEFAULT_SETTINGS,
+  provider: "kie",
+  model: "nano-banana-pro",
+  concurrency: 2,
+  retryPolicy: { ...DEFAULT_SETTINGS.retryPolicy, maxAttempts: 2, backoffMs: 10 },
+};
+
+/** Callback URLs Kie was given, by prompt */
+const callbackUrls = new Map<string, string[]>();
+
+/** Stand-in for the network: the worker route runs in-process, Kie only creates tasks. */
+async function fakeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+
+  if (url.pathname === "/api/generate/worker") {
+    const { batchId } = JSON.parse(String(init?.body));
+    void runBatchJob(batchId, url.origin);
+    return Response.json({ batchId, accepted: true }, { status: 202 });
+  }
+
+  if (url.pathname.endsWith("/createTask")) {
+    const { input: kieInput, callBackUrl } = JSON.parse(String(init?.body));
+    callbackUrls.set(kieInput.prompt, [...(callbackUrls.get(kieInput.prompt) ?? []), callBackUrl]);
+    const attempts = callbackUrls.get(kieInput.prompt)!.length;
+    return Response.json({ code: 200, data: { taskId: `task-${kieInput.prompt.replace(/\W+/g, "-")}-${attempts}` } });
+  }
+
+  if (url.pathname.endsWith("/recordInfo")) {
+    throw new Error("Items with callbacks should not be polled");
+  }
+
+  // Result download in persistFile (Supabase is not configured, so the temp URL is kept)
+  return new Response("image-bytes", { headers: { "Content-Type": "image/png" } });
+}
+
+async function waitFor(check: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+function taskId(prompt: string, attempt: number): string {
+  return `task-${prompt.replace(/\W+/g, "-")}-${attempt}`;
+}
+
+function success(prompt: string, attempt = 1) {
+  return {
+    code: 200,
+    msg: "success",
+    data: {
+      taskId: taskId(prompt, attempt),
+      state: "success",
+      resultJson: JSON.stringify({ resultUrls: [`https://kie.example/${taskId(prompt, attempt)}.png`] }),
+    },
+  };
+}
+
+function failure(prompt: string, failMsg: string, attempt = 1) {
+  return { code: 501, msg: "failed", data: { taskId: taskId(prompt, attempt), state: "fail", failCode: 500, failMsg } };
+}
+
+function deliver(callbackUrl: string, body: unknown): Promise<Response> {
+  const url = new URL(callbackUrl);
+  return route.POST(new NextRequest(url, { method: "POST", body: JSON.stringify(body) }), {
+    params: Promise.resolve({ provider: url.pathname.split("/").at(-1)! }),
+  });
+}
+
+async function readEvents(response: Response): Promise<GenerationEvent[]> {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter((block) => block.includes("data: "))
+    .map((block) => JSON.parse(block.split("\n").find((l) => l.startsWith("data: "))!.slice(6)));
+}
+
+function submit(batchId: string, prompts: string[], overrides: Partial<GenerationSettings> = {}): Promise<Response> {
+  const body: GenerationRequest = { batchId, prompts, settings: { ...settings, ...overrides } };
+  return generateRoute.POST(
+    new NextRequest("http://localhost:3000/api/generate", { method: "POST", body: JSON.stringify(body) })
+  );
+}
+
+async function submittedCount(batchId: string): Promise<number> {
+  const job = await fileUtils.loadJob(batchId);
+  return job?.items.filter((item) => item.status === "submitted").length ?? 0;
+}
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-test-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  vi.stubEnv("VERCEL", "");
+  vi.stubEnv("KIE_KEY", "test-key");
+  vi.stubEnv("SUPABASE_URL", "");
+  vi.stubEnv("USD_TO_ILS_RATE", "3.6");
+  vi.stubEnv("WEBHOOK_BASE_URL", "https://app.example/");
+  vi.stubEnv("WEBHOOK_SECRET", "test-secret");
+  vi.stubGlobal("fetch", vi.fn(fakeFetch));
+
+  route = await import("./route");
+  generateRoute = await import("@/app/api/generate/route");
+  fileUtils = await import("@/lib/file-utils");
+  ({ runBatchJob } = await import("@/lib/batch-worker"));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("/api/webhooks/[provider]", () => {
+  it("finishes submitted items from their callbacks", { timeout: 30000 }, async () => {
+    const stream = await submit("batch-callbacks", ["a red fox", "a grey wolf"]);
+    await waitFor(async () => (await submittedCount("batch-callbacks")) === 2);
+
+    const [foxUrl] = callbackUrls.get("a red fox")!;
+    expect(foxUrl).toMatch(/^https:\/\/app\.example\/api\/webhooks\/kie\?batchId=batch-callbacks&index=0&attempt=1&token=/);
+
+    expect(await (await deliver(foxUrl, success("a red fox"))).json()).toEqual({ received: true, applied: true });
+    await deliver(callbackUrls.get("a grey wolf")![0], failure("a grey wolf", "Content policy violation"));
+
+    const events = await readEvents(stream);
+    expect(events.at(-1)).toEqual({ type: "batch_complete" });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        index: 0,
+        status: "completed",
+        image: expect.objectContaining({ url: "https://kie.example/task-a-red-fox-1.png" }),
+        requestId: "task-a-red-fox-1",
+      })
+    );
+    expect(events).toContainEqual(expect.objectContaining({ index: 1, status: "failed", errorCategory: "content_policy" }));
+
+    const logs = await fileUtils.readLogs(undefined, "batch-callbacks");
+    expect(logs.map((entry) => [entry.imageIndex, entry.status])).toEqual(
+      expect.arrayContaining([[0, "completed"], [1, "failed"]])
+    );
+    expect(logs).toHaveLength(2);
+
+    // Redelivery of a handled callback is acknowledged but changes nothing
+    expect(await (await deliver(foxUrl, success("a red fox"))).json()).toEqual({ received: true, applied: false });
+  });
+
+  it("keeps submitted items within the concurrency and retries failures the policy covers", { timeout: 30000 }, async () => {
+    const stream = await submit("batch-retry", ["a blue whale", "a green frog"], { concurrency: 1 });
+    await waitFor(async () => (await submittedCount("batch-retry")) === 1);
+    expect(callbackUrls.has("a green frog")).toBe(false);
+
+    await deliver(callbackUrls.get("a blue whale")![0], failure("a blue whale", "Too many requests"));
+    await waitFor(async () => (callbackUrls.get("a blue whale")?.length ?? 0) === 2);
+    expect(callbackUrls.get("a blue whale")![1]).toContain("attempt=2");
+    await deliver(callbackUrls.get("a blue whale")![1], success("a blue whale", 2));
+
+    await waitFor(async () => callbackUrls.has("a green frog"));
+    await deliver(callbackUrls.get("a green frog")![0], success("a green frog"));
+
+    const events = await readEvents(stream);
+    expect(events.at(-1)).toEqual({ type: "batch_complete" });
+    expect(events).toContainEqual(expect.objectContaining({ index: 0, status: "queued", attempt: 2 }));
+    expect(events).toContainEqual(expect.objectContaining({ index: 0, status: "completed", attempt: 2 }));
+    expect(events).toContainEqual(expect.objectContaining({ index: 1, status: "completed", attempt: 1 }));
+  });
+
+  it("rejects callbacks without a valid token", async () => {
+    const response = await deliver(
+      "https://app.example/api/webhooks/kie?batchId=batch-callbacks&index=0&attempt=1&token=forged",
+      success("a red fox")
+    );
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { completeSubmittedItem } from "@/lib/batch-worker";
+import { getProvider, type ImageProvider } from "@/lib/providers";
+import { verifyCallback } from "@/lib/webhooks";
+import type { Provider } from "@/types/generation";
+
+export const maxDuration = 60;
+
+/**
+ * Completion callbacks for batch items submitted with a callback URL (Kie
+ * `callBackUrl`, Fal queue `webhookUrl`). The signed query identifies the
+ * job item and attempt; the body carries the provider's result.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerName } = await params;
+  const target = verifyCallback(providerName, request.nextUrl.searchParams);
+  if (!target) {
+    return NextResponse.json({ error: "Invalid callback signature" }, { status: 401 });
+  }
+
+  let provider: ImageProvider;
+  try {
+    provider = getProvider(providerName as Provider);
+  } catch {
+    return NextResponse.json({ error: `Unknown provider: ${providerName}` }, { status: 404 });
+  }
+  if (!provider.parseCallback) {
+    return NextResponse.json({ error: `${providerName} does not send callbacks` }, { status: 404 });
+  }
+
+  let callback;
+  try {
+    callback = provider.parseCallback(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid callback body" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Stale and repeated callbacks are acknowledged too, so the provider stops redelivering them
+    const applied = await completeSubmittedItem(target, callback, request.nextUrl.origin);
+    return NextResponse.json({ received: true, applied });
+  } catch (error) {
+    console.error(`[webhooks] ${providerName} callback for ${target.batchId}/${target.index} failed:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to record callback" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { Fragment } from "react";
-import { Images, Type, Bookmark, Settings, ImagePlus, ImageIcon, Zap } from "lucide-react";
+import Link from "next/link";
+import { Images, Type, Bookmark, Settings, ImagePlus, ImageIcon, Zap, BarChart3 } from "lucide-react";
 import { BalanceDisplay } from "@/components/common/BalanceDisplay";
 import { SectionCard } from "@/components/common/SectionCard";
 import { CollapsibleSection } from "@/components/common/CollapsibleSection";
@@ -15,7 +16,7 @@ import { PresetManager } from "@/components/settings/PresetManager";
 import { ReferenceImages } from "@/components/settings/ReferenceImages";
 import { BatchHistory } from "@/components/batch/BatchHistory";
 import { useBatch } from "@/hooks/useBatch";
-import { parsePrompts } from "@/lib/constants";
+import { useExpandedPrompts } from "@/hooks/useExpandedPrompts";
 
 function GallerySwitch() {
   const { state } = useBatch();
@@ -27,7 +28,7 @@ function GallerySwitch() {
 
 function WorkflowSteps() {
   const { state } = useBatch();
-  const validPrompts = parsePrompts(state.prompts.join("\n"));
+  const { prompts: validPrompts } = useExpandedPrompts();
 
   const activeStep = !state.currentBatch
     ? (validPrompts.length > 0 ? 1 : 0)
@@ -85,8 +86,18 @@ export default function Home() {
               Fal Automation — מחולל תמונות בכמויות
             </h1>
           </div>
-          <div className="rounded-lg bg-muted/50 border border-border/50 px-3 py-1.5">
-            <BalanceDisplay />
+          <div className="flex items-center gap-2">
+            <Link
+              href="/analytics"
+              className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+              title="שימוש והוצאות"
+            >
+              <BarChart3 className="h-4 w-4" />
+              ניתוח
+            </Link>
+            <div className="rounded-lg bg-muted/50 border border-border/50 px-3 py-1.5">
+              <BalanceDisplay />
+            </div>
           </div>
         </div>
       </header>
@@ -0,0 +1,270 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, RefreshCw, AlertCircle, Server, Layers, AlertTriangle, Film, CalendarDays } from "lucide-react";
+import { SectionCard } from "@/components/common/SectionCard";
+import { ANALYTICS_DEFAULT_DAYS, ERROR_CATEGORY_LABELS } from "@/lib/constants";
+import { formatCost, formatDuration } from "@/lib/format-utils";
+import type { AnalyticsReport } from "@/types/analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+const RANGE_PRESETS: Array<{ label: string; range: () => { from: string; to: string } }> = [
+  { label: "7 ימים", range: () => ({ from: isoDate(Date.now() - 6 * DAY_MS), to: isoDate(Date.now()) }) },
+  { label: "30 ימים", range: () => ({ from: isoDate(Date.now() - 29 * DAY_MS), to: isoDate(Date.now()) }) },
+  { label: "החודש", range: () => ({ from: `${isoDate(Date.now()).slice(0, 7)}-01`, to: isoDate(Date.now()) }) },
+];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+function formatMs(ms: number | null): string {
+  return ms === null ? "—" : formatDuration(ms);
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-xl border border-border/80 bg-card px-4 py-3 shadow-[var(--shadow-card)]">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="mt-1 text-xl font-bold tabular-nums text-foreground">{value}</p>
+      {hint && <p className="mt-0.5 text-[11px] text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export function AnalyticsDashboard() {
+  const [from, setFrom] = useState(() => isoDate(Date.now() - (ANALYTICS_DEFAULT_DAYS - 1) * DAY_MS));
+  const [to, setTo] = useState(() => isoDate(Date.now()));
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/analytics?from=${from}&to=${to}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      setReport(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const maxDailySpend = Math.max(0, ...(report?.byDay.map((d) => d.spend) ?? []));
+
+  return (
+    <div className="flex flex-col gap-5">
+      {/* Range */}
+      <div className="flex flex-wrap items-center gap-2">
+        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+        <input
+          type="date"
+          value={from}
+          max={to}
+          onChange={(e) => e.target.value && setFrom(e.target.value)}
+          className="rounded-lg border border-border bg-card px-2 py-1 text-sm"
+        />
+        <span className="text-xs text-muted-foreground">עד</span>
+        <input
+          type="date"
+          value={to}
+          min={from}
+          onChange={(e) => e.target.value && setTo(e.target.value)}
+          className="rounded-lg border border-border bg-card px-2 py-1 text-sm"
+        />
+        {RANGE_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => {
+              const range = preset.range();
+              setFrom(range.from);
+              setTo(range.to);
+            }}
+            className="rounded-full border border-border/60 px-3 py-1 text-xs text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <div className="ms-auto flex items-center gap-2">
+          <button
+            onClick={fetchReport}
+            className="rounded-lg p-1.5 text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            title="רענן"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+          <a
+            href={`/api/analytics?from=${from}&to=${to}&format=csv`}
+            className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            <Download className="h-3.5 w-3.5" />
+            ייצוא CSV
+          </a>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <Stat label="הוצאה כוללת" value={formatCost(report.totals.spend)} hint="הערכה לפי מחירון" />
+            <Stat label="בקשות" value={String(report.totals.count)} />
+            <Stat
+              label="הצלחה"
+              value={formatRate(report.totals.successRate)}
+              hint={`${report.totals.failed} נכשלו`}
+            />
+            <Stat label="וידאו" value={formatCost(report.video.spend)} hint={`${report.video.count} סרטונים`} />
+          </div>
+
+          {/* Daily spend */}
+          <SectionCard title="הוצאה יומית" icon={<CalendarDays className="h-4 w-4" />}>
+            <div className="flex flex-col gap-1">
+              {report.byDay.map((day) => (
+                <div key={day.date} className="flex items-center gap-3 text-xs">
+                  <span className="w-20 shrink-0 tabular-nums text-muted-foreground">{day.date}</span>
+                  <div className="h-3 flex-1 rounded-full bg-muted/60">
+                    <div
+                      className="h-3 rounded-full bg-primary/70"
+                      style={{ width: maxDailySpend > 0 ? `${(day.spend / maxDailySpend) * 100}%` : 0 }}
+                    />
+                  </div>
+                  <span className="w-16 shrink-0 text-end tabular-nums">{formatCost(day.spend)}</span>
+                  <span className="w-20 shrink-0 text-end tabular-nums text-muted-foreground">
+                    {day.completed}/{day.count}
+                    {day.failed > 0 && <span className="text-red-600"> ({day.failed}✗)</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </SectionCard>
+
+          <div className="grid gap-5 md:grid-cols-2">
+            {/* Providers */}
+            <SectionCard title="לפי ספק" subtitle="תמונות בלבד" icon={<Server className="h-4 w-4" />} noPadding>
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b border-border/60">
+                    <th className="px-4 py-2 text-start font-medium">ספק</th>
+                    <th className="px-2 py-2 text-end font-medium">בקשות</th>
+                    <th className="px-2 py-2 text-end font-medium">הצלחה</th>
+                    <th className="px-2 py-2 text-end font-medium">חציון</th>
+                    <th className="px-2 py-2 text-end font-medium">p95</th>
+                    <th className="px-4 py-2 text-end font-medium">הוצאה</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {report.byProvider.map((row) => (
+                    <tr key={row.provider} className="border-b border-border/40 last:border-0">
+                      <td className="px-4 py-2 font-medium">{row.provider}</td>
+                      <td className="px-2 py-2 text-end">{row.count}</td>
+                      <td className="px-2 py-2 text-end">{formatRate(row.successRate)}</td>
+                      <td className="px-2 py-2 text-end">{formatMs(row.medianDurationMs)}</td>
+                      <td className="px-2 py-2 text-end">{formatMs(row.p95DurationMs)}</td>
+                      <td className="px-4 py-2 text-end">{formatCost(row.spend)}</td>
+                    </tr>
+                  ))}
+                  {report.byProvider.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-3 text-center text-muted-foreground">אין נתונים</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </SectionCard>
+
+            {/* Resolutions */}
+            <SectionCard title="לפי רזולוציה" subtitle="תמונות בלבד" icon={<Layers className="h-4 w-4" />} noPadding>
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b border-border/60">
+                    <th className="px-4 py-2 text-start font-medium">רזולוציה</th>
+                    <th className="px-2 py-2 text-end font-medium">בקשות</th>
+                    <th className="px-2 py-2 text-end font-medium">נכשלו</th>
+                    <th className="px-4 py-2 text-end font-medium">הוצאה</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {report.byResolution.map((row) => (
+                    <tr key={row.resolution} className="border-b border-border/40 last:border-0">
+                      <td className="px-4 py-2 font-medium">{row.resolution}</td>
+                      <td className="px-2 py-2 text-end">{row.count}</td>
+                      <td className="px-2 py-2 text-end">{row.failed}</td>
+                      <td className="px-4 py-2 text-end">{formatCost(row.spend)}</td>
+                    </tr>
+                  ))}
+                  {report.byResolution.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-3 text-center text-muted-foreground">אין נתונים</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </SectionCard>
+
+            {/* Failures */}
+            <SectionCard title="סיבות כישלון נפוצות" icon={<AlertTriangle className="h-4 w-4" />}>
+              {report.topFailures.length === 0 ? (
+                <p className="text-xs text-muted-foreground">אין כישלונות בטווח</p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {report.topFailures.map((reason) => (
+                    <li key={reason.category} className="text-xs">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{ERROR_CATEGORY_LABELS[reason.category]}</span>
+                        <span className="tabular-nums text-muted-foreground">{reason.count}</span>
+                      </div>
+                      {reason.example && (
+                        <p className="mt-0.5 truncate text-muted-foreground" dir="ltr" title={reason.example}>
+                          {reason.example}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </SectionCard>
+
+            {/* Video */}
+            <SectionCard title="וידאו" icon={<Film className="h-4 w-4" />}>
+              <div className="grid grid-cols-3 gap-3 text-xs tabular-nums">
+                <div>
+                  <p className="text-muted-foreground">סרטונים</p>
+                  <p className="text-base font-semibold">{report.video.count}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">נכשלו</p>
+                  <p className="text-base font-semibold">{report.video.failed}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">הוצאה</p>
+                  <p className="text-base font-semibold">{formatCost(report.video.spend)}</p>
+                </div>
+              </div>
+            </SectionCard>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
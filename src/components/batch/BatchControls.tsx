@@ -5,44 +5,72 @@ import { Play, Pause, RotateCcw, Plus, FolderOpen, RefreshCw } from "lucide-reac
 import { toast } from "sonner";
 import { useBatch } from "@/hooks/useBatch";
 import { useGenerationStream } from "@/hooks/useGenerationStream";
-import { parsePrompts } from "@/lib/constants";
+import { useExpandedPrompts } from "@/hooks/useExpandedPrompts";
+import { DEFAULT_VIDEO_SETTINGS, getVideoModel, isVideoConfigValid, supportsTextToVideo } from "@/lib/constants";
 
 export function BatchControls() {
   const { state, dispatch } = useBatch();
-  const { startGeneration, pauseGeneration, resumeGeneration } = useGenerationStream();
+  const { startGeneration, startVideoGeneration, pauseGeneration, resumeGeneration, isExpanding } = useGenerationStream();
+  const isVideoOutput = state.settings.outputType === "video";
+  // Video batches are driven by VideoGallery; pause and resume are forwarded to it
+  const isVideoBatch = state.currentBatch?.type === "video";
   const isRunning = state.currentBatch?.status === "running";
   const isInterrupted = state.currentBatch?.status === "interrupted";
   const isFinished =
     state.currentBatch?.status === "completed" ||
     state.currentBatch?.status === "cancelled" ||
     state.currentBatch?.status === "error";
-  const rawText = state.prompts.join("\n");
-  const validPrompts = parsePrompts(rawText);
+  const { prompts: validPrompts, overrides } = useExpandedPrompts();
 
   const stuckOrFailedCount = state.currentBatch?.images.filter(
     (img) => img.status === "failed" || img.status === "processing" || img.status === "queued" || img.status === "pending"
   ).length ?? 0;
 
   const handleStart = useCallback(async () => {
+    if (isExpanding) return;
     if (validPrompts.length === 0) {
       toast.error("אין פרומפטים", {
         description: "יש להזין לפחות פרומפט אחד",
       });
       return;
     }
-    await startGeneration(validPrompts);
-  }, [validPrompts, startGeneration]);
+    if (isVideoOutput) {
+      const video = state.settings.video ?? DEFAULT_VIDEO_SETTINGS;
+      const model = getVideoModel(video.model);
+      if (!isVideoConfigValid(video.duration, video.resolution, video.model, video.aspectRatio)) {
+        toast.error("הגדרות הוידאו אינן נתמכות", { description: `השילוב שנבחר אינו זמין במודל ${model.label}` });
+        return;
+      }
+      if (!supportsTextToVideo(video)) {
+        toast.error("המודל דורש תמונת פתיחה", {
+          description: `${model.label} אינו תומך בטקסט לוידאו — יש להפעיל יצירת פריים ראשון או לבחור מודל אחר`,
+        });
+        return;
+      }
+      await startVideoGeneration(validPrompts, overrides);
+      return;
+    }
+    await startGeneration(validPrompts, overrides);
+  }, [validPrompts, overrides, isVideoOutput, state.settings.video, startGeneration, startVideoGeneration, isExpanding]);
 
   const handlePause = useCallback(() => {
+    if (isVideoBatch) {
+      window.dispatchEvent(new Event("videoBatchPause"));
+      return;
+    }
     pauseGeneration();
     toast.info("הבאצ׳ הושהה", {
       description: "ניתן להמשיך בכל עת. תמונות שכבר נוצרו נשמרו.",
     });
-  }, [pauseGeneration]);
+  }, [isVideoBatch, pauseGeneration]);
 
   const handleResume = useCallback(async () => {
+    if (isVideoBatch) {
+      window.dispatchEvent(new Event("videoBatchResume"));
+      return;
+    }
     await resumeGeneration();
-  }, [resumeGeneration]);
+  }, [isVideoBatch, resumeGeneration]);
 
   const handleNewBatch = useCallback(() => {
     dispatch({ type: "RESET_BATCH" });
@@ -108,16 +136,16 @@ export function BatchControls() {
         <>
           <button
             onClick={handleStart}
-            disabled={validPrompts.length === 0}
+            disabled={validPrompts.length === 0 || isExpanding}
             className="flex items-center gap-2.5 rounded-xl bg-primary px-8 py-3 text-base font-bold text-primary-foreground hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none shadow-md shadow-primary/20 hover:shadow-lg hover:shadow-primary/25 transition-all"
           >
             <Play className="h-5 w-5" />
-            התחל יצירה
+            {isVideoOutput ? "צור וידאו" : "התחל יצירה"}
             <kbd className="mr-1 rounded-md bg-white/15 px-1.5 py-0.5 text-[11px] font-mono leading-none">
               Ctrl+Enter
             </kbd>
           </button>
-          {isFinished && stuckOrFailedCount > 0 && (
+          {isFinished && !isVideoBatch && stuckOrFailedCount > 0 && (
             <button
               onClick={handleResume}
               className="flex items-center gap-2 rounded-lg bg-amber-500 px-5 py-2.5 text-sm font-bold text-white hover:bg-amber-600 shadow-md transition-all"
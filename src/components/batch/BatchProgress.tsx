@@ -4,6 +4,8 @@ import { useMemo, useState } from "react";
 import { AlertCircle, ChevronDown } from "lucide-react";
 import { useBatch } from "@/hooks/useBatch";
 import { formatDuration } from "@/lib/format-utils";
+import { ERROR_CATEGORY_LABELS } from "@/lib/constants";
+import type { ProviderErrorCategory } from "@/types/generation";
 
 export function BatchProgress() {
   const { state } = useBatch();
@@ -19,17 +21,23 @@ export function BatchProgress() {
     const percentage = total > 0 ? Math.round((done / total) * 100) : 0;
     const totalDuration = batch.images.reduce((sum, img) => sum + (img.durationMs || 0), 0);
 
-    // Collect unique error messages with counts
-    const errorMap = new Map<string, number>();
+    // Group failures by cause, then by unique message with counts
+    const groupMap = new Map<ProviderErrorCategory, Map<string, number>>();
     batch.images.forEach((img) => {
       if (img.status === "failed" && img.error) {
-        errorMap.set(img.error, (errorMap.get(img.error) ?? 0) + 1);
+        const category = img.errorCategory ?? "unknown";
+        const messages = groupMap.get(category) ?? new Map<string, number>();
+        messages.set(img.error, (messages.get(img.error) ?? 0) + 1);
+        groupMap.set(category, messages);
       }
     });
-    const errors = Array.from(errorMap.entries()).map(([message, count]) => ({
-      message,
-      count,
-    }));
+    const errors = Array.from(groupMap.entries())
+      .map(([category, messages]) => ({
+        category,
+        count: Array.from(messages.values()).reduce((sum, n) => sum + n, 0),
+        messages: Array.from(messages.entries()).map(([message, count]) => ({ message, count })),
+      }))
+      .sort((a, b) => b.count - a.count);
 
     return { total, completed, failed, done, percentage, totalDuration, errors };
   }, [batch]);
@@ -108,17 +116,26 @@ export function BatchProgress() {
             <ChevronDown className={`h-3 w-3 mr-auto transition-transform ${showErrors ? "rotate-180" : ""}`} />
           </button>
           {showErrors && (
-            <ul className="mt-2 space-y-1">
-              {stats.errors.map((err, i) => (
-                <li key={i} className="text-xs text-red-700 flex items-start gap-1.5">
-                  <span className="text-red-400 mt-0.5 shrink-0">&#x2022;</span>
-                  <span className="flex-1 break-words" dir="ltr">{err.message}</span>
-                  {err.count > 1 && (
-                    <span className="text-red-400 whitespace-nowrap shrink-0">({err.count}x)</span>
-                  )}
-                </li>
+            <div className="mt-2 space-y-2">
+              {stats.errors.map((group) => (
+                <div key={group.category}>
+                  <p className="text-xs font-semibold text-red-800">
+                    {ERROR_CATEGORY_LABELS[group.category]} ({group.count})
+                  </p>
+                  <ul className="mt-1 space-y-1">
+                    {group.messages.map((err, i) => (
+                      <li key={i} className="text-xs text-red-700 flex items-start gap-1.5">
+                        <span className="text-red-400 mt-0.5 shrink-0">&#x2022;</span>
+                        <span className="flex-1 break-words" dir="ltr">{err.message}</span>
+                        {err.count > 1 && (
+                          <span className="text-red-400 whitespace-nowrap shrink-0">({err.count}x)</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               ))}
-            </ul>
+            </div>
           )}
         </div>
       )}
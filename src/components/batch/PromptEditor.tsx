@@ -1,40 +1,139 @@
 "use client";
 
-import { useMemo, useState } from "react";
-import { Calculator, Wand2 } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import { AlertTriangle, Calculator, FileSpreadsheet, ImageIcon, Video, Wand2, X } from "lucide-react";
+import { toast } from "sonner";
 import { useBatch } from "@/hooks/useBatch";
-import { parsePrompts, estimateCost } from "@/lib/constants";
+import { useExpandedPrompts } from "@/hooks/useExpandedPrompts";
+import { useExchangeRate } from "@/hooks/useExchangeRate";
+import { VideoSettingsPicker } from "@/components/settings/VideoSettingsPicker";
+import {
+  DEFAULT_VIDEO_SETTINGS,
+  MAX_EXPANDED_PROMPTS,
+  estimateTextToVideoCostUsd,
+  getVideoModel,
+  supportsTextToVideo,
+} from "@/lib/constants";
+import { applyOverrides, estimatePromptsCost } from "@/lib/prompt-overrides";
+import { parseDelimited } from "@/lib/prompt-template";
 import { formatCost } from "@/lib/format-utils";
+import type { BatchType } from "@/types/batch";
+import type { ExpansionMode } from "@/types/template";
+
+const EXPANSION_MODES: Array<{ value: ExpansionMode; label: string; hint: string }> = [
+  { value: "cartesian", label: "כל הצירופים", hint: "כל שילוב אפשרי של הערכים" },
+  { value: "zip", label: "לפי סדר", hint: "ערך ראשון עם ראשון, שני עם שני... (עד הרשימה הקצרה)" },
+];
+
+const OUTPUT_TYPES: Array<{ value: BatchType; label: string; icon: typeof ImageIcon }> = [
+  { value: "image", label: "תמונות", icon: ImageIcon },
+  { value: "video", label: "וידאו", icon: Video },
+];
+
+const PREVIEW_COUNT = 5;
 
 export function PromptEditor() {
   const { state, dispatch } = useBatch();
-  const { settings } = state;
+  const { settings, templateData, expansionMode } = state;
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const rawText = state.prompts.join("\n");
-  const validPrompts = useMemo(() => parsePrompts(rawText), [rawText]);
+  const { prompts: validPrompts, overrides, invalidOverrides, unknownVariables, truncated } = useExpandedPrompts();
+  const overrideCount = overrides.filter(Boolean).length;
+  const hasTemplates = /\{\{|\{[^{}]*\|/.test(rawText);
 
   const [showPrefixSuffix, setShowPrefixSuffix] = useState(
     Boolean(settings.promptPrefix || settings.promptSuffix)
   );
 
+  const isVideo = settings.outputType === "video";
+  const videoSettings = settings.video ?? DEFAULT_VIDEO_SETTINGS;
+  const unitLabel = isVideo ? "סרטונים" : "תמונות";
+
+  const usdToIls = useExchangeRate();
   const cost = useMemo(
     () =>
-      estimateCost(
-        validPrompts.length,
-        settings.numImages,
-        settings.resolution,
-        settings.enableWebSearch,
-        settings.provider
-      ),
-    [validPrompts.length, settings.numImages, settings.resolution, settings.enableWebSearch, settings.provider]
+      isVideo
+        ? estimateTextToVideoCostUsd(validPrompts.length, videoSettings, settings) * usdToIls
+        : estimatePromptsCost(settings, overrides, usdToIls),
+    [isVideo, validPrompts.length, videoSettings, settings, overrides, usdToIls]
+  );
+  const totalImages = useMemo(
+    () => overrides.reduce((sum, o) => sum + applyOverrides(settings, o).numImages, 0),
+    [settings, overrides]
   );
 
   const handleTextChange = (text: string) => {
     dispatch({ type: "SET_PROMPTS", prompts: text.split("\n") });
   };
 
+  const handleDataFile = async (file: File) => {
+    try {
+      const data = parseDelimited(await file.text(), file.name);
+      if (data.columns.length === 0 || data.rows.length === 0) {
+        toast.error("הקובץ ריק", { description: "נדרשת שורת כותרת ולפחות שורת נתונים אחת" });
+        return;
+      }
+      dispatch({ type: "SET_TEMPLATE_DATA", data });
+      toast.success(`נטענו ${data.rows.length} שורות`, {
+        description: `עמודות: ${data.columns.map((c) => `{{${c}}}`).join(", ")}`,
+      });
+    } catch {
+      toast.error("לא ניתן לקרוא את הקובץ");
+    }
+  };
+
   return (
     <div className="flex flex-col gap-3">
+      {/* Output type */}
+      <div className="grid grid-cols-2 gap-2">
+        {OUTPUT_TYPES.map((t) => {
+          const Icon = t.icon;
+          return (
+            <button
+              key={t.value}
+              type="button"
+              onClick={() => dispatch({ type: "SET_SETTINGS", settings: { outputType: t.value } })}
+              className={`flex items-center justify-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-bold transition-all ${
+                (settings.outputType ?? "image") === t.value
+                  ? "bg-primary text-primary-foreground shadow-sm ring-2 ring-primary/30"
+                  : "bg-white border border-border text-foreground hover:border-primary/30 hover:bg-primary/5"
+              }`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {t.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Video settings (text-to-video) */}
+      {isVideo && (
+        <div className="flex flex-col gap-3 rounded-lg border border-border p-3">
+          <VideoSettingsPicker
+            value={videoSettings}
+            onChange={(video) => dispatch({ type: "SET_SETTINGS", settings: { video } })}
+          />
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={!!videoSettings.firstFrame}
+              onChange={(e) =>
+                dispatch({ type: "SET_SETTINGS", settings: { video: { ...videoSettings, firstFrame: e.target.checked } } })
+              }
+              className="accent-primary"
+            />
+            צור פריים ראשון מהפרומפט (לפי הגדרות התמונה)
+          </label>
+          {!supportsTextToVideo(videoSettings) && (
+            <p className="flex items-center gap-1.5 text-xs text-amber-600">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+              {getVideoModel(videoSettings.model).label} דורש תמונת פתיחה — יש להפעיל יצירת פריים ראשון
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Prefix/Suffix toggle */}
       <button
         type="button"
@@ -105,10 +204,50 @@ export function PromptEditor() {
           <label className="text-sm font-medium text-foreground">
             פרומפטים
           </label>
-          <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2.5 py-0.5 text-sm font-bold text-primary">
-            {validPrompts.length} תמונות
-          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 text-xs font-medium text-primary hover:text-primary/80 transition-colors"
+            >
+              <FileSpreadsheet className="h-3.5 w-3.5" />
+              טען CSV/TSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleDataFile(file);
+                e.target.value = "";
+              }}
+            />
+            <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2.5 py-0.5 text-sm font-bold text-primary">
+              {validPrompts.length} {unitLabel}
+            </span>
+          </div>
         </div>
+
+        {/* Loaded CSV/TSV data */}
+        {templateData && (
+          <div className="mb-2 flex items-center gap-2 rounded-md border border-primary/20 bg-primary/5 px-3 py-1.5 text-xs">
+            <FileSpreadsheet className="h-3.5 w-3.5 shrink-0 text-primary" />
+            <span className="font-medium text-foreground truncate">{templateData.fileName}</span>
+            <span className="text-muted-foreground">({templateData.rows.length} שורות)</span>
+            <span className="flex-1 truncate font-mono text-muted-foreground" dir="ltr">
+              {templateData.columns.map((c) => `{{${c}}}`).join(" ")}
+            </span>
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "SET_TEMPLATE_DATA", data: null })}
+              className="text-muted-foreground hover:text-destructive transition-colors"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
         <textarea
           dir="ltr"
           value={rawText}
@@ -118,8 +257,69 @@ export function PromptEditor() {
           className="input-base w-full rounded-md border border-border bg-white px-3 py-2 font-mono text-sm text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary resize-y"
         />
         <p className="mt-1 text-xs text-muted-foreground">
-          שורות ריקות ושורות שמתחילות ב-# יידלגו
+          שורות ריקות ושורות שמתחילות ב-# יידלגו.{" "}
+          <span dir="ltr" className="font-mono">{"{a|b}"}</span> — חלופות,{" "}
+          <span dir="ltr" className="font-mono">{"@color = red | blue"}</span> — הגדרת משתנה,{" "}
+          <span dir="ltr" className="font-mono">{"{{color}}"}</span> — משתנה או עמודת CSV.{" "}
+          בסוף שורה:{" "}
+          <span dir="ltr" className="font-mono">--ar 16:9 --res 2K --seed 42 --n 2 --provider kie --model imagen4 --ref URL</span>
         </p>
+
+        {invalidOverrides.length > 0 && (
+          <p className="mt-1 flex items-center gap-1.5 text-xs text-amber-600">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+            הגדרות לא תקינות (יידלגו):{" "}
+            <span dir="ltr" className="font-mono truncate">{invalidOverrides.join(", ")}</span>
+          </p>
+        )}
+
+        {/* Expansion mode + preview (only when the text uses templates) */}
+        {(hasTemplates || templateData) && (
+          <div className="mt-2 flex flex-col gap-2">
+            <div className="grid grid-cols-2 gap-2">
+              {EXPANSION_MODES.map((m) => (
+                <button
+                  key={m.value}
+                  type="button"
+                  title={m.hint}
+                  onClick={() => dispatch({ type: "SET_EXPANSION_MODE", mode: m.value })}
+                  className={`rounded-lg px-3 py-1.5 text-xs font-bold transition-all ${
+                    expansionMode === m.value
+                      ? "bg-primary text-primary-foreground shadow-sm ring-2 ring-primary/30"
+                      : "bg-white border border-border text-foreground hover:border-primary/30 hover:bg-primary/5"
+                  }`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+
+            {unknownVariables.length > 0 && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-600">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                משתנים לא מוגדרים:{" "}
+                <span dir="ltr" className="font-mono">{unknownVariables.map((v) => `{{${v}}}`).join(", ")}</span>
+              </p>
+            )}
+            {truncated && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-600">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                ההרחבה נעצרה ב-{MAX_EXPANDED_PROMPTS} פרומפטים
+              </p>
+            )}
+
+            {validPrompts.length > 0 && (
+              <ul className="rounded-md border border-dashed border-border bg-muted/50 px-3 py-2 text-xs text-muted-foreground font-mono space-y-0.5" dir="ltr">
+                {validPrompts.slice(0, PREVIEW_COUNT).map((prompt, i) => (
+                  <li key={i} className="truncate">{prompt}</li>
+                ))}
+                {validPrompts.length > PREVIEW_COUNT && (
+                  <li className="text-muted-foreground/60">+{validPrompts.length - PREVIEW_COUNT} נוספים</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Cost summary */}
@@ -128,11 +328,17 @@ export function PromptEditor() {
           <Calculator className="h-4 w-4 text-primary" />
           <span>
             <strong className="text-foreground">{validPrompts.length}</strong>
-            <span className="text-muted-foreground"> תמונות</span>
-            {settings.numImages > 1 && (
+            <span className="text-muted-foreground"> {unitLabel}</span>
+            {!isVideo && totalImages > validPrompts.length && (
+              <span className="text-muted-foreground">
+                {" "}
+                ({totalImages} סה&quot;כ עם וריאציות)
+              </span>
+            )}
+            {overrideCount > 0 && (
               <span className="text-muted-foreground">
                 {" "}
-                ({validPrompts.length * settings.numImages} סה&quot;כ עם {settings.numImages} וריאציות)
+                · {overrideCount} עם הגדרות מותאמות
               </span>
             )}
           </span>
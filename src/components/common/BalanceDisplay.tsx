@@ -1,9 +1,13 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { Wallet, RefreshCw, AlertCircle, ExternalLink } from "lucide-react";
-import { USD_TO_ILS } from "@/lib/constants";
+import { Wallet, RefreshCw, AlertCircle, ExternalLink, Gauge } from "lucide-react";
+import { toast } from "sonner";
+import { BUDGET_WARNING_RATIO } from "@/lib/constants";
+import { formatCost } from "@/lib/format-utils";
 import { useBatch } from "@/hooks/useBatch";
+import { useExchangeRate } from "@/hooks/useExchangeRate";
+import type { BudgetLimits, BudgetScope, BudgetStatus } from "@/types/budget";
 
 interface BalanceData {
   source: string;
@@ -16,7 +20,17 @@ interface BalanceData {
 }
 
 export function BalanceDisplay() {
+  return (
+    <div className="flex items-center gap-3">
+      <ProviderSpend />
+      <BudgetIndicator />
+    </div>
+  );
+}
+
+function ProviderSpend() {
   const { state } = useBatch();
+  const usdToIls = useExchangeRate();
   const provider = state.settings.provider ?? "fal";
   const [data, setData] = useState<BalanceData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -66,6 +80,16 @@ export function BalanceDisplay() {
     );
   }
 
+  // Mock provider — nothing is billed
+  if (provider === "mock") {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Wallet className="h-3.5 w-3.5 text-primary" />
+        <span>Mock — ללא עלות</span>
+      </div>
+    );
+  }
+
   if (!data || data.source === "unavailable" || data.source === "error") {
     return (
       <div className="flex items-center gap-1.5 text-xs text-muted-foreground" title={data?.error}>
@@ -83,7 +107,7 @@ export function BalanceDisplay() {
   }
 
   const spendUsd = data.monthlySpendUsd ?? 0;
-  const spendIls = spendUsd * USD_TO_ILS;
+  const spendIls = spendUsd * usdToIls;
 
   return (
     <div className="flex items-center gap-2 text-xs">
@@ -112,3 +136,125 @@ export function BalanceDisplay() {
     </div>
   );
 }
+
+const BUDGET_FIELDS: Array<{ scope: BudgetScope; label: string }> = [
+  { scope: "batch", label: "תקרה לבאצ׳" },
+  { scope: "day", label: "תקרה יומית" },
+  { scope: "month", label: "תקרה חודשית" },
+];
+
+/** Day/month spend from the generation logs against the configured caps. */
+function BudgetIndicator() {
+  const { state } = useBatch();
+  const batchStatus = state.currentBatch?.status;
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<BudgetScope, string>>({ batch: "", day: "", month: "" });
+
+  const fetchBudget = useCallback(async () => {
+    try {
+      const res = await fetch("/api/budget");
+      if (res.ok) setStatus(await res.json());
+    } catch {
+      // Leave the last known status
+    }
+  }, []);
+
+  // Refresh when a batch starts or stops, since that is when spend moves
+  useEffect(() => {
+    fetchBudget();
+  }, [fetchBudget, batchStatus]);
+
+  const openEditor = () => {
+    if (!status) return;
+    setDraft({
+      batch: status.limits.batch?.toString() ?? "",
+      day: status.limits.day?.toString() ?? "",
+      month: status.limits.month?.toString() ?? "",
+    });
+    setEditing(true);
+  };
+
+  const saveLimits = async () => {
+    const limits: BudgetLimits = {
+      batch: draft.batch ? Number(draft.batch) : null,
+      day: draft.day ? Number(draft.day) : null,
+      month: draft.month ? Number(draft.month) : null,
+    };
+    try {
+      const res = await fetch("/api/budget", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(limits),
+      });
+      if (!res.ok) throw new Error();
+      setStatus(await res.json());
+      setEditing(false);
+      toast.success("תקרות התקציב עודכנו");
+    } catch {
+      toast.error("שמירת התקציב נכשלה");
+    }
+  };
+
+  if (!status) return null;
+
+  // Only day and month have a standing spend to show; the batch cap is checked per batch
+  const usage = (["day", "month"] as const)
+    .filter((scope) => status.limits[scope] !== null)
+    .map((scope) => ({ scope, spent: status.spend[scope], limit: status.limits[scope]! }));
+  const worstRatio = Math.max(0, ...usage.map((u) => u.spent / u.limit));
+  const tone =
+    worstRatio >= 1 ? "text-destructive" : worstRatio >= BUDGET_WARNING_RATIO ? "text-amber-600" : "text-muted-foreground";
+
+  return (
+    <div className="relative flex items-center gap-1.5 border-s border-border ps-3 text-xs">
+      <button
+        type="button"
+        onClick={() => (editing ? setEditing(false) : openEditor())}
+        className={`flex items-center gap-1.5 hover:text-foreground transition-colors ${tone}`}
+        title="תקרות הוצאה"
+      >
+        {worstRatio >= BUDGET_WARNING_RATIO ? <AlertCircle className="h-3.5 w-3.5" /> : <Gauge className="h-3.5 w-3.5" />}
+        {usage.length === 0 ? (
+          <span>ללא תקרת תקציב</span>
+        ) : (
+          usage.map((u) => (
+            <span key={u.scope} className={u.spent >= u.limit ? "font-semibold" : undefined}>
+              {u.scope === "day" ? "היום" : "החודש"}: {formatCost(u.spent)}/{formatCost(u.limit)}
+            </span>
+          ))
+        )}
+      </button>
+
+      {editing && (
+        <div className="absolute top-full end-0 z-50 mt-2 w-56 rounded-lg border border-border bg-white p-3 shadow-lg">
+          <div className="flex flex-col gap-2">
+            {BUDGET_FIELDS.map((field) => (
+              <label key={field.scope} className="flex items-center justify-between gap-2">
+                <span className="text-foreground">{field.label} (₪)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  dir="ltr"
+                  value={draft[field.scope]}
+                  onChange={(e) => setDraft({ ...draft, [field.scope]: e.target.value })}
+                  placeholder="ללא"
+                  className="input-base w-20 rounded-md border border-border px-2 py-1 text-xs focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </label>
+            ))}
+            <p className="text-muted-foreground">שדה ריק = ללא תקרה. באצ׳ שיחרוג לא יתחיל, ובאצ׳ פעיל יושהה.</p>
+            <button
+              type="button"
+              onClick={saveLimits}
+              className="rounded-md bg-primary px-3 py-1.5 font-bold text-primary-foreground hover:bg-primary/90 transition-colors"
+            >
+              שמור
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
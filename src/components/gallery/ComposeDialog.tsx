@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { X, Combine } from "lucide-react";
+import { toast } from "sonner";
+import { useBatch } from "@/hooks/useBatch";
+import { uid, proxyImageUrl } from "@/lib/format-utils";
+import { MAX_COMPOSITION_IMAGES } from "@/lib/constants";
+import type { BatchImage } from "@/types/batch";
+
+interface ComposeDialogProps {
+  /** Selected gallery images, in the order they were selected */
+  sources: BatchImage[];
+  /** Called once the composition is submitted, before the dialog closes */
+  onComposed: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Edit several images together ("put the product from image 2 on the
+ * background of image 1"). Inputs are numbered in order: the selected gallery
+ * images first, then any of the batch's reference images. The result is
+ * added to the gallery as a new image.
+ */
+export function ComposeDialog({ sources, onComposed, onClose }: ComposeDialogProps) {
+  const { state, dispatch, flushSave } = useBatch();
+  const { settings } = state;
+  const batch = state.currentBatch;
+
+  const [prompt, setPrompt] = useState("");
+  const [referenceUrls, setReferenceUrls] = useState<string[]>([]);
+
+  const inputs = [
+    ...sources.map((img) => ({ url: img.result!.url, label: `#${img.index + 1}` })),
+    ...referenceUrls.map((url) => ({ url, label: "רפרנס" })),
+  ];
+  const tooMany = inputs.length > MAX_COMPOSITION_IMAGES;
+
+  const toggleReference = (url: string) => {
+    setReferenceUrls((prev) => (prev.includes(url) ? prev.filter((u) => u !== url) : [...prev, url]));
+  };
+
+  const handleSubmit = () => {
+    const capturedPrompt = prompt.trim();
+    if (!capturedPrompt) {
+      toast.error("נא להזין פרומפט לשילוב");
+      return;
+    }
+    if (!batch || inputs.length < 2 || tooMany) return;
+
+    const newIndex = batch.images.length;
+    const sourceImageIndices = sources.map((img) => img.index);
+    const placeholder: BatchImage = {
+      id: uid(),
+      index: newIndex,
+      rawPrompt: `[${sourceImageIndices.map((i) => `#${i + 1}`).join(" + ")}] ${capturedPrompt}`,
+      fullPrompt: capturedPrompt,
+      status: "processing",
+      sourceImageIndices,
+    };
+
+    dispatch({ type: "ADD_IMAGES", images: [placeholder] });
+    requestAnimationFrame(() => flushSave());
+    onComposed();
+    onClose();
+
+    // Fire-and-forget
+    fetch("/api/edit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        imageUrls: inputs.map((input) => input.url),
+        prompt: capturedPrompt,
+        provider: settings.provider ?? "fal",
+        model: settings.model,
+        batchId: batch.id,
+        imageIndex: newIndex,
+        settings: {
+          resolution: settings.resolution,
+          aspectRatio: settings.aspectRatio,
+          outputFormat: settings.outputFormat,
+          safetyTolerance: settings.safetyTolerance,
+          enableWebSearch: settings.enableWebSearch,
+          seed: settings.seed,
+        },
+      }),
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          const err = await res.json();
+          throw new Error(err.error || "Composition failed");
+        }
+        return res.json();
+      })
+      .then((data) => {
+        dispatch({
+          type: "UPDATE_IMAGE",
+          index: newIndex,
+          update: {
+            status: "completed",
+            result: data.image,
+            seed: data.seed,
+            requestId: data.requestId,
+            completedAt: new Date().toISOString(),
+          },
+        });
+        requestAnimationFrame(() => flushSave());
+        toast.success("השילוב הושלם");
+      })
+      .catch((error) => {
+        dispatch({
+          type: "UPDATE_IMAGE",
+          index: newIndex,
+          update: { status: "failed", error: error instanceof Error ? error.message : "שגיאה לא ידועה" },
+        });
+        toast.error("שגיאה בשילוב", {
+          description: error instanceof Error ? error.message : "שגיאה לא ידועה",
+        });
+      });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="animate-modal-in relative w-full max-w-lg rounded-2xl bg-white p-6 shadow-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-foreground">שילוב תמונות</h3>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Numbered inputs */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-foreground mb-2">
+            תמונות קלט ({inputs.length}/{MAX_COMPOSITION_IMAGES})
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {inputs.map((input, i) => (
+              <div key={`${input.url}-${i}`} className="relative">
+                <Image
+                  src={proxyImageUrl(input.url)}
+                  alt={`image ${i + 1}`}
+                  width={80}
+                  height={80}
+                  unoptimized
+                  className="h-20 w-20 rounded-lg border border-border object-cover"
+                />
+                <span className="absolute top-1 right-1 rounded-full bg-primary px-1.5 text-[11px] font-bold text-white">
+                  {i + 1}
+                </span>
+                <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1 text-[10px] text-white">
+                  {input.label}
+                </span>
+              </div>
+            ))}
+          </div>
+          {tooMany && (
+            <p className="mt-1 text-xs text-destructive">
+              ניתן לשלב עד {MAX_COMPOSITION_IMAGES} תמונות
+            </p>
+          )}
+        </div>
+
+        {/* Reference images from the settings */}
+        {settings.referenceImageUrls.length > 0 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-foreground mb-2">
+              הוספת תמונות רפרנס
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {settings.referenceImageUrls.map((url) => (
+                <button
+                  key={url}
+                  onClick={() => toggleReference(url)}
+                  className={`overflow-hidden rounded-lg border-2 transition-colors ${
+                    referenceUrls.includes(url) ? "border-primary" : "border-transparent opacity-60 hover:opacity-100"
+                  }`}
+                >
+                  <Image src={proxyImageUrl(url)} alt="reference" width={56} height={56} unoptimized className="h-14 w-14 object-cover" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Prompt Input */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-foreground mb-1">
+            פרומפט שילוב
+          </label>
+          <textarea
+            dir="ltr"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="put the product from image 2 on the background of image 1"
+            rows={3}
+            className="input-base w-full rounded-md border border-border bg-white px-3 py-2 font-mono text-sm text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary resize-y"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            התייחסו לתמונות לפי המספר שלהן (image 1, image 2...)
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSubmit}
+            disabled={!prompt.trim() || inputs.length < 2 || tooMany}
+            className="flex-1 flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2.5 text-sm font-bold text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors shadow-sm shadow-primary/20"
+          >
+            <Combine className="h-4 w-4" />
+            שלב {inputs.length} תמונות
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-md border border-border px-4 py-2.5 text-sm font-medium hover:bg-muted transition-colors"
+          >
+            ביטול
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { X, Pencil, Copy, Layers } from "lucide-react";
 import { toast } from "sonner";
 import { useBatch } from "@/hooks/useBatch";
 import { uid, proxyImageUrl } from "@/lib/format-utils";
+import { applyOverrides } from "@/lib/prompt-overrides";
+import { getMaskModel } from "@/lib/constants";
+import { exportMask, uploadMask } from "@/lib/mask";
+import { displayedVersion } from "@/lib/version-tree";
+import { MaskCanvas } from "./MaskCanvas";
 import type { BatchImage, EditMode, ImageVersion } from "@/types/batch";
 
 interface EditDialogProps {
@@ -35,22 +40,20 @@ const EDIT_MODES: { value: EditMode; label: string; description: string; icon: t
 
 export function EditDialog({ image, onClose }: EditDialogProps) {
   const { state, dispatch, flushSave } = useBatch();
-  const { settings } = state;
+  // Edits keep the image's own overrides (e.g. a 16:9 hero in a 1:1 batch)
+  const settings = applyOverrides(state.settings, image.overrides);
   const batch = state.currentBatch;
 
   const [editMode, setEditMode] = useState<EditMode>("replace");
   const [prompt, setPrompt] = useState("");
   const [variableValues, setVariableValues] = useState("");
+  const [useMask, setUseMask] = useState(false);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canMask = getMaskModel(settings.provider, settings.model) !== null;
 
   const imageUrl = image.result?.url;
   if (!imageUrl) return null;
 
-  const getNextVersionNumber = useCallback(() => {
-    if (!batch) return 2;
-    const existingVersions = image.versions?.length ?? 0;
-    return existingVersions > 0 ? existingVersions + 1 : 2;
-  }, [batch, image]);
-
   const getNextImageIndex = useCallback(() => {
     if (!batch) return 0;
     return batch.images.length;
@@ -65,10 +68,22 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
     return `V${existingEdits.length + baseIndex + 1}`;
   }, [batch, image]);
 
-  const buildRequestBody = (editPrompt: string, variations?: { prompt: string; label: string }[]) => ({
+  // Edits branch from whichever version is on display, not necessarily the latest
+  const hasVersions = (image.versions?.length ?? 0) > 0;
+  const sourceVersion = displayedVersion(image);
+
+  const buildRequestBody = (
+    editPrompt: string,
+    variations?: { prompt: string; label: string }[],
+    maskUrl?: string
+  ) => ({
     imageUrl,
     ...(variations ? { variations } : { prompt: editPrompt }),
+    ...(maskUrl && { maskUrl }),
     provider: settings.provider ?? "fal",
+    model: settings.model,
+    batchId: batch?.id,
+    imageIndex: image.index,
     settings: {
       resolution: settings.resolution,
       aspectRatio: settings.aspectRatio,
@@ -79,50 +94,70 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
     },
   });
 
-  const handleSubmit = () => {
+  /** Upload the mask (if any), then send the edit. Resolves to the response body and the mask's URL. */
+  const requestEdit = async (
+    editPrompt: string,
+    mask: Blob | null,
+    variations?: { prompt: string; label: string }[]
+  ) => {
+    const maskUrl = mask ? await uploadMask(mask) : undefined;
+    const res = await fetch("/api/edit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(buildRequestBody(editPrompt, variations, maskUrl)),
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || (variations ? "Parallel edit failed" : "Edit failed"));
+    }
+    return { data: await res.json(), maskUrl };
+  };
+
+  const handleSubmit = async () => {
     if (!prompt.trim()) {
       toast.error("נא להזין פרומפט לעריכה");
       return;
     }
 
+    let mask: Blob | null = null;
+    if (useMask && canMask) {
+      mask = maskCanvasRef.current ? await exportMask(maskCanvasRef.current) : null;
+      if (!mask) {
+        toast.error("נא לסמן על התמונה את האזור לעריכה");
+        return;
+      }
+    }
+
     if (editMode === "replace") {
-      fireReplaceEdit();
+      fireReplaceEdit(mask);
     } else if (editMode === "duplicate") {
-      fireDuplicateEdit();
+      fireDuplicateEdit(mask);
     } else {
-      fireParallelEdit();
+      fireParallelEdit(mask);
     }
   };
 
-  const fireReplaceEdit = () => {
+  const fireReplaceEdit = (mask: Blob | null) => {
     const capturedPrompt = prompt.trim();
     const capturedIndex = image.index;
-    const versionNum = getNextVersionNumber();
 
     // Close dialog immediately — edit runs in background
     dispatch({ type: "UPDATE_IMAGE", index: capturedIndex, update: { status: "editing" } });
     onClose();
 
-    fetch("/api/edit", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(buildRequestBody(capturedPrompt)),
-    })
-      .then(async (res) => {
-        if (!res.ok) {
-          const err = await res.json();
-          throw new Error(err.error || "Edit failed");
-        }
-        return res.json();
-      })
-      .then((data) => {
-        const newVersion: ImageVersion = {
-          versionNumber: versionNum,
+    requestEdit(capturedPrompt, mask)
+      .then(({ data, maskUrl }) => {
+        const newVersion: Omit<ImageVersion, "versionNumber"> = {
           url: data.image.url,
           contentType: data.image.contentType,
           width: data.image.width,
           height: data.image.height,
           editPrompt: capturedPrompt,
+          parentVersion: sourceVersion,
+          ...(maskUrl && { maskUrl }),
+          seed: data.seed,
+          provider: settings.provider,
+          model: settings.model,
           createdAt: new Date().toISOString(),
         };
 
@@ -136,7 +171,7 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
         // Force immediate save — don't rely on debounce for version data
         requestAnimationFrame(() => flushSave());
 
-        toast.success(`עריכה הושלמה — V${versionNum}`);
+        toast.success("עריכה הושלמה");
       })
       .catch((error) => {
         dispatch({ type: "UPDATE_IMAGE", index: capturedIndex, update: { status: "completed" } });
@@ -146,7 +181,7 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
       });
   };
 
-  const fireDuplicateEdit = () => {
+  const fireDuplicateEdit = (mask: Blob | null) => {
     // Capture values and create placeholder
     const capturedPrompt = prompt.trim();
     const newIndex = getNextImageIndex();
@@ -160,6 +195,8 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
       fullPrompt: capturedPrompt,
       status: "processing",
       sourceImageIndex: image.sourceImageIndex ?? image.index,
+      parentImageIndex: image.index,
+      ...(hasVersions && { parentVersion: sourceVersion }),
       versionLabel: vLabel,
     };
 
@@ -168,19 +205,8 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
     onClose();
 
     // Fire-and-forget
-    fetch("/api/edit", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(buildRequestBody(capturedPrompt)),
-    })
-      .then(async (res) => {
-        if (!res.ok) {
-          const err = await res.json();
-          throw new Error(err.error || "Edit failed");
-        }
-        return res.json();
-      })
-      .then((data) => {
+    requestEdit(capturedPrompt, mask)
+      .then(({ data }) => {
         dispatch({
           type: "UPDATE_IMAGE",
           index: newIndex,
@@ -207,7 +233,7 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
       });
   };
 
-  const fireParallelEdit = () => {
+  const fireParallelEdit = (mask: Blob | null) => {
     const values = variableValues
       .split("\n")
       .map((v) => v.trim())
@@ -237,6 +263,8 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
         fullPrompt: v.prompt,
         status: "processing" as const,
         sourceImageIndex: image.sourceImageIndex ?? image.index,
+        parentImageIndex: image.index,
+        ...(hasVersions && { parentVersion: sourceVersion }),
         versionLabel: vLabel,
       };
     });
@@ -247,19 +275,8 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
     toast.info(`מייצר ${variations.length} וריאציות...`);
 
     // Fire-and-forget
-    fetch("/api/edit", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(buildRequestBody(prompt.trim(), variations)),
-    })
-      .then(async (res) => {
-        if (!res.ok) {
-          const err = await res.json();
-          throw new Error(err.error || "Parallel edit failed");
-        }
-        return res.json();
-      })
-      .then((data) => {
+    requestEdit(prompt.trim(), mask, variations)
+      .then(({ data }) => {
         // Update each placeholder with the result
         data.results.forEach(
           (result: { label: string; prompt: string; image: BatchImage["result"]; seed?: number; requestId?: string }, i: number) => {
@@ -314,7 +331,12 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
       >
         {/* Header */}
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-bold text-foreground">עריכת תמונה</h3>
+          <h3 className="text-lg font-bold text-foreground">
+            עריכת תמונה
+            {hasVersions && (
+              <span className="mr-2 text-sm font-normal text-muted-foreground">מגרסה V{sourceVersion}</span>
+            )}
+          </h3>
           <button
             onClick={onClose}
             className="text-muted-foreground hover:text-foreground"
@@ -323,13 +345,38 @@ export function EditDialog({ image, onClose }: EditDialogProps) {
           </button>
         </div>
 
-        {/* Preview */}
-        <div className="mb-4 flex justify-center">
-          <img
-            src={proxyImageUrl(imageUrl)}
-            alt={image.rawPrompt}
-            className="max-h-40 rounded-lg object-contain border border-border"
-          />
+        {/* Preview, or the mask canvas when inpainting */}
+        <div className="mb-4">
+          {useMask && canMask ? (
+            <MaskCanvas
+              imageUrl={imageUrl}
+              alt={image.rawPrompt}
+              width={image.result!.width}
+              height={image.result!.height}
+              canvasRef={maskCanvasRef}
+            />
+          ) : (
+            <div className="flex justify-center">
+              <img
+                src={proxyImageUrl(imageUrl)}
+                alt={image.rawPrompt}
+                className="max-h-40 rounded-lg object-contain border border-border"
+              />
+            </div>
+          )}
+          <label
+            className={`mt-2 flex items-center gap-2 text-sm ${canMask ? "text-foreground" : "text-muted-foreground"}`}
+            title={canMask ? undefined : "הספק הנבחר לא תומך בעריכה לפי מסכה"}
+          >
+            <input
+              type="checkbox"
+              checked={useMask && canMask}
+              disabled={!canMask}
+              onChange={(e) => setUseMask(e.target.checked)}
+              className="accent-primary"
+            />
+            עריכה לפי מסכה — רק האזור המסומן ייווצר מחדש
+          </label>
         </div>
 
         {/* Edit Mode Selection */}
@@ -3,20 +3,27 @@
 import { useState } from "react";
 import { StatusBadge } from "@/components/common/StatusBadge";
 import { formatDuration, proxyImageUrl } from "@/lib/format-utils";
+import { describeOverrides } from "@/lib/prompt-overrides";
+import { currentReview } from "@/lib/image-review";
 import type { BatchImage } from "@/types/batch";
-import { Loader2, Pencil, AlertCircle, Check } from "lucide-react";
+import { Loader2, Pencil, AlertCircle, AlertTriangle, Check, Sparkles, Wand2 } from "lucide-react";
 
 interface ImageCardProps {
   image: BatchImage;
   onClick: () => void;
   onEdit: () => void;
+  /** Open the post-processing dialog (upscale, crop, convert...) for this image */
+  onPostProcess?: () => void;
   selectable?: boolean;
   selected?: boolean;
+  /** Position in the selection (1-based), shown instead of the check mark */
+  selectionNumber?: number;
   onToggleSelect?: () => void;
 }
 
-export function ImageCard({ image, onClick, onEdit, selectable, selected, onToggleSelect }: ImageCardProps) {
+export function ImageCard({ image, onClick, onEdit, onPostProcess, selectable, selected, selectionNumber, onToggleSelect }: ImageCardProps) {
   const [loaded, setLoaded] = useState(false);
+  const review = currentReview(image);
 
   return (
     <div
@@ -42,7 +49,7 @@ export function ImageCard({ image, onClick, onEdit, selectable, selected, onTogg
             )}
             <img
               src={proxyImageUrl(image.result.url)}
-              alt={image.rawPrompt}
+              alt={review?.caption ?? image.rawPrompt}
               loading="lazy"
               className={`h-full w-full object-cover transition-all duration-500 ease-out ${
                 image.status === "completed" ? "group-hover:scale-[1.07]" : ""
@@ -56,8 +63,13 @@ export function ImageCard({ image, onClick, onEdit, selectable, selected, onTogg
             )}
           </>
         ) : image.status === "processing" || image.status === "queued" ? (
-          <div className="flex h-full w-full items-center justify-center">
+          <div className="flex h-full w-full flex-col items-center justify-center gap-2">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            {(image.attempt ?? 1) > 1 && (
+              <span className="text-xs font-medium text-muted-foreground">
+                ניסיון {image.attempt}
+              </span>
+            )}
           </div>
         ) : image.status === "failed" ? (
           <div className="flex h-full w-full flex-col items-center justify-center bg-red-50 p-4 gap-2">
@@ -91,6 +103,19 @@ export function ImageCard({ image, onClick, onEdit, selectable, selected, onTogg
         </div>
       )}
 
+      {/* QA score (Gemini) */}
+      {review?.score !== undefined && image.status === "completed" && (
+        <div
+          className={`absolute bottom-[3.25rem] right-1.5 flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] font-bold text-white shadow-sm ${
+            review.flagged ? "bg-destructive/90" : "bg-green-600/90"
+          }`}
+          title={review.issues?.length ? review.issues.join(" · ") : "תואם לפרומפט"}
+        >
+          {review.flagged && <AlertTriangle className="h-3 w-3" />}
+          {review.score}/10
+        </div>
+      )}
+
       {/* Selection Checkbox */}
       {selectable && image.status === "completed" && (
         <button
@@ -104,7 +129,12 @@ export function ImageCard({ image, onClick, onEdit, selectable, selected, onTogg
               : "border-white/80 bg-black/30 text-transparent hover:border-white"
           }`}
         >
-          {selected && <Check className="h-3 w-3" />}
+          {selected &&
+            (selectionNumber !== undefined ? (
+              <span className="text-[10px] font-bold leading-none">{selectionNumber}</span>
+            ) : (
+              <Check className="h-3 w-3" />
+            ))}
         </button>
       )}
 
@@ -122,11 +152,35 @@ export function ImageCard({ image, onClick, onEdit, selectable, selected, onTogg
         </button>
       )}
 
+      {/* Post-process Button (on hover) */}
+      {image.status === "completed" && onPostProcess && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onPostProcess();
+          }}
+          className="absolute bottom-12 left-11 opacity-0 group-hover:opacity-100 transition-all duration-200 rounded-lg bg-black/60 p-2 text-white hover:bg-black/80 backdrop-blur-sm"
+          title="עיבוד תמונה"
+        >
+          <Wand2 className="h-3.5 w-3.5" />
+        </button>
+      )}
+
       {/* Info Footer */}
       <div className="px-3 py-2.5 border-t border-border/40">
         <p className="truncate text-sm text-foreground" title={image.rawPrompt}>
+          {image.originalPrompt && (
+            <span title={`הורחב מ: ${image.originalPrompt}`}>
+              <Sparkles className="ml-1 inline h-3 w-3 text-accent" />
+            </span>
+          )}
           {image.rawPrompt}
         </p>
+        {image.overrides && (
+          <p className="mt-0.5 truncate text-[11px] font-medium text-primary" dir="ltr">
+            {describeOverrides(image.overrides)}
+          </p>
+        )}
         {image.durationMs && (
           <p className="text-xs text-muted-foreground mt-0.5">
             {formatDuration(image.durationMs)}
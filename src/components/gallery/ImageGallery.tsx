@@ -1,21 +1,47 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import { ChevronDown, Download, ImageIcon, Video, X } from "lucide-react";
+import { ArrowLeftRight, Check, ChevronDown, Combine, Download, ImageIcon, Loader2, ScanSearch, Search, Video, Wand2, X } from "lucide-react";
 import { toast } from "sonner";
 import JSZip from "jszip";
 import { useBatch } from "@/hooks/useBatch";
-import { sanitizeFilename, generateBatchId, uid } from "@/lib/format-utils";
+import { sanitizeFilename, generateBatchId, uid, extensionForContentType } from "@/lib/format-utils";
 import { saveBatchToHistory } from "@/lib/persistence";
+import { matchesImageSearch } from "@/lib/image-review";
 import { DEFAULT_SETTINGS } from "@/lib/constants";
 import { SectionCard } from "@/components/common/SectionCard";
 import { ImageCard } from "./ImageCard";
 import { ImageLightbox } from "./ImageLightbox";
 import { EditDialog } from "./EditDialog";
-import type { Batch, BatchImage } from "@/types/batch";
+import { ComposeDialog } from "./ComposeDialog";
+import { PostProcessDialog } from "./PostProcessDialog";
+import type { Batch, BatchImage, ImageReview } from "@/types/batch";
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `HTTP ${res.status}`);
+  }
+  return res.json();
+}
+
+/** Caption the image's result and score it against its prompt with Gemini. */
+async function reviewImage(image: BatchImage): Promise<ImageReview> {
+  const url = image.result!.url;
+  const [{ caption }, qa] = await Promise.all([
+    postJson<{ caption: string }>("/api/caption-image", { imageUrl: url }),
+    postJson<{ score: number; issues: string[]; flagged: boolean }>("/api/score-image", { imageUrl: url, prompt: image.fullPrompt }),
+  ]);
+  return { url, caption, ...qa, reviewedAt: new Date().toISOString() };
+}
 
 export function ImageGallery() {
-  const { state, dispatch } = useBatch();
+  const { state, dispatch, flushSave } = useBatch();
   const batch = state.currentBatch;
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
   const [editImageIndex, setEditImageIndex] = useState<number | null>(null);
@@ -23,6 +49,11 @@ export function ImageGallery() {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [downloadMenuOpen, setDownloadMenuOpen] = useState(false);
+  const [composeOpen, setComposeOpen] = useState(false);
+  // Images to post-process: one from its card, or the selection
+  const [postProcessIds, setPostProcessIds] = useState<string[] | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
   const downloadMenuRef = useRef<HTMLDivElement>(null);
 
   const completedImages = batch?.images.filter((img) => img.status === "completed") ?? [];
@@ -61,6 +92,40 @@ export function ImageGallery() {
   }, []);
 
   const selectedImages = completedImages.filter((img) => selectedIds.has(img.id));
+  // Compositions number their inputs in the order they were picked
+  const selectionOrder = Array.from(selectedIds);
+  const selectedInOrder = selectionOrder
+    .map((id) => completedImages.find((img) => img.id === id))
+    .filter((img): img is BatchImage => !!img);
+
+  const handleReview = useCallback(async (targets: BatchImage[]) => {
+    setReviewing(true);
+    clearSelection();
+    const outcomes = await Promise.allSettled(
+      targets.map(async (img) => {
+        const review = await reviewImage(img);
+        dispatch({ type: "UPDATE_IMAGE", index: img.index, update: { review } });
+        return review;
+      })
+    );
+    requestAnimationFrame(() => flushSave());
+    setReviewing(false);
+
+    const reviews = outcomes.flatMap((o) => (o.status === "fulfilled" ? [o.value] : []));
+    const flagged = reviews.filter((review) => review.flagged).length;
+    const failed = outcomes.length - reviews.length;
+    if (failed > 0) {
+      const reason = outcomes.find((o): o is PromiseRejectedResult => o.status === "rejected")?.reason;
+      toast.error(`${failed} מתוך ${outcomes.length} תמונות לא נבדקו`, {
+        description: reason instanceof Error ? reason.message : "שגיאה לא ידועה",
+      });
+    }
+    if (reviews.length > 0) {
+      toast[flagged > 0 ? "warning" : "success"](
+        flagged > 0 ? `${flagged} מתוך ${reviews.length} תמונות לא תואמות לפרומפט` : `${reviews.length} תמונות נבדקו — כולן תואמות`
+      );
+    }
+  }, [clearSelection, dispatch, flushSave]);
 
   const handleDownloadAll = useCallback(async (naming: "sequential" | "prompt") => {
     if (!batch || completedImages.length === 0) return;
@@ -78,7 +143,7 @@ export function ImageGallery() {
             const res = await fetch(`/api/image-proxy?url=${encodeURIComponent(img.result!.url)}`);
             if (!res.ok) return;
             const blob = await res.blob();
-            const ext = batch.settings.outputFormat || "png";
+            const ext = extensionForContentType(img.result!.contentType, batch.settings.outputFormat || "png");
             const versionSuffix = img.versionLabel ? `-${img.versionLabel}` : "";
             const idx = String(img.index + 1).padStart(digits, "0");
 
@@ -139,6 +204,31 @@ export function ImageGallery() {
   }
 
   const editImage = editImageIndex !== null ? batch.images.find((img) => img.index === editImageIndex) : null;
+  const visibleImages = searchQuery.trim()
+    ? batch.images.filter((img) => matchesImageSearch(img, searchQuery))
+    : batch.images;
+  const postProcessImages = postProcessIds
+    ? completedImages.filter((img) => postProcessIds.includes(img.id))
+    : [];
+
+  /** Save a video batch for the given items and switch to VideoGallery to configure it. */
+  const openVideoBatch = (batchImages: BatchImage[]) => {
+    const batchId = generateBatchId();
+    const videoBatch: Batch = {
+      id: batchId,
+      name: `וידאו ${batchId}`,
+      type: "video",
+      status: "idle",
+      images: batchImages,
+      settings: state.settings || DEFAULT_SETTINGS,
+      createdAt: new Date().toISOString(),
+      estimatedCost: 0,
+    };
+    saveBatchToHistory(videoBatch);
+    window.dispatchEvent(new Event("videoBatchSaved"));
+    dispatch({ type: "VIEW_HISTORY_BATCH", batch: videoBatch });
+    clearSelection();
+  };
 
   return (
     <SectionCard
@@ -147,13 +237,29 @@ export function ImageGallery() {
       headerAction={
         completedImages.length > 0 ? (
           <div className="flex items-center gap-2">
+            {reviewing && (
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Gemini בודק...
+              </span>
+            )}
+            <div className="relative">
+              <Search className="pointer-events-none absolute right-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="חיפוש בפרומפט ובכיתוב"
+                className="w-44 rounded-lg border border-border bg-white py-1.5 pr-7 pl-2 text-xs focus:border-primary focus:outline-none"
+              />
+            </div>
             {!selectionMode ? (
               <button
                 onClick={() => setSelectionMode(true)}
                 className="flex items-center gap-1.5 rounded-lg bg-muted px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted/70 transition-colors"
               >
-                <Video className="h-3.5 w-3.5" />
-                בחר לוידאו
+                <Check className="h-3.5 w-3.5" />
+                בחירה
               </button>
             ) : (
               <button
@@ -198,7 +304,10 @@ export function ImageGallery() {
       }
     >
       <div className="grid grid-cols-[repeat(auto-fill,minmax(160px,1fr))] gap-3">
-        {batch.images.map((image) => (
+        {visibleImages.length === 0 && (
+          <p className="col-span-full py-6 text-center text-sm text-muted-foreground">אין תמונות שתואמות לחיפוש</p>
+        )}
+        {visibleImages.map((image) => (
           <ImageCard
             key={image.id}
             image={image}
@@ -210,8 +319,10 @@ export function ImageGallery() {
               }
             }}
             onEdit={() => setEditImageIndex(image.index)}
+            onPostProcess={() => setPostProcessIds([image.id])}
             selectable={selectionMode}
             selected={selectedIds.has(image.id)}
+            selectionNumber={selectionOrder.indexOf(image.id) + 1 || undefined}
             onToggleSelect={() => toggleSelect(image.id)}
           />
         ))}
@@ -237,6 +348,24 @@ export function ImageGallery() {
         />
       )}
 
+      {composeOpen && (
+        <ComposeDialog
+          sources={selectedInOrder}
+          onComposed={clearSelection}
+          onClose={() => setComposeOpen(false)}
+        />
+      )}
+
+      {postProcessImages.length > 0 && (
+        <PostProcessDialog
+          images={postProcessImages}
+          onSubmitted={() => {
+            if (selectionMode) clearSelection();
+          }}
+          onClose={() => setPostProcessIds(null)}
+        />
+      )}
+
       {/* Floating Selection Action Bar */}
       {selectionMode && selectedIds.size > 0 && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 rounded-2xl bg-card border border-border shadow-2xl px-5 py-3">
@@ -251,32 +380,65 @@ export function ImageGallery() {
           </button>
           <div className="h-5 w-px bg-border" />
           <button
-            onClick={() => {
-              // Create a video batch from selected images and switch to VideoGallery
-              const batchId = generateBatchId();
-              const batchImages: BatchImage[] = selectedImages.map((img, i) => ({
-                id: uid(),
-                index: i,
-                rawPrompt: img.rawPrompt,
-                fullPrompt: img.rawPrompt,
-                status: "pending" as const,
-                sourceImageUrl: img.result!.url,
-              }));
-              const videoBatch: Batch = {
-                id: batchId,
-                name: `וידאו ${batchId}`,
-                type: "video",
-                status: "idle",
-                images: batchImages,
-                settings: state.settings || DEFAULT_SETTINGS,
-                createdAt: new Date().toISOString(),
-                estimatedCost: 0,
-              };
-              saveBatchToHistory(videoBatch);
-              window.dispatchEvent(new Event("videoBatchSaved"));
-              dispatch({ type: "VIEW_HISTORY_BATCH", batch: videoBatch });
-              clearSelection();
-            }}
+            onClick={() => handleReview(selectedImages)}
+            disabled={reviewing}
+            title="כיתוב ובדיקת התאמה לפרומפט עם Gemini"
+            className="flex items-center gap-1.5 rounded-lg bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/70 disabled:opacity-50 transition-colors"
+          >
+            <ScanSearch className="h-4 w-4" />
+            בדיקה
+          </button>
+          <button
+            onClick={() => setPostProcessIds(selectedImages.map((img) => img.id))}
+            className="flex items-center gap-1.5 rounded-lg bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/70 transition-colors"
+          >
+            <Wand2 className="h-4 w-4" />
+            עיבוד
+          </button>
+          <button
+            onClick={() => setComposeOpen(true)}
+            className="flex items-center gap-1.5 rounded-lg bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/70 transition-colors"
+          >
+            <Combine className="h-4 w-4" />
+            שלב
+          </button>
+          {selectedInOrder.length === 2 && (
+            <button
+              onClick={() => {
+                // One clip that starts on the first picked image and ends on the second
+                const [from, to] = selectedInOrder;
+                openVideoBatch([
+                  {
+                    id: uid(),
+                    index: 0,
+                    rawPrompt: from.rawPrompt,
+                    fullPrompt: from.rawPrompt,
+                    status: "pending" as const,
+                    sourceImageUrl: from.result!.url,
+                    endImageUrl: to.result!.url,
+                  },
+                ]);
+              }}
+              title="וידאו אחד שמתחיל בתמונה הראשונה ומסתיים בשנייה"
+              className="flex items-center gap-1.5 rounded-lg bg-muted px-4 py-2 text-sm font-medium text-foreground hover:bg-muted/70 transition-colors"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+              מעבר
+            </button>
+          )}
+          <button
+            onClick={() =>
+              openVideoBatch(
+                selectedImages.map((img, i) => ({
+                  id: uid(),
+                  index: i,
+                  rawPrompt: img.rawPrompt,
+                  fullPrompt: img.rawPrompt,
+                  status: "pending" as const,
+                  sourceImageUrl: img.result!.url,
+                }))
+              )
+            }
             className="flex items-center gap-1.5 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors"
           >
             <Video className="h-4 w-4" />
@@ -1,9 +1,13 @@
 "use client";
 
 import { useEffect, useCallback, useState } from "react";
-import { X, ChevronRight, ChevronLeft, Download, Pencil, Loader2 } from "lucide-react";
+import { X, ChevronRight, ChevronLeft, Download, Pencil, Loader2, GitCompare, CornerUpRight } from "lucide-react";
 import { formatDuration, proxyImageUrl } from "@/lib/format-utils";
 import { useBatch } from "@/hooks/useBatch";
+import { displayedVersion, parentOf } from "@/lib/version-tree";
+import { currentReview } from "@/lib/image-review";
+import { VersionTree } from "./VersionTree";
+import { VersionCompare } from "./VersionCompare";
 import type { BatchImage } from "@/types/batch";
 
 interface ImageLightboxProps {
@@ -24,6 +28,8 @@ export function ImageLightbox({
   const { dispatch } = useBatch();
   // Track which URL is loaded to auto-reset when navigating
   const [loadedUrl, setLoadedUrl] = useState<string>("");
+  // Index of the image whose versions are being compared, so navigating away leaves compare mode
+  const [comparingIndex, setComparingIndex] = useState<number | null>(null);
   const image = images.find((img) => img.index === currentIndex);
   const completedImages = images.filter((img) => img.status === "completed");
   const currentCompletedIdx = completedImages.findIndex((img) => img.index === currentIndex);
@@ -64,6 +70,16 @@ export function ImageLightbox({
 
   const versions = image.versions;
   const hasVersions = versions && versions.length > 1;
+  const current = displayedVersion(image);
+  const currentVersion = versions?.find((v) => v.versionNumber === current);
+  const comparing = hasVersions && comparingIndex === image.index;
+  const parentImage = image.parentImageIndex !== undefined
+    ? images.find((img) => img.index === image.parentImageIndex)
+    : undefined;
+  const review = currentReview(image);
+
+  const selectVersion = (versionNumber: number) =>
+    dispatch({ type: "SET_IMAGE_VERSION", index: image.index, versionNumber });
 
   return (
     <div
@@ -82,22 +98,32 @@ export function ImageLightbox({
           <X className="h-5 w-5" />
         </button>
 
-        {/* Image with loading indicator */}
-        <div className="relative">
-          {!lightboxLoaded && (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <Loader2 className="h-8 w-8 animate-spin text-white" />
-            </div>
-          )}
-          <img
-            src={proxyImageUrl(image.result.url)}
-            alt={image.rawPrompt}
-            className={`max-h-[75vh] max-w-full rounded-lg object-contain transition-opacity duration-200 ${
-              lightboxLoaded ? "opacity-100" : "opacity-0"
-            }`}
-            onLoad={() => setLoadedUrl(image.result!.url)}
+        {/* Image with loading indicator, or the version comparison */}
+        {comparing && versions ? (
+          <VersionCompare
+            key={current}
+            versions={versions}
+            before={(currentVersion && parentOf(currentVersion)) ?? versions[0].versionNumber}
+            after={current}
+            onClose={() => setComparingIndex(null)}
           />
-        </div>
+        ) : (
+          <div className="relative">
+            {!lightboxLoaded && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-white" />
+              </div>
+            )}
+            <img
+              src={proxyImageUrl(image.result.url)}
+              alt={review?.caption ?? image.rawPrompt}
+              className={`max-h-[75vh] max-w-full rounded-lg object-contain transition-opacity duration-200 ${
+                lightboxLoaded ? "opacity-100" : "opacity-0"
+              }`}
+              onLoad={() => setLoadedUrl(image.result!.url)}
+            />
+          </div>
+        )}
 
         {/* Navigation */}
         <div className="absolute inset-y-0 right-0 flex items-center">
@@ -121,35 +147,35 @@ export function ImageLightbox({
           )}
         </div>
 
-        {/* Version Switcher */}
+        {/* Version tree */}
         {hasVersions && (
-          <div className="mt-2 flex items-center gap-1">
-            {versions.map((v) => (
-              <button
-                key={v.versionNumber}
-                onClick={() =>
-                  dispatch({
-                    type: "SET_IMAGE_VERSION",
-                    index: image.index,
-                    versionNumber: v.versionNumber,
-                  })
-                }
-                className={`rounded px-2.5 py-1 text-xs font-medium transition-colors ${
-                  (image.currentVersion ?? versions.length) === v.versionNumber
-                    ? "bg-primary text-white"
-                    : "bg-white/20 text-white/80 hover:bg-white/30"
-                }`}
-                title={v.versionNumber === 1 ? "מקור" : v.editPrompt}
-              >
-                V{v.versionNumber}
-              </button>
-            ))}
+          <div className="mt-2 w-full max-w-xl">
+            <VersionTree
+              versions={versions}
+              current={current}
+              onSelect={selectVersion}
+              onBranch={(versionNumber) => {
+                selectVersion(versionNumber);
+                onEdit(image.index);
+              }}
+            />
+          </div>
+        )}
+
+        {review && (
+          <div className="mt-2 max-w-xl text-center text-xs text-white/70">
+            {review.caption && <p dir="ltr">{review.caption}</p>}
+            {review.flagged && review.issues?.length ? (
+              <p className="mt-1 text-red-300">
+                לא תואם לפרומפט ({review.score}/10): <span dir="ltr">{review.issues.join(" · ")}</span>
+              </p>
+            ) : null}
           </div>
         )}
 
         {/* Info bar */}
         <div className="mt-3 flex items-center gap-4 text-sm text-white/80 flex-wrap justify-center">
-          <span dir="ltr">{image.rawPrompt}</span>
+          <span dir="ltr" title={image.originalPrompt && `הורחב מ: ${image.originalPrompt}`}>{image.rawPrompt}</span>
           <span>{image.result.width}x{image.result.height}</span>
           {image.durationMs && <span>{formatDuration(image.durationMs)}</span>}
           {image.seed !== undefined && <span>Seed: {image.seed}</span>}
@@ -158,6 +184,26 @@ export function ImageLightbox({
               {image.versionLabel}
             </span>
           )}
+          {parentImage && (
+            <button
+              onClick={() => onNavigate(parentImage.index)}
+              className="flex items-center gap-1 rounded bg-white/20 px-2 py-1 hover:bg-white/30"
+              title={parentImage.rawPrompt}
+            >
+              <CornerUpRight className="h-3.5 w-3.5" />
+              נערך מ-#{parentImage.index + 1}
+              {image.parentVersion !== undefined && ` V${image.parentVersion}`}
+            </button>
+          )}
+          {hasVersions && (
+            <button
+              onClick={() => setComparingIndex(comparing ? null : image.index)}
+              className={`flex items-center gap-1 rounded px-2 py-1 ${comparing ? "bg-primary" : "bg-white/20 hover:bg-white/30"}`}
+            >
+              <GitCompare className="h-3.5 w-3.5" />
+              השווה
+            </button>
+          )}
           <button
             onClick={handleDownloadSingle}
             className="flex items-center gap-1 rounded bg-white/20 px-2 py-1 hover:bg-white/30"
@@ -0,0 +1,127 @@
+"use client";
+
+import { useRef, useState, type PointerEvent, type RefObject } from "react";
+import Image from "next/image";
+import { Brush, Eraser, Trash2 } from "lucide-react";
+import { proxyImageUrl } from "@/lib/format-utils";
+import { drawMaskStroke } from "@/lib/mask";
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  alt: string;
+  /** Size the image is stored at; the canvas follows the loaded image's natural size */
+  width: number;
+  height: number;
+  /** The canvas holding the strokes, at the image's natural size (see exportMask) */
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+}
+
+type MaskTool = "brush" | "eraser";
+
+const TOOLS: { value: MaskTool; label: string; icon: typeof Brush }[] = [
+  { value: "brush", label: "מברשת", icon: Brush },
+  { value: "eraser", label: "מחק", icon: Eraser },
+];
+
+export function MaskCanvas({ imageUrl, alt, width, height, canvasRef }: MaskCanvasProps) {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>("brush");
+  // In screen pixels; scaled to the image when drawing
+  const [brushSize, setBrushSize] = useState(30);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = e.currentTarget.width / rect.width;
+    return { point: { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale }, scale };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { point, scale } = toCanvasPoint(e);
+    drawMaskStroke(e.currentTarget, point, point, brushSize * scale, tool === "eraser");
+    lastPoint.current = point;
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    const { point, scale } = toCanvasPoint(e);
+    drawMaskStroke(e.currentTarget, lastPoint.current, point, brushSize * scale, tool === "eraser");
+    lastPoint.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative mx-auto w-fit">
+        <Image
+          src={proxyImageUrl(imageUrl)}
+          alt={alt}
+          width={width}
+          height={height}
+          unoptimized
+          draggable={false}
+          onLoad={(e) =>
+            setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+          }
+          className="block h-auto max-h-72 w-auto select-none rounded-lg border border-border object-contain"
+        />
+        {naturalSize && (
+          <canvas
+            ref={canvasRef}
+            width={naturalSize.width}
+            height={naturalSize.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 h-full w-full cursor-crosshair touch-none rounded-lg opacity-50"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {TOOLS.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => setTool(value)}
+            className={`flex items-center gap-1 rounded-md border px-2 py-1 text-xs transition-colors ${
+              tool === value
+                ? "border-primary bg-primary/5 text-primary"
+                : "border-border text-muted-foreground hover:bg-muted/30"
+            }`}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {label}
+          </button>
+        ))}
+        <label className="flex flex-1 items-center gap-2 text-xs text-muted-foreground">
+          גודל
+          <input
+            type="range"
+            min={5}
+            max={100}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="flex-1 accent-primary"
+          />
+        </label>
+        <button
+          onClick={handleClear}
+          className="flex items-center gap-1 rounded-md border border-border px-2 py-1 text-xs text-muted-foreground hover:bg-muted/30 transition-colors"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          נקה
+        </button>
+      </div>
+    </div>
+  );
+}
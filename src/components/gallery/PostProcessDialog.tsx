@@ -0,0 +1,343 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { X, Wand2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { useBatch } from "@/hooks/useBatch";
+import { useExchangeRate } from "@/hooks/useExchangeRate";
+import { describePostProcess, formatCostILS, proxyImageUrl, sanitizeFilename } from "@/lib/format-utils";
+import { displayedVersion, nextVersionNumber } from "@/lib/version-tree";
+import {
+  ASPECT_RATIOS,
+  DEFAULT_COMPRESS_QUALITY,
+  MAX_POSTPROCESS_OPERATIONS,
+  OUTPUT_FORMATS,
+  POSTPROCESS_OPERATION_LABELS,
+  estimatePostProcessCostUsd,
+} from "@/lib/constants";
+import type { BatchImage, ImageVersion } from "@/types/batch";
+import type { OutputFormat } from "@/types/generation";
+import type { PostProcessOperation, PostProcessOperationType } from "@/types/postprocess";
+
+interface PostProcessDialogProps {
+  images: BatchImage[];
+  /** Called once processing is submitted, before the dialog closes */
+  onSubmitted?: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_OPERATIONS: Record<PostProcessOperationType, PostProcessOperation> = {
+  upscale: { type: "upscale", scale: 2 },
+  remove_background: { type: "remove_background" },
+  crop: { type: "crop", aspectRatio: "1:1" },
+  convert: { type: "convert", format: "png" },
+  compress: { type: "compress", quality: DEFAULT_COMPRESS_QUALITY },
+};
+
+const selectClass = "rounded-md border border-border bg-white px-2 py-1 text-xs focus:border-primary focus:outline-none";
+
+/**
+ * Build a chain of post-processing steps and run it on one or more images.
+ * Each result is stored as a new version of its image, branched from the
+ * version on display.
+ */
+export function PostProcessDialog({ images, onSubmitted, onClose }: PostProcessDialogProps) {
+  const { state, dispatch, flushSave } = useBatch();
+  const { settings } = state;
+  const batch = state.currentBatch;
+  const rate = useExchangeRate();
+
+  const [operations, setOperations] = useState<PostProcessOperation[]>([DEFAULT_OPERATIONS.upscale]);
+  const [downloadZip, setDownloadZip] = useState(false);
+
+  const provider = settings.provider ?? "fal";
+  const estimate = estimatePostProcessCostUsd(operations, provider) * images.length;
+
+  const updateOperation = (index: number, op: PostProcessOperation) => {
+    setOperations((prev) => prev.map((existing, i) => (i === index ? op : existing)));
+  };
+
+  const renderParams = (op: PostProcessOperation, index: number) => {
+    switch (op.type) {
+      case "upscale":
+        return (
+          <select
+            value={op.scale}
+            onChange={(e) => updateOperation(index, { type: "upscale", scale: Number(e.target.value) === 4 ? 4 : 2 })}
+            className={selectClass}
+          >
+            <option value={2}>×2</option>
+            <option value={4}>×4</option>
+          </select>
+        );
+      case "crop":
+        return (
+          <select
+            dir="ltr"
+            value={op.aspectRatio}
+            onChange={(e) => updateOperation(index, { type: "crop", aspectRatio: e.target.value })}
+            className={selectClass}
+          >
+            {ASPECT_RATIOS.filter((r) => r !== "auto").map((r) => (
+              <option key={r} value={r}>{r}</option>
+            ))}
+          </select>
+        );
+      case "convert":
+        return (
+          <select
+            value={op.format}
+            onChange={(e) => updateOperation(index, { type: "convert", format: e.target.value as OutputFormat })}
+            className={selectClass}
+          >
+            {OUTPUT_FORMATS.map((f) => (
+              <option key={f} value={f}>{f.toUpperCase()}</option>
+            ))}
+          </select>
+        );
+      case "compress":
+        return (
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            איכות
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={op.quality}
+              onChange={(e) =>
+                updateOperation(index, { type: "compress", quality: Math.min(100, Math.max(1, Math.round(Number(e.target.value)) || 1)) })
+              }
+              className={`${selectClass} w-16`}
+            />
+          </label>
+        );
+      default:
+        return null;
+    }
+  };
+
+  /** Zip the processed images through /api/download and save the archive. */
+  const downloadResults = async (results: { image: BatchImage; version: ImageVersion }[]) => {
+    const res = await fetch("/api/download", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        batchId: batch?.id,
+        batchName: batch?.name,
+        images: results.map(({ image, version }) => ({
+          index: image.index,
+          url: version.url,
+          prompt: image.rawPrompt,
+          outputFormat: settings.outputFormat,
+          contentType: version.contentType,
+          versionLabel: `V${version.versionNumber}`,
+        })),
+      }),
+    });
+    if (!res.ok) throw new Error("Download failed");
+
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${sanitizeFilename(batch?.name ?? "") || "images"}-processed.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const processImage = async (image: BatchImage, capturedOperations: PostProcessOperation[]) => {
+    const res = await fetch("/api/postprocess", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        imageUrl: image.result!.url,
+        operations: capturedOperations,
+        provider,
+        batchId: batch?.id,
+        imageIndex: image.index,
+      }),
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Post-processing failed");
+    }
+    const data = await res.json();
+
+    const version: Omit<ImageVersion, "versionNumber"> = {
+      parentVersion: displayedVersion(image),
+      url: data.image.url,
+      contentType: data.image.contentType,
+      width: data.image.width,
+      height: data.image.height,
+      editPrompt: describePostProcess(capturedOperations),
+      provider,
+      createdAt: new Date().toISOString(),
+    };
+    dispatch({ type: "REPLACE_IMAGE_VERSION", index: image.index, newVersion: version, newResult: data.image });
+    // The reducer numbers the version; this is its number unless another edit of the image lands first
+    return { image, version: { ...version, versionNumber: nextVersionNumber(image) } };
+  };
+
+  const handleSubmit = () => {
+    if (operations.length === 0) {
+      toast.error("נא להוסיף לפחות פעולה אחת");
+      return;
+    }
+
+    const capturedOperations = operations;
+    const capturedDownload = downloadZip;
+    const targets = images.filter((img) => img.status === "completed" && img.result);
+
+    // Close immediately; processing runs in the background like edits
+    targets.forEach((img) => dispatch({ type: "UPDATE_IMAGE", index: img.index, update: { status: "editing" } }));
+    onSubmitted?.();
+    onClose();
+
+    Promise.allSettled(targets.map((img) => processImage(img, capturedOperations))).then(async (outcomes) => {
+      const succeeded = outcomes.flatMap((o) => (o.status === "fulfilled" ? [o.value] : []));
+      outcomes.forEach((o, i) => {
+        if (o.status === "rejected") {
+          dispatch({ type: "UPDATE_IMAGE", index: targets[i].index, update: { status: "completed" } });
+        }
+      });
+      requestAnimationFrame(() => flushSave());
+
+      const failed = outcomes.length - succeeded.length;
+      if (failed > 0) {
+        const reason = outcomes.find((o): o is PromiseRejectedResult => o.status === "rejected")?.reason;
+        toast.error(`${failed} מתוך ${outcomes.length} תמונות נכשלו בעיבוד`, {
+          description: reason instanceof Error ? reason.message : "שגיאה לא ידועה",
+        });
+      } else {
+        toast.success(succeeded.length === 1 ? "העיבוד הושלם" : `${succeeded.length} תמונות עובדו`);
+      }
+
+      if (capturedDownload && succeeded.length > 0) {
+        await downloadResults(succeeded).catch((error) =>
+          toast.error("שגיאה בהורדה", { description: error instanceof Error ? error.message : "שגיאה לא ידועה" })
+        );
+      }
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="animate-modal-in relative w-full max-w-lg rounded-2xl bg-white p-6 shadow-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-foreground">
+            עיבוד תמונה
+            {images.length > 1 && (
+              <span className="mr-2 text-sm font-normal text-muted-foreground">{images.length} תמונות</span>
+            )}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Preview */}
+        <div className="mb-4 flex flex-wrap justify-center gap-2">
+          {images.slice(0, 6).map((img) => (
+            <Image
+              key={img.id}
+              src={proxyImageUrl(img.result!.url)}
+              alt={img.rawPrompt}
+              width={img.result!.width}
+              height={img.result!.height}
+              unoptimized
+              className={`${images.length === 1 ? "h-auto max-h-40 w-auto" : "h-16 w-16 object-cover"} rounded-lg object-contain border border-border`}
+            />
+          ))}
+          {images.length > 6 && (
+            <span className="self-center text-xs text-muted-foreground">+{images.length - 6}</span>
+          )}
+        </div>
+
+        {/* Operation chain */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-foreground mb-2">
+            שרשרת פעולות (לפי הסדר)
+          </label>
+          <ol className="flex flex-col gap-2">
+            {operations.map((op, i) => (
+              <li key={i} className="flex items-center gap-2 rounded-lg border border-border p-2">
+                <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-primary/10 text-[11px] font-bold text-primary">
+                  {i + 1}
+                </span>
+                <span className="flex-1 text-sm">{POSTPROCESS_OPERATION_LABELS[op.type]}</span>
+                {renderParams(op, i)}
+                <button
+                  onClick={() => setOperations((prev) => prev.filter((_, j) => j !== i))}
+                  className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                  title="הסר"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ol>
+          {operations.length < MAX_POSTPROCESS_OPERATIONS && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {(Object.keys(DEFAULT_OPERATIONS) as PostProcessOperationType[]).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setOperations((prev) => [...prev, DEFAULT_OPERATIONS[type]])}
+                  className="flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs hover:bg-muted/70 transition-colors"
+                >
+                  <Plus className="h-3 w-3" />
+                  {POSTPROCESS_OPERATION_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <label className="mb-4 flex items-center gap-2 text-sm text-foreground">
+          <input
+            type="checkbox"
+            checked={downloadZip}
+            onChange={(e) => setDownloadZip(e.target.checked)}
+            className="accent-primary"
+          />
+          הורד את התוצאות כ-ZIP בסיום
+        </label>
+
+        {estimate > 0 && (
+          <p className="mb-4 text-xs text-muted-foreground">
+            עלות משוערת: {formatCostILS(estimate, rate)}
+          </p>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSubmit}
+            disabled={operations.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2.5 text-sm font-bold text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors shadow-sm shadow-primary/20"
+          >
+            <Wand2 className="h-4 w-4" />
+            {images.length > 1 ? `עבד ${images.length} תמונות` : "עבד תמונה"}
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-md border border-border px-4 py-2.5 text-sm font-medium hover:bg-muted transition-colors"
+          >
+            ביטול
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { X, Clapperboard, ChevronUp, ChevronDown, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { STORYBOARD_TRANSITION_LABELS } from "@/lib/constants";
+import type { BatchImage } from "@/types/batch";
+import type { Storyboard, StoryboardTransition } from "@/types/video";
+
+interface StoryboardDialogProps {
+  /** Completed clips with their video URLs, in batch order */
+  clips: Array<{ item: BatchImage; videoUrl: string }>;
+  onRendered: (storyboard: Storyboard) => void;
+  onClose: () => void;
+}
+
+interface StoryboardEntry {
+  index: number;
+  videoUrl: string;
+  prompt: string;
+  included: boolean;
+  title: string;
+}
+
+/**
+ * Order a batch's clips, pick a transition and optional title cards, and
+ * render them into one reel on the server.
+ */
+export function StoryboardDialog({ clips, onRendered, onClose }: StoryboardDialogProps) {
+  const [entries, setEntries] = useState<StoryboardEntry[]>(() =>
+    clips.map(({ item, videoUrl }) => ({ index: item.index, videoUrl, prompt: item.rawPrompt, included: true, title: "" }))
+  );
+  const [transition, setTransition] = useState<StoryboardTransition>("crossfade");
+  const [rendering, setRendering] = useState(false);
+
+  const included = entries.filter((entry) => entry.included);
+
+  const updateEntry = (index: number, update: Partial<StoryboardEntry>) => {
+    setEntries((prev) => prev.map((entry) => (entry.index === index ? { ...entry, ...update } : entry)));
+  };
+
+  const move = (position: number, delta: number) => {
+    setEntries((prev) => {
+      const target = position + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+  };
+
+  const handleRender = async () => {
+    setRendering(true);
+    try {
+      const res = await fetch("/api/generate-video/storyboard", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          clips: included.map((entry) => ({ videoUrl: entry.videoUrl, title: entry.title.trim() || undefined })),
+          transition,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Storyboard render failed");
+      }
+      const data = await res.json();
+      onRendered({ url: data.url, transition, clipCount: included.length, createdAt: new Date().toISOString() });
+      toast.success("הסטוריבורד מוכן");
+      onClose();
+    } catch (error) {
+      toast.error("שגיאה ביצירת הסטוריבורד", {
+        description: error instanceof Error ? error.message : "שגיאה לא ידועה",
+      });
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={rendering ? undefined : onClose}
+    >
+      <div
+        className="animate-modal-in relative w-full max-w-lg rounded-2xl bg-white p-6 shadow-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        dir="rtl"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-foreground">סטוריבורד</h3>
+          <button
+            onClick={onClose}
+            disabled={rendering}
+            className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Clip order */}
+        <label className="block text-sm font-medium text-foreground mb-2">
+          סדר הקליפים
+        </label>
+        <ol className="mb-4 flex flex-col gap-2">
+          {entries.map((entry, position) => (
+            <li
+              key={entry.index}
+              className={`flex items-center gap-2 rounded-lg border border-border p-2 ${entry.included ? "" : "opacity-50"}`}
+            >
+              <input
+                type="checkbox"
+                checked={entry.included}
+                onChange={(e) => updateEntry(entry.index, { included: e.target.checked })}
+                className="accent-primary"
+              />
+              <video src={entry.videoUrl} muted preload="metadata" className="h-10 w-16 shrink-0 rounded object-cover bg-muted" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground truncate" dir="ltr">{entry.prompt}</p>
+                <input
+                  type="text"
+                  value={entry.title}
+                  onChange={(e) => updateEntry(entry.index, { title: e.target.value })}
+                  disabled={!entry.included}
+                  placeholder="כרטיס כותרת (אופציונלי)"
+                  className="mt-1 w-full rounded-md border border-border bg-white px-2 py-1 text-xs focus:border-primary focus:outline-none"
+                />
+              </div>
+              <div className="flex flex-col">
+                <button
+                  onClick={() => move(position, -1)}
+                  disabled={position === 0}
+                  title="הזז למעלה"
+                  className="rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground disabled:opacity-30"
+                >
+                  <ChevronUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => move(position, 1)}
+                  disabled={position === entries.length - 1}
+                  title="הזז למטה"
+                  className="rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground disabled:opacity-30"
+                >
+                  <ChevronDown className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {/* Transition */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-foreground mb-2">מעבר בין קליפים</label>
+          <div className="flex gap-1.5">
+            {(Object.keys(STORYBOARD_TRANSITION_LABELS) as StoryboardTransition[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTransition(value)}
+                className={`rounded-md border px-3 py-1.5 text-xs font-medium transition-colors ${
+                  transition === value
+                    ? "border-primary bg-primary/5 text-primary"
+                    : "border-border text-muted-foreground hover:border-primary/30"
+                }`}
+              >
+                {STORYBOARD_TRANSITION_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2">
+          <button
+            onClick={handleRender}
+            disabled={included.length === 0 || rendering}
+            className="flex-1 flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2.5 text-sm font-bold text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors shadow-sm shadow-primary/20"
+          >
+            {rendering ? (
+              <><Loader2 className="h-4 w-4 animate-spin" /> מרנדר...</>
+            ) : (
+              <><Clapperboard className="h-4 w-4" /> צור סרטון אחד ({included.length} קליפים)</>
+            )}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={rendering}
+            className="rounded-md border border-border px-4 py-2.5 text-sm font-medium hover:bg-muted disabled:opacity-50 transition-colors"
+          >
+            ביטול
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
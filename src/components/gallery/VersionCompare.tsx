@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Columns2, ArrowLeftRight, X } from "lucide-react";
+import { proxyImageUrl } from "@/lib/format-utils";
+import type { ImageVersion } from "@/types/batch";
+
+interface VersionCompareProps {
+  versions: ImageVersion[];
+  /** Initially compared versions: `before` on the right (RTL), `after` on the left */
+  before: number;
+  after: number;
+  onClose: () => void;
+}
+
+type CompareMode = "side" | "slider";
+
+const MODES: { value: CompareMode; label: string; icon: typeof Columns2 }[] = [
+  { value: "side", label: "זה לצד זה", icon: Columns2 },
+  { value: "slider", label: "מחוון", icon: ArrowLeftRight },
+];
+
+export function VersionCompare({ versions, before, after, onClose }: VersionCompareProps) {
+  const [mode, setMode] = useState<CompareMode>("side");
+  const [beforeNumber, setBeforeNumber] = useState(before);
+  const [afterNumber, setAfterNumber] = useState(after);
+  // Share of the width (from the left) showing the `after` version
+  const [split, setSplit] = useState(50);
+
+  const beforeVersion = versions.find((v) => v.versionNumber === beforeNumber) ?? versions[0];
+  const afterVersion = versions.find((v) => v.versionNumber === afterNumber) ?? versions[versions.length - 1];
+
+  const versionSelect = (value: number, onChange: (n: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="rounded bg-white/20 px-2 py-1 text-xs text-white focus:outline-none"
+    >
+      {versions.map((v) => (
+        <option key={v.versionNumber} value={v.versionNumber} className="text-foreground">
+          V{v.versionNumber}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-white/80">
+        {versionSelect(beforeVersion.versionNumber, setBeforeNumber)}
+        <span>מול</span>
+        {versionSelect(afterVersion.versionNumber, setAfterNumber)}
+        <div className="h-4 w-px bg-white/30" />
+        {MODES.map((m) => {
+          const Icon = m.icon;
+          return (
+            <button
+              key={m.value}
+              onClick={() => setMode(m.value)}
+              className={`flex items-center gap-1 rounded px-2 py-1 transition-colors ${
+                mode === m.value ? "bg-primary text-white" : "bg-white/20 hover:bg-white/30"
+              }`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {m.label}
+            </button>
+          );
+        })}
+        <button onClick={onClose} className="rounded bg-white/20 p-1 hover:bg-white/30" title="סגור השוואה">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {mode === "side" ? (
+        <div className="flex gap-2">
+          {[beforeVersion, afterVersion].map((v, i) => (
+            <figure key={i} className="flex flex-col items-center gap-1">
+              <Image
+                src={proxyImageUrl(v.url)}
+                alt={v.editPrompt}
+                width={v.width}
+                height={v.height}
+                unoptimized
+                className="h-auto max-h-[65vh] w-auto max-w-[44vw] rounded-lg object-contain"
+              />
+              <figcaption className="max-w-[44vw] truncate text-xs text-white/70" dir="ltr">
+                V{v.versionNumber} — {v.editPrompt}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-2">
+          <div className="relative select-none" dir="ltr">
+            <Image
+              src={proxyImageUrl(beforeVersion.url)}
+              alt={beforeVersion.editPrompt}
+              width={beforeVersion.width}
+              height={beforeVersion.height}
+              unoptimized
+              className="h-auto max-h-[65vh] w-auto max-w-[85vw] rounded-lg object-contain"
+            />
+            <Image
+              src={proxyImageUrl(afterVersion.url)}
+              alt={afterVersion.editPrompt}
+              width={afterVersion.width}
+              height={afterVersion.height}
+              unoptimized
+              className="absolute inset-0 h-full w-full rounded-lg object-contain"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+            <div className="pointer-events-none absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${split}%` }} />
+            <span className="absolute left-2 top-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+              V{afterVersion.versionNumber}
+            </span>
+            <span className="absolute right-2 top-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+              V{beforeVersion.versionNumber}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(e) => setSplit(Number(e.target.value))}
+            dir="ltr"
+            className="w-64 accent-primary"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
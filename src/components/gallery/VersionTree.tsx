@@ -0,0 +1,68 @@
+"use client";
+
+import { GitBranch } from "lucide-react";
+import { buildVersionTree, versionLineage, type VersionNode } from "@/lib/version-tree";
+import type { ImageVersion } from "@/types/batch";
+
+interface VersionTreeProps {
+  versions: ImageVersion[];
+  current: number;
+  onSelect: (versionNumber: number) => void;
+  /** Show the version and open the edit dialog on it */
+  onBranch: (versionNumber: number) => void;
+}
+
+export function VersionTree({ versions, current, onSelect, onBranch }: VersionTreeProps) {
+  const lineage = versionLineage(versions, current);
+
+  const renderNode = (node: VersionNode, depth: number) => {
+    const { version } = node;
+    const isCurrent = version.versionNumber === current;
+    const onPath = lineage.includes(version.versionNumber);
+    const meta = [
+      version.provider && version.model ? `${version.provider} · ${version.model}` : version.provider,
+      version.seed !== undefined && `Seed: ${version.seed}`,
+    ].filter(Boolean).join(" · ");
+
+    return (
+      <li key={version.versionNumber}>
+        <div
+          className={`group flex items-center gap-2 rounded px-1.5 py-1 ${isCurrent ? "bg-primary/30" : "hover:bg-white/10"}`}
+          style={{ paddingInlineStart: `${depth * 16 + 6}px` }}
+        >
+          <button
+            onClick={() => onSelect(version.versionNumber)}
+            className={`shrink-0 rounded px-2 py-0.5 text-xs font-medium transition-colors ${
+              isCurrent ? "bg-primary text-white" : onPath ? "bg-white/30 text-white" : "bg-white/15 text-white/80 hover:bg-white/25"
+            }`}
+          >
+            V{version.versionNumber}
+          </button>
+          <button
+            onClick={() => onSelect(version.versionNumber)}
+            className="min-w-0 flex-1 truncate text-right text-xs text-white/80"
+            title={meta || undefined}
+          >
+            <span dir="ltr">{version.versionNumber === 1 ? "מקור" : version.editPrompt}</span>
+          </button>
+          <button
+            onClick={() => onBranch(version.versionNumber)}
+            className="shrink-0 rounded p-1 text-white/60 opacity-0 transition-opacity hover:bg-white/20 hover:text-white group-hover:opacity-100 focus:opacity-100"
+            title="ענף מגרסה זו"
+          >
+            <GitBranch className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        {node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <ul className="max-h-40 overflow-y-auto rounded-lg bg-black/40 p-1">
+      {buildVersionTree(versions).map((root) => renderNode(root, 0))}
+    </ul>
+  );
+}
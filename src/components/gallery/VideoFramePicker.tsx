@@ -0,0 +1,61 @@
+"use client";
+
+import Image from "next/image";
+import { X } from "lucide-react";
+import { proxyImageUrl } from "@/lib/format-utils";
+
+interface VideoFramePickerProps {
+  label: string;
+  /** Images that can be picked (the batch's source images) */
+  options: string[];
+  /** Picked images, in order */
+  selected: string[];
+  onToggle: (url: string) => void;
+  /** Adds a "none" choice that clears the selection */
+  onClear?: () => void;
+}
+
+/** A row of batch thumbnails to pick a clip's frames from. */
+export function VideoFramePicker({ label, options, selected, onToggle, onClear }: VideoFramePickerProps) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <span className="w-14 shrink-0 text-[11px] text-muted-foreground">{label}</span>
+      <div className="flex gap-1 overflow-x-auto pb-0.5">
+        {onClear && (
+          <button
+            type="button"
+            onClick={onClear}
+            title="ללא"
+            className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-md border transition-colors ${
+              selected.length === 0
+                ? "border-primary bg-primary/5 text-primary"
+                : "border-border text-muted-foreground hover:border-primary/30"
+            }`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {options.map((url) => {
+          const position = selected.indexOf(url);
+          return (
+            <button
+              key={url}
+              type="button"
+              onClick={() => onToggle(url)}
+              className={`relative h-8 w-8 shrink-0 overflow-hidden rounded-md border-2 transition-colors ${
+                position >= 0 ? "border-primary" : "border-transparent opacity-60 hover:opacity-100"
+              }`}
+            >
+              <Image src={proxyImageUrl(url)} alt="" width={32} height={32} unoptimized className="h-full w-full object-cover" />
+              {position >= 0 && selected.length > 1 && (
+                <span className="absolute bottom-0 left-0 rounded-tr bg-primary px-1 text-[9px] font-bold text-primary-foreground">
+                  {position + 1}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
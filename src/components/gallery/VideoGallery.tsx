@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import {
   Download,
   Video,
@@ -12,26 +12,39 @@ import {
   Sparkles,
   ChevronDown,
   RefreshCw,
+  EyeOff,
+  Eye,
   AlertCircle,
+  Clapperboard,
 } from "lucide-react";
 import { toast } from "sonner";
 import JSZip from "jszip";
 import { useBatch } from "@/hooks/useBatch";
+import { useExchangeRate } from "@/hooks/useExchangeRate";
 import { useWakeLock } from "@/hooks/useWakeLock";
 import { saveBatchToHistory, loadGeminiPresets, type GeminiPreset } from "@/lib/persistence";
+import { applyOverrides } from "@/lib/prompt-overrides";
 import { SectionCard } from "@/components/common/SectionCard";
+import { VideoSettingsPicker } from "@/components/settings/VideoSettingsPicker";
+import { VideoFramePicker } from "./VideoFramePicker";
+import { StoryboardDialog } from "./StoryboardDialog";
 import {
   VIDEO_POLL_INTERVAL_MS,
   VIDEO_POLL_MAX_DURATION_MS,
   MAX_ACTIVE_VIDEO_TASKS,
+  DEFAULT_VIDEO_SETTINGS,
+  VIDEO_MODELS,
+  constrainVideoSettings,
   isVideoConfigValid,
+  supportsVideoFrames,
   estimateVideoCost,
-  getVideoModelId,
+  getVideoModel,
+  STORYBOARD_TRANSITION_LABELS,
   DEFAULT_GEMINI_SYSTEM_PROMPT,
   GEMINI_PROMPT_PRESETS,
-  type VideoModel,
 } from "@/lib/constants";
-import type { Batch, BatchImage } from "@/types/batch";
+import type { Batch, BatchImage, VideoSettings } from "@/types/batch";
+import type { Storyboard, VideoBatchStatus, VideoTaskState } from "@/types/video";
 
 // --- Types ---
 
@@ -40,6 +53,17 @@ interface LiveStatus {
   videoUrl?: string;
   error?: string;
   requestId?: string;
+  /** First frame generated for a text-to-video item */
+  sourceImageUrl?: string;
+}
+
+/** Frames an item's clip is made from, as picked in the config phase */
+interface ItemFrames {
+  startImageUrl?: string;
+  endImageUrl?: string;
+  keyframeUrls: string[];
+  /** Left out of the batch, e.g. when it only serves as another clip's end frame */
+  excluded: boolean;
 }
 
 interface ImagePromptState {
@@ -54,18 +78,19 @@ interface ImagePromptState {
 
 export function VideoGallery() {
   const { state, dispatch } = useBatch();
+  const usdToIls = useExchangeRate();
   const batch = state.currentBatch;
 
   // --- UI state ---
   const [playingIndex, setPlayingIndex] = useState<number | null>(null);
   const [downloading, setDownloading] = useState(false);
+  const [storyboardOpen, setStoryboardOpen] = useState(false);
   const [polling, setPolling] = useState(false);
 
   // --- Config state (only used in idle phase) ---
-  const [videoModel, setVideoModel] = useState<VideoModel>("pro");
-  const [duration, setDuration] = useState<"6" | "10">("6");
-  const [resolution, setResolution] = useState<"768P" | "1080P">("768P");
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(() => state.settings.video ?? DEFAULT_VIDEO_SETTINGS);
   const [imagePrompts, setImagePrompts] = useState<Map<number, ImagePromptState>>(new Map());
+  const [itemFrames, setItemFrames] = useState<Map<number, ItemFrames>>(new Map());
   const [isAnalyzingAll, setIsAnalyzingAll] = useState(false);
   const [localSystemPrompt, setLocalSystemPrompt] = useState(DEFAULT_GEMINI_SYSTEM_PROMPT);
   const [showPromptConfig, setShowPromptConfig] = useState(false);
@@ -96,13 +121,32 @@ export function VideoGallery() {
   batchRef.current = batch;
 
   // --- Initialize config prompts when batch loads in idle state ---
+  // Only when another batch loads; the ref reads it without re-running on every batch update
   useEffect(() => {
-    if (!batch || batch.type !== "video" || batch.status !== "idle") return;
+    const loaded = batchRef.current;
+    if (!loaded || loaded.type !== "video" || loaded.status !== "idle") return;
     const map = new Map<number, ImagePromptState>();
-    for (const img of batch.images) {
+    const frames = new Map<number, ItemFrames>();
+    for (const img of loaded.images) {
       map.set(img.index, { prompt: img.rawPrompt, analysisStatus: "idle" });
+      frames.set(img.index, {
+        startImageUrl: img.sourceImageUrl,
+        endImageUrl: img.endImageUrl,
+        keyframeUrls: img.keyframeUrls ?? [],
+        excluded: false,
+      });
     }
     setImagePrompts(map);
+    setItemFrames(frames);
+    // Transition batches need a model that takes an end frame
+    if (loaded.images.some((img) => img.endImageUrl)) {
+      setVideoSettings((prev) => {
+        const endFrameModel = VIDEO_MODELS.find((m) => m.endImageParam);
+        return getVideoModel(prev.model).endImageParam || !endFrameModel
+          ? prev
+          : constrainVideoSettings({ ...prev, model: endFrameModel.id });
+      });
+    }
   }, [batch?.id]);
 
   // Load custom Gemini presets
@@ -138,10 +182,10 @@ export function VideoGallery() {
 
   // --- Derived state ---
 
-  const completedVideos =
-    batch?.images.filter((img) => {
-      return getItemStatus(img) === "completed" && getItemVideoUrl(img);
-    }) ?? [];
+  const completedVideos = useMemo(
+    () => batch?.images.filter((img) => getItemStatus(img) === "completed" && getItemVideoUrl(img)) ?? [],
+    [batch, getItemStatus, getItemVideoUrl]
+  );
 
   const totalCount = batch?.images.length ?? 0;
   const completedCount = completedVideos.length;
@@ -161,13 +205,30 @@ export function VideoGallery() {
     (batch.status === "interrupted" || batch.status === "error") &&
     hasWorkToDo;
 
-  const configValid = isVideoConfigValid(duration, resolution);
-  const cost = batch ? estimateVideoCost(batch.images.length, duration, resolution, videoModel) : 0;
+  const selectedModel = getVideoModel(videoSettings.model);
+  const includedImages = batch?.images.filter((img) => !itemFrames.get(img.index)?.excluded) ?? [];
+  const frameOptions = [...new Set(batch?.images.map((img) => img.sourceImageUrl).filter((url): url is string => !!url))];
+  const framesValid = includedImages.every((img) => supportsVideoFrames(videoSettings.model, itemFrames.get(img.index) ?? {}));
+  const configValid =
+    includedImages.length > 0 &&
+    framesValid &&
+    isVideoConfigValid(videoSettings.duration, videoSettings.resolution, videoSettings.model, videoSettings.aspectRatio);
+  const cost = batch
+    ? estimateVideoCost(includedImages.length, videoSettings.duration, videoSettings.resolution, videoSettings.model, usdToIls)
+    : 0;
 
   // ===================================================================
   // CONFIG PHASE: Gemini analysis + prompt editing
   // ===================================================================
 
+  const updateItemFrames = useCallback((index: number, update: Partial<ItemFrames>) => {
+    setItemFrames((prev) => {
+      const next = new Map(prev);
+      next.set(index, { ...next.get(index)!, ...update });
+      return next;
+    });
+  }, []);
+
   const updateImagePrompt = useCallback((index: number, prompt: string) => {
     setImagePrompts((prev) => {
       const next = new Map(prev);
@@ -277,19 +338,28 @@ export function VideoGallery() {
 
   const createVideoTask = useCallback(
     async (
+      batchData: Batch,
       img: BatchImage,
       videoSettings: NonNullable<Batch["videoSettings"]>
-    ): Promise<{ taskId?: string; error?: string }> => {
+    ): Promise<{ taskId?: string; imageUrl?: string; error?: string }> => {
+      // Text-to-video items without a frame yet have it generated with the batch's image settings
+      const firstFrameSettings =
+        !img.sourceImageUrl && videoSettings.firstFrame ? applyOverrides(batchData.settings, img.overrides) : undefined;
       try {
         const res = await fetch("/api/generate-video/start", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            batchId: batchData.id,
             index: img.index,
             imageUrl: img.sourceImageUrl,
-            prompt: img.rawPrompt,
+            endImageUrl: img.endImageUrl,
+            keyframeUrls: img.keyframeUrls,
+            firstFrameSettings,
+            prompt: img.fullPrompt,
             duration: videoSettings.duration,
             resolution: videoSettings.resolution,
+            aspectRatio: videoSettings.aspectRatio,
             model: videoSettings.model,
           }),
         });
@@ -297,7 +367,7 @@ export function VideoGallery() {
         if (!res.ok || data.error) {
           return { error: data.error || "Task creation failed" };
         }
-        return { taskId: data.taskId };
+        return { taskId: data.taskId, imageUrl: data.imageUrl };
       } catch (err) {
         return { error: err instanceof Error ? err.message : "Network error" };
       }
@@ -331,9 +401,9 @@ export function VideoGallery() {
       for (const img of toCreate) {
         if (stoppedRef.current) break;
         updateLiveStatus(img.index, { status: "creating", requestId: undefined });
-        const result = await createVideoTask(img, batchData.videoSettings);
+        const result = await createVideoTask(batchData, img, batchData.videoSettings);
         if (result.taskId) {
-          updateLiveStatus(img.index, { status: "queued", requestId: result.taskId });
+          updateLiveStatus(img.index, { status: "queued", requestId: result.taskId, sourceImageUrl: result.imageUrl });
         } else {
           updateLiveStatus(img.index, { status: "failed", error: result.error });
         }
@@ -361,6 +431,7 @@ export function VideoGallery() {
           ...img,
           status: mapStatus(live.status),
           videoUrl: live.videoUrl ?? img.videoUrl,
+          sourceImageUrl: live.sourceImageUrl ?? img.sourceImageUrl,
           requestId: live.requestId ?? img.requestId,
           error: live.error ?? img.error,
           completedAt: live.status === "completed" ? new Date().toISOString() : img.completedAt,
@@ -388,6 +459,29 @@ export function VideoGallery() {
     [buildFinalBatch, dispatch]
   );
 
+  /** Reflect a task's provider state in the image's live status. */
+  const applyTaskStatus = useCallback(
+    (index: number, requestId: string, result: { taskId: string; state: VideoTaskState; videoUrl?: string; error?: string }) => {
+      const current = liveStatusesRef.current.get(index);
+      if (result.state === "success") {
+        updateLiveStatus(index, { ...current, status: "completed", videoUrl: result.videoUrl, requestId });
+      } else if (result.state === "fail") {
+        updateLiveStatus(index, { ...current, status: "failed", error: result.error, requestId });
+      } else if (result.state === "generating") {
+        if (current?.status !== "processing" || current.requestId !== requestId) {
+          updateLiveStatus(index, { ...current, status: "processing", requestId });
+        }
+      } else if (result.state === "queuing" || result.state === "waiting") {
+        if (current?.status !== "queued" || current.requestId !== requestId) {
+          updateLiveStatus(index, { ...current, status: "queued", requestId });
+        }
+      } else if (result.state === "error") {
+        console.warn(`[VideoGallery] Poll error for task ${result.taskId}: ${result.error}`);
+      }
+    },
+    [updateLiveStatus]
+  );
+
   // --- Core polling ---
 
   const startPolling = useCallback(() => {
@@ -427,19 +521,44 @@ export function VideoGallery() {
         return;
       }
 
-      const currentStatuses = liveStatusesRef.current;
+      // 1. Sync with the server's task registry. The server polls and persists
+      //    registered tasks itself; this also recovers task ids lost to a reload.
+      const serverTaskIds = new Set<string>();
+      try {
+        const res = await fetch(`/api/generate-video/batch?batchId=${encodeURIComponent(batchData.id)}`);
+        if (res.ok) {
+          const data: VideoBatchStatus = await res.json();
+          // Newest first, so a retried index follows its latest task
+          for (const task of [...data.tasks].reverse()) {
+            serverTaskIds.add(task.taskId);
+            const img = batchData.images.find((i) => i.index === task.index);
+            const live = liveStatusesRef.current.get(task.index);
+            const requestId = live?.requestId ?? img?.requestId;
+            const status = live?.status ?? img?.status;
+            if (requestId && requestId !== task.taskId) continue;
+            if (requestId && (status === "completed" || status === "failed")) continue;
+            applyTaskStatus(task.index, task.taskId, task);
+          }
+        } else {
+          console.warn(`[VideoGallery] Batch status API returned ${res.status}`);
+        }
+      } catch (err) {
+        console.warn("[VideoGallery] Batch status network error:", err);
+      }
+      if (stoppedRef.current) return;
 
-      // 1. Fill slots
+      // 2. Fill slots
       await fillSlots(batchData);
       if (stoppedRef.current) return;
 
-      // 2. Poll active tasks
+      // 3. Poll active tasks the server does not track (batches started before the registry)
+      const currentStatuses = liveStatusesRef.current;
       const activeTasks: { index: number; requestId: string }[] = [];
       for (const img of batchData.images) {
         const live = currentStatuses.get(img.index);
         const requestId = live?.requestId ?? img.requestId;
         const status = live?.status ?? img.status;
-        if (requestId && status !== "completed" && status !== "failed") {
+        if (requestId && !serverTaskIds.has(requestId) && status !== "completed" && status !== "failed") {
           activeTasks.push({ index: img.index, requestId });
         }
       }
@@ -452,28 +571,7 @@ export function VideoGallery() {
             const data = await res.json();
             for (const result of data.results ?? []) {
               const task = activeTasks.find((t) => t.requestId === result.taskId);
-              if (!task) continue;
-              const current = currentStatuses.get(task.index);
-
-              if (result.state === "success") {
-                updateLiveStatus(task.index, {
-                  ...current, status: "completed", videoUrl: result.videoUrl, requestId: task.requestId,
-                });
-              } else if (result.state === "fail") {
-                updateLiveStatus(task.index, {
-                  ...current, status: "failed", error: result.error, requestId: task.requestId,
-                });
-              } else if (result.state === "generating") {
-                if (current?.status !== "processing") {
-                  updateLiveStatus(task.index, { ...current, status: "processing", requestId: task.requestId });
-                }
-              } else if (result.state === "queuing" || result.state === "waiting") {
-                if (current?.status !== "queued") {
-                  updateLiveStatus(task.index, { ...current, status: "queued", requestId: task.requestId });
-                }
-              } else if (result.state === "error") {
-                console.warn(`[VideoGallery] Poll error for task ${result.taskId}: ${result.error}`);
-              }
+              if (task) applyTaskStatus(task.index, task.requestId, result);
             }
           } else {
             console.warn(`[VideoGallery] Poll API returned ${res.status}`);
@@ -483,7 +581,7 @@ export function VideoGallery() {
         }
       }
 
-      // 3. Check completion
+      // 4. Check completion
       const updatedStatuses = liveStatusesRef.current;
       const allDone = batchData.images.every((img) => {
         const live = updatedStatuses.get(img.index);
@@ -496,15 +594,15 @@ export function VideoGallery() {
         return;
       }
 
-      // 4. Periodic save
+      // 5. Periodic save
       await saveBatch(batchData, "running");
 
-      // 5. Next cycle
+      // 6. Next cycle
       scheduleNext();
     };
 
     pollOnce();
-  }, [polling, fillSlots, updateLiveStatus, saveBatch]);
+  }, [polling, fillSlots, applyTaskStatus, saveBatch]);
 
   const handleStop = useCallback(async () => {
     stoppedRef.current = true;
@@ -525,17 +623,20 @@ export function VideoGallery() {
     if (!batch || !configValid || isStarting) return;
     setIsStarting(true);
 
-    const modelId = getVideoModelId(videoModel);
-    const videoSettings = { duration, resolution, model: modelId };
-
-    // Update batch images with edited prompts
-    const updatedImages: BatchImage[] = batch.images.map((img) => {
+    // Update batch images with edited prompts and picked frames; excluded items are dropped
+    const included = batch.images.filter((img) => !itemFrames.get(img.index)?.excluded);
+    const updatedImages: BatchImage[] = included.map((img, i) => {
       const promptState = imagePrompts.get(img.index);
+      const frames = itemFrames.get(img.index);
       const editedPrompt = promptState?.prompt || img.rawPrompt;
       return {
         ...img,
+        index: i,
         rawPrompt: editedPrompt,
         fullPrompt: editedPrompt,
+        sourceImageUrl: frames?.startImageUrl ?? img.sourceImageUrl,
+        endImageUrl: frames?.endImageUrl,
+        keyframeUrls: frames?.keyframeUrls.length ? frames.keyframeUrls : undefined,
       };
     });
 
@@ -547,12 +648,16 @@ export function VideoGallery() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            batchId: batch.id,
             index: img.index,
             imageUrl: img.sourceImageUrl,
+            endImageUrl: img.endImageUrl,
+            keyframeUrls: img.keyframeUrls,
             prompt: img.rawPrompt,
-            duration,
-            resolution,
-            model: modelId,
+            duration: videoSettings.duration,
+            resolution: videoSettings.resolution,
+            aspectRatio: videoSettings.aspectRatio,
+            model: videoSettings.model,
           }),
         });
         const data = await res.json();
@@ -575,7 +680,13 @@ export function VideoGallery() {
       status: "running",
       images: updatedImages,
       videoSettings,
-      estimatedCost: estimateVideoCost(updatedImages.length, duration, resolution, videoModel),
+      estimatedCost: estimateVideoCost(
+        updatedImages.length,
+        videoSettings.duration,
+        videoSettings.resolution,
+        videoSettings.model,
+        usdToIls
+      ),
     };
 
     // Save and switch context
@@ -585,19 +696,39 @@ export function VideoGallery() {
 
     setIsStarting(false);
     // Auto-start polling will pick up from the "running" status via useEffect
-  }, [batch, configValid, isStarting, videoModel, duration, resolution, imagePrompts, dispatch]);
+  }, [batch, configValid, isStarting, videoSettings, imagePrompts, itemFrames, dispatch, usdToIls]);
 
   // --- Auto-start polling for "running" batches ---
 
+  const batchId = batch?.id;
+  const batchStatus = batch?.status;
+  const batchType = batch?.type;
   useEffect(() => {
-    if (!batch || batch.type !== "video" || batch.status !== "running") return;
+    if (!batchId || batchType !== "video" || batchStatus !== "running") return;
     if (polling) return;
-    if (autoStartedRef.current === batch.id) return;
+    if (autoStartedRef.current === batchId) return;
 
-    autoStartedRef.current = batch.id;
+    autoStartedRef.current = batchId;
     const timer = setTimeout(() => startPolling(), 100);
     return () => clearTimeout(timer);
-  }, [batch?.id, batch?.status, batch?.type, polling, startPolling]);
+  }, [batchId, batchStatus, batchType, polling, startPolling]);
+
+  // --- Pause / resume requested by BatchControls ---
+
+  useEffect(() => {
+    const handlePause = () => {
+      if (polling) handleStop();
+    };
+    const handleResume = () => {
+      if (canResume) startPolling();
+    };
+    window.addEventListener("videoBatchPause", handlePause);
+    window.addEventListener("videoBatchResume", handleResume);
+    return () => {
+      window.removeEventListener("videoBatchPause", handlePause);
+      window.removeEventListener("videoBatchResume", handleResume);
+    };
+  }, [polling, canResume, handleStop, startPolling]);
 
   // --- Cleanup on unmount ---
 
@@ -670,6 +801,20 @@ export function VideoGallery() {
     }
   }, [batch, completedVideos, getItemVideoUrl]);
 
+  // --- Storyboard ---
+
+  const handleStoryboardRendered = useCallback(
+    async (storyboard: Storyboard) => {
+      const batchData = batchRef.current;
+      if (!batchData) return;
+      const updated = { ...buildFinalBatch(batchData, liveStatusesRef.current, batchData.status), storyboard };
+      await saveBatchToHistory(updated);
+      window.dispatchEvent(new Event("videoBatchSaved"));
+      dispatch({ type: "VIEW_HISTORY_BATCH", batch: updated });
+    },
+    [buildFinalBatch, dispatch]
+  );
+
   const handleDownloadSingle = useCallback((videoUrl: string, index: number) => {
     const a = document.createElement("a");
     a.href = videoUrl;
@@ -726,6 +871,16 @@ export function VideoGallery() {
               עצור
             </button>
           )}
+          {/* Storyboard */}
+          {completedVideos.length > 1 && !polling && (
+            <button
+              onClick={() => setStoryboardOpen(true)}
+              className="flex items-center gap-1.5 rounded-lg bg-muted px-3 py-1.5 text-xs font-medium text-foreground hover:bg-muted/70 transition-colors"
+            >
+              <Clapperboard className="h-3.5 w-3.5" />
+              סטוריבורד
+            </button>
+          )}
           {/* Download all */}
           {completedVideos.length > 0 && (
             <button
@@ -831,15 +986,24 @@ export function VideoGallery() {
             <div className="space-y-3 max-h-[300px] overflow-y-auto">
               {batch.images.map((img) => {
                 const promptState = imagePrompts.get(img.index);
-                if (!promptState) return null;
+                const frames = itemFrames.get(img.index);
+                if (!promptState || !frames) return null;
+                const startImageUrl = frames.startImageUrl ?? img.sourceImageUrl;
                 return (
-                  <div key={img.id} className="flex gap-3 items-start">
+                  <div key={img.id} className={`flex gap-3 items-start ${frames.excluded ? "opacity-40" : ""}`}>
                     <div className="shrink-0 flex flex-col items-center gap-1">
                       <img
-                        src={img.sourceImageUrl}
+                        src={startImageUrl}
                         alt=""
                         className="h-14 w-14 rounded-lg object-cover border border-border"
                       />
+                      <button
+                        onClick={() => updateItemFrames(img.index, { excluded: !frames.excluded })}
+                        title={frames.excluded ? "החזר לאצווה" : "השמט מהאצווה"}
+                        className="flex items-center justify-center h-6 w-6 rounded-md border border-border text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                      >
+                        {frames.excluded ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                      </button>
                       <button
                         onClick={() => handleAnalyzeSingle(img.index, img)}
                         disabled={promptState.analysisStatus === "analyzing" || isAnalyzingAll}
@@ -876,6 +1040,40 @@ export function VideoGallery() {
                       {promptState.analysisStatus === "completed" && (
                         <p className="text-xs text-green-600 mt-1">נוצר אוטומטית</p>
                       )}
+                      {!frames.excluded && frameOptions.length > 1 && (
+                        <div className="mt-1.5 space-y-1">
+                          <VideoFramePicker
+                            label="התחלה"
+                            options={frameOptions}
+                            selected={startImageUrl ? [startImageUrl] : []}
+                            onToggle={(url) => updateItemFrames(img.index, { startImageUrl: url })}
+                          />
+                          {(selectedModel.endImageParam || frames.endImageUrl) && (
+                            <VideoFramePicker
+                              label="סיום"
+                              options={frameOptions}
+                              selected={frames.endImageUrl ? [frames.endImageUrl] : []}
+                              onToggle={(url) => updateItemFrames(img.index, { endImageUrl: url === frames.endImageUrl ? undefined : url })}
+                              onClear={() => updateItemFrames(img.index, { endImageUrl: undefined })}
+                            />
+                          )}
+                          {(selectedModel.keyframes || frames.keyframeUrls.length > 0) && (
+                            <VideoFramePicker
+                              label="ביניים"
+                              options={frameOptions}
+                              selected={frames.keyframeUrls}
+                              onToggle={(url) =>
+                                updateItemFrames(img.index, {
+                                  keyframeUrls: frames.keyframeUrls.includes(url)
+                                    ? frames.keyframeUrls.filter((u) => u !== url)
+                                    : [...frames.keyframeUrls, url].slice(0, selectedModel.keyframes?.max ?? 0),
+                                })
+                              }
+                              onClear={() => updateItemFrames(img.index, { keyframeUrls: [] })}
+                            />
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
@@ -883,77 +1081,18 @@ export function VideoGallery() {
             </div>
           </div>
 
-          {/* Model selector */}
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">מודל</label>
-            <div className="flex gap-2">
-              {(["pro", "standard"] as const).map((m) => (
-                <button
-                  key={m}
-                  onClick={() => setVideoModel(m)}
-                  className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
-                    videoModel === m
-                      ? "border-primary bg-primary/5 text-primary"
-                      : "border-border hover:border-primary/30"
-                  }`}
-                >
-                  {m === "pro" ? "Pro (איכות גבוהה)" : "Standard (מהיר וזול)"}
-                </button>
-              ))}
-            </div>
-          </div>
+          <VideoSettingsPicker value={videoSettings} onChange={setVideoSettings} />
 
-          {/* Duration */}
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">משך וידאו</label>
-            <div className="flex gap-2">
-              {(["6", "10"] as const).map((d) => (
-                <button
-                  key={d}
-                  onClick={() => setDuration(d)}
-                  className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
-                    duration === d
-                      ? "border-primary bg-primary/5 text-primary"
-                      : "border-border hover:border-primary/30"
-                  }`}
-                >
-                  {d} שניות
-                </button>
-              ))}
-            </div>
-          </div>
-
-          {/* Resolution */}
-          <div>
-            <label className="block text-sm font-medium text-foreground mb-2">רזולוציה</label>
-            <div className="flex gap-2">
-              {(["768P", "1080P"] as const).map((r) => (
-                <button
-                  key={r}
-                  onClick={() => setResolution(r)}
-                  className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
-                    resolution === r
-                      ? "border-primary bg-primary/5 text-primary"
-                      : "border-border hover:border-primary/30"
-                  }`}
-                >
-                  {r}
-                </button>
-              ))}
-            </div>
-          </div>
-
-          {/* Validation warning */}
-          {!configValid && (
+          {!framesValid && (
             <div className="flex items-center gap-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-700">
               <AlertCircle className="h-4 w-4 shrink-0" />
-              משך 10 שניות אינו זמין ברזולוציה 1080P
+              המודל {selectedModel.label} לא תומך בתמונות הסיום או הביניים שנבחרו
             </div>
           )}
 
           {/* Cost estimate */}
           <div className="rounded-lg bg-muted px-3 py-2 text-sm text-muted-foreground">
-            עלות משוערת: ₪{cost.toFixed(2)} ({batch.images.length} וידאו)
+            עלות משוערת: ₪{cost.toFixed(2)} ({includedImages.length} וידאו)
           </div>
 
           {/* Generate button */}
@@ -965,7 +1104,7 @@ export function VideoGallery() {
             {isStarting ? (
               <><Loader2 className="h-4 w-4 animate-spin" /> מתחיל יצירה...</>
             ) : (
-              <><Video className="h-4 w-4" /> צור {batch.images.length} וידאו</>
+              <><Video className="h-4 w-4" /> צור {includedImages.length} וידאו</>
             )}
           </button>
         </div>
@@ -981,7 +1120,8 @@ export function VideoGallery() {
             <div className="mb-4 rounded-lg bg-muted/50 px-3 py-2 text-xs text-muted-foreground flex items-center gap-3">
               <span>משך: {batch.videoSettings.duration}s</span>
               <span>רזולוציה: {batch.videoSettings.resolution}</span>
-              <span>מודל: {batch.videoSettings.model.includes("pro") ? "Pro" : "Standard"}</span>
+              {batch.videoSettings.aspectRatio && <span dir="ltr">{batch.videoSettings.aspectRatio}</span>}
+              <span>מודל: {getVideoModel(batch.videoSettings.model).label}</span>
             </div>
           )}
 
@@ -1012,11 +1152,35 @@ export function VideoGallery() {
             </div>
           )}
 
+          {/* Storyboard reel */}
+          {batch.storyboard && (
+            <div className="mb-4 rounded-xl border border-border/80 bg-card p-3">
+              <div className="mb-2 flex items-center justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1.5 font-medium text-foreground">
+                  <Clapperboard className="h-3.5 w-3.5" />
+                  סטוריבורד · {batch.storyboard.clipCount} קליפים · {STORYBOARD_TRANSITION_LABELS[batch.storyboard.transition]}
+                </span>
+                <a
+                  href={batch.storyboard.url}
+                  download={`${batch.name || "storyboard"}.mp4`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center gap-1 text-primary hover:underline"
+                >
+                  <Download className="h-3 w-3" />
+                  הורד
+                </a>
+              </div>
+              <video src={batch.storyboard.url} controls className="w-full max-h-80 rounded-lg bg-black" />
+            </div>
+          )}
+
           {/* Video grid */}
           <div className="grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-3">
             {batch.images.map((item) => {
               const itemStatus = getItemStatus(item);
               const itemVideoUrl = getItemVideoUrl(item);
+              const itemImageUrl = liveStatuses.get(item.index)?.sourceImageUrl ?? item.sourceImageUrl;
 
               return (
                 <div
@@ -1031,8 +1195,8 @@ export function VideoGallery() {
                       }
                     }}
                   >
-                    {item.sourceImageUrl ? (
-                      <img src={item.sourceImageUrl} alt="" className="h-full w-full object-cover" />
+                    {itemImageUrl ? (
+                      <img src={itemImageUrl} alt="" className="h-full w-full object-cover" />
                     ) : (
                       <div className="h-full w-full bg-muted flex items-center justify-center">
                         <Video className="h-8 w-8 text-muted-foreground/30" />
@@ -1089,6 +1253,14 @@ export function VideoGallery() {
         </>
       )}
 
+      {storyboardOpen && (
+        <StoryboardDialog
+          clips={completedVideos.map((item) => ({ item, videoUrl: getItemVideoUrl(item)! }))}
+          onRendered={handleStoryboardRendered}
+          onClose={() => setStoryboardOpen(false)}
+        />
+      )}
+
       {/* Video Player Modal */}
       {playingVideo && getItemVideoUrl(playingVideo) && (
         <div
@@ -4,10 +4,11 @@ import { useState, useEffect, useCallback } from "react";
 import { ChevronDown, Info, Sparkles, RotateCcw, Save, X } from "lucide-react";
 import { toast } from "sonner";
 import { useBatch } from "@/hooks/useBatch";
+import { useExchangeRate } from "@/hooks/useExchangeRate";
 import { Tooltip } from "@/components/common/Tooltip";
-import { RESOLUTIONS, ASPECT_RATIOS, OUTPUT_FORMATS, PRICING, KIE_PRICING, USD_TO_ILS, WEB_SEARCH_ADDON_PRICE, DEFAULT_GEMINI_SYSTEM_PROMPT, GEMINI_PROMPT_PRESETS } from "@/lib/constants";
+import { IMAGE_PROVIDERS, getImageModel, getImageModels, constrainToModel, DEFAULT_GEMINI_SYSTEM_PROMPT, GEMINI_PROMPT_PRESETS, DEFAULT_RETRY_POLICY, MAX_RETRY_ATTEMPTS, ERROR_CATEGORY_LABELS, RETRYABLE_ERROR_CATEGORIES } from "@/lib/constants";
 import { loadGeminiPresets, saveGeminiPresets, type GeminiPreset } from "@/lib/persistence";
-import type { Provider } from "@/types/generation";
+import type { Provider, ProviderErrorCategory, RetryPolicy } from "@/types/generation";
 
 const SAFETY_LABELS: Record<number, string> = {
   1: "מחמיר מאוד",
@@ -18,13 +19,18 @@ const SAFETY_LABELS: Record<number, string> = {
   6: "מתירני מאוד",
 };
 
-const PROVIDERS: Array<{ value: Provider; label: string; price: string }> = [
-  { value: "fal", label: "Fal AI", price: "מ-$0.15" },
-  { value: "kie", label: "Kie AI", price: "מ-$0.09" },
-];
+const RETRY_BACKOFF_OPTIONS = [1000, 2000, 5000, 10000];
+
+/** Cheapest per-image price across a provider's models, e.g. "מ-$0.04" */
+function providerPriceLabel(provider: Provider): string {
+  const prices = getImageModels(provider).flatMap((m) => Object.values(m.pricing));
+  const cheapest = Math.min(...prices);
+  return cheapest === 0 ? "חינם" : `מ-$${cheapest}`;
+}
 
 export function GenerationSettings() {
   const { state, dispatch } = useBatch();
+  const usdToIls = useExchangeRate();
   const { settings } = state;
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [customPresets, setCustomPresets] = useState<GeminiPreset[]>([]);
@@ -54,42 +60,43 @@ export function GenerationSettings() {
     setCustomPresets(updated);
   }, [customPresets]);
 
-  const isFal = (settings.provider ?? "fal") !== "kie";
-  const currentPricing = isFal ? PRICING : KIE_PRICING;
-  const availableFormats = isFal
-    ? OUTPUT_FORMATS
-    : OUTPUT_FORMATS.filter((f) => f !== "webp");
+  const model = getImageModel(settings.provider, settings.model);
+  const providerModels = getImageModels(settings.provider ?? "fal");
 
   const updateSetting = (update: Partial<typeof settings>) => {
     dispatch({ type: "SET_SETTINGS", settings: update });
   };
 
+  const retryPolicy = settings.retryPolicy ?? DEFAULT_RETRY_POLICY;
+  const updateRetryPolicy = (update: Partial<RetryPolicy>) => {
+    updateSetting({ retryPolicy: { ...retryPolicy, ...update } });
+  };
+
+  const toggleRetryCategory = (category: ProviderErrorCategory) => {
+    updateRetryPolicy({
+      retryOn: retryPolicy.retryOn.includes(category)
+        ? retryPolicy.retryOn.filter((c) => c !== category)
+        : [...retryPolicy.retryOn, category],
+    });
+  };
+
   return (
     <div className="flex flex-col gap-4">
       {/* Provider Selection */}
       <div>
         <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
           ספק AI
-          <Tooltip content="Fal AI — יותר תכונות (סיד, חיפוש ברשת, מספר תמונות). Kie AI — זול יותר (~40% חיסכון)">
+          <Tooltip content="Fal AI — יותר מודלים ותכונות (סיד, חיפוש ברשת, מספר תמונות). Kie AI — זול יותר (~40% חיסכון)">
             <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
           </Tooltip>
         </label>
         <div className="grid grid-cols-2 gap-2">
-          {PROVIDERS.map((p) => (
+          {IMAGE_PROVIDERS.map((p) => (
             <button
               key={p.value}
-              onClick={() => {
-                const update: Partial<typeof settings> = { provider: p.value };
-                if (p.value === "kie") {
-                  update.numImages = 1;
-                  update.enableWebSearch = false;
-                  update.seed = undefined;
-                  if (settings.outputFormat === "webp") {
-                    update.outputFormat = "png";
-                  }
-                }
-                updateSetting(update);
-              }}
+              onClick={() =>
+                updateSetting(constrainToModel({ ...settings, provider: p.value, model: getImageModels(p.value)[0].id }))
+              }
               className={`flex flex-col items-center rounded-lg px-3 py-2.5 transition-all ${
                 (settings.provider ?? "fal") === p.value
                   ? "bg-primary text-primary-foreground shadow-sm ring-2 ring-primary/30"
@@ -100,23 +107,46 @@ export function GenerationSettings() {
               <span className={`text-xs mt-0.5 ${
                 (settings.provider ?? "fal") === p.value ? "text-primary-foreground/80" : "text-muted-foreground"
               }`}>
-                {p.price}
+                {providerPriceLabel(p.value)}
               </span>
             </button>
           ))}
         </div>
       </div>
 
+      {/* Model — when the provider offers more than one */}
+      {providerModels.length > 1 && (
+        <div>
+          <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
+            מודל
+            <Tooltip content="כל מודל תומך ביחסי תמונה, רזולוציות ותכונות שונות. ההגדרות למטה מתעדכנות בהתאם">
+              <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
+            </Tooltip>
+          </label>
+          <select
+            value={model.id}
+            onChange={(e) => updateSetting(constrainToModel({ ...settings, model: e.target.value }))}
+            className="input-base w-full rounded-lg border border-border bg-white px-3 py-2 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {providerModels.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label} — מ-${Math.min(...Object.values(m.pricing))}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Resolution */}
       <div>
         <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
           רזולוציה
-          <Tooltip content="הרזולוציה משפיעה על איכות התמונה ועל המחיר. 4K יקר פי 2 מ-1K/2K">
+          <Tooltip content="הרזולוציה משפיעה על איכות התמונה ועל המחיר">
             <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
           </Tooltip>
         </label>
         <div className="grid grid-cols-3 gap-2">
-          {RESOLUTIONS.map((res) => (
+          {model.resolutions.map((res) => (
             <button
               key={res}
               onClick={() => updateSetting({ resolution: res })}
@@ -130,7 +160,7 @@ export function GenerationSettings() {
               <span className={`text-xs mt-0.5 ${
                 settings.resolution === res ? "text-primary-foreground/80" : "text-muted-foreground"
               }`}>
-                ₪{(currentPricing[res] * USD_TO_ILS).toFixed(2)}
+                ₪{((model.pricing[res] ?? 0) * usdToIls).toFixed(2)}
               </span>
             </button>
           ))}
@@ -150,7 +180,7 @@ export function GenerationSettings() {
           onChange={(e) => updateSetting({ aspectRatio: e.target.value })}
           className="input-base w-full rounded-lg border border-border bg-white px-3 py-2 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         >
-          {ASPECT_RATIOS.map((ratio) => (
+          {model.aspectRatios.map((ratio) => (
             <option key={ratio} value={ratio}>
               {ratio === "auto" ? "אוטומטי" : ratio}
             </option>
@@ -166,8 +196,8 @@ export function GenerationSettings() {
             <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
           </Tooltip>
         </label>
-        <div className={`grid gap-2 ${isFal ? "grid-cols-3" : "grid-cols-2"}`}>
-          {availableFormats.map((fmt) => (
+        <div className={`grid gap-2 ${model.outputFormats.length === 3 ? "grid-cols-3" : "grid-cols-2"}`}>
+          {model.outputFormats.map((fmt) => (
             <button
               key={fmt}
               onClick={() => updateSetting({ outputFormat: fmt })}
@@ -201,8 +231,8 @@ export function GenerationSettings() {
       >
         <div className="overflow-hidden">
           <div className="flex flex-col gap-4">
-            {/* Safety Tolerance — Fal only */}
-            {isFal && (
+            {/* Safety Tolerance — models that support it */}
+            {model.supportsSafetyTolerance && (
               <div>
                 <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
                   רמת בטיחות:{" "}
@@ -228,8 +258,8 @@ export function GenerationSettings() {
               </div>
             )}
 
-            {/* Num Images Per Prompt — Fal only */}
-            {isFal && (
+            {/* Num Images Per Prompt — models that support variations */}
+            {model.maxImages > 1 && (
               <div>
                 <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
                   תמונות לכל פרומפט
@@ -242,7 +272,7 @@ export function GenerationSettings() {
                   onChange={(e) => updateSetting({ numImages: Number(e.target.value) })}
                   className="input-base w-full rounded-lg border border-border bg-white px-3 py-2 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
                 >
-                  {[1, 2, 3, 4].map((n) => (
+                  {Array.from({ length: model.maxImages }, (_, i) => i + 1).map((n) => (
                     <option key={n} value={n}>
                       {n}
                     </option>
@@ -251,8 +281,8 @@ export function GenerationSettings() {
               </div>
             )}
 
-            {/* Seed — Fal only */}
-            {isFal && (
+            {/* Seed — models that support it */}
+            {model.supportsSeed && (
               <div>
                 <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
                   סיד (אופציונלי)
@@ -299,8 +329,67 @@ export function GenerationSettings() {
               </div>
             </div>
 
-            {/* Web Search — Fal only */}
-            {isFal && (
+            {/* Retry Policy — both providers */}
+            <div>
+              <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1.5">
+                ניסיונות חוזרים
+                <Tooltip content="תמונה שנכשלה בשגיאה זמנית תנוסה שוב אוטומטית בשרת, עם המתנה שמוכפלת בכל ניסיון. חסימות תוכן לא מנוסות שוב">
+                  <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
+                </Tooltip>
+              </label>
+              <div className="grid grid-cols-5 gap-2">
+                {Array.from({ length: MAX_RETRY_ATTEMPTS }, (_, i) => i + 1).map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => updateRetryPolicy({ maxAttempts: n })}
+                    className={`rounded-lg px-2 py-2 text-xs font-bold transition-all ${
+                      retryPolicy.maxAttempts === n
+                        ? "bg-primary text-primary-foreground shadow-sm ring-2 ring-primary/30"
+                        : "bg-white border border-border text-foreground hover:border-primary/30 hover:bg-primary/5"
+                    }`}
+                  >
+                    {n === 1 ? "ללא" : `×${n}`}
+                  </button>
+                ))}
+              </div>
+
+              {retryPolicy.maxAttempts > 1 && (
+                <div className="mt-2 flex flex-col gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">המתנה ראשונית</span>
+                    <select
+                      value={retryPolicy.backoffMs}
+                      onChange={(e) => updateRetryPolicy({ backoffMs: Number(e.target.value) })}
+                      className="input-base rounded-lg border border-border bg-white px-2 py-1 text-xs focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    >
+                      {RETRY_BACKOFF_OPTIONS.map((ms) => (
+                        <option key={ms} value={ms}>
+                          {ms / 1000} שנ׳
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {RETRYABLE_ERROR_CATEGORIES.map((category) => (
+                      <button
+                        key={category}
+                        onClick={() => toggleRetryCategory(category)}
+                        className={`rounded-md px-2.5 py-1 text-xs font-medium transition-all ${
+                          retryPolicy.retryOn.includes(category)
+                            ? "bg-primary/10 text-primary ring-1 ring-primary/30"
+                            : "bg-white border border-border text-muted-foreground hover:border-primary/30"
+                        }`}
+                      >
+                        {ERROR_CATEGORY_LABELS[category]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Web Search — models that support it */}
+            {model.supportsWebSearch && (
               <label className="flex items-center gap-2 cursor-pointer">
                 <input
                   type="checkbox"
@@ -309,7 +398,7 @@ export function GenerationSettings() {
                   className="h-4 w-4 rounded border-border accent-primary"
                 />
                 <span className="text-sm font-medium text-muted-foreground">
-                  חיפוש ברשת (+₪{(WEB_SEARCH_ADDON_PRICE * USD_TO_ILS).toFixed(3)})
+                  חיפוש ברשת (+₪{((model.webSearchPrice ?? 0) * usdToIls).toFixed(3)})
                 </span>
                 <Tooltip content="חיפוש ברשת לתמונות עדכניות. מוסיף עלות קטנה לכל תמונה">
                   <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
@@ -317,6 +406,22 @@ export function GenerationSettings() {
               </label>
             )}
 
+            {/* Gemini prompt expansion */}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.expandPrompts ?? false}
+                onChange={(e) => updateSetting({ expandPrompts: e.target.checked })}
+                className="h-4 w-4 rounded border-border accent-primary"
+              />
+              <span className="text-sm font-medium text-muted-foreground">
+                הרחבת פרומפטים עם Gemini
+              </span>
+              <Tooltip content="לפני היצירה Gemini משכתב כל פרומפט קצר לפרומפט מפורט. הפרומפט המקורי נשמר עם התמונה">
+                <Info className="h-3.5 w-3.5 text-muted-foreground/50 hover:text-muted-foreground cursor-help" />
+              </Tooltip>
+            </label>
+
             {/* Gemini Video Prompt System */}
             <div className="border-t border-border pt-4">
               <label className="flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-2">
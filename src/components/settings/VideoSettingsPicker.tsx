@@ -0,0 +1,151 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import {
+  VIDEO_PROVIDERS,
+  constrainVideoSettings,
+  getVideoModel,
+  getVideoModels,
+  isVideoConfigValid,
+} from "@/lib/constants";
+import type { VideoSettings } from "@/types/batch";
+
+interface VideoSettingsPickerProps {
+  value: VideoSettings;
+  onChange: (settings: VideoSettings) => void;
+}
+
+/**
+ * Provider, model, duration, resolution and aspect ratio of a video batch.
+ * Options come from the model's capabilities; changes are clamped to what
+ * the model supports.
+ */
+export function VideoSettingsPicker({ value, onChange }: VideoSettingsPickerProps) {
+  const selectedModel = getVideoModel(value.model);
+  const configValid = isVideoConfigValid(value.duration, value.resolution, value.model, value.aspectRatio);
+  const update = (change: Partial<VideoSettings>) => onChange(constrainVideoSettings({ ...value, ...change }));
+
+  return (
+    <div className="space-y-4">
+      {/* Provider selector */}
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">ספק</label>
+        <div className="flex gap-2">
+          {VIDEO_PROVIDERS.map((p) => (
+            <button
+              type="button"
+              key={p.value}
+              onClick={() => update({ model: getVideoModels(p.value)[0].id })}
+              className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                selectedModel.provider === p.value
+                  ? "border-primary bg-primary/5 text-primary"
+                  : "border-border hover:border-primary/30"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Model selector */}
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">מודל</label>
+        <div className="flex flex-wrap gap-2">
+          {getVideoModels(selectedModel.provider).map((m) => (
+            <button
+              type="button"
+              key={m.id}
+              onClick={() => update({ model: m.id })}
+              className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                selectedModel.id === m.id
+                  ? "border-primary bg-primary/5 text-primary"
+                  : "border-border hover:border-primary/30"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Duration */}
+      {selectedModel.durations.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">משך וידאו</label>
+          <div className="flex gap-2">
+            {selectedModel.durations.map((d) => (
+              <button
+                type="button"
+                key={d}
+                onClick={() => update({ duration: d })}
+                className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                  value.duration === d
+                    ? "border-primary bg-primary/5 text-primary"
+                    : "border-border hover:border-primary/30"
+                }`}
+              >
+                {d} שניות
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Resolution */}
+      {selectedModel.resolutions.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">רזולוציה</label>
+          <div className="flex gap-2">
+            {selectedModel.resolutions.map((r) => (
+              <button
+                type="button"
+                key={r}
+                onClick={() => update({ resolution: r })}
+                className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                  value.resolution === r
+                    ? "border-primary bg-primary/5 text-primary"
+                    : "border-border hover:border-primary/30"
+                }`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Aspect ratio (models that don't follow the source image) */}
+      {selectedModel.aspectRatios.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">יחס תמונה</label>
+          <div className="flex gap-2">
+            {selectedModel.aspectRatios.map((ar) => (
+              <button
+                type="button"
+                key={ar}
+                dir="ltr"
+                onClick={() => update({ aspectRatio: ar })}
+                className={`flex-1 rounded-lg border px-4 py-2 text-sm font-medium transition-colors ${
+                  value.aspectRatio === ar
+                    ? "border-primary bg-primary/5 text-primary"
+                    : "border-border hover:border-primary/30"
+                }`}
+              >
+                {ar}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Validation warning */}
+      {!configValid && (
+        <div className="flex items-center gap-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-700">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          השילוב שנבחר אינו זמין במודל {selectedModel.label}
+        </div>
+      )}
+    </div>
+  );
+}
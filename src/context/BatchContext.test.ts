@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { batchReducer, initialState, type BatchState } from "./BatchContext";
+import { DEFAULT_SETTINGS } from "@/lib/constants";
+import type { Batch, BatchImage, ImageVersion } from "@/types/batch";
+
+function makeImage(index: number, overrides: Partial<BatchImage> = {}): BatchImage {
+  return {
+    id: `img-${index}`,
+    index,
+    rawPrompt: `prompt ${index}`,
+    fullPrompt: `prompt ${index}`,
+    status: "completed",
+    result: { url: `https://example.com/${index}.png`, contentType: "image/png", width: 1024, height: 1024 },
+    completedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function makeBatch(images: BatchImage[]): Batch {
+  return {
+    id: "batch-1",
+    name: "Test batch",
+    type: "image",
+    status: "completed",
+    images,
+    settings: DEFAULT_SETTINGS,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    estimatedCost: 0,
+  };
+}
+
+function withBatch(images: BatchImage[]): BatchState {
+  return { ...initialState, currentBatch: makeBatch(images) };
+}
+
+function makeVersion(versionNumber: number): ImageVersion {
+  return {
+    versionNumber,
+    url: `https://example.com/v${versionNumber}.png`,
+    contentType: "image/png",
+    width: 512,
+    height: 512,
+    editPrompt: `edit ${versionNumber}`,
+    createdAt: "2026-01-02T00:00:00.000Z",
+  };
+}
+
+const resultOf = (v: ImageVersion) => ({ url: v.url, contentType: v.contentType, width: v.width, height: v.height });
+
+describe("REPLACE_IMAGE_VERSION", () => {
+  it("saves the original as V1 on the first edit", () => {
+    const state = withBatch([makeImage(0)]);
+    const v2 = makeVersion(2);
+
+    const next = batchReducer(state, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: v2, newResult: resultOf(v2) });
+    const image = next.currentBatch!.images[0];
+
+    expect(image.versions).toHaveLength(2);
+    expect(image.versions![0]).toMatchObject({
+      versionNumber: 1,
+      url: "https://example.com/0.png",
+      editPrompt: "prompt 0",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(image.versions![1]).toEqual(v2);
+    expect(image.currentVersion).toBe(2);
+    expect(image.result).toEqual(resultOf(v2));
+    expect(image.status).toBe("completed");
+  });
+
+  it("appends to existing versions without re-adding V1", () => {
+    const v1 = makeVersion(1);
+    const v2 = makeVersion(2);
+    const state = withBatch([makeImage(0, { versions: [v1, v2], currentVersion: 2 })]);
+    const v3 = makeVersion(3);
+
+    const next = batchReducer(state, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: v3, newResult: resultOf(v3) });
+
+    expect(next.currentBatch!.images[0].versions!.map((v) => v.versionNumber)).toEqual([1, 2, 3]);
+    expect(next.currentBatch!.images[0].currentVersion).toBe(3);
+  });
+
+  it("keeps the parent of a version branched from an older one", () => {
+    const v1 = makeVersion(1);
+    const v2 = { ...makeVersion(2), parentVersion: 1 };
+    const state = withBatch([makeImage(0, { seed: 42, versions: [v1, v2], currentVersion: 1, result: resultOf(v1) })]);
+    const v3 = { ...makeVersion(3), parentVersion: 1, seed: 7 };
+
+    const next = batchReducer(state, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: v3, newResult: resultOf(v3) });
+    const image = next.currentBatch!.images[0];
+
+    expect(image.versions!.map((v) => [v.versionNumber, v.parentVersion])).toEqual([[1, undefined], [2, 1], [3, 1]]);
+    expect(image.currentVersion).toBe(3);
+  });
+
+  it("numbers versions itself, so edits fired from the same state don't collide", () => {
+    const state = withBatch([makeImage(0)]);
+    const first = { ...makeVersion(2), parentVersion: 1 };
+    const second = { ...first, url: "https://example.com/v2b.png" };
+
+    const once = batchReducer(state, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: first, newResult: resultOf(makeVersion(2)) });
+    const twice = batchReducer(once, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: second, newResult: resultOf(makeVersion(2)) });
+    const image = twice.currentBatch!.images[0];
+
+    expect(image.versions!.map((v) => [v.versionNumber, v.url])).toEqual([
+      [1, "https://example.com/0.png"],
+      [2, first.url],
+      [3, second.url],
+    ]);
+    expect(image.currentVersion).toBe(3);
+  });
+
+  it("records the original's seed on V1", () => {
+    const state = withBatch([makeImage(0, { seed: 42 })]);
+    const v2 = makeVersion(2);
+
+    const next = batchReducer(state, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: v2, newResult: resultOf(v2) });
+
+    expect(next.currentBatch!.images[0].versions![0].seed).toBe(42);
+  });
+
+  it("does not mutate the previous state", () => {
+    const state = withBatch([makeImage(0, { versions: [] })]);
+    const v2 = makeVersion(2);
+
+    batchReducer(state, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: v2, newResult: resultOf(v2) });
+
+    expect(state.currentBatch!.images[0].versions).toEqual([]);
+    expect(state.currentBatch!.images[0].result!.url).toBe("https://example.com/0.png");
+  });
+
+  it("ignores the action without a current batch", () => {
+    const v2 = makeVersion(2);
+    const next = batchReducer(initialState, { type: "REPLACE_IMAGE_VERSION", index: 0, newVersion: v2, newResult: resultOf(v2) });
+    expect(next).toBe(initialState);
+  });
+});
+
+describe("ADD_IMAGES", () => {
+  it("appends images after the existing ones", () => {
+    const state = withBatch([makeImage(0), makeImage(1)]);
+    const added = [makeImage(2, { status: "pending", result: undefined, sourceImageIndex: 0, versionLabel: "V2" })];
+
+    const next = batchReducer(state, { type: "ADD_IMAGES", images: added });
+
+    expect(next.currentBatch!.images.map((img) => img.index)).toEqual([0, 1, 2]);
+    expect(next.currentBatch!.images[2]).toBe(added[0]);
+    expect(state.currentBatch!.images).toHaveLength(2);
+  });
+
+  it("ignores the action without a current batch", () => {
+    expect(batchReducer(initialState, { type: "ADD_IMAGES", images: [makeImage(0)] })).toBe(initialState);
+  });
+});
+
+describe("SET_IMAGE_VERSION", () => {
+  const v1 = makeVersion(1);
+  const v2 = makeVersion(2);
+
+  it("switches the displayed result to the chosen version", () => {
+    const state = withBatch([makeImage(0, { versions: [v1, v2], currentVersion: 2, result: resultOf(v2) })]);
+
+    const next = batchReducer(state, { type: "SET_IMAGE_VERSION", index: 0, versionNumber: 1 });
+    const image = next.currentBatch!.images[0];
+
+    expect(image.currentVersion).toBe(1);
+    expect(image.result).toEqual(resultOf(v1));
+    expect(image.versions).toHaveLength(2);
+  });
+
+  it("leaves state unchanged for an unknown version", () => {
+    const state = withBatch([makeImage(0, { versions: [v1, v2], currentVersion: 2 })]);
+    expect(batchReducer(state, { type: "SET_IMAGE_VERSION", index: 0, versionNumber: 5 })).toBe(state);
+  });
+
+  it("leaves state unchanged for an image without versions", () => {
+    const state = withBatch([makeImage(0)]);
+    expect(batchReducer(state, { type: "SET_IMAGE_VERSION", index: 0, versionNumber: 1 })).toBe(state);
+  });
+});
+
+describe("HYDRATE", () => {
+  it("restores the batch and settings", () => {
+    const batch = makeBatch([makeImage(0)]);
+    const settings = { ...DEFAULT_SETTINGS, resolution: "4K" as const };
+
+    const next = batchReducer(initialState, { type: "HYDRATE", currentBatch: batch, settings });
+
+    expect(next.currentBatch).toBe(batch);
+    expect(next.settings).toBe(settings);
+  });
+
+  it("keeps the current settings when none were saved", () => {
+    const state = { ...initialState, prompts: ["a cat"] };
+
+    const next = batchReducer(state, { type: "HYDRATE", currentBatch: null });
+
+    expect(next.currentBatch).toBeNull();
+    expect(next.settings).toBe(state.settings);
+    expect(next.prompts).toEqual(["a cat"]);
+  });
+});
@@ -3,6 +3,7 @@
 import { createContext, useContext, useReducer, useEffect, useRef, useState, type ReactNode } from "react";
 import type { Batch, BatchImage, BatchStatus, ImageVersion } from "@/types/batch";
 import type { GenerationSettings } from "@/types/generation";
+import type { ExpansionMode, TemplateData } from "@/types/template";
 import { DEFAULT_SETTINGS } from "@/lib/constants";
 import {
   saveCurrentBatch,
@@ -14,9 +15,12 @@ import {
   saveSettings,
   loadSettings,
 } from "@/lib/persistence";
+import { nextVersionNumber } from "@/lib/version-tree";
 
-interface BatchState {
+export interface BatchState {
   prompts: string[];
+  templateData: TemplateData | null;
+  expansionMode: ExpansionMode;
   settings: GenerationSettings;
   batchName: string;
   currentBatch: Batch | null;
@@ -24,8 +28,10 @@ interface BatchState {
   viewingHistory: boolean;
 }
 
-type BatchAction =
+export type BatchAction =
   | { type: "SET_PROMPTS"; prompts: string[] }
+  | { type: "SET_TEMPLATE_DATA"; data: TemplateData | null }
+  | { type: "SET_EXPANSION_MODE"; mode: ExpansionMode }
   | { type: "SET_BATCH_NAME"; name: string }
   | { type: "SET_SETTINGS"; settings: Partial<GenerationSettings> }
   | { type: "LOAD_SETTINGS"; settings: GenerationSettings }
@@ -33,18 +39,24 @@ type BatchAction =
   | { type: "UPDATE_IMAGE"; index: number; update: Partial<BatchImage> }
   | { type: "SET_BATCH_STATUS"; status: BatchStatus }
   | { type: "RESET_BATCH" }
-  | { type: "REPLACE_IMAGE_VERSION"; index: number; newVersion: ImageVersion; newResult: BatchImage["result"] }
+  | { type: "REPLACE_IMAGE_VERSION"; index: number; newVersion: Omit<ImageVersion, "versionNumber">; newResult: BatchImage["result"] }
   | { type: "ADD_IMAGES"; images: BatchImage[] }
   | { type: "SET_IMAGE_VERSION"; index: number; versionNumber: number }
   | { type: "VIEW_HISTORY_BATCH"; batch: Batch }
   | { type: "BACK_TO_CURRENT" }
   | { type: "HYDRATE"; currentBatch: Batch | null; settings?: GenerationSettings };
 
-function batchReducer(state: BatchState, action: BatchAction): BatchState {
+export function batchReducer(state: BatchState, action: BatchAction): BatchState {
   switch (action.type) {
     case "SET_PROMPTS":
       return { ...state, prompts: action.prompts };
 
+    case "SET_TEMPLATE_DATA":
+      return { ...state, templateData: action.data };
+
+    case "SET_EXPANSION_MODE":
+      return { ...state, expansionMode: action.mode };
+
     case "SET_BATCH_NAME":
       return { ...state, batchName: action.name };
 
@@ -89,7 +101,7 @@ function batchReducer(state: BatchState, action: BatchAction): BatchState {
       const images = [...state.currentBatch.images];
       const img = images[action.index];
       // Save original as V1 if no versions yet
-      const existingVersions = img.versions ?? [];
+      const existingVersions = [...(img.versions ?? [])];
       if (existingVersions.length === 0 && img.result) {
         existingVersions.push({
           versionNumber: 1,
@@ -98,15 +110,18 @@ function batchReducer(state: BatchState, action: BatchAction): BatchState {
           width: img.result.width,
           height: img.result.height,
           editPrompt: img.rawPrompt,
+          seed: img.seed,
           createdAt: img.completedAt ?? new Date().toISOString(),
         });
       }
-      const newVersions = [...existingVersions, action.newVersion];
+      // Numbered here rather than by the caller, so edits finishing together get distinct numbers
+      const versionNumber = nextVersionNumber({ ...img, versions: existingVersions });
+      const newVersions = [...existingVersions, { ...action.newVersion, versionNumber }];
       images[action.index] = {
         ...img,
         result: action.newResult,
         versions: newVersions,
-        currentVersion: action.newVersion.versionNumber,
+        currentVersion: versionNumber,
         status: "completed",
       };
       return {
@@ -177,8 +192,10 @@ function batchReducer(state: BatchState, action: BatchAction): BatchState {
   }
 }
 
-const initialState: BatchState = {
+export const initialState: BatchState = {
   prompts: [],
+  templateData: null,
+  expansionMode: "cartesian",
   settings: DEFAULT_SETTINGS,
   batchName: "",
   currentBatch: null,
@@ -186,6 +203,18 @@ const initialState: BatchState = {
   viewingHistory: false,
 };
 
+/** Whether the server is still processing an image batch's job (it keeps going without the page) */
+async function isJobActive(batchId: string): Promise<boolean> {
+  try {
+    const res = await fetch(`/api/generate/job?batchId=${encodeURIComponent(batchId)}`);
+    if (!res.ok) return false;
+    const job = await res.json();
+    return job.status === "queued" || job.status === "running";
+  } catch {
+    return false;
+  }
+}
+
 const BatchContext = createContext<{
   state: BatchState;
   dispatch: React.Dispatch<BatchAction>;
@@ -206,13 +235,14 @@ export function BatchProvider({ children }: { children: ReactNode }) {
           loadSettings(),
         ]);
 
-        // If a batch was "running" when we last saved, it means the connection was lost
+        // A batch "running" when we last saved lost its connection. It stays
+        // "running" (and useGenerationStream re-attaches) if its job is still active.
         let batch = savedBatch;
         // Backfill type for batches saved before video support
         if (batch && !batch.type) {
           batch = { ...batch, type: "image" };
         }
-        if (batch && batch.status === "running") {
+        if (batch && batch.status === "running" && (batch.type === "video" || !(await isJobActive(batch.id)))) {
           batch = { ...batch, status: "interrupted" };
         }
 
@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { USD_TO_ILS } from "@/lib/constants";
+import type { ExchangeRate } from "@/types/billing";
+
+// Shared across components; fetched once per page load
+let ratePromise: Promise<number> | null = null;
+
+function loadRate(): Promise<number> {
+  ratePromise ??= fetch("/api/exchange-rate")
+    .then((res) => (res.ok ? res.json() : null))
+    .then((data: ExchangeRate | null) => data?.rate ?? USD_TO_ILS)
+    .catch(() => USD_TO_ILS);
+  return ratePromise;
+}
+
+/** ILS per USD from the server (see lib/exchange-rate). USD_TO_ILS until loaded. */
+export function useExchangeRate(): number {
+  const [rate, setRate] = useState(USD_TO_ILS);
+
+  useEffect(() => {
+    let active = true;
+    loadRate().then((r) => {
+      if (active) setRate(r);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return rate;
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useMemo } from "react";
+import { useBatch } from "./useBatch";
+import { expandPrompts } from "@/lib/prompt-template";
+import type { ExpandedPrompts } from "@/types/template";
+
+/** The prompt editor's text expanded through the template engine. */
+export function useExpandedPrompts(): ExpandedPrompts {
+  const { state } = useBatch();
+  const rawText = state.prompts.join("\n");
+  return useMemo(
+    () => expandPrompts(rawText, state.expansionMode, state.templateData),
+    [rawText, state.expansionMode, state.templateData]
+  );
+}
@@ -1,28 +1,41 @@
 "use client";
 
-import { useCallback, useRef } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useBatchContext } from "@/context/BatchContext";
-import type { GenerationEvent, GenerationRequest } from "@/types/generation";
+import type { GenerationEvent, GenerationRequest, GenerationSettings, PromptOverrides } from "@/types/generation";
 import type { Batch, BatchImage } from "@/types/batch";
-import { generateBatchId, uid } from "@/lib/format-utils";
-import { estimateCost } from "@/lib/constants";
+import { describeBudgetExceeded, generateBatchId, uid } from "@/lib/format-utils";
+import { DEFAULT_VIDEO_SETTINGS, SSE_MAX_RECONNECT_ATTEMPTS, SSE_RECONNECT_DELAY_MS, estimateTextToVideoCostUsd } from "@/lib/constants";
+import { saveBatchToHistory } from "@/lib/persistence";
+import { estimatePromptsCost } from "@/lib/prompt-overrides";
 import { toast } from "sonner";
 import { useWakeLock } from "./useWakeLock";
 import { useSleepDetector } from "./useSleepDetector";
+import { useExchangeRate } from "./useExchangeRate";
+
+interface SSEStreamResult {
+  /**
+   * "complete" = batch_complete received, "error" = batch_error received,
+   * "paused" = batch_paused received (spend cap), "dropped" = stream ended early
+   */
+  outcome: "complete" | "error" | "paused" | "dropped";
+  /** Id of the last event received, sent back as Last-Event-ID when reconnecting */
+  lastEventId: string | null;
+}
 
 /**
  * Process SSE stream from /api/generate.
- * Returns true if a batch_complete event was received (clean finish).
+ * Resolves when the stream ends, with how it ended and the last event id seen.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function processSSEStream(
   reader: ReadableStreamDefaultReader<Uint8Array>,
   dispatch: (action: any) => void,
-  indexMap?: Map<number, number>
-): Promise<boolean> {
+  lastEventId: string | null = null
+): Promise<SSEStreamResult> {
   const decoder = new TextDecoder();
   let buffer = "";
-  let receivedBatchComplete = false;
+  let outcome: SSEStreamResult["outcome"] = "dropped";
 
   return (async () => {
     while (true) {
@@ -34,45 +47,177 @@ function processSSEStream(
       buffer = parts.pop() || "";
 
       for (const part of parts) {
-        const line = part.trim();
-        if (!line.startsWith("data: ")) continue;
+        let data: string | null = null;
+        for (const line of part.split("\n")) {
+          // Lines starting with ":" are comments (heartbeats)
+          if (line.startsWith("id: ")) lastEventId = line.slice(4).trim();
+          else if (line.startsWith("data: ")) data = line.slice(6);
+        }
+        if (data === null) continue;
 
-        const event: GenerationEvent = JSON.parse(line.slice(6));
+        const event: GenerationEvent = JSON.parse(data);
 
         if (event.type === "image_update" && event.index !== undefined) {
-          const actualIndex = indexMap ? (indexMap.get(event.index) ?? event.index) : event.index;
           dispatch({
             type: "UPDATE_IMAGE",
-            index: actualIndex,
+            index: event.index,
             update: {
               status: event.status,
               ...(event.image && { result: event.image }),
               ...(event.seed !== undefined && { seed: event.seed }),
               ...(event.requestId && { requestId: event.requestId }),
               ...(event.error && { error: event.error }),
+              ...(event.errorCategory && { errorCategory: event.errorCategory }),
               ...(event.durationMs !== undefined && { durationMs: event.durationMs }),
-              ...(event.status === "queued" && { startedAt: new Date().toISOString() }),
+              ...(event.attempt !== undefined && { attempt: event.attempt }),
+              // A retry re-queues the image; keep the original start time
+              ...(event.status === "queued" && (event.attempt ?? 1) === 1 && { startedAt: new Date().toISOString() }),
               ...(event.status === "completed" || event.status === "failed"
                 ? { completedAt: new Date().toISOString() }
                 : {}),
             },
           });
         } else if (event.type === "batch_complete") {
-          receivedBatchComplete = true;
+          outcome = "complete";
           dispatch({ type: "SET_BATCH_STATUS", status: "completed" });
         } else if (event.type === "batch_error") {
+          outcome = "error";
           dispatch({ type: "SET_BATCH_STATUS", status: "error" });
+        } else if (event.type === "batch_paused") {
+          outcome = "paused";
+          dispatch({ type: "SET_BATCH_STATUS", status: "interrupted" });
+          toast.warning("הבאצ׳ הושהה — הגעתם לתקרת התקציב", {
+            description: event.budget ? describeBudgetExceeded(event.budget) : undefined,
+            duration: 15000,
+          });
         }
       }
     }
-    return receivedBatchComplete;
+    return { outcome, lastEventId };
   })();
 }
 
+function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Follow a batch's event stream to the end. When the connection drops, it is
+ * re-opened with Last-Event-ID so only missed events are replayed.
+ * Returns how the stream ended ("dropped" only once reconnecting gave up).
+ */
+async function followBatchStream(
+  batchId: string,
+  response: Response,
+  dispatch: Parameters<typeof processSSEStream>[1],
+  signal: AbortSignal
+): Promise<SSEStreamResult["outcome"]> {
+  let result = await processSSEStream(response.body!.getReader(), dispatch);
+  let attempts = 0;
+
+  while (result.outcome === "dropped" && attempts < SSE_MAX_RECONNECT_ATTEMPTS) {
+    attempts++;
+    await abortableDelay(SSE_RECONNECT_DELAY_MS, signal);
+
+    try {
+      const res = await fetch(`/api/generate?batchId=${encodeURIComponent(batchId)}`, {
+        headers: result.lastEventId ? { "Last-Event-ID": result.lastEventId } : {},
+        signal,
+      });
+      if (!res.ok) continue;
+
+      const next = await processSSEStream(res.body!.getReader(), dispatch, result.lastEventId);
+      // Events arrived, so the connection is healthy again
+      if (next.lastEventId !== result.lastEventId) attempts = 0;
+      result = next;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") throw error;
+      // Network error — try again
+    }
+  }
+
+  return result.outcome;
+}
+
+/**
+ * Handle a 402 from /api/generate (the batch would exceed a spend cap).
+ * Returns true if the response was a budget rejection.
+ */
+async function handleBudgetRejection(
+  response: Response,
+  dispatch: Parameters<typeof processSSEStream>[1]
+): Promise<boolean> {
+  if (response.status !== 402) return false;
+  const data = await response.json().catch(() => ({}));
+  dispatch({ type: "SET_BATCH_STATUS", status: "interrupted" });
+  toast.error("הבאצ׳ לא הופעל — חריגה מהתקציב", {
+    description: data.error ?? "ניתן לעדכן את תקרות ההוצאה בסרגל העליון.",
+    duration: 15000,
+  });
+  return true;
+}
+
+/** Detailed versions of the prompts from /api/expand-prompts, in order. */
+async function expandPrompts(prompts: string[]): Promise<string[]> {
+  const res = await fetch("/api/expand-prompts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ prompts }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `HTTP ${res.status}`);
+  }
+  const data = await res.json();
+  return data.prompts;
+}
+
+/**
+ * Pending batch items for prompts, with the prefix and suffix applied.
+ * `originalPrompts` are the prompts as written, when these are Gemini's expansions of them.
+ */
+function buildBatchImages(
+  prompts: string[],
+  overrides: Array<PromptOverrides | undefined>,
+  settings: GenerationSettings,
+  originalPrompts?: string[]
+): BatchImage[] {
+  return prompts.map((prompt, index) => ({
+    id: uid(),
+    index,
+    rawPrompt: prompt,
+    ...(originalPrompts && originalPrompts[index] !== prompt && { originalPrompt: originalPrompts[index] }),
+    fullPrompt: [settings.promptPrefix, prompt, settings.promptSuffix]
+      .filter(Boolean)
+      .join(" ")
+      .trim(),
+    ...(overrides[index] && { overrides: overrides[index] }),
+    status: "pending" as const,
+  }));
+}
+
 export function useGenerationStream() {
-  const { state, dispatch } = useBatchContext();
+  const { state, dispatch, hydrated } = useBatchContext();
   const abortControllerRef = useRef<AbortController | null>(null);
-  const isRunning = state.currentBatch?.status === "running";
+  // Prompts are being expanded; the batch starts once Gemini answers
+  const [isExpanding, setIsExpanding] = useState(false);
+  const usdToIls = useExchangeRate();
+  // Video batches are polled by VideoGallery, which keeps its own wake lock
+  const isRunning = state.currentBatch?.type !== "video" && state.currentBatch?.status === "running";
 
   // Prevent sleep during active generation
   useWakeLock(isRunning ?? false);
@@ -116,6 +261,7 @@ export function useGenerationStream() {
         for (const failed of data.failedIndices) {
           const failedIndex = typeof failed === "number" ? failed : failed.index;
           const failedError = typeof failed === "number" ? "נכשל בצד השרת" : (failed.error ?? "נכשל בצד השרת");
+          const failedCategory = typeof failed === "number" ? undefined : failed.errorCategory;
           const img = batch.images[failedIndex];
           if (img && img.status !== "completed" && img.status !== "failed") {
             dispatch({
@@ -124,6 +270,7 @@ export function useGenerationStream() {
               update: {
                 status: "failed" as const,
                 error: failedError,
+                ...(failedCategory && { errorCategory: failedCategory }),
                 completedAt: new Date().toISOString(),
               },
             });
@@ -146,6 +293,39 @@ export function useGenerationStream() {
     [dispatch]
   );
 
+  // After a reload, hydrate leaves a batch "running" only while its server job
+  // is active: follow the job's stream again instead of resubmitting.
+  const reattachCheckedRef = useRef(false);
+  useEffect(() => {
+    if (!hydrated || reattachCheckedRef.current) return;
+    reattachCheckedRef.current = true;
+
+    const batch = state.currentBatch;
+    if (!batch || batch.type === "video" || batch.status !== "running" || abortControllerRef.current) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    (async () => {
+      try {
+        const response = await fetch(`/api/generate?batchId=${encodeURIComponent(batch.id)}`, {
+          signal: abortController.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Server error: ${response.status}`);
+        }
+        const outcome = await followBatchStream(batch.id, response, dispatch, abortController.signal);
+        if (outcome === "dropped" || outcome === "error") {
+          await reconcileWithServer(batch);
+        }
+      } catch {
+        // Paused or disconnected — reconcile marks the batch interrupted unless everything finished
+        await reconcileWithServer(batch);
+      } finally {
+        if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      }
+    })();
+  }, [hydrated, state.currentBatch, dispatch, reconcileWithServer]);
+
   // Detect sleep/wake and reconcile state
   const handleSleepDetected = useCallback(async () => {
     if (!state.currentBatch || state.currentBatch.status !== "running") return;
@@ -168,20 +348,27 @@ export function useGenerationStream() {
   });
 
   const startGeneration = useCallback(
-    async (prompts: string[]) => {
+    async (promptsAsWritten: string[], overrides: Array<PromptOverrides | undefined> = []) => {
       const { settings } = state;
       const batchId = generateBatchId();
 
-      const images: BatchImage[] = prompts.map((prompt, index) => ({
-        id: uid(),
-        index,
-        rawPrompt: prompt,
-        fullPrompt: [settings.promptPrefix, prompt, settings.promptSuffix]
-          .filter(Boolean)
-          .join(" ")
-          .trim(),
-        status: "pending" as const,
-      }));
+      // Gemini rewrites the prompts first; if that fails the batch runs on the prompts as written
+      let prompts = promptsAsWritten;
+      if (settings.expandPrompts) {
+        const toastId = toast.loading("מרחיב פרומפטים עם Gemini...");
+        setIsExpanding(true);
+        try {
+          prompts = await expandPrompts(promptsAsWritten);
+        } catch (error) {
+          toast.warning("הרחבת הפרומפטים נכשלה — היצירה ממשיכה עם הפרומפטים המקוריים", {
+            description: error instanceof Error ? error.message : "שגיאה לא ידועה",
+          });
+        } finally {
+          toast.dismiss(toastId);
+          setIsExpanding(false);
+        }
+      }
+      const images = buildBatchImages(prompts, overrides, settings, promptsAsWritten);
 
       const batchName = state.batchName.trim() || `באצ׳ ${batchId}`;
 
@@ -193,13 +380,7 @@ export function useGenerationStream() {
         images,
         settings,
         createdAt: new Date().toISOString(),
-        estimatedCost: estimateCost(
-          prompts.length,
-          settings.numImages,
-          settings.resolution,
-          settings.enableWebSearch,
-          settings.provider
-        ),
+        estimatedCost: estimatePromptsCost(settings, prompts.map((_, i) => overrides[i]), usdToIls),
       };
 
       dispatch({ type: "START_BATCH", batch });
@@ -211,6 +392,7 @@ export function useGenerationStream() {
         batchId,
         prompts,
         settings,
+        overrides,
       };
 
       try {
@@ -221,15 +403,15 @@ export function useGenerationStream() {
           signal: abortController.signal,
         });
 
+        if (await handleBudgetRejection(response, dispatch)) return;
         if (!response.ok) {
           throw new Error(`Server error: ${response.status}`);
         }
 
-        const reader = response.body!.getReader();
-        const batchComplete = await processSSEStream(reader, dispatch);
+        const outcome = await followBatchStream(batchId, response, dispatch, abortController.signal);
 
-        // Stream ended without batch_complete → reconcile with server logs
-        if (!batchComplete) {
+        // Stream lost for good without batch_complete → reconcile with server logs
+        if (outcome === "dropped" || outcome === "error") {
           const result = await reconcileWithServer(batch);
           if (result === "interrupted") {
             toast.warning("החיבור לשרת נותק", {
@@ -256,15 +438,51 @@ export function useGenerationStream() {
         abortControllerRef.current = null;
       }
     },
-    [state, dispatch, reconcileWithServer]
+    [state, dispatch, reconcileWithServer, usdToIls]
+  );
+
+  /**
+   * Start a video batch from prompts. VideoGallery picks up the running batch
+   * and creates its tasks (generating first frames where set) as slots free up.
+   */
+  const startVideoGeneration = useCallback(
+    async (prompts: string[], overrides: Array<PromptOverrides | undefined> = []) => {
+      const { settings } = state;
+      const videoSettings = settings.video ?? DEFAULT_VIDEO_SETTINGS;
+      const batchId = generateBatchId();
+
+      const batch: Batch = {
+        id: batchId,
+        name: state.batchName.trim() || `וידאו ${batchId}`,
+        type: "video",
+        status: "running",
+        images: buildBatchImages(prompts, overrides, settings),
+        settings,
+        videoSettings,
+        createdAt: new Date().toISOString(),
+        estimatedCost: estimateTextToVideoCostUsd(prompts.length, videoSettings, settings) * usdToIls,
+      };
+
+      await saveBatchToHistory(batch);
+      window.dispatchEvent(new Event("videoBatchSaved"));
+      dispatch({ type: "VIEW_HISTORY_BATCH", batch });
+    },
+    [state, dispatch, usdToIls]
   );
 
   const pauseGeneration = useCallback(() => {
+    // The job runs server-side, so closing the stream alone doesn't stop it
+    const batchId = state.currentBatch?.id;
+    if (batchId) {
+      fetch(`/api/generate?batchId=${encodeURIComponent(batchId)}`, { method: "DELETE" }).catch(() => {
+        // Ignore — reconcile picks up whatever the server finished
+      });
+    }
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
-  }, []);
+  }, [state.currentBatch?.id]);
 
   const resumeGeneration = useCallback(async () => {
     if (!state.currentBatch) return;
@@ -298,20 +516,17 @@ export function useGenerationStream() {
           update: {
             status: "pending" as const,
             error: undefined,
+            errorCategory: undefined,
             completedAt: undefined,
             durationMs: undefined,
+            attempt: undefined,
           },
         });
       }
     }
 
-    // Map from new sequential indices (0,1,2...) to actual batch indices
-    const indexMap = new Map<number, number>();
-    const pendingPrompts: string[] = [];
-    retryableImages.forEach((img, seqIdx) => {
-      indexMap.set(seqIdx, img.index);
-      pendingPrompts.push(img.rawPrompt);
-    });
+    const pendingPrompts = retryableImages.map((img) => img.rawPrompt);
+    const pendingIndices = retryableImages.map((img) => img.index);
 
     dispatch({ type: "SET_BATCH_STATUS", status: "running" });
 
@@ -322,6 +537,8 @@ export function useGenerationStream() {
       batchId: batch.id,
       prompts: pendingPrompts,
       settings: batch.settings,
+      indices: pendingIndices,
+      overrides: retryableImages.map((img) => img.overrides),
     };
 
     try {
@@ -332,15 +549,15 @@ export function useGenerationStream() {
         signal: abortController.signal,
       });
 
+      if (await handleBudgetRejection(response, dispatch)) return;
       if (!response.ok) {
         throw new Error(`Server error: ${response.status}`);
       }
 
-      const reader = response.body!.getReader();
-      const batchComplete = await processSSEStream(reader, dispatch, indexMap);
+      const outcome = await followBatchStream(batch.id, response, dispatch, abortController.signal);
 
-      // Stream ended without batch_complete → reconcile
-      if (!batchComplete) {
+      // Stream lost for good without batch_complete → reconcile
+      if (outcome === "dropped" || outcome === "error") {
         const result = await reconcileWithServer(batch);
         if (result === "interrupted") {
           toast.warning("החיבור לשרת נותק", {
@@ -365,5 +582,5 @@ export function useGenerationStream() {
     }
   }, [state.currentBatch, dispatch, reconcileWithServer]);
 
-  return { startGeneration, pauseGeneration, resumeGeneration };
+  return { startGeneration, startVideoGeneration, pauseGeneration, resumeGeneration, isExpanding };
 }
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { logsToCsv, percentile, summarizeLogs } from "./analytics";
+import type { LogEntry } from "@/types/log";
+
+function makeEntry(overrides: Partial<LogEntry> = {}, parameters: Partial<LogEntry["parameters"]> = {}): LogEntry {
+  return {
+    timestamp: "2026-03-02T10:00:00.000Z",
+    batchId: "batch-1",
+    imageIndex: 0,
+    prompt: "a cat",
+    parameters: {
+      provider: "fal",
+      resolution: "1K",
+      aspectRatio: "1:1",
+      outputFormat: "png",
+      safetyTolerance: 4,
+      numImages: 1,
+      enableWebSearch: false,
+      hasReferenceImages: false,
+      ...parameters,
+    },
+    status: "completed",
+    durationMs: 1000,
+    cost: 0.54,
+    ...overrides,
+  };
+}
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000];
+    expect(percentile(values, 50)).toBe(500);
+    expect(percentile(values, 95)).toBe(1000);
+    expect(percentile([42], 95)).toBe(42);
+  });
+
+  it("is null without values", () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("summarizeLogs", () => {
+  const entries = [
+    makeEntry({ durationMs: 1000 }),
+    makeEntry({ durationMs: 3000, timestamp: "2026-03-03T08:00:00.000Z" }, { resolution: "4K" }),
+    makeEntry({ status: "failed", cost: 0, errorCategory: "rate_limited", error: "HTTP 429" }),
+    makeEntry({ durationMs: 5000, cost: 0.43 }, { provider: "kie" }),
+    makeEntry({ kind: "video", status: "submitted", durationMs: 0, cost: 0 }, { provider: "kie", resolution: "768P" }),
+    makeEntry({ kind: "video", durationMs: 120000, cost: 1.58 }, { provider: "kie", resolution: "768P" }),
+  ];
+
+  const report = summarizeLogs(entries, "2026-03-01", "2026-03-03");
+
+  it("totals everything, including video but not its submissions", () => {
+    expect(report.totals).toMatchObject({ count: 5, completed: 4, failed: 1 });
+    expect(report.totals.spend).toBeCloseTo(0.54 * 2 + 0.43 + 1.58);
+    expect(report.totals.successRate).toBeCloseTo(0.8);
+  });
+
+  it("fills every day in the range", () => {
+    expect(report.byDay.map((d) => [d.date, d.count])).toEqual([
+      ["2026-03-01", 0],
+      ["2026-03-02", 4],
+      ["2026-03-03", 1],
+    ]);
+  });
+
+  it("breaks images down by provider with latency over completed requests", () => {
+    const fal = report.byProvider.find((p) => p.provider === "fal")!;
+    expect(fal).toMatchObject({ count: 3, completed: 2, failed: 1, medianDurationMs: 1000, p95DurationMs: 3000 });
+    expect(fal.successRate).toBeCloseTo(2 / 3);
+    expect(report.byProvider.find((p) => p.provider === "kie")).toMatchObject({ count: 1, medianDurationMs: 5000 });
+  });
+
+  it("keeps video out of the image breakdowns", () => {
+    expect(report.byResolution.map((r) => r.resolution)).toEqual(["1K", "4K"]);
+    expect(report.video).toMatchObject({ count: 1, completed: 1, spend: 1.58 });
+  });
+
+  it("groups failures by category", () => {
+    expect(report.topFailures).toEqual([{ category: "rate_limited", count: 1, example: "HTTP 429" }]);
+  });
+});
+
+describe("logsToCsv", () => {
+  it("quotes cells with commas, quotes and newlines", () => {
+    const csv = logsToCsv([makeEntry({ prompt: 'a "red", shiny\ncar' })]);
+    const [header, row] = csv.split("\r\n");
+    expect(header.split(",")[0]).toBe("timestamp");
+    expect(row.endsWith('"a ""red"", shiny\ncar"')).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { getLogDates, listLogDates, readLogs } from "@/lib/file-utils";
+import { ANALYTICS_TOP_FAILURES } from "@/lib/constants";
+import type { AnalyticsReport, FailureReason, ProviderUsage, ResolutionUsage, UsageStats } from "@/types/analytics";
+import type { ProviderErrorCategory } from "@/types/generation";
+import type { LogEntry } from "@/types/log";
+
+function emptyStats(): UsageStats {
+  return { count: 0, completed: 0, failed: 0, spend: 0 };
+}
+
+function addEntry(stats: UsageStats, entry: LogEntry): void {
+  stats.count++;
+  if (entry.status === "completed") stats.completed++;
+  else stats.failed++;
+  stats.spend += entry.cost;
+}
+
+/** Nearest-rank percentile of an ascending list; null when empty. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function successRate(stats: UsageStats): number | null {
+  return stats.count > 0 ? stats.completed / stats.count : null;
+}
+
+/**
+ * Aggregate log entries for the dashboard. Totals and the daily series cover
+ * everything; provider, resolution and failure breakdowns cover images only,
+ * with video summarised separately (its durations would swamp image latency).
+ */
+export function summarizeLogs(entries: LogEntry[], from: string, to: string): AnalyticsReport {
+  const totals = emptyStats();
+  const video = emptyStats();
+  const byDay = new Map(getLogDates(from, to).map((date) => [date, { date, ...emptyStats() }]));
+  const byProvider = new Map<string, { stats: UsageStats; durations: number[] }>();
+  const byResolution = new Map<string, ResolutionUsage>();
+  const failures = new Map<ProviderErrorCategory, FailureReason>();
+
+  for (const entry of entries) {
+    // Video submissions are followed by their own completed/failed entry
+    if (entry.status === "submitted") continue;
+    addEntry(totals, entry);
+    const day = byDay.get(entry.timestamp.slice(0, 10));
+    if (day) addEntry(day, entry);
+
+    if (entry.kind === "video") {
+      addEntry(video, entry);
+      continue;
+    }
+
+    const provider = entry.parameters.provider ?? "fal";
+    const providerRow = byProvider.get(provider) ?? { stats: emptyStats(), durations: [] };
+    addEntry(providerRow.stats, entry);
+    if (entry.status === "completed") providerRow.durations.push(entry.durationMs);
+    byProvider.set(provider, providerRow);
+
+    const resolution = entry.parameters.resolution;
+    const resolutionRow = byResolution.get(resolution) ?? { resolution, ...emptyStats() };
+    addEntry(resolutionRow, entry);
+    byResolution.set(resolution, resolutionRow);
+
+    if (entry.status === "failed") {
+      const category = entry.errorCategory ?? "unknown";
+      const reason = failures.get(category) ?? { category, count: 0 };
+      reason.count++;
+      if (entry.error) reason.example = entry.error;
+      failures.set(category, reason);
+    }
+  }
+
+  const providers: ProviderUsage[] = Array.from(byProvider, ([provider, { stats, durations }]) => {
+    durations.sort((a, b) => a - b);
+    return {
+      provider,
+      ...stats,
+      successRate: successRate(stats),
+      medianDurationMs: percentile(durations, 50),
+      p95DurationMs: percentile(durations, 95),
+    };
+  });
+
+  return {
+    from,
+    to,
+    totals: { ...totals, successRate: successRate(totals) },
+    byDay: Array.from(byDay.values()),
+    byProvider: providers.sort((a, b) => b.spend - a.spend),
+    byResolution: Array.from(byResolution.values()).sort((a, b) => a.resolution.localeCompare(b.resolution)),
+    topFailures: Array.from(failures.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, ANALYTICS_TOP_FAILURES),
+    video,
+  };
+}
+
+/** All log entries written between `from` and `to` (inclusive). */
+export async function readLogRange(from: string, to: string): Promise<LogEntry[]> {
+  const days = await Promise.all((await listLogDates(from, to)).map((date) => readLogs(date)));
+  return days.flat();
+}
+
+const CSV_COLUMNS: Array<[string, (entry: LogEntry) => unknown]> = [
+  ["timestamp", (e) => e.timestamp],
+  ["kind", (e) => e.kind ?? "image"],
+  ["batchId", (e) => e.batchId],
+  ["imageIndex", (e) => e.imageIndex],
+  ["provider", (e) => e.parameters.provider ?? "fal"],
+  ["model", (e) => e.parameters.model],
+  ["resolution", (e) => e.parameters.resolution],
+  ["aspectRatio", (e) => e.parameters.aspectRatio],
+  ["numImages", (e) => e.parameters.numImages],
+  ["status", (e) => e.status],
+  ["durationMs", (e) => e.durationMs],
+  ["attempts", (e) => e.attempts],
+  ["costUsd", (e) => e.costUsd],
+  ["costIls", (e) => e.cost],
+  ["exchangeRate", (e) => e.exchangeRate],
+  ["errorCategory", (e) => e.errorCategory],
+  ["error", (e) => e.error],
+  ["requestId", (e) => e.requestId],
+  ["prompt", (e) => e.prompt],
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per log entry, for spreadsheet review. */
+export function logsToCsv(entries: LogEntry[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(",");
+  const rows = entries.map((entry) => CSV_COLUMNS.map(([, get]) => csvCell(get(entry))).join(","));
+  return [header, ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,61 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SETTINGS } from "./constants";
+import type { BatchJob } from "@/types/job";
+
+// A production build without a mock flag doesn't register the mock provider.
+// Modules are imported after the env and cwd are set, so they see both.
+let dataRoot: string;
+let fileUtils: typeof import("./file-utils");
+let runBatchJob: typeof import("./batch-worker").runBatchJob;
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-worker-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.stubEnv("VERCEL", "");
+  vi.stubEnv("NODE_ENV", "production");
+  vi.stubEnv("NEXT_PUBLIC_MOCK_PROVIDER", "");
+  vi.stubEnv("MOCK_VIDEO", "");
+  vi.stubEnv("USD_TO_ILS_RATE", "3.6");
+
+  fileUtils = await import("./file-utils");
+  ({ runBatchJob } = await import("./batch-worker"));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("runBatchJob", () => {
+  it("fails items whose provider isn't registered and completes the job", async () => {
+    const now = new Date().toISOString();
+    const job: BatchJob = {
+      batchId: "batch-mock-in-prod",
+      status: "queued",
+      settings: { ...DEFAULT_SETTINGS, provider: "mock", model: "mock" },
+      items: [{ index: 0, prompt: "a paper boat", status: "pending" }],
+      createdAt: now,
+      updatedAt: now,
+      runEventOffset: 0,
+    };
+    await fileUtils.saveJob(job);
+
+    await runBatchJob(job.batchId, "http://localhost:3000");
+
+    const stored = await fileUtils.loadJob(job.batchId);
+    expect(stored).toMatchObject({ status: "completed", items: [{ index: 0, status: "done", outcome: "failed" }] });
+    expect(stored?.lease).toBeUndefined();
+
+    const events = await fileUtils.readJobEvents(job.batchId);
+    expect(events.at(-2)).toMatchObject({ type: "image_update", index: 0, status: "failed", error: "Unknown provider: mock" });
+    expect(events.at(-1)).toEqual({ type: "batch_complete" });
+
+    const logs = await fileUtils.readLogs(undefined, job.batchId);
+    expect(logs).toMatchObject([{ imageIndex: 0, status: "failed", error: "Unknown provider: mock" }]);
+  });
+});
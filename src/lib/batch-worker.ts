@@ -0,0 +1,603 @@
+import { appendLog, appendJobEvent, loadJob, updateJob } from "@/lib/file-utils";
+import {
+  estimateCost,
+  estimateCostUsd,
+  MAX_CONCURRENCY,
+  JOB_LEASE_MS,
+  JOB_WORKER_BUDGET_MS,
+  JOB_CALLBACK_TIMEOUT_MS,
+} from "@/lib/constants";
+import {
+  getErrorCategory,
+  getProvider,
+  toProviderError,
+  type OnStatusUpdate,
+  type ProviderCallback,
+  type ProviderGenerateInput,
+  type ProviderGenerateResult,
+} from "@/lib/providers";
+import { buildCallbackUrl, type CallbackTarget } from "@/lib/webhooks";
+import { getRetryDelay, resolveRetryPolicy, shouldRetry } from "@/lib/retry";
+import { applyOverrides } from "@/lib/prompt-overrides";
+import { persistFile } from "@/lib/supabase-storage";
+import { evaluateBudget, getBudgetLimits, getSpend } from "@/lib/budget";
+import { getExchangeRate } from "@/lib/exchange-rate";
+import type { BatchJob, JobItem } from "@/types/job";
+import type { GenerationEvent, GenerationSettings, Provider } from "@/types/generation";
+import type { LogEntry } from "@/types/log";
+import type { BudgetCheck, BudgetLimits, BudgetSpend } from "@/types/budget";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isActive(job: BatchJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+function hasLiveLease(job: BatchJob, now = Date.now()): boolean {
+  return !!job.lease && job.lease.expiresAt > now;
+}
+
+/** Items in flight at once: the job's concurrency, within MAX_CONCURRENCY. */
+function concurrencyOf(job: BatchJob): number {
+  return Math.min(Math.max(job.settings.concurrency ?? 1, 1), MAX_CONCURRENCY);
+}
+
+/** A submitted item whose provider callback never arrived. */
+function isCallbackOverdue(item: JobItem, now = Date.now()): boolean {
+  return item.status === "submitted" && now - (item.submittedAt ?? 0) > JOB_CALLBACK_TIMEOUT_MS;
+}
+
+/**
+ * True if the job has work a worker could do but no worker is holding it:
+ * items to start (while submitted ones leave room), overdue callbacks, or a
+ * finished job that was never closed.
+ */
+export function needsWorker(job: BatchJob, now = Date.now()): boolean {
+  if (!isActive(job) || hasLiveLease(job, now)) return false;
+  const awaiting = job.items.filter((item) => item.status === "submitted" && !isCallbackOverdue(item, now)).length;
+  return (
+    job.items.every((item) => item.status === "done") ||
+    job.items.some(
+      (item) =>
+        item.status === "running" ||
+        isCallbackOverdue(item, now) ||
+        (item.status === "pending" && awaiting < concurrencyOf(job))
+    )
+  );
+}
+
+/**
+ * Ask the worker route to pick up a job. The worker runs in its own invocation
+ * (via `after()`), so it keeps going after the submitting request disconnects.
+ */
+export async function kickBatchJob(batchId: string, origin: string): Promise<void> {
+  try {
+    await fetch(`${origin}/api/generate/worker`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ batchId }),
+    });
+  } catch (err) {
+    console.error(`[batch-worker] Failed to kick job ${batchId}:`, err);
+  }
+}
+
+/** Cost (ILS) of one job item, as checked against the spend caps. */
+function estimateItemCost(settings: GenerationSettings, usdToIls: number): number {
+  return estimateCost(1, settings.numImages, settings.resolution, settings.enableWebSearch, settings.provider, settings.model, usdToIls);
+}
+
+/** What is sent to the provider for one item, and logged with its result. */
+interface ItemRequest {
+  settings: GenerationSettings;
+  providerName: Provider;
+  fullPrompt: string;
+  input: ProviderGenerateInput;
+  parameters: LogEntry["parameters"];
+}
+
+function buildItemRequest(item: JobItem, settings: GenerationSettings): ItemRequest {
+  const fullPrompt = [settings.promptPrefix, item.prompt, settings.promptSuffix]
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+
+  return {
+    settings,
+    providerName: settings.provider ?? "fal",
+    fullPrompt,
+    input: {
+      model: settings.model,
+      prompt: fullPrompt,
+      resolution: settings.resolution,
+      aspectRatio: settings.aspectRatio,
+      outputFormat: settings.outputFormat,
+      safetyTolerance: settings.safetyTolerance,
+      numImages: settings.numImages,
+      seed: settings.seed,
+      enableWebSearch: settings.enableWebSearch,
+      referenceImageUrls: settings.referenceImageUrls,
+    },
+    parameters: {
+      provider: settings.provider ?? "fal",
+      model: settings.model,
+      resolution: settings.resolution,
+      aspectRatio: settings.aspectRatio,
+      outputFormat: settings.outputFormat,
+      safetyTolerance: settings.safetyTolerance,
+      numImages: settings.numImages,
+      seed: settings.seed,
+      enableWebSearch: settings.enableWebSearch,
+      hasReferenceImages: settings.referenceImageUrls.length > 0,
+    },
+  };
+}
+
+/** Store a generated image, announce it and log it. Returns the cost (ILS) written to the log. */
+async function recordItemCompleted(
+  batchId: string,
+  index: number,
+  request: ItemRequest,
+  result: ProviderGenerateResult,
+  attempt: number,
+  durationMs: number,
+  usdToIls: number
+): Promise<number> {
+  const { settings, providerName } = request;
+  const image = result.images[0];
+  const permanentUrl = await persistFile(image.url, "images", image.contentType);
+  const finalUrl = permanentUrl ?? image.url;
+
+  await appendJobEvent(batchId, {
+    type: "image_update",
+    index,
+    status: "completed",
+    image: {
+      url: finalUrl,
+      contentType: image.contentType,
+      width: image.width,
+      height: image.height,
+    },
+    seed: result.seed,
+    requestId: result.requestId,
+    durationMs,
+    attempt,
+  });
+
+  // Providers bill every generated image, even though only the first is kept
+  const costUsd = estimateCostUsd(1, settings.numImages, settings.resolution, settings.enableWebSearch, providerName, settings.model);
+  const cost = costUsd * usdToIls;
+  await appendLog({
+    timestamp: new Date().toISOString(),
+    batchId,
+    imageIndex: index,
+    prompt: request.fullPrompt,
+    parameters: request.parameters,
+    status: "completed",
+    durationMs,
+    resultUrl: finalUrl,
+    width: image.width,
+    height: image.height,
+    requestId: result.requestId,
+    attempts: attempt,
+    cost,
+    costUsd,
+    exchangeRate: usdToIls,
+  });
+  return cost;
+}
+
+async function recordItemFailed(
+  batchId: string,
+  index: number,
+  request: ItemRequest,
+  error: unknown,
+  attempt: number,
+  durationMs: number
+): Promise<void> {
+  const providerError = toProviderError(error, request.providerName);
+  const errorMessage = providerError.message || "Unknown error";
+
+  await appendJobEvent(batchId, {
+    type: "image_update",
+    index,
+    status: "failed",
+    error: errorMessage,
+    errorCategory: providerError.category,
+    durationMs,
+    attempt,
+  });
+
+  await appendLog({
+    timestamp: new Date().toISOString(),
+    batchId,
+    imageIndex: index,
+    prompt: request.fullPrompt,
+    parameters: request.parameters,
+    status: "failed",
+    durationMs,
+    error: errorMessage,
+    errorCategory: providerError.category,
+    attempts: attempt,
+    cost: 0,
+  });
+}
+
+/** A finished item, how it ended and its logged cost (ILS), or one awaiting its provider callback. */
+type ItemOutcome = { cost: number; outcome: "completed" | "failed" } | { requestId: string; attempt: number };
+
+/**
+ * Generate one item and log it. Providers that report back via callback are
+ * only handed the request when callbacks are configured; the item is then
+ * finished by completeSubmittedItem.
+ */
+async function processImage(
+  batchId: string,
+  item: JobItem,
+  settings: GenerationSettings,
+  usdToIls: number
+): Promise<ItemOutcome> {
+  const request = buildItemRequest(item, settings);
+  const { providerName } = request;
+  const i = item.index;
+
+  const sendEvent = (event: GenerationEvent) => appendJobEvent(batchId, event);
+
+  const policy = resolveRetryPolicy(settings.retryPolicy);
+  const startTime = item.startedAt ?? Date.now();
+  let attempt = item.attempt ?? 1;
+
+  // Anything that fails from here on (including an unregistered provider) ends as a failed item
+  try {
+    // A retry scheduled by a failure callback waits out its backoff here
+    if (item.retryAt) await sleep(Math.max(0, item.retryAt - Date.now()));
+    await sendEvent({ type: "image_update", index: i, status: "queued", attempt });
+    const provider = getProvider(providerName);
+
+    let result: ProviderGenerateResult;
+    // A request the previous attempt left running (e.g. polling timed out); it may still finish
+    let unfinishedRequestId: string | undefined;
+    while (true) {
+      try {
+        const onStatusUpdate: OnStatusUpdate = (status) => {
+          sendEvent({ type: "image_update", index: i, status, attempt });
+        };
+        if (unfinishedRequestId && provider.resumeImage) {
+          result = await provider.resumeImage(unfinishedRequestId, onStatusUpdate);
+          break;
+        }
+        const callbackUrl = provider.submitImage
+          ? buildCallbackUrl(providerName, { batchId, index: i, attempt })
+          : null;
+        if (callbackUrl) {
+          const { requestId } = await provider.submitImage!(request.input, callbackUrl);
+          return { requestId, attempt };
+        }
+        result = await provider.generateImage(request.input, onStatusUpdate);
+        break;
+      } catch (error) {
+        // Don't keep retrying once the user paused the batch
+        if (!shouldRetry(policy, attempt, error) || (await loadJob(batchId))?.status === "cancelled") {
+          throw error;
+        }
+        unfinishedRequestId = toProviderError(error, providerName).requestId;
+        const delayMs = getRetryDelay(policy, attempt);
+        attempt++;
+        console.warn(
+          `[batch-worker] Image ${i} of ${batchId} failed (${toProviderError(error, providerName).category}), attempt ${attempt}/${policy.maxAttempts} in ${delayMs}ms`
+        );
+        await sendEvent({ type: "image_update", index: i, status: "queued", attempt });
+        await sleep(delayMs);
+      }
+    }
+
+    const cost = await recordItemCompleted(batchId, i, request, result, attempt, Date.now() - startTime, usdToIls);
+    return { cost, outcome: "completed" };
+  } catch (error) {
+    await recordItemFailed(batchId, i, request, error, attempt, Date.now() - startTime);
+    return { cost: 0, outcome: "failed" };
+  }
+}
+
+/**
+ * Close a job whose last item finished outside a worker, or wake a worker if
+ * the finished item freed room for more.
+ */
+async function settleJob(batchId: string, origin: string): Promise<void> {
+  let finished = false;
+  const job = await updateJob(batchId, (current) => {
+    finished = false;
+    if (!current || current.status !== "running" || hasLiveLease(current)) return null;
+    if (current.items.some((item) => item.status !== "done")) return null;
+    finished = true;
+    return { ...current, status: "completed" };
+  });
+
+  if (finished) {
+    await appendJobEvent(batchId, { type: "batch_complete" });
+  } else if (job && needsWorker(job)) {
+    await kickBatchJob(batchId, origin);
+  }
+}
+
+/**
+ * Record the result a provider posted for a submitted item. Failures the
+ * retry policy covers put the item back in the queue; anything else is logged
+ * and the item is done. Returns false for callbacks that don't belong to the
+ * item's current attempt (late, repeated or already handled).
+ */
+export async function completeSubmittedItem(
+  target: CallbackTarget,
+  callback: ProviderCallback,
+  origin: string
+): Promise<boolean> {
+  const { batchId, index, attempt } = target;
+  let claimed: JobItem | null = null;
+  let retryDelayMs: number | null = null;
+
+  const job = await updateJob(batchId, (current) => {
+    claimed = null;
+    retryDelayMs = null;
+    const item = current?.items.find((it) => it.index === index);
+    if (!current || !item || item.callbackAt) return null;
+
+    // A callback can beat the worker's own bookkeeping: while the item is
+    // still "running" the worker may have moved on to a later attempt
+    const currentAttempt = item.attempt ?? 1;
+    const matches =
+      item.status === "submitted"
+        ? attempt === currentAttempt && (!item.requestId || item.requestId === callback.requestId)
+        : item.status === "running" && attempt >= currentAttempt;
+    if (!matches) return null;
+
+    const policy = resolveRetryPolicy(applyOverrides(current.settings, item.overrides).retryPolicy);
+    let updated: JobItem;
+    if (callback.error && current.status !== "cancelled" && shouldRetry(policy, attempt, callback.error)) {
+      retryDelayMs = getRetryDelay(policy, attempt);
+      updated = {
+        ...item,
+        status: "pending",
+        attempt: attempt + 1,
+        retryAt: Date.now() + retryDelayMs,
+        requestId: undefined,
+        submittedAt: undefined,
+      };
+    } else {
+      updated = { ...item, attempt, callbackAt: Date.now() };
+    }
+    claimed = updated;
+    return { ...current, items: current.items.map((it) => (it.index === index ? updated : it)) };
+  });
+
+  const item = claimed as JobItem | null;
+  if (!job || !item) return false;
+
+  if (retryDelayMs !== null) {
+    console.warn(
+      `[batch-worker] Image ${index} of ${batchId} failed (${getErrorCategory(callback.error)}), attempt ${item.attempt} in ${retryDelayMs}ms`
+    );
+    await appendJobEvent(batchId, { type: "image_update", index, status: "queued", attempt: item.attempt! });
+  } else {
+    const request = buildItemRequest(item, applyOverrides(job.settings, item.overrides));
+    const durationMs = Date.now() - (item.startedAt ?? item.submittedAt ?? Date.now());
+    try {
+      if (callback.result) {
+        const { rate } = await getExchangeRate();
+        await recordItemCompleted(batchId, index, request, callback.result, attempt, durationMs, rate);
+      } else {
+        await recordItemFailed(batchId, index, request, callback.error, attempt, durationMs);
+      }
+    } catch (error) {
+      // Let the provider's redelivery try again
+      await updateJob(batchId, (current) =>
+        current
+          ? { ...current, items: current.items.map((it) => (it.index === index ? { ...it, callbackAt: undefined } : it)) }
+          : null
+      );
+      throw error;
+    }
+    await updateJob(batchId, (current) =>
+      current
+        ? {
+            ...current,
+            items: current.items.map((it) =>
+              it.index === index && it.callbackAt
+                ? { ...it, status: "done" as const, outcome: callback.result ? ("completed" as const) : ("failed" as const) }
+                : it
+            ),
+          }
+        : null
+    );
+  }
+
+  await settleJob(batchId, origin);
+  return true;
+}
+
+/**
+ * Process a batch job until it is done, cancelled, or this invocation runs out
+ * of time. When time runs out with work left, the job is handed to a fresh
+ * worker invocation.
+ */
+export async function runBatchJob(batchId: string, origin: string): Promise<void> {
+  const workerId = crypto.randomUUID();
+  const startedAt = Date.now();
+
+  // 1. Acquire the lease. Items left "running" by a dead worker go back to
+  // pending, as do submitted items whose callback is overdue (as a new attempt,
+  // so a late callback for the old one is ignored).
+  const job = await updateJob(batchId, (current) => {
+    if (!current || !isActive(current)) return null;
+    if (hasLiveLease(current) && current.lease!.workerId !== workerId) return null;
+    return {
+      ...current,
+      status: "running",
+      items: current.items.map((item): JobItem => {
+        if (item.status === "running") return { ...item, status: "pending" };
+        if (!isCallbackOverdue(item)) return item;
+        console.warn(`[batch-worker] No callback for image ${item.index} of ${batchId} (${item.requestId}), resubmitting`);
+        return {
+          ...item,
+          status: "pending",
+          attempt: (item.attempt ?? 1) + 1,
+          requestId: undefined,
+          submittedAt: undefined,
+          callbackAt: undefined,
+        };
+      }),
+      lease: { workerId, expiresAt: Date.now() + JOB_LEASE_MS },
+    };
+  });
+  if (!job || job.lease?.workerId !== workerId) return;
+
+  const renewLease = (current: BatchJob): BatchJob["lease"] =>
+    current.lease?.workerId === workerId
+      ? { workerId, expiresAt: Date.now() + JOB_LEASE_MS }
+      : current.lease;
+
+  const heartbeat = setInterval(() => {
+    updateJob(batchId, (current) =>
+      current ? { ...current, lease: renewLease(current) } : null
+    ).catch(() => undefined);
+  }, JOB_LEASE_MS / 3);
+
+  // 2. Claim the next pending item (null when there is nothing left to do here,
+  // including when submitted items already fill the concurrency)
+  async function claimNext(): Promise<{ item: JobItem; settings: GenerationSettings } | null> {
+    if (Date.now() - startedAt > JOB_WORKER_BUDGET_MS) return null;
+    let claimed: JobItem | null = null;
+    const updated = await updateJob(batchId, (current) => {
+      claimed = null;
+      if (!current || current.status !== "running") return null;
+      if (current.lease?.workerId !== workerId) return null;
+      const next = current.items.find((item) => item.status === "pending");
+      if (!next) return null;
+      const inFlight = current.items.filter((item) => item.status === "running" || item.status === "submitted").length;
+      if (inFlight >= concurrencyOf(current)) return null;
+      claimed = { ...next, status: "running", startedAt: next.startedAt ?? Date.now() };
+      return {
+        ...current,
+        items: current.items.map((item) => (item.index === next.index ? claimed! : item)),
+        lease: renewLease(current),
+      };
+    });
+    return claimed && updated ? { item: claimed, settings: updated.settings } : null;
+  }
+
+  // Spend caps are checked before each item. The ledger is read once per
+  // invocation; spend since then is tracked here (in-flight items included).
+  let spentHere = 0;
+
+  /** Stop the job and put the item back, so resuming (after raising the cap) picks it up. */
+  async function pauseForBudget(item: JobItem, budget: BudgetCheck): Promise<void> {
+    await updateJob(batchId, (current) =>
+      current
+        ? {
+            ...current,
+            status: "cancelled",
+            items: current.items.map((it) => (it.index === item.index ? { ...it, status: "pending" as const } : it)),
+          }
+        : null
+    );
+    await appendJobEvent(batchId, { type: "batch_paused", budget });
+    console.warn(`[batch-worker] Job ${batchId} paused: ${budget.exceeded?.scope} spend cap reached`);
+  }
+
+  async function worker(limits: BudgetLimits, spendAtStart: BudgetSpend, usdToIls: number): Promise<void> {
+    while (true) {
+      const next = await claimNext();
+      if (!next) return;
+      const settings = applyOverrides(next.settings, next.item.overrides);
+
+      const reserved = estimateItemCost(settings, usdToIls);
+      const budget = evaluateBudget(
+        limits,
+        {
+          day: spendAtStart.day + spentHere,
+          month: spendAtStart.month + spentHere,
+          batch: (spendAtStart.batch ?? 0) + spentHere,
+        },
+        reserved
+      );
+      if (!budget.allowed) {
+        await pauseForBudget(next.item, budget);
+        return;
+      }
+
+      spentHere += reserved;
+      const outcome = await processImage(batchId, next.item, settings, usdToIls);
+      if ("requestId" in outcome) {
+        // The estimate stays reserved; the callback logs the actual cost.
+        // A callback that already arrived has moved the item on.
+        const submitted: Partial<JobItem> = { status: "submitted", attempt: outcome.attempt, requestId: outcome.requestId, submittedAt: Date.now() };
+        await updateJob(batchId, (current) =>
+          current
+            ? {
+                ...current,
+                items: current.items.map((item) =>
+                  item.index === next.item.index && item.status === "running" ? { ...item, ...submitted } : item
+                ),
+              }
+            : null
+        );
+        continue;
+      }
+      spentHere += outcome.cost - reserved;
+      await updateJob(batchId, (current) =>
+        current
+          ? {
+              ...current,
+              items: current.items.map((item) =>
+                item.index === next.item.index ? { ...item, status: "done" as const, outcome: outcome.outcome } : item
+              ),
+            }
+          : null
+      );
+    }
+  }
+
+  try {
+    const [limits, spendAtStart, exchangeRate] = await Promise.all([
+      getBudgetLimits(),
+      getSpend(batchId),
+      getExchangeRate(),
+    ]);
+    const concurrency = concurrencyOf(job);
+    const pendingCount = job.items.filter((item) => item.status === "pending").length;
+    // Let every worker finish its item before the lease goes, even if one of them threw
+    const results = await Promise.allSettled(
+      Array.from({ length: Math.min(concurrency, pendingCount) }, () => worker(limits, spendAtStart, exchangeRate.rate))
+    );
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failure) throw failure.reason;
+  } finally {
+    clearInterval(heartbeat);
+    await releaseLease();
+  }
+
+  // 3. Release the lease and decide what happens next. Runs on errors too, so
+  // a job isn't left waiting for a lease nobody will renew.
+  async function releaseLease(): Promise<void> {
+    let finished = false;
+    const final = await updateJob(batchId, (current) => {
+      finished = false;
+      if (!current || current.lease?.workerId !== workerId) return null;
+      const remaining = current.items.some((item) => item.status !== "done");
+      finished = current.status === "running" && !remaining;
+      return {
+        ...current,
+        status: finished ? "completed" : current.status,
+        lease: undefined,
+      };
+    });
+
+    if (finished) {
+      await appendJobEvent(batchId, { type: "batch_complete" });
+    } else if (final && needsWorker(final)) {
+      await kickBatchJob(batchId, origin);
+    }
+  }
+}
+
@@ -0,0 +1,115 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { evaluateBudget } from "./budget";
+import type { LogEntry } from "@/types/log";
+
+const noLimits = { batch: null, day: null, month: null };
+
+describe("evaluateBudget", () => {
+  it("allows anything without caps", () => {
+    expect(evaluateBudget(noLimits, { day: 500, month: 5000 }, 100)).toEqual({ allowed: true, requested: 100 });
+  });
+
+  it("allows spend that exactly reaches a cap", () => {
+    const check = evaluateBudget({ ...noLimits, day: 10 }, { day: 9.46, month: 9.46 }, 0.54);
+    expect(check.allowed).toBe(true);
+  });
+
+  it("reports the first cap that would be exceeded", () => {
+    const check = evaluateBudget({ batch: 5, day: 10, month: 100 }, { day: 9, month: 99, batch: 1 }, 2);
+    expect(check).toEqual({ allowed: false, requested: 2, exceeded: { scope: "day", limit: 10, spent: 9 } });
+  });
+
+  it("ignores the batch cap when no batch spend is given", () => {
+    const check = evaluateBudget({ ...noLimits, batch: 1 }, { day: 0, month: 0 }, 5);
+    expect(check.allowed).toBe(true);
+  });
+
+  it("checks the batch cap against the batch's own spend", () => {
+    const check = evaluateBudget({ ...noLimits, batch: 3 }, { day: 50, month: 50, batch: 2.5 }, 1);
+    expect(check.exceeded).toEqual({ scope: "batch", limit: 3, spent: 2.5 });
+  });
+});
+
+describe("getSpend", () => {
+  // Logs are stored under <cwd>/data; file-utils is re-imported once cwd points at a scratch directory
+  let dataRoot: string;
+  let budget: typeof import("./budget");
+  let fileUtils: typeof import("./file-utils");
+
+  const entry = (batchId: string, cost: number): LogEntry => ({
+    timestamp: new Date().toISOString(),
+    batchId,
+    imageIndex: 0,
+    prompt: "a lighthouse",
+    parameters: {
+      resolution: "1K",
+      aspectRatio: "1:1",
+      outputFormat: "png",
+      safetyTolerance: 2,
+      numImages: 1,
+      enableWebSearch: false,
+      hasReferenceImages: false,
+    },
+    status: "completed",
+    durationMs: 1000,
+    cost,
+  });
+
+  beforeAll(async () => {
+    dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-budget-"));
+    vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+    vi.stubEnv("VERCEL", "");
+    vi.resetModules();
+    fileUtils = await import("./file-utils");
+    budget = await import("./budget");
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(dataRoot, { recursive: true, force: true });
+  });
+
+  it("totals today's logged costs and the batch's share", async () => {
+    await fileUtils.appendLog(entry("batch-a", 1.5));
+    await fileUtils.appendLog(entry("batch-b", 2));
+    await fileUtils.appendLog(entry("batch-a", 0.25));
+
+    expect(await budget.getSpend("batch-a")).toEqual({ day: 3.75, month: 3.75, batch: 1.75 });
+    expect(await budget.getSpend()).toEqual({ day: 3.75, month: 3.75 });
+  });
+
+  it("counts held amounts until they are released", async () => {
+    const { reservationId } = await budget.reserveBudget(2, { batchId: "batch-a", ttlMs: 60_000 });
+    expect(reservationId).toBeTruthy();
+    expect(await budget.getSpend("batch-a")).toEqual({ day: 5.75, month: 5.75, batch: 3.75 });
+
+    await budget.releaseBudget(reservationId, 0.5);
+    expect(await budget.getSpend("batch-a")).toEqual({ day: 4.25, month: 4.25, batch: 2.25 });
+
+    await budget.releaseBudget(reservationId);
+    expect(await budget.getSpend("batch-a")).toEqual({ day: 3.75, month: 3.75, batch: 1.75 });
+  });
+
+  it("ignores lapsed holds", async () => {
+    await budget.reserveBudget(2, { ttlMs: -1 });
+    expect(await budget.getSpend()).toEqual({ day: 3.75, month: 3.75 });
+  });
+
+  it("refuses parallel reservations that together exceed a cap", async () => {
+    await fileUtils.saveBudgetLimits({ batch: null, day: 6, month: null });
+    try {
+      const results = await Promise.all([1, 2, 3].map(() => budget.reserveBudget(1, { ttlMs: 60_000 })));
+      const held = results.filter((result) => result.budget.allowed);
+      expect(held.length).toBeLessThanOrEqual(2);
+      expect(results.filter((result) => !result.budget.allowed).every((result) => !result.reservationId)).toBe(true);
+      await Promise.all(held.map((result) => budget.releaseBudget(result.reservationId)));
+    } finally {
+      await fileUtils.saveBudgetLimits({ batch: null, day: null, month: null });
+    }
+    expect(await budget.getSpend()).toEqual({ day: 3.75, month: 3.75 });
+  });
+});
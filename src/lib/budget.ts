@@ -0,0 +1,121 @@
+import {
+  deleteSpendReservation,
+  getLogDates,
+  listSpendReservations,
+  loadBudgetLimits,
+  saveSpendReservation,
+  sumLogCosts,
+  updateSpendReservation,
+} from "@/lib/file-utils";
+import { DEFAULT_BUDGET_LIMITS } from "@/lib/constants";
+import type { BudgetCheck, BudgetLimits, BudgetScope, BudgetSpend } from "@/types/budget";
+
+const SCOPES: BudgetScope[] = ["batch", "day", "month"];
+
+const ENV_LIMITS: Record<BudgetScope, string> = {
+  batch: "BUDGET_BATCH_LIMIT_ILS",
+  day: "BUDGET_DAILY_LIMIT_ILS",
+  month: "BUDGET_MONTHLY_LIMIT_ILS",
+};
+
+function envLimit(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** Caps saved from the UI, or the BUDGET_*_LIMIT_ILS env defaults if none were saved. */
+export async function getBudgetLimits(): Promise<BudgetLimits> {
+  const stored = await loadBudgetLimits();
+  if (stored) return { ...DEFAULT_BUDGET_LIMITS, ...stored };
+  return {
+    batch: envLimit(ENV_LIMITS.batch),
+    day: envLimit(ENV_LIMITS.day),
+    month: envLimit(ENV_LIMITS.month),
+  };
+}
+
+/**
+ * Spend so far from the LogEntry.cost ledger, plus what is held for work in
+ * flight (see reserveBudget). Pass a batchId to also total that batch.
+ */
+export async function getSpend(batchId?: string): Promise<BudgetSpend> {
+  const today = new Date().toISOString().slice(0, 10);
+  const dates = getLogDates(`${today.slice(0, 7)}-01`, today);
+  const [days, reservations] = await Promise.all([sumLogCosts(dates, batchId), listSpendReservations()]);
+
+  const spend: BudgetSpend = { day: 0, month: 0, ...(batchId && { batch: 0 }) };
+  days.forEach(({ total, batch }, i) => {
+    spend.month += total;
+    if (dates[i] === today) spend.day += total;
+    if (batchId) spend.batch! += batch;
+  });
+  for (const { amount, date, batchId: heldFor } of reservations) {
+    if (date.slice(0, 7) !== today.slice(0, 7)) continue;
+    spend.month += amount;
+    if (date === today) spend.day += amount;
+    if (batchId && heldFor === batchId) spend.batch! += amount;
+  }
+  return spend;
+}
+
+/** Whether spending `requested` more stays within every cap. Reports the first cap it would exceed. */
+export function evaluateBudget(limits: BudgetLimits, spend: BudgetSpend, requested: number): BudgetCheck {
+  for (const scope of SCOPES) {
+    const limit = limits[scope];
+    const spent = spend[scope];
+    if (limit === null || spent === undefined) continue;
+    // Small tolerance so float sums don't refuse work that exactly fits
+    if (spent + requested > limit + 1e-9) {
+      return { allowed: false, requested, exceeded: { scope, limit, spent } };
+    }
+  }
+  return { allowed: true, requested };
+}
+
+export async function checkBudget(requested: number, batchId?: string): Promise<BudgetCheck> {
+  const [limits, spend] = await Promise.all([getBudgetLimits(), getSpend(batchId)]);
+  return evaluateBudget(limits, spend, requested);
+}
+
+/**
+ * Check the caps for `amount` more and hold it until its real cost is logged,
+ * so concurrent requests can't each fit under the same cap. The hold is saved
+ * before the check and dropped when refused: requests racing for the last of
+ * a cap may all be refused, but never all allowed. Release the hold once the
+ * cost is logged; it lapses after `ttlMs` if that never happens.
+ */
+export async function reserveBudget(
+  amount: number,
+  options: { batchId?: string; ttlMs: number }
+): Promise<{ budget: BudgetCheck; reservationId: string | null }> {
+  const { batchId, ttlMs } = options;
+  if (amount <= 0) return { budget: await checkBudget(amount, batchId), reservationId: null };
+
+  const reservationId = crypto.randomUUID();
+  const date = new Date().toISOString().slice(0, 10);
+  await saveSpendReservation(reservationId, { amount, date, ...(batchId && { batchId }), expiresAt: Date.now() + ttlMs });
+
+  const [limits, spend] = await Promise.all([getBudgetLimits(), getSpend(batchId)]);
+  // The spend includes this hold; check it as the requested amount instead
+  const others: BudgetSpend = {
+    day: spend.day - amount,
+    month: spend.month - amount,
+    ...(spend.batch !== undefined && { batch: spend.batch - amount }),
+  };
+  const budget = evaluateBudget(limits, others, amount);
+  if (!budget.allowed) {
+    await deleteSpendReservation(reservationId);
+    return { budget, reservationId: null };
+  }
+  return { budget, reservationId };
+}
+
+/** Release a hold from reserveBudget, or shrink it to `remaining` once part of its cost is logged. */
+export async function releaseBudget(reservationId: string | null | undefined, remaining = 0): Promise<void> {
+  if (!reservationId) return;
+  if (remaining > 0) {
+    await updateSpendReservation(reservationId, remaining);
+  } else {
+    await deleteSpendReservation(reservationId);
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  constrainVideoSettings,
+  DEFAULT_SETTINGS,
+  estimateCost,
+  estimateCostUsd,
+  estimateTextToVideoCostUsd,
+  estimateVideoCost,
+  FAL_MODEL_INPAINT,
+  getMaskModel,
+  getVideoModel,
+  isVideoConfigValid,
+  KIE_MODEL_IMAGE_TO_VIDEO_STANDARD,
+  parsePrompts,
+  supportsTextToVideo,
+  supportsVideoFrames,
+  USD_TO_ILS,
+} from "./constants";
+
+describe("parsePrompts", () => {
+  it("trims lines and skips blanks and comments", () => {
+    const text = "  a cat  \n\n# a comment\n\t\nsunset over the ocean\r\n  # indented comment";
+    expect(parsePrompts(text)).toEqual(["a cat", "sunset over the ocean"]);
+  });
+
+  it("keeps # inside a prompt", () => {
+    expect(parsePrompts("shot #1 of a dog")).toEqual(["shot #1 of a dog"]);
+  });
+
+  it("returns nothing for empty input", () => {
+    expect(parsePrompts("")).toEqual([]);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices Fal images by resolution in ILS", () => {
+    expect(estimateCost(2, 1, "1K", false)).toBeCloseTo(2 * 0.15 * USD_TO_ILS);
+    expect(estimateCost(1, 2, "4K", false)).toBeCloseTo(2 * 0.3 * USD_TO_ILS);
+  });
+
+  it("adds the web search add-on only where the model supports it", () => {
+    expect(estimateCost(1, 1, "1K", true, "fal")).toBeCloseTo((0.15 + 0.015) * USD_TO_ILS);
+    expect(estimateCost(1, 1, "1K", true, "fal", "imagen4")).toBeCloseTo(0.05 * USD_TO_ILS);
+  });
+
+  it("uses the selected provider's pricing", () => {
+    expect(estimateCost(1, 1, "4K", false, "kie")).toBeCloseTo(0.12 * USD_TO_ILS);
+    expect(estimateCost(1, 1, "1K", false, "kie", "nano-banana")).toBeCloseTo(0.02 * USD_TO_ILS);
+  });
+
+  it("falls back to the provider default for unknown models", () => {
+    expect(estimateCost(1, 1, "2K", false, "kie", "no-such-model")).toBeCloseTo(0.09 * USD_TO_ILS);
+  });
+
+  it("is zero without prompts", () => {
+    expect(estimateCost(0, 4, "4K", true)).toBe(0);
+  });
+});
+
+describe("estimateVideoCost", () => {
+  it("prices by duration, resolution and model", () => {
+    expect(estimateVideoCost(1, "6", "768P")).toBeCloseTo(0.22 * USD_TO_ILS);
+    expect(estimateVideoCost(3, "10", "768P", "pro")).toBeCloseTo(3 * 0.45 * USD_TO_ILS);
+    expect(estimateVideoCost(2, "6", "1080P", "standard")).toBeCloseTo(2 * 0.26 * USD_TO_ILS);
+  });
+
+  it("prices models on other providers", () => {
+    expect(estimateVideoCost(2, "5", "720P", "kling-2-1-standard")).toBeCloseTo(2 * 0.25 * USD_TO_ILS);
+  });
+
+  it("falls back to the model's highest price for unsupported combinations", () => {
+    expect(estimateVideoCost(1, "10", "1080P")).toBeCloseTo(0.45 * USD_TO_ILS);
+  });
+});
+
+describe("getVideoModel", () => {
+  it("resolves values stored before the model registry", () => {
+    expect(getVideoModel("standard").id).toBe("hailuo-2-3-standard");
+    expect(getVideoModel(KIE_MODEL_IMAGE_TO_VIDEO_STANDARD).id).toBe("hailuo-2-3-standard");
+  });
+
+  it("falls back to the first model", () => {
+    expect(getVideoModel("unknown").id).toBe("hailuo-2-3-pro");
+    expect(getVideoModel().provider).toBe("kie");
+  });
+});
+
+describe("isVideoConfigValid", () => {
+  it("accepts only combinations the model prices", () => {
+    expect(isVideoConfigValid("6", "1080P", "hailuo-2-3-pro")).toBe(true);
+    expect(isVideoConfigValid("10", "1080P", "hailuo-2-3-pro")).toBe(false);
+    expect(isVideoConfigValid("6", "768P", "kling-2-1-standard")).toBe(false);
+  });
+
+  it("checks the aspect ratio of models that take one", () => {
+    expect(isVideoConfigValid("5", "720p", "wan-2-2-turbo", "9:16")).toBe(true);
+    expect(isVideoConfigValid("5", "720p", "wan-2-2-turbo", "4:3")).toBe(false);
+  });
+});
+
+describe("constrainVideoSettings", () => {
+  it("keeps settings the model supports", () => {
+    const settings = { provider: "kie" as const, model: "hailuo-2-3-pro", duration: "10", resolution: "768P" };
+    expect(constrainVideoSettings(settings)).toEqual({ ...settings, aspectRatio: undefined });
+  });
+
+  it("moves to a supported combination after a model switch", () => {
+    expect(constrainVideoSettings({ model: "hailuo-2-3-pro", duration: "10", resolution: "1080P" })).toMatchObject({
+      duration: "10",
+      resolution: "768P",
+    });
+    expect(constrainVideoSettings({ model: "wan-2-2-turbo", duration: "10", resolution: "1080P" })).toEqual({
+      provider: "kie",
+      model: "wan-2-2-turbo",
+      duration: "5",
+      resolution: "480p",
+      aspectRatio: "auto",
+    });
+  });
+
+  it("keeps the first-frame choice", () => {
+    expect(constrainVideoSettings({ model: "kling-2-1-standard", duration: "6", resolution: "", firstFrame: true }).firstFrame).toBe(true);
+  });
+});
+
+describe("supportsTextToVideo", () => {
+  it("needs a text-to-video model or generated first frames", () => {
+    expect(supportsTextToVideo({ model: "wan-2-2-turbo", duration: "5", resolution: "480p" })).toBe(true);
+    expect(supportsTextToVideo({ model: "hailuo-2-3-pro", duration: "6", resolution: "768P" })).toBe(false);
+    expect(supportsTextToVideo({ model: "hailuo-2-3-pro", duration: "6", resolution: "768P", firstFrame: true })).toBe(true);
+  });
+});
+
+describe("supportsVideoFrames", () => {
+  it("accepts an end frame only on models that declare one", () => {
+    expect(supportsVideoFrames("kling-2-1-pro", { endImageUrl: "https://example.com/b.png" })).toBe(true);
+    expect(supportsVideoFrames("hailuo-2-3-pro", { endImageUrl: "https://example.com/b.png" })).toBe(false);
+    expect(supportsVideoFrames("hailuo-2-3-pro", {})).toBe(true);
+  });
+
+  it("rejects keyframes on models without keyframe input", () => {
+    expect(supportsVideoFrames("hailuo-02-standard", { keyframeUrls: ["https://example.com/c.png"] })).toBe(false);
+    expect(supportsVideoFrames("hailuo-02-standard", { keyframeUrls: [] })).toBe(true);
+  });
+});
+
+describe("estimateTextToVideoCostUsd", () => {
+  const video = { model: "hailuo-2-3-pro", duration: "6", resolution: "768P" };
+
+  it("adds one image per clip when first frames are generated", () => {
+    const frame = estimateCostUsd(1, 1, DEFAULT_SETTINGS.resolution, false, DEFAULT_SETTINGS.provider, DEFAULT_SETTINGS.model);
+
+    expect(estimateTextToVideoCostUsd(3, video, DEFAULT_SETTINGS)).toBeCloseTo(3 * 0.22);
+    expect(estimateTextToVideoCostUsd(3, { ...video, firstFrame: true }, DEFAULT_SETTINGS)).toBeCloseTo(3 * (0.22 + frame));
+  });
+});
+
+describe("getMaskModel", () => {
+  it("routes models without inpainting to the provider's inpainting model", () => {
+    expect(getMaskModel("fal", "imagen4")?.maskEndpoint).toBe(FAL_MODEL_INPAINT);
+    expect(getMaskModel("mock")?.maskEndpoint).toBe("mock");
+  });
+
+  it("is null for providers without one", () => {
+    expect(getMaskModel("kie")).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import type { GenerationSettings, Provider } from "@/types";
+import type { BudgetLimits, BudgetScope, GenerationSettings, ImageModel, PostProcessOperation, PostProcessOperationType, Provider, ProviderErrorCategory, RetryPolicy, StoryboardTransition, VideoModel, VideoProviderName, VideoSettings } from "@/types";
 
 export const ASPECT_RATIOS = [
   "auto", "21:9", "16:9", "3:2", "4:3", "5:4", "1:1", "4:5", "3:4", "2:3", "9:16",
@@ -24,7 +24,25 @@ export const KIE_PRICING: Record<string, number> = {
 
 export const WEB_SEARCH_ADDON_PRICE = 0.015;
 
+// Fallback ILS per USD. The live rate comes from lib/exchange-rate (USD_TO_ILS_RATE or a rate API).
 export const USD_TO_ILS = 3.6;
+export const EXCHANGE_RATE_API_URL = "https://open.er-api.com/v6/latest/USD";
+export const EXCHANGE_RATE_REFRESH_MS = 12 * 60 * 60 * 1000;
+
+// Billed vs estimated drift (as a share of the estimate) flagged in the reconciliation report
+export const RECONCILIATION_DRIFT_THRESHOLD = 0.1;
+
+// Longest from..to range accepted by log-based reports
+export const LOG_RANGE_MAX_DAYS = 366;
+
+// Log queries: entries fetched per Redis round trip, and page sizes for /api/logs/search
+export const LOG_READ_CHUNK = 500;
+export const LOG_QUERY_DEFAULT_LIMIT = 100;
+export const LOG_QUERY_MAX_LIMIT = 1000;
+
+// Analytics dashboard
+export const ANALYTICS_DEFAULT_DAYS = 7;
+export const ANALYTICS_TOP_FAILURES = 5;
 
 // Fal AI models
 export const FAL_MODEL_TEXT_TO_IMAGE = "fal-ai/nano-banana-pro";
@@ -35,6 +53,165 @@ export const KIE_MODEL_TEXT_TO_IMAGE = "nano-banana-pro";
 export const KIE_MODEL_IMAGE_EDIT = "google/nano-banana-edit";
 export const KIE_MODEL_IMAGE_TO_VIDEO_PRO = "hailuo/2-3-image-to-video-pro";
 export const KIE_MODEL_IMAGE_TO_VIDEO_STANDARD = "hailuo/2-3-image-to-video-standard";
+export const KIE_MODEL_WAN_TURBO_IMAGE_TO_VIDEO = "wan/2-2-a14b-image-to-video-turbo";
+export const KIE_MODEL_WAN_TURBO_TEXT_TO_VIDEO = "wan/2-2-a14b-text-to-video-turbo";
+export const KIE_MODEL_KLING_PRO_IMAGE_TO_VIDEO = "kling/v2-1-pro";
+
+// Additional image models
+export const FAL_MODEL_NANO_BANANA = "fal-ai/nano-banana";
+export const FAL_MODEL_NANO_BANANA_EDIT = "fal-ai/nano-banana/edit";
+export const FAL_MODEL_IMAGEN4 = "fal-ai/imagen4/preview";
+export const FAL_MODEL_INPAINT = "fal-ai/flux-pro/v1/fill";
+export const FAL_MODEL_UPSCALE = "fal-ai/esrgan";
+export const FAL_MODEL_REMOVE_BACKGROUND = "fal-ai/imageutils/rembg";
+export const FAL_MODEL_HAILUO_IMAGE_TO_VIDEO = "fal-ai/minimax/hailuo-02/standard/image-to-video";
+export const FAL_MODEL_HAILUO_TEXT_TO_VIDEO = "fal-ai/minimax/hailuo-02/standard/text-to-video";
+export const FAL_MODEL_KLING_IMAGE_TO_VIDEO = "fal-ai/kling-video/v2.1/standard/image-to-video";
+export const KIE_MODEL_NANO_BANANA = "google/nano-banana";
+
+// Offline mock provider (see lib/providers/mock-provider.ts). Shown only when enabled.
+export const MOCK_PROVIDER_ENABLED = process.env.NEXT_PUBLIC_MOCK_PROVIDER === "true";
+export const MOCK_DEFAULT_DELAY_MS = 1500;
+export const MOCK_VIDEO_DURATION_MS = 8000;
+export const MOCK_VIDEO_URL = "https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4";
+
+export const IMAGE_PROVIDERS: Array<{ value: Provider; label: string }> = [
+  { value: "fal", label: "Fal AI" },
+  { value: "kie", label: "Kie AI" },
+  ...(MOCK_PROVIDER_ENABLED ? [{ value: "mock" as const, label: "Mock" }] : []),
+];
+
+// Image model registry. The first model of each provider is its default.
+// To add a model, declare it here; to add a provider, also register its
+// ImageProvider in lib/providers/index.ts.
+export const IMAGE_MODELS: ImageModel[] = [
+  {
+    id: "nano-banana-pro",
+    provider: "fal",
+    label: "Nano Banana Pro",
+    endpoint: FAL_MODEL_TEXT_TO_IMAGE,
+    editEndpoint: FAL_MODEL_IMAGE_EDIT,
+    maskEndpoint: FAL_MODEL_INPAINT,
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: RESOLUTIONS,
+    outputFormats: OUTPUT_FORMATS,
+    pricing: PRICING,
+    webSearchPrice: WEB_SEARCH_ADDON_PRICE,
+    maxImages: 4,
+    supportsSeed: true,
+    supportsWebSearch: true,
+    supportsSafetyTolerance: true,
+  },
+  {
+    id: "nano-banana",
+    provider: "fal",
+    label: "Nano Banana",
+    endpoint: FAL_MODEL_NANO_BANANA,
+    editEndpoint: FAL_MODEL_NANO_BANANA_EDIT,
+    aspectRatios: ASPECT_RATIOS.filter((r) => r !== "auto"),
+    resolutions: ["1K"],
+    outputFormats: OUTPUT_FORMATS,
+    pricing: { "1K": 0.039 },
+    maxImages: 4,
+    supportsSeed: false,
+    supportsWebSearch: false,
+    supportsSafetyTolerance: false,
+  },
+  {
+    id: "imagen4",
+    provider: "fal",
+    label: "Imagen 4",
+    endpoint: FAL_MODEL_IMAGEN4,
+    aspectRatios: ["1:1", "16:9", "9:16", "3:4", "4:3"],
+    resolutions: ["1K", "2K"],
+    outputFormats: OUTPUT_FORMATS,
+    pricing: { "1K": 0.05, "2K": 0.05 },
+    maxImages: 4,
+    supportsSeed: true,
+    supportsWebSearch: false,
+    supportsSafetyTolerance: false,
+  },
+  {
+    id: "nano-banana-pro",
+    provider: "kie",
+    label: "Nano Banana Pro",
+    endpoint: KIE_MODEL_TEXT_TO_IMAGE,
+    editEndpoint: KIE_MODEL_IMAGE_EDIT,
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: RESOLUTIONS,
+    outputFormats: ["png", "jpeg"],
+    pricing: KIE_PRICING,
+    maxImages: 1,
+    supportsSeed: false,
+    supportsWebSearch: false,
+    supportsSafetyTolerance: false,
+  },
+  {
+    id: "nano-banana",
+    provider: "kie",
+    label: "Nano Banana",
+    endpoint: KIE_MODEL_NANO_BANANA,
+    editEndpoint: KIE_MODEL_IMAGE_EDIT,
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: ["1K"],
+    outputFormats: ["png", "jpeg"],
+    pricing: { "1K": 0.02 },
+    maxImages: 1,
+    supportsSeed: false,
+    supportsWebSearch: false,
+    supportsSafetyTolerance: false,
+    aspectRatioParam: "image_size",
+  },
+  {
+    id: "mock",
+    provider: "mock",
+    label: "Mock (placeholder)",
+    endpoint: "mock",
+    editEndpoint: "mock",
+    maskEndpoint: "mock",
+    aspectRatios: ASPECT_RATIOS,
+    resolutions: RESOLUTIONS,
+    outputFormats: OUTPUT_FORMATS,
+    pricing: { "1K": 0, "2K": 0, "4K": 0 },
+    maxImages: 4,
+    supportsSeed: true,
+    supportsWebSearch: false,
+    supportsSafetyTolerance: false,
+  },
+];
+
+export function getImageModels(provider: Provider): ImageModel[] {
+  return IMAGE_MODELS.filter((m) => m.provider === provider);
+}
+
+/** Look up a model; unknown or missing ids fall back to the provider's default model. */
+export function getImageModel(provider: Provider = "fal", modelId?: string): ImageModel {
+  const models = getImageModels(provider);
+  return models.find((m) => m.id === modelId) ?? models[0];
+}
+
+/** Model that handles inpainting for this selection; null if the provider has none. */
+export function getMaskModel(provider: Provider = "fal", modelId?: string): ImageModel | null {
+  const model = getImageModel(provider, modelId);
+  return model.maskEndpoint ? model : (getImageModels(provider).find((m) => m.maskEndpoint) ?? null);
+}
+
+/** Clamp settings to what the selected model supports (e.g. after switching provider or model). */
+export function constrainToModel(settings: GenerationSettings): GenerationSettings {
+  const model = getImageModel(settings.provider, settings.model);
+  const pick = <T>(value: T, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value) ? value : allowed.includes(fallback) ? fallback : allowed[0];
+  return {
+    ...settings,
+    model: model.id,
+    resolution: pick(settings.resolution, model.resolutions, "1K"),
+    aspectRatio: pick(settings.aspectRatio, model.aspectRatios, "1:1"),
+    outputFormat: pick(settings.outputFormat, model.outputFormats, "png"),
+    numImages: Math.min(settings.numImages, model.maxImages),
+    seed: model.supportsSeed ? settings.seed : undefined,
+    enableWebSearch: model.supportsWebSearch && settings.enableWebSearch,
+  };
+}
 
 // Kie AI polling config
 export const KIE_POLL_INTERVAL_MS = 2000;
@@ -42,10 +219,93 @@ export const KIE_MAX_POLL_ATTEMPTS = 150;
 
 export const MAX_CONCURRENCY = 4;
 
+// Input images per composition edit (gallery images plus uploaded references)
+export const MAX_COMPOSITION_IMAGES = 8;
+
+// Post-processing chains (see lib/postprocess). Upscaling and background removal
+// go to the provider's model when it has one; the other steps run locally.
+export const MAX_POSTPROCESS_OPERATIONS = 6;
+// Longest side the local upscale fallback may produce
+export const MAX_LOCAL_UPSCALE_DIMENSION = 8192;
+export const DEFAULT_COMPRESS_QUALITY = 80;
+
+// USD per operation on provider models; local steps cost nothing
+export const POSTPROCESS_PRICING: Partial<Record<Provider, Partial<Record<PostProcessOperationType, number>>>> = {
+  fal: { upscale: 0.02, remove_background: 0.01 },
+};
+
+export const POSTPROCESS_OPERATION_LABELS: Record<PostProcessOperationType, string> = {
+  upscale: "הגדלה",
+  remove_background: "הסרת רקע",
+  crop: "חיתוך ליחס",
+  convert: "המרת פורמט",
+  compress: "דחיסה",
+};
+
+/** Estimated USD for running a chain on one image. */
+export function estimatePostProcessCostUsd(operations: PostProcessOperation[], provider: Provider = "fal"): number {
+  const pricing = POSTPROCESS_PRICING[provider] ?? {};
+  return operations.reduce((sum, op) => sum + (pricing[op.type] ?? 0), 0);
+}
+
+// Per-image retry policy (server-side)
+export const MAX_RETRY_ATTEMPTS = 5;
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMs: 2000,
+  retryOn: ["rate_limited", "upstream_5xx", "timeout", "network"],
+};
+
+export const ERROR_CATEGORY_LABELS: Record<ProviderErrorCategory, string> = {
+  content_policy: "נחסם מטעמי תוכן",
+  rate_limited: "עומס (429)",
+  quota_exhausted: "נגמרה היתרה",
+  timeout: "תם הזמן",
+  invalid_input: "קלט לא תקין",
+  upstream_5xx: "שגיאת שרת (5xx)",
+  network: "שגיאת רשת",
+  unknown: "שגיאה אחרת",
+};
+
+// Categories that are transient and may be selected for retry
+export const RETRYABLE_ERROR_CATEGORIES: ProviderErrorCategory[] = ["rate_limited", "upstream_5xx", "timeout", "network"];
+
+// Server-side batch job config
+export const JOB_LEASE_MS = 60000;
+export const JOB_WORKER_BUDGET_MS = 240000;
+export const JOB_EVENT_POLL_INTERVAL_MS = 1000;
+export const JOB_SUBSCRIPTION_MAX_MS = 280000;
+export const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Items awaiting a provider callback for longer than this are resubmitted
+export const JOB_CALLBACK_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Spend caps (ILS). Defaults come from env until set in the UI; see lib/budget.ts
+export const DEFAULT_BUDGET_LIMITS: BudgetLimits = { batch: null, day: null, month: null };
+// Share of a cap at which the UI starts warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  batch: "לבאצ׳",
+  day: "היומי",
+  month: "החודשי",
+};
+
+// SSE keep-alive / reconnect config
+export const SSE_HEARTBEAT_INTERVAL_MS = 15000;
+export const SSE_MAX_RECONNECT_ATTEMPTS = 5;
+export const SSE_RECONNECT_DELAY_MS = 2000;
+
 // Client-side video polling config
 export const VIDEO_POLL_INTERVAL_MS = 4000;
 export const VIDEO_POLL_MAX_DURATION_MS = 600000;
 
+// Server-side video poller (see lib/video-tasks). Tasks older than the max age are no longer polled.
+export const VIDEO_POLLER_LEASE_MS = 30000;
+export const VIDEO_POLLER_BUDGET_MS = 240000;
+export const VIDEO_TASK_MAX_AGE_MS = 30 * 60 * 1000;
+// How long a poll that saw a task finish may take to store its video before another poll takes over
+export const VIDEO_TASK_FINISH_CLAIM_MS = 2 * 60 * 1000;
+
 // Gemini Vision config
 export const GEMINI_MODEL = "gemini-2.0-flash";
 
@@ -57,6 +317,23 @@ export const DEFAULT_GEMINI_SYSTEM_PROMPT = `You are an expert at analyzing imag
 
 Output ONLY the English video prompt, no explanations or formatting. Keep it concise (2-4 sentences).`;
 
+export const GEMINI_EXPAND_SYSTEM_PROMPT = `You are an expert at writing prompts for image generation models. Rewrite the user's short image prompt into a detailed one: keep the subject and every detail the user gave, and add composition, lighting, setting, style and mood that fit it. Do not change the language of quoted text that should appear in the image.
+
+Output ONLY the rewritten prompt in English, no explanations or formatting. Keep it to 2-4 sentences.`;
+
+export const GEMINI_CAPTION_SYSTEM_PROMPT = `Write alt text for this image: one plain sentence (at most 25 words) describing what it shows, including any visible text. Output ONLY the sentence.`;
+
+export const GEMINI_QA_SYSTEM_PROMPT = `You check generated images against the prompt they were made from. Compare the image with the prompt below and score how closely it follows it, from 0 (unrelated) to 10 (every element present and correct). List what is missing or wrong (subjects, counts, colours, text, style) as short phrases; leave the list empty when nothing is.
+
+Respond with JSON only: {"score": <0-10>, "issues": ["..."]}`;
+
+// Outputs scoring below this are flagged in the gallery
+export const QA_FLAG_THRESHOLD = 6;
+
+// Prompts per expansion request, and Gemini calls in flight at once while expanding
+export const MAX_EXPAND_PROMPTS = 100;
+export const GEMINI_CONCURRENCY = 4;
+
 export const GEMINI_PROMPT_PRESETS: Array<{ name: string; label: string; prompt: string }> = [
   {
     name: "cinematic",
@@ -82,6 +359,7 @@ export const GEMINI_PROMPT_PRESETS: Array<{ name: string; label: string; prompt:
 
 export const DEFAULT_SETTINGS: GenerationSettings = {
   provider: "fal",
+  model: "nano-banana-pro",
   resolution: "1K",
   aspectRatio: "1:1",
   outputFormat: "png",
@@ -92,34 +370,48 @@ export const DEFAULT_SETTINGS: GenerationSettings = {
   promptSuffix: "",
   referenceImageUrls: [],
   concurrency: 2,
+  retryPolicy: DEFAULT_RETRY_POLICY,
   geminiSystemPrompt: DEFAULT_GEMINI_SYSTEM_PROMPT,
 };
 
+export function estimateCostUsd(
+  promptCount: number,
+  numImagesPerPrompt: number,
+  resolution: string,
+  enableWebSearch: boolean,
+  provider: Provider = "fal",
+  modelId?: string
+): number {
+  const model = getImageModel(provider, modelId);
+  const perImage =
+    (model.pricing[resolution as keyof ImageModel["pricing"]] ?? 0.15) +
+    (model.supportsWebSearch && enableWebSearch ? model.webSearchPrice ?? 0 : 0);
+  return promptCount * numImagesPerPrompt * perImage;
+}
+
+/** Estimated cost in ILS. Pass the live rate (useExchangeRate / getExchangeRate) where available. */
 export function estimateCost(
   promptCount: number,
   numImagesPerPrompt: number,
   resolution: string,
   enableWebSearch: boolean,
-  provider: Provider = "fal"
+  provider: Provider = "fal",
+  modelId?: string,
+  usdToIls = USD_TO_ILS
 ): number {
-  const pricingTable = provider === "kie" ? KIE_PRICING : PRICING;
-  const perImage = (pricingTable[resolution] ?? 0.15) + (provider === "fal" && enableWebSearch ? WEB_SEARCH_ADDON_PRICE : 0);
-  return promptCount * numImagesPerPrompt * perImage * USD_TO_ILS;
+  return estimateCostUsd(promptCount, numImagesPerPrompt, resolution, enableWebSearch, provider, modelId) * usdToIls;
 }
 
 // Video generation config
 export const MAX_ACTIVE_VIDEO_TASKS = 2;
-export const VIDEO_DURATIONS = ["6", "10"] as const;
-export const VIDEO_RESOLUTIONS = ["768P", "1080P"] as const;
 
-export function isVideoConfigValid(duration: string, resolution: string): boolean {
-  return !(duration === "10" && resolution === "1080P");
-}
+export const VIDEO_PROVIDERS: Array<{ value: VideoProviderName; label: string }> = [
+  { value: "kie", label: "Kie AI" },
+  { value: "fal", label: "Fal AI" },
+];
 
-// Kie AI video pricing (USD per video)
+// Kie AI Hailuo pricing (USD per video)
 // Source: https://kie.ai/hailuo-2-3
-export type VideoModel = "pro" | "standard";
-
 export const VIDEO_PRICING_PRO: Record<string, number> = {
   "6_768P":  0.22,   // 45 credits
   "10_768P": 0.45,   // 90 credits
@@ -132,22 +424,186 @@ export const VIDEO_PRICING_STANDARD: Record<string, number> = {
   "6_1080P": 0.26,   // 50 credits
 };
 
-export function getVideoModelId(model: VideoModel): string {
-  return model === "pro" ? KIE_MODEL_IMAGE_TO_VIDEO_PRO : KIE_MODEL_IMAGE_TO_VIDEO_STANDARD;
+// Video model registry. The first model of each provider is its default.
+// To add a provider, also register its VideoProvider in lib/providers/index.ts.
+export const VIDEO_MODELS: VideoModel[] = [
+  {
+    id: "hailuo-2-3-pro",
+    provider: "kie",
+    label: "Hailuo 2.3 Pro",
+    endpoint: KIE_MODEL_IMAGE_TO_VIDEO_PRO,
+    durations: ["6", "10"],
+    resolutions: ["768P", "1080P"],
+    aspectRatios: [],
+    pricing: VIDEO_PRICING_PRO,
+  },
+  {
+    id: "hailuo-2-3-standard",
+    provider: "kie",
+    label: "Hailuo 2.3 Standard",
+    endpoint: KIE_MODEL_IMAGE_TO_VIDEO_STANDARD,
+    durations: ["6", "10"],
+    resolutions: ["768P", "1080P"],
+    aspectRatios: [],
+    pricing: VIDEO_PRICING_STANDARD,
+  },
+  {
+    id: "wan-2-2-turbo",
+    provider: "kie",
+    label: "Wan 2.2 Turbo",
+    endpoint: KIE_MODEL_WAN_TURBO_IMAGE_TO_VIDEO,
+    textToVideoEndpoint: KIE_MODEL_WAN_TURBO_TEXT_TO_VIDEO,
+    durations: ["5"],
+    resolutions: ["480p", "580p", "720p"],
+    aspectRatios: ["auto", "16:9", "9:16", "1:1"],
+    pricing: { "5_480p": 0.04, "5_580p": 0.06, "5_720p": 0.08 },
+  },
+  {
+    id: "kling-2-1-pro",
+    provider: "kie",
+    label: "Kling 2.1 Pro",
+    endpoint: KIE_MODEL_KLING_PRO_IMAGE_TO_VIDEO,
+    endImageParam: "tail_image_url",
+    durations: ["5", "10"],
+    resolutions: ["1080p"],
+    aspectRatios: [],
+    pricing: { "5_1080p": 0.25, "10_1080p": 0.5 },
+  },
+  {
+    id: "hailuo-02-standard",
+    provider: "fal",
+    label: "Hailuo 02 Standard",
+    endpoint: FAL_MODEL_HAILUO_IMAGE_TO_VIDEO,
+    textToVideoEndpoint: FAL_MODEL_HAILUO_TEXT_TO_VIDEO,
+    endImageParam: "end_image_url",
+    durations: ["6", "10"],
+    resolutions: ["768P"],
+    aspectRatios: [],
+    pricing: { "6_768P": 0.27, "10_768P": 0.45 },
+  },
+  {
+    id: "kling-2-1-standard",
+    provider: "fal",
+    label: "Kling 2.1 Standard",
+    endpoint: FAL_MODEL_KLING_IMAGE_TO_VIDEO,
+    durations: ["5", "10"],
+    resolutions: ["720P"],
+    aspectRatios: [],
+    pricing: { "5_720P": 0.25, "10_720P": 0.5 },
+  },
+];
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  provider: "kie",
+  model: "hailuo-2-3-pro",
+  duration: "6",
+  resolution: "768P",
+};
+
+// Values stored before the registry: pricing tiers on task records, Kie model names in batch settings
+const LEGACY_VIDEO_MODEL_IDS: Record<string, string> = {
+  pro: "hailuo-2-3-pro",
+  standard: "hailuo-2-3-standard",
+  [KIE_MODEL_IMAGE_TO_VIDEO_PRO]: "hailuo-2-3-pro",
+  [KIE_MODEL_IMAGE_TO_VIDEO_STANDARD]: "hailuo-2-3-standard",
+};
+
+export function getVideoModels(provider: VideoProviderName): VideoModel[] {
+  return VIDEO_MODELS.filter((m) => m.provider === provider);
+}
+
+/** Look up a video model by id (or a legacy value); unknown or missing ids fall back to the first model. */
+export function getVideoModel(modelId?: string): VideoModel {
+  const id = modelId ? (LEGACY_VIDEO_MODEL_IDS[modelId] ?? modelId) : undefined;
+  return VIDEO_MODELS.find((m) => m.id === id) ?? VIDEO_MODELS[0];
+}
+
+/** True if the model offers this duration / resolution / aspect ratio combination. */
+export function isVideoConfigValid(duration: string, resolution: string, modelId?: string, aspectRatio?: string): boolean {
+  const model = getVideoModel(modelId);
+  if (model.aspectRatios.length > 0 && aspectRatio !== undefined && !model.aspectRatios.includes(aspectRatio)) {
+    return false;
+  }
+  return `${duration}_${resolution}` in model.pricing;
+}
+
+/** Clamp video settings to what the model supports (e.g. after switching model). */
+export function constrainVideoSettings(settings: VideoSettings): VideoSettings {
+  const model = getVideoModel(settings.model);
+  const combos = Object.keys(model.pricing).map((key) => key.split("_"));
+  const duration = model.durations.includes(settings.duration) ? settings.duration : model.durations[0];
+  const resolution = combos.some(([d, r]) => d === duration && r === settings.resolution)
+    ? settings.resolution
+    : (combos.find(([d]) => d === duration)?.[1] ?? model.resolutions[0]);
+  return {
+    ...settings,
+    provider: model.provider,
+    model: model.id,
+    duration,
+    resolution,
+    aspectRatio: model.aspectRatios.length > 0
+      ? (model.aspectRatios.includes(settings.aspectRatio ?? "") ? settings.aspectRatio : model.aspectRatios[0])
+      : undefined,
+  };
+}
+
+/** USD for `count` clips. Unsupported combinations are priced at the model's highest rate. */
+export function estimateVideoCostUsd(
+  count: number,
+  duration: string,
+  resolution: string,
+  modelId?: string
+): number {
+  const { pricing } = getVideoModel(modelId);
+  const perVideo = pricing[`${duration}_${resolution}`] ?? Math.max(...Object.values(pricing));
+  return count * perVideo;
 }
 
 export function estimateVideoCost(
   count: number,
   duration: string,
   resolution: string,
-  model: VideoModel = "pro"
+  modelId?: string,
+  usdToIls = USD_TO_ILS
 ): number {
-  const key = `${duration}_${resolution}`;
-  const pricingTable = model === "pro" ? VIDEO_PRICING_PRO : VIDEO_PRICING_STANDARD;
-  const perVideo = pricingTable[key] ?? 0.39;
-  return count * perVideo * USD_TO_ILS;
+  return estimateVideoCostUsd(count, duration, resolution, modelId) * usdToIls;
+}
+
+/** True if the model takes the given last frame and keyframes. */
+export function supportsVideoFrames(modelId: string | undefined, frames: { endImageUrl?: string; keyframeUrls?: string[] }): boolean {
+  const model = getVideoModel(modelId);
+  if (frames.endImageUrl && !model.endImageParam) return false;
+  return (frames.keyframeUrls?.length ?? 0) <= (model.keyframes?.max ?? 0);
 }
 
+/** True if clips can be made from a prompt alone: the model has a text-to-video variant, or first frames are generated. */
+export function supportsTextToVideo(settings: VideoSettings): boolean {
+  return !!settings.firstFrame || !!getVideoModel(settings.model).textToVideoEndpoint;
+}
+
+/** USD for a video batch started from prompts: the clips, plus one image each when first frames are generated. */
+export function estimateTextToVideoCostUsd(count: number, video: VideoSettings, imageSettings: GenerationSettings): number {
+  const clips = estimateVideoCostUsd(count, video.duration, video.resolution, video.model);
+  if (!video.firstFrame) return clips;
+  return clips + estimateCostUsd(count, 1, imageSettings.resolution, imageSettings.enableWebSearch, imageSettings.provider, imageSettings.model);
+}
+
+/** Provider CDNs the server may download results from (subdomains included), besides the app's storage */
+export const PROVIDER_MEDIA_HOSTS = ["fal.media", "aiquickdraw.com"];
+
+// Storyboard reels (see lib/storyboard), rendered locally with ffmpeg
+export const MAX_STORYBOARD_CLIPS = 30;
+export const STORYBOARD_CROSSFADE_SECONDS = 0.5;
+export const STORYBOARD_TITLE_CARD_SECONDS = 2;
+
+export const STORYBOARD_TRANSITION_LABELS: Record<StoryboardTransition, string> = {
+  cut: "חיתוך",
+  crossfade: "מעבר הדרגתי",
+};
+
+// Upper bound on prompts produced by template expansion (see lib/prompt-template)
+export const MAX_EXPANDED_PROMPTS = 1000;
+
 export function parsePrompts(text: string): string[] {
   return text
     .split("\n")
@@ -0,0 +1,53 @@
+import { loadExchangeRate, saveExchangeRate } from "@/lib/file-utils";
+import { EXCHANGE_RATE_API_URL, EXCHANGE_RATE_REFRESH_MS, USD_TO_ILS } from "@/lib/constants";
+import type { ExchangeRate } from "@/types/billing";
+
+// Per-instance cache in front of the stored rate
+let cached: ExchangeRate | null = null;
+
+function isFresh(rate: ExchangeRate): boolean {
+  return Date.now() - new Date(rate.updatedAt).getTime() < EXCHANGE_RATE_REFRESH_MS;
+}
+
+async function fetchRate(): Promise<number | null> {
+  try {
+    const res = await fetch(process.env.EXCHANGE_RATE_API_URL || EXCHANGE_RATE_API_URL, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const rate = Number(data.rates?.ILS);
+    return Number.isFinite(rate) && rate > 0 ? rate : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ILS per USD used for cost accounting. USD_TO_ILS_RATE pins it; otherwise the
+ * rate is fetched at most every EXCHANGE_RATE_REFRESH_MS and stored, falling
+ * back to the last stored rate and finally to the USD_TO_ILS constant.
+ */
+export async function getExchangeRate(): Promise<ExchangeRate> {
+  const pinned = Number(process.env.USD_TO_ILS_RATE);
+  if (process.env.USD_TO_ILS_RATE && Number.isFinite(pinned) && pinned > 0) {
+    return { rate: pinned, source: "env", updatedAt: new Date().toISOString() };
+  }
+
+  if (cached && isFresh(cached)) return cached;
+  const stored = await loadExchangeRate();
+  if (stored && isFresh(stored)) {
+    cached = stored;
+    return stored;
+  }
+
+  const fetched = await fetchRate();
+  if (fetched !== null) {
+    cached = { rate: fetched, source: "api", updatedAt: new Date().toISOString() };
+    await saveExchangeRate(cached);
+    return cached;
+  }
+
+  console.warn("[exchange-rate] Rate refresh failed, using the last known rate");
+  return stored ?? { rate: USD_TO_ILS, source: "default", updatedAt: new Date().toISOString() };
+}
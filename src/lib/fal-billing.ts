@@ -0,0 +1,66 @@
+import type { BilledCost } from "@/types/billing";
+
+export const FAL_API_BASE = "https://api.fal.ai/v1";
+
+// Safety stop for cursor pagination
+const MAX_BILLING_PAGES = 20;
+
+export function getFalAdminHeaders(): HeadersInit {
+  const key = process.env.FAL_KEY;
+  if (!key) throw new Error("FAL_KEY not configured");
+  return {
+    Authorization: `Key ${key}`,
+    "Content-Type": "application/json",
+  };
+}
+
+interface FalBillingEvent {
+  request_id?: string;
+  requestId?: string;
+  endpoint_id?: string;
+  endpoint?: string;
+  timestamp?: string;
+  created_at?: string;
+  /** nano-USD */
+  cost_estimate_nano_usd?: number;
+  /** USD */
+  cost?: number;
+}
+
+function toBilledCost(event: FalBillingEvent): BilledCost {
+  return {
+    requestId: event.request_id ?? event.requestId ?? "",
+    // cost_estimate_nano_usd is in nano-USD (divide by 1e9 for dollars)
+    costUsd: event.cost_estimate_nano_usd ? event.cost_estimate_nano_usd / 1e9 : event.cost ?? 0,
+    endpoint: event.endpoint_id ?? event.endpoint,
+    timestamp: event.timestamp ?? event.created_at,
+  };
+}
+
+/**
+ * Per-request billed costs from Fal's billing-events API (requires an admin key).
+ * Returns null when the endpoint is unavailable for this key.
+ */
+export async function fetchFalBillingEvents(startDate: string, endDate?: string): Promise<BilledCost[] | null> {
+  const headers = getFalAdminHeaders();
+  const events: BilledCost[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_BILLING_PAGES; page++) {
+    const params = new URLSearchParams({ start_date: startDate, limit: "1000" });
+    if (endDate) params.set("end_date", endDate);
+    if (cursor) params.set("cursor", cursor);
+
+    const res = await fetch(`${FAL_API_BASE}/models/billing-events?${params}`, { headers, cache: "no-store" });
+    if (!res.ok) return page === 0 ? null : events;
+
+    const data = await res.json();
+    const batch = data.data ?? data.events ?? data ?? [];
+    if (!Array.isArray(batch)) break;
+    events.push(...(batch as FalBillingEvent[]).map(toBilledCost));
+
+    cursor = data.next_cursor ?? undefined;
+    if (!cursor) break;
+  }
+  return events;
+}
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { BatchJob } from "@/types/job";
+import type { LogEntry } from "@/types/log";
+import type { LogIndex } from "./file-utils";
+
+// In-memory stand-in for Upstash: reads parse JSON like the client does, and
+// eval runs the logic of the compare-and-set script (after a tick, so
+// concurrent updates interleave) or of the log append script.
+const store = new Map<string, string>();
+const lists = new Map<string, string[]>();
+const hashes = new Map<string, Map<string, string>>();
+const lindex = vi.fn((key: string, position: number) => {
+  const value = lists.get(key)?.[position];
+  return value === undefined ? null : JSON.parse(value);
+});
+
+function push(key: string, value: string): number {
+  const list = lists.get(key) ?? [];
+  list.push(value);
+  lists.set(key, list);
+  return list.length;
+}
+
+function hash(key: string): Map<string, string> {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+}
+
+vi.mock("@upstash/redis", () => ({
+  Redis: class {
+    async get(key: string) {
+      const value = store.get(key);
+      return value === undefined ? null : JSON.parse(value);
+    }
+    async hget(key: string, field: string) {
+      const value = hashes.get(key)?.get(field);
+      return value === undefined ? null : JSON.parse(value);
+    }
+    async hset(key: string, fields: Record<string, string>) {
+      for (const [field, value] of Object.entries(fields)) hash(key).set(field, value);
+    }
+    async lrange(key: string, start: number, stop: number) {
+      const list = lists.get(key) ?? [];
+      return list.slice(start, stop === -1 ? undefined : stop + 1).map((value) => JSON.parse(value));
+    }
+    pipeline() {
+      const calls: Array<() => unknown> = [];
+      const pipeline = {
+        lindex: (key: string, position: number) => (calls.push(() => lindex(key, position)), pipeline),
+        llen: (key: string) => (calls.push(() => lists.get(key)?.length ?? 0), pipeline),
+        exec: async () => calls.map((call) => call()),
+      };
+      return pipeline;
+    }
+    async eval(script: string, keys: string[], args: string[]) {
+      if (script.includes("RPUSH")) {
+        const [logKey, , indexStartKey, ...indexKeys] = keys;
+        const position = String(push(logKey, args[0]) - 1);
+        if (!hash(indexStartKey).has("from")) hash(indexStartKey).set("from", position);
+        for (const key of indexKeys) push(key, position);
+        return 1;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      const current = store.get(keys[0]);
+      const version = current ? (JSON.parse(current).version ?? 0) : 0;
+      if (version !== Number(args[0])) return 0;
+      store.set(keys[0], args[1]);
+      return 1;
+    }
+  },
+}));
+
+let fileUtils: typeof import("./file-utils");
+
+function job(batchId: string): BatchJob {
+  return {
+    batchId,
+    status: "running",
+    settings: {} as BatchJob["settings"],
+    items: [],
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    runEventOffset: 0,
+  };
+}
+
+beforeAll(async () => {
+  vi.stubEnv("VERCEL", "1");
+  fileUtils = await import("./file-utils");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("updateJob on Redis", () => {
+  it("re-runs the updater when another instance wrote in between", async () => {
+    await fileUtils.updateJob("cas", () => job("cas"));
+
+    // No in-process lock on Redis: these race like separate instances would
+    await Promise.all(
+      [0, 1, 2, 3, 4].map((index) =>
+        fileUtils.updateJob("cas", (current) =>
+          current ? { ...current, items: [...current.items, { index, prompt: `p${index}`, status: "pending" }] } : null
+        )
+      )
+    );
+
+    const stored = await fileUtils.loadJob("cas");
+    expect(stored?.items.map((item) => item.index).sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(stored?.version).toBe(6);
+  });
+
+  it("leaves the record untouched when the updater returns null", async () => {
+    const before = await fileUtils.updateJob("untouched", () => job("untouched"));
+    const after = await fileUtils.updateJob("untouched", () => null);
+    expect(after).toEqual(before);
+    expect(after?.version).toBe(1);
+  });
+});
+
+describe("parseLogRange", () => {
+  const range = (params: Record<string, string>) => fileUtils.parseLogRange(new URLSearchParams(params), "2026-01-01");
+
+  it("accepts real dates, leap days included", () => {
+    expect(range({ from: "2024-02-01", to: "2024-02-29" })).toEqual({ from: "2024-02-01", to: "2024-02-29" });
+  });
+
+  it("rejects dates that match the pattern but don't exist", () => {
+    expect(range({ from: "2026-02-01", to: "2026-02-31" })).toHaveProperty("error");
+    expect(range({ from: "2026-13-01", to: "2026-13-02" })).toHaveProperty("error");
+  });
+
+  it("rejects oversized ranges", () => {
+    expect(range({ from: "0001-01-01", to: "9999-12-31" })).toEqual({ error: expect.stringContaining("limited") });
+  });
+});
+
+describe("log indexes on Redis", () => {
+  const date = "2026-03-01";
+
+  function entry(index: number, batchId: string, status: LogEntry["status"]): LogEntry {
+    return {
+      timestamp: `${date}T10:00:${String(index).padStart(2, "0")}.000Z`,
+      batchId,
+      imageIndex: index,
+      prompt: `p${index}`,
+      parameters: {
+        provider: "fal",
+        resolution: "1K",
+        aspectRatio: "1:1",
+        outputFormat: "png",
+        safetyTolerance: 4,
+        numImages: 1,
+        enableWebSearch: false,
+        hasReferenceImages: false,
+      },
+      status,
+      durationMs: 1000,
+      cost: 0,
+    };
+  }
+
+  beforeAll(async () => {
+    // Two entries from before the indexes existed, then indexed appends
+    push(`logs:${date}`, JSON.stringify(entry(0, "a", "completed")));
+    push(`logs:${date}`, JSON.stringify(entry(1, "b", "failed")));
+    for (const [index, batchId, status] of [
+      [2, "a", "failed"],
+      [3, "b", "completed"],
+      [4, "a", "completed"],
+    ] as const) {
+      await fileUtils.appendLog(entry(index, batchId, status));
+    }
+  });
+
+  const collect = async (index: LogIndex, offset = 0) => {
+    const found: Array<[number, number]> = [];
+    for await (const item of fileUtils.iterateIndexedLogs(date, index, offset)) found.push([item.offset, item.entry.imageIndex]);
+    return found;
+  };
+
+  it("reads a batch's indexed entries by position, scanning only older ones", async () => {
+    lindex.mockClear();
+    expect(await collect({ batchId: "a" })).toEqual([[0, 0], [2, 2], [4, 4]]);
+    expect(lindex.mock.calls.map(([, position]) => position)).toEqual([2, 4]);
+  });
+
+  it("reads a status's entries from an offset", async () => {
+    expect(await collect({ status: "failed" })).toEqual([[1, 1], [2, 2]]);
+    expect(await collect({ status: "completed" }, 3)).toEqual([[3, 3], [4, 4]]);
+  });
+
+  it("filters readLogs by batch through the index", async () => {
+    expect((await fileUtils.readLogs(date, "b")).map((e) => e.imageIndex)).toEqual([1, 3]);
+  });
+});
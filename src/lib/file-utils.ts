@@ -1,12 +1,23 @@
 import fs from "fs/promises";
+import { createReadStream } from "fs";
 import path from "path";
+import readline from "readline";
 import type { Preset } from "@/types/preset";
 import type { LogEntry } from "@/types/log";
+import type { BatchJob } from "@/types/job";
+import type { GenerationEvent } from "@/types/generation";
+import type { BudgetLimits, SpendReservation } from "@/types/budget";
+import type { BilledCost, ExchangeRate } from "@/types/billing";
+import type { VideoBatch, VideoTask } from "@/types/video";
+import { JOB_TTL_SECONDS, LOG_RANGE_MAX_DAYS, LOG_READ_CHUNK } from "@/lib/constants";
 
 const IS_VERCEL = !!process.env.VERCEL;
 const DATA_DIR = path.join(process.cwd(), "data");
 const PRESETS_DIR = path.join(DATA_DIR, "presets");
 const LOGS_DIR = path.join(DATA_DIR, "logs");
+const JOBS_DIR = path.join(DATA_DIR, "jobs");
+const BILLING_DIR = path.join(DATA_DIR, "billing");
+const VIDEO_TASKS_DIR = path.join(DATA_DIR, "video-tasks");
 const DOWNLOADS_DIR = IS_VERCEL ? path.join("/tmp", "downloads") : path.join(DATA_DIR, "downloads");
 
 // --- Redis (Vercel/production only) ---
@@ -29,9 +40,86 @@ async function getRedis() {
 async function ensureDataDirs(): Promise<void> {
   await fs.mkdir(PRESETS_DIR, { recursive: true });
   await fs.mkdir(LOGS_DIR, { recursive: true });
+  await fs.mkdir(JOBS_DIR, { recursive: true });
+  await fs.mkdir(BILLING_DIR, { recursive: true });
+  await fs.mkdir(VIDEO_TASKS_DIR, { recursive: true });
   await fs.mkdir(DOWNLOADS_DIR, { recursive: true });
 }
 
+// Serializes read-modify-write cycles on the same record within this process
+// (local storage only: one server process reads and writes the data dir)
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const next = previous.then(fn);
+  const settled = next.catch(() => undefined);
+  locks.set(key, settled);
+  settled.then(() => {
+    if (locks.get(key) === settled) locks.delete(key);
+  });
+  return next;
+}
+
+// Writes KEYS[1] = ARGV[2] (expiring after ARGV[3] seconds) only if the stored
+// record's version is still ARGV[1]. Returns 1 when written, 0 on a conflict.
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+local version = 0
+if current then version = tonumber(cjson.decode(current).version) or 0 end
+if version ~= tonumber(ARGV[1]) then return 0 end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+return 1
+`;
+
+const RECORD_UPDATE_MAX_ATTEMPTS = 20;
+
+interface VersionedRecord {
+  updatedAt?: string;
+  version?: number;
+}
+
+/**
+ * Read-modify-write a JSON record. In Redis every route may run in its own
+ * instance, so the write is a compare-and-set on the record's version: when
+ * another instance wrote the record in between, the updater runs again on the
+ * fresh copy. Updaters may therefore run more than once and must only keep
+ * the effects of their last run.
+ */
+async function updateRecord<T extends VersionedRecord>(
+  key: string,
+  load: () => Promise<T | null>,
+  save: (record: T) => Promise<void>,
+  updater: (current: T | null) => T | null
+): Promise<T | null> {
+  const kv = await getRedis();
+  if (!kv) {
+    return withLock(key, async () => {
+      const current = await load();
+      const updated = updater(current);
+      if (!updated) return current;
+      updated.updatedAt = new Date().toISOString();
+      await save(updated);
+      return updated;
+    });
+  }
+
+  for (let attempt = 1; attempt <= RECORD_UPDATE_MAX_ATTEMPTS; attempt++) {
+    const current = await kv.get<T>(key);
+    const version = current?.version ?? 0;
+    const updated = updater(current);
+    if (!updated) return current;
+    const next: T = { ...updated, version: version + 1, updatedAt: new Date().toISOString() };
+    const written = await kv.eval<string[], number>(COMPARE_AND_SET_SCRIPT, [key], [
+      String(version),
+      JSON.stringify(next),
+      String(JOB_TTL_SECONDS),
+    ]);
+    if (written === 1) return next;
+  }
+  throw new Error(`Update of ${key} kept conflicting with concurrent writes`);
+}
+
 // --- Presets ---
 
 export async function listPresets(): Promise<Preset[]> {
@@ -106,21 +194,136 @@ export async function deletePreset(name: string): Promise<boolean> {
 
 // --- Logs ---
 
+const LOG_REQUEST_INDEX_KEY = "logs:requests";
+
 function getLogKey(date?: string): string {
   const d = date ?? new Date().toISOString().slice(0, 10);
   return `logs:${d}`;
 }
 
+// Secondary indexes per day: the positions (in the day's log) of each batch's
+// entries and of each status's entries. "from" on the start hash is the first
+// indexed position; entries logged before the indexes existed are scanned.
+function getLogIndexStartKey(date: string): string {
+  return `logs:${date}:index`;
+}
+
+function getLogIndexKey(date: string, index: LogIndex): string {
+  return "batchId" in index ? `logs:${date}:batch:${index.batchId}` : `logs:${date}:status:${index.status}`;
+}
+
+/** A secondary index of the log: entries of one batch, or with one status. */
+export type LogIndex = { batchId: string } | { status: LogEntry["status"] };
+
+// Per-day spend totals (ILS), kept next to the log in Redis: field "total" and
+// one "batch:<id>" field per batch. A day logged before the totals existed is
+// tallied from its log the first time it is touched.
+function getSpendKey(date: string): string {
+  return `spend:${date}`;
+}
+
+const TALLY_SPEND_LUA = `
+local function tally(list, hash)
+  redis.call("HINCRBYFLOAT", hash, "total", 0)
+  for _, raw in ipairs(redis.call("LRANGE", list, 0, -1)) do
+    local entry = cjson.decode(raw)
+    local cost = tonumber(entry.cost) or 0
+    redis.call("HINCRBYFLOAT", hash, "total", cost)
+    if type(entry.batchId) == "string" and entry.batchId ~= "" then
+      redis.call("HINCRBYFLOAT", hash, "batch:" .. entry.batchId, cost)
+    end
+  end
+end
+`;
+
+// KEYS: log list, spend hash, index start hash, then the index lists to add the
+// entry to. ARGV: entry JSON, cost, batch field ("" for none).
+const APPEND_LOG_SCRIPT = `${TALLY_SPEND_LUA}
+if redis.call("EXISTS", KEYS[2]) == 0 then tally(KEYS[1], KEYS[2]) end
+local position = redis.call("RPUSH", KEYS[1], ARGV[1]) - 1
+redis.call("HINCRBYFLOAT", KEYS[2], "total", ARGV[2])
+if ARGV[3] ~= "" then redis.call("HINCRBYFLOAT", KEYS[2], ARGV[3], ARGV[2]) end
+redis.call("HSETNX", KEYS[3], "from", position)
+for i = 4, #KEYS do redis.call("RPUSH", KEYS[i], position) end
+return 1
+`;
+
+// KEYS: log list and spend hash per day. ARGV: batch field ("" for none).
+// Returns each day's total and batch spend, as strings (Lua numbers would be truncated).
+const READ_SPEND_SCRIPT = `${TALLY_SPEND_LUA}
+local result = {}
+for i = 1, #KEYS, 2 do
+  if redis.call("EXISTS", KEYS[i + 1]) == 0 then tally(KEYS[i], KEYS[i + 1]) end
+  result[#result + 1] = redis.call("HGET", KEYS[i + 1], "total") or "0"
+  result[#result + 1] = ARGV[1] ~= "" and (redis.call("HGET", KEYS[i + 1], ARGV[1]) or "0") or "0"
+end
+return result
+`;
+
 function getLogFilePath(date?: string): string {
   const d = date ?? new Date().toISOString().slice(0, 10);
   return path.join(LOGS_DIR, `${d}.jsonl`);
 }
 
+/** Log dates (YYYY-MM-DD, UTC as written by appendLog) from `from` to `to`, inclusive. */
+export function getLogDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${to}T00:00:00Z`).getTime();
+  for (let t = new Date(`${from}T00:00:00Z`).getTime(); t <= end; t += 24 * 60 * 60 * 1000) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+const LOG_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Midnight UTC of a YYYY-MM-DD date, or null for malformed or nonexistent dates (e.g. 2026-02-31). */
+function parseLogDate(date: string): number | null {
+  if (!LOG_DATE_PATTERN.test(date)) return null;
+  const time = new Date(`${date}T00:00:00Z`).getTime();
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === date ? time : null;
+}
+
+/**
+ * Reads `from`/`to` query params as a log date range, defaulting to
+ * `defaultFrom`..today. Returns an error message for malformed or oversized ranges.
+ */
+export function parseLogRange(
+  params: URLSearchParams,
+  defaultFrom: string
+): { from: string; to: string } | { error: string } {
+  const from = params.get("from") ?? defaultFrom;
+  const to = params.get("to") ?? new Date().toISOString().slice(0, 10);
+  const fromTime = parseLogDate(from);
+  const toTime = parseLogDate(to);
+  if (fromTime === null || toTime === null || fromTime > toTime) {
+    return { error: "from/to must be valid YYYY-MM-DD dates with from <= to" };
+  }
+  // Checked arithmetically: a huge range must not be built as a list first
+  if ((toTime - fromTime) / DAY_MS + 1 > LOG_RANGE_MAX_DAYS) {
+    return { error: `Range is limited to ${LOG_RANGE_MAX_DAYS} days` };
+  }
+  return { from, to };
+}
+
 export async function appendLog(entry: LogEntry): Promise<void> {
   const kv = await getRedis();
   if (kv) {
-    const key = getLogKey(entry.timestamp.slice(0, 10));
-    await kv.rpush(key, entry);
+    const date = entry.timestamp.slice(0, 10);
+    const indexKeys = [
+      getLogIndexKey(date, { status: entry.status }),
+      ...(entry.batchId ? [getLogIndexKey(date, { batchId: entry.batchId })] : []),
+    ];
+    const keys = [getLogKey(date), getSpendKey(date), getLogIndexStartKey(date), ...indexKeys];
+    await kv.eval<string[], number>(APPEND_LOG_SCRIPT, keys, [
+      JSON.stringify(entry),
+      String(entry.cost ?? 0),
+      entry.batchId ? `batch:${entry.batchId}` : "",
+    ]);
+    if (entry.requestId) {
+      await kv.hset(LOG_REQUEST_INDEX_KEY, { [entry.requestId]: date });
+    }
     return;
   }
   await ensureDataDirs();
@@ -128,15 +331,155 @@ export async function appendLog(entry: LogEntry): Promise<void> {
   await fs.appendFile(filePath, JSON.stringify(entry) + "\n", "utf-8");
 }
 
+/**
+ * Logged spend (ILS) per date, and the part of it spent on `batchId`. Redis
+ * keeps running totals; locally the day's log is streamed.
+ */
+export async function sumLogCosts(
+  dates: string[],
+  batchId?: string
+): Promise<Array<{ total: number; batch: number }>> {
+  const kv = await getRedis();
+  if (kv) {
+    if (dates.length === 0) return [];
+    const keys = dates.flatMap((date) => [getLogKey(date), getSpendKey(date)]);
+    const values = await kv.eval<string[], Array<string | number>>(READ_SPEND_SCRIPT, keys, [
+      batchId ? `batch:${batchId}` : "",
+    ]);
+    return dates.map((_, i) => ({ total: Number(values[2 * i]) || 0, batch: Number(values[2 * i + 1]) || 0 }));
+  }
+
+  return Promise.all(
+    dates.map(async (date) => {
+      const sums = { total: 0, batch: 0 };
+      for await (const { entry } of iterateLogs(date)) {
+        const cost = entry.cost ?? 0;
+        sums.total += cost;
+        if (batchId && entry.batchId === batchId) sums.batch += cost;
+      }
+      return sums;
+    })
+  );
+}
+
+/** Dates from `from` to `to` (inclusive) that have at least one log entry. */
+export async function listLogDates(from: string, to: string): Promise<string[]> {
+  const dates = getLogDates(from, to);
+  const kv = await getRedis();
+  if (kv) {
+    const pipeline = kv.pipeline();
+    for (const date of dates) pipeline.llen(getLogKey(date));
+    const lengths = await pipeline.exec<number[]>();
+    return dates.filter((_, i) => lengths[i] > 0);
+  }
+  await ensureDataDirs();
+  const files = new Set(await fs.readdir(LOGS_DIR));
+  return dates.filter((date) => files.has(`${date}.jsonl`));
+}
+
+/**
+ * Log date of a provider request, from the requestId index. Null when the
+ * request is unknown, and always locally, where logs are cheap to scan.
+ */
+export async function findLogDate(requestId: string): Promise<string | null> {
+  const kv = await getRedis();
+  if (!kv) return null;
+  return kv.hget<string>(LOG_REQUEST_INDEX_KEY, requestId);
+}
+
+/**
+ * Entries of one day starting at `offset` (0-based position in the day's log),
+ * read in chunks so a whole day is never held in memory.
+ */
+export async function* iterateLogs(date: string, offset = 0): AsyncGenerator<{ entry: LogEntry; offset: number }> {
+  const kv = await getRedis();
+  if (kv) {
+    for (let start = offset; ; start += LOG_READ_CHUNK) {
+      const chunk = await kv.lrange<LogEntry>(getLogKey(date), start, start + LOG_READ_CHUNK - 1);
+      for (let i = 0; i < chunk.length; i++) {
+        yield { entry: chunk[i], offset: start + i };
+      }
+      if (chunk.length < LOG_READ_CHUNK) return;
+    }
+  }
+
+  const filePath = getLogFilePath(date);
+  try {
+    await fs.access(filePath);
+  } catch {
+    return;
+  }
+  const stream = createReadStream(filePath, "utf-8");
+  let position = 0;
+  try {
+    for await (const line of readline.createInterface({ input: stream, crlfDelay: Infinity })) {
+      if (line.trim().length === 0) continue;
+      if (position >= offset) {
+        yield { entry: JSON.parse(line) as LogEntry, offset: position };
+      }
+      position++;
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Entries of one day in a secondary index (one batch's, or one status's),
+ * starting at `offset`, like iterateLogs. Redis reads just the indexed
+ * positions, scanning only entries logged before the indexes existed.
+ * Locally the day is scanned, as logs are cheap to read there.
+ */
+export async function* iterateIndexedLogs(
+  date: string,
+  index: LogIndex,
+  offset = 0
+): AsyncGenerator<{ entry: LogEntry; offset: number }> {
+  const matches = (entry: LogEntry) =>
+    "batchId" in index ? entry.batchId === index.batchId : entry.status === index.status;
+  const kv = await getRedis();
+  const indexedFrom = kv ? await kv.hget<number>(getLogIndexStartKey(date), "from") : null;
+  if (!kv || indexedFrom === null) {
+    for await (const item of iterateLogs(date, offset)) {
+      if (matches(item.entry)) yield item;
+    }
+    return;
+  }
+
+  if (offset < indexedFrom) {
+    for await (const item of iterateLogs(date, offset)) {
+      if (item.offset >= indexedFrom) break;
+      if (matches(item.entry)) yield item;
+    }
+  }
+
+  const indexKey = getLogIndexKey(date, index);
+  for (let start = 0; ; start += LOG_READ_CHUNK) {
+    const chunk = await kv.lrange<number>(indexKey, start, start + LOG_READ_CHUNK - 1);
+    const positions = chunk.map(Number).filter((position) => position >= offset);
+    if (positions.length > 0) {
+      const pipeline = kv.pipeline();
+      for (const position of positions) pipeline.lindex(getLogKey(date), position);
+      const entries = await pipeline.exec<(LogEntry | null)[]>();
+      for (let i = 0; i < positions.length; i++) {
+        if (entries[i]) yield { entry: entries[i]!, offset: positions[i] };
+      }
+    }
+    if (chunk.length < LOG_READ_CHUNK) return;
+  }
+}
+
 export async function readLogs(date?: string, batchId?: string): Promise<LogEntry[]> {
   const kv = await getRedis();
   if (kv) {
-    const key = getLogKey(date);
-    const entries = await kv.lrange<LogEntry>(key, 0, -1);
     if (batchId) {
-      return entries.filter((e) => e.batchId === batchId);
+      const entries: LogEntry[] = [];
+      for await (const { entry } of iterateIndexedLogs(date ?? new Date().toISOString().slice(0, 10), { batchId })) {
+        entries.push(entry);
+      }
+      return entries;
     }
-    return entries;
+    return kv.lrange<LogEntry>(getLogKey(date), 0, -1);
   }
   await ensureDataDirs();
   const filePath = getLogFilePath(date);
@@ -155,6 +498,340 @@ export async function readLogs(date?: string, batchId?: string): Promise<LogEntr
   }
 }
 
+// --- Batch jobs ---
+
+function getJobFilePath(batchId: string): string {
+  return path.join(JOBS_DIR, `${batchId}.json`);
+}
+
+function getJobEventsFilePath(batchId: string): string {
+  return path.join(JOBS_DIR, `${batchId}.events.jsonl`);
+}
+
+
+export async function loadJob(batchId: string): Promise<BatchJob | null> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.get<BatchJob>(`job:${batchId}`);
+  }
+  await ensureDataDirs();
+  try {
+    const content = await fs.readFile(getJobFilePath(batchId), "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveJob(job: BatchJob): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.set(`job:${job.batchId}`, job, { ex: JOB_TTL_SECONDS });
+    return;
+  }
+  await ensureDataDirs();
+  await fs.writeFile(getJobFilePath(job.batchId), JSON.stringify(job, null, 2), "utf-8");
+}
+
+/**
+ * Read-modify-write a job, atomically across instances (see updateRecord).
+ * The updater receives the current job (or null) and returns the new job, or
+ * null to leave the stored job untouched. It may run more than once.
+ */
+export async function updateJob(
+  batchId: string,
+  updater: (job: BatchJob | null) => BatchJob | null
+): Promise<BatchJob | null> {
+  return updateRecord(`job:${batchId}`, () => loadJob(batchId), saveJob, updater);
+}
+
+/** Append an event to the job's event log. Returns the new log length. */
+export async function appendJobEvent(batchId: string, event: GenerationEvent): Promise<number> {
+  const kv = await getRedis();
+  if (kv) {
+    const key = `job:${batchId}:events`;
+    const length = await kv.rpush(key, event);
+    await kv.expire(key, JOB_TTL_SECONDS);
+    return length;
+  }
+  await ensureDataDirs();
+  await fs.appendFile(getJobEventsFilePath(batchId), JSON.stringify(event) + "\n", "utf-8");
+  return (await readJobEvents(batchId)).length;
+}
+
+/** Read job events starting at position `from` (inclusive). */
+export async function readJobEvents(batchId: string, from = 0): Promise<GenerationEvent[]> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.lrange<GenerationEvent>(`job:${batchId}:events`, from, -1);
+  }
+  await ensureDataDirs();
+  try {
+    const content = await fs.readFile(getJobEventsFilePath(batchId), "utf-8");
+    return content
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .slice(from)
+      .map((line) => JSON.parse(line) as GenerationEvent);
+  } catch {
+    return [];
+  }
+}
+
+export async function countJobEvents(batchId: string): Promise<number> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.llen(`job:${batchId}:events`);
+  }
+  return (await readJobEvents(batchId)).length;
+}
+
+// --- Budget ---
+
+const BUDGET_FILE = path.join(DATA_DIR, "budget.json");
+
+export async function loadBudgetLimits(): Promise<BudgetLimits | null> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.get<BudgetLimits>("budget:limits");
+  }
+  try {
+    const content = await fs.readFile(BUDGET_FILE, "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveBudgetLimits(limits: BudgetLimits): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.set("budget:limits", limits);
+    return;
+  }
+  await ensureDataDirs();
+  await fs.writeFile(BUDGET_FILE, JSON.stringify(limits, null, 2), "utf-8");
+}
+
+// --- Spend reservations ---
+
+const SPEND_RESERVATIONS_KEY = "budget:reservations";
+const SPEND_RESERVATIONS_FILE = path.join(DATA_DIR, "spend-reservations.json");
+
+async function readReservationsFile(): Promise<Record<string, SpendReservation>> {
+  try {
+    return JSON.parse(await fs.readFile(SPEND_RESERVATIONS_FILE, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+/** Rewrite the local reservations file, dropping lapsed holds. */
+async function updateReservationsFile(
+  update: (reservations: Record<string, SpendReservation>) => void
+): Promise<void> {
+  await withLock(SPEND_RESERVATIONS_KEY, async () => {
+    const reservations = await readReservationsFile();
+    update(reservations);
+    const now = Date.now();
+    const live = Object.fromEntries(Object.entries(reservations).filter(([, r]) => r.expiresAt > now));
+    await ensureDataDirs();
+    await fs.writeFile(SPEND_RESERVATIONS_FILE, JSON.stringify(live, null, 2), "utf-8");
+  });
+}
+
+/** Holds that haven't lapsed. Lapsed ones are removed along the way in Redis. */
+export async function listSpendReservations(): Promise<SpendReservation[]> {
+  const kv = await getRedis();
+  const now = Date.now();
+  const all = kv
+    ? ((await kv.hgetall<Record<string, SpendReservation>>(SPEND_RESERVATIONS_KEY)) ?? {})
+    : await readReservationsFile();
+  const lapsed = Object.keys(all).filter((id) => all[id].expiresAt <= now);
+  if (kv && lapsed.length > 0) await kv.hdel(SPEND_RESERVATIONS_KEY, ...lapsed);
+  return Object.entries(all)
+    .filter(([id]) => !lapsed.includes(id))
+    .map(([, reservation]) => reservation);
+}
+
+export async function saveSpendReservation(id: string, reservation: SpendReservation): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.hset(SPEND_RESERVATIONS_KEY, { [id]: reservation });
+    return;
+  }
+  await updateReservationsFile((reservations) => {
+    reservations[id] = reservation;
+  });
+}
+
+/** Change a hold's amount (e.g. once part of its cost is logged). Unknown or lapsed holds are left alone. */
+export async function updateSpendReservation(id: string, amount: number): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    const reservation = await kv.hget<SpendReservation>(SPEND_RESERVATIONS_KEY, id);
+    if (reservation) await kv.hset(SPEND_RESERVATIONS_KEY, { [id]: { ...reservation, amount } });
+    return;
+  }
+  await updateReservationsFile((reservations) => {
+    if (reservations[id]) reservations[id] = { ...reservations[id], amount };
+  });
+}
+
+export async function deleteSpendReservation(id: string): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.hdel(SPEND_RESERVATIONS_KEY, id);
+    return;
+  }
+  await updateReservationsFile((reservations) => {
+    delete reservations[id];
+  });
+}
+
+// --- Exchange rate ---
+
+const EXCHANGE_RATE_FILE = path.join(DATA_DIR, "exchange-rate.json");
+
+export async function loadExchangeRate(): Promise<ExchangeRate | null> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.get<ExchangeRate>("exchange-rate");
+  }
+  try {
+    const content = await fs.readFile(EXCHANGE_RATE_FILE, "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveExchangeRate(rate: ExchangeRate): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.set("exchange-rate", rate);
+    return;
+  }
+  await ensureDataDirs();
+  await fs.writeFile(EXCHANGE_RATE_FILE, JSON.stringify(rate, null, 2), "utf-8");
+}
+
+// --- Billing (actual provider costs, keyed by requestId per log date) ---
+
+function getBillingFilePath(date: string): string {
+  return path.join(BILLING_DIR, `${date}.json`);
+}
+
+export async function loadBilledCosts(date: string): Promise<Record<string, BilledCost>> {
+  const kv = await getRedis();
+  if (kv) {
+    return (await kv.hgetall<Record<string, BilledCost>>(`billing:${date}`)) ?? {};
+  }
+  try {
+    const content = await fs.readFile(getBillingFilePath(date), "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return {};
+  }
+}
+
+/** Merge billing records into the given date's set (existing records for the same requestId are replaced). */
+export async function saveBilledCosts(date: string, costs: BilledCost[]): Promise<void> {
+  if (costs.length === 0) return;
+  const kv = await getRedis();
+  if (kv) {
+    await kv.hset(`billing:${date}`, Object.fromEntries(costs.map((c) => [c.requestId, c])));
+    return;
+  }
+  await ensureDataDirs();
+  const existing = await loadBilledCosts(date);
+  for (const cost of costs) existing[cost.requestId] = cost;
+  await fs.writeFile(getBillingFilePath(date), JSON.stringify(existing, null, 2), "utf-8");
+}
+
+// --- Video tasks ---
+
+function getVideoTaskFilePath(taskId: string): string {
+  return path.join(VIDEO_TASKS_DIR, `${taskId}.json`);
+}
+
+export async function loadVideoTask(taskId: string): Promise<VideoTask | null> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.get<VideoTask>(`video-task:${taskId}`);
+  }
+  try {
+    const content = await fs.readFile(getVideoTaskFilePath(taskId), "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveVideoTask(task: VideoTask): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.set(`video-task:${task.taskId}`, task, { ex: JOB_TTL_SECONDS });
+    return;
+  }
+  await ensureDataDirs();
+  await fs.writeFile(getVideoTaskFilePath(task.taskId), JSON.stringify(task, null, 2), "utf-8");
+}
+
+/** Read-modify-write a task record, like updateJob. The updater may return null to leave it untouched. */
+export async function updateVideoTask(
+  taskId: string,
+  updater: (task: VideoTask | null) => VideoTask | null
+): Promise<VideoTask | null> {
+  return updateRecord(`video-task:${taskId}`, () => loadVideoTask(taskId), saveVideoTask, updater);
+}
+
+function getVideoBatchFilePath(batchId: string): string {
+  return path.join(VIDEO_TASKS_DIR, `batch-${batchId}.json`);
+}
+
+export async function loadVideoBatch(batchId: string): Promise<VideoBatch | null> {
+  const kv = await getRedis();
+  if (kv) {
+    return await kv.get<VideoBatch>(`video-batch:${batchId}`);
+  }
+  try {
+    const content = await fs.readFile(getVideoBatchFilePath(batchId), "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+async function saveVideoBatch(batch: VideoBatch): Promise<void> {
+  const kv = await getRedis();
+  if (kv) {
+    await kv.set(`video-batch:${batch.batchId}`, batch, { ex: JOB_TTL_SECONDS });
+    return;
+  }
+  await ensureDataDirs();
+  await fs.writeFile(getVideoBatchFilePath(batch.batchId), JSON.stringify(batch, null, 2), "utf-8");
+}
+
+/** Read-modify-write a video batch, like updateJob. The updater may return null to leave it untouched. */
+export async function updateVideoBatch(
+  batchId: string,
+  updater: (batch: VideoBatch | null) => VideoBatch | null
+): Promise<VideoBatch | null> {
+  return updateRecord(`video-batch:${batchId}`, () => loadVideoBatch(batchId), saveVideoBatch, updater);
+}
+
+/** Task records registered to a batch, in creation order. */
+export async function listVideoTasks(batchId: string): Promise<VideoTask[]> {
+  const batch = await loadVideoBatch(batchId);
+  if (!batch || batch.taskIds.length === 0) return [];
+  const kv = await getRedis();
+  const tasks = kv
+    ? await kv.mget<(VideoTask | null)[]>(...batch.taskIds.map((id) => `video-task:${id}`))
+    : await Promise.all(batch.taskIds.map((id) => loadVideoTask(id)));
+  return tasks.filter((task): task is VideoTask => task !== null);
+}
+
 // --- Downloads ---
 
 export function getDownloadDir(batchId: string, batchName?: string): string {
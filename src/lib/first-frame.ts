@@ -0,0 +1,88 @@
+import { appendLog } from "@/lib/file-utils";
+import { estimateCostUsd } from "@/lib/constants";
+import { getProvider, toProviderError } from "@/lib/providers";
+import { persistFile } from "@/lib/supabase-storage";
+import type { GenerationSettings } from "@/types/generation";
+import type { LogEntry } from "@/types/log";
+
+export interface FirstFrame {
+  url: string;
+  width: number;
+  height: number;
+  costUsd: number;
+}
+
+/**
+ * Generate the opening frame of a text-to-video clip with the batch's image
+ * settings (one image, prompt as given) and store it. The image is logged
+ * like a batch image, so its cost is counted whether or not the clip is made.
+ */
+export async function generateFirstFrame(
+  prompt: string,
+  settings: GenerationSettings,
+  target: { batchId?: string; index: number },
+  usdToIls: number
+): Promise<FirstFrame> {
+  const providerName = settings.provider ?? "fal";
+  const parameters: LogEntry["parameters"] = {
+    provider: providerName,
+    model: settings.model,
+    resolution: settings.resolution,
+    aspectRatio: settings.aspectRatio,
+    outputFormat: settings.outputFormat,
+    safetyTolerance: settings.safetyTolerance,
+    numImages: 1,
+    seed: settings.seed,
+    enableWebSearch: settings.enableWebSearch,
+    hasReferenceImages: settings.referenceImageUrls.length > 0,
+  };
+  const entry = { batchId: target.batchId ?? "", imageIndex: target.index, prompt, parameters };
+  const startTime = Date.now();
+
+  let result;
+  try {
+    result = await getProvider(providerName).generateImage({
+      model: settings.model,
+      prompt,
+      resolution: settings.resolution,
+      aspectRatio: settings.aspectRatio,
+      outputFormat: settings.outputFormat,
+      safetyTolerance: settings.safetyTolerance,
+      numImages: 1,
+      seed: settings.seed,
+      enableWebSearch: settings.enableWebSearch,
+      referenceImageUrls: settings.referenceImageUrls,
+    });
+  } catch (error) {
+    const providerError = toProviderError(error, providerName);
+    await appendLog({
+      ...entry,
+      timestamp: new Date().toISOString(),
+      status: "failed",
+      durationMs: Date.now() - startTime,
+      error: providerError.message,
+      errorCategory: providerError.category,
+      cost: 0,
+    }).catch(() => undefined);
+    throw providerError;
+  }
+
+  const image = result.images[0];
+  const url = (await persistFile(image.url, "images", image.contentType)) ?? image.url;
+  const costUsd = estimateCostUsd(1, 1, settings.resolution, settings.enableWebSearch, providerName, settings.model);
+  await appendLog({
+    ...entry,
+    timestamp: new Date().toISOString(),
+    status: "completed",
+    durationMs: Date.now() - startTime,
+    resultUrl: url,
+    width: image.width,
+    height: image.height,
+    requestId: result.requestId,
+    cost: costUsd * usdToIls,
+    costUsd,
+    exchangeRate: usdToIls,
+  }).catch((error) => console.warn("[first-frame] Failed to log first frame:", error));
+
+  return { url, width: image.width, height: image.height, costUsd };
+}
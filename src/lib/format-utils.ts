@@ -1,3 +1,7 @@
+import { BUDGET_SCOPE_LABELS } from "@/lib/constants";
+import type { BudgetCheck } from "@/types/budget";
+import type { PostProcessOperation } from "@/types/postprocess";
+
 export function padIndex(index: number, total: number): string {
   const digits = Math.max(3, String(total).length);
   return String(index + 1).padStart(digits, "0");
@@ -47,3 +51,35 @@ export function generateBatchId(): string {
   const pad = (n: number) => String(n).padStart(2, "0");
   return `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
 }
+
+export function describeBudgetExceeded(check: BudgetCheck): string {
+  if (!check.exceeded) return "";
+  const { scope, limit, spent } = check.exceeded;
+  return `חריגה מהתקציב ${BUDGET_SCOPE_LABELS[scope]}: נוצלו ${formatCost(spent)} מתוך ${formatCost(limit)}, נדרשים עוד ${formatCost(check.requested)}`;
+}
+
+/** File extension for an image content type, e.g. "image/jpeg" -> "jpeg". */
+export function extensionForContentType(contentType: string | undefined, fallback = "png"): string {
+  const subtype = contentType?.split("/")[1]?.split("+")[0];
+  return subtype || fallback;
+}
+
+/** Short summary of a post-processing chain, used as the resulting version's edit prompt. */
+export function describePostProcess(operations: PostProcessOperation[]): string {
+  return operations
+    .map((op) => {
+      switch (op.type) {
+        case "upscale":
+          return `upscale ×${op.scale}`;
+        case "remove_background":
+          return "remove background";
+        case "crop":
+          return `crop ${op.aspectRatio}`;
+        case "convert":
+          return op.format;
+        case "compress":
+          return `quality ${op.quality}`;
+      }
+    })
+    .join(" → ");
+}
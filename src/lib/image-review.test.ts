@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { currentReview, matchesImageSearch, parseQaResponse } from "./image-review";
+import type { BatchImage } from "@/types/batch";
+
+const image: BatchImage = {
+  id: "a",
+  index: 0,
+  rawPrompt: "A red fox in deep snow, morning light",
+  fullPrompt: "A red fox in deep snow, morning light",
+  originalPrompt: "fox in snow",
+  status: "completed",
+  result: { url: "https://example.com/v2.png", contentType: "image/png", width: 1024, height: 1024 },
+  review: { url: "https://example.com/v2.png", caption: "A fox curled up on a snowy field", reviewedAt: "2026-01-01T00:00:00.000Z" },
+};
+
+describe("parseQaResponse", () => {
+  it("reads score and issues, flagging low scores", () => {
+    expect(parseQaResponse('{"score": 4, "issues": ["two foxes instead of one", " "]}')).toEqual({
+      score: 4,
+      issues: ["two foxes instead of one"],
+      flagged: true,
+    });
+    expect(parseQaResponse('```json\n{"score": 9, "issues": []}\n```')).toEqual({ score: 9, issues: [], flagged: false });
+  });
+
+  it("clamps the score to 0-10", () => {
+    expect(parseQaResponse('{"score": 14}').score).toBe(10);
+  });
+
+  it("rejects answers without a score", () => {
+    expect(() => parseQaResponse("The image matches well.")).toThrow("Unexpected QA response");
+    expect(() => parseQaResponse('{"issues": []}')).toThrow("no score");
+  });
+});
+
+describe("currentReview", () => {
+  it("ignores a review of another version", () => {
+    expect(currentReview(image)).toBe(image.review);
+    expect(currentReview({ ...image, result: { ...image.result!, url: "https://example.com/v3.png" } })).toBeUndefined();
+  });
+});
+
+describe("matchesImageSearch", () => {
+  it("matches every word against prompts and caption", () => {
+    expect(matchesImageSearch(image, "fox curled")).toBe(true);
+    expect(matchesImageSearch(image, "FOX Morning")).toBe(true);
+    expect(matchesImageSearch(image, "fox cat")).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { QA_FLAG_THRESHOLD } from "@/lib/constants";
+import type { BatchImage, ImageReview } from "@/types/batch";
+
+/**
+ * Score and issues from Gemini's QA answer. Tolerates a code fence around
+ * the JSON and clamps the score to 0-10.
+ */
+export function parseQaResponse(text: string): { score: number; issues: string[]; flagged: boolean } {
+  const json = text.replace(/^```(?:json)?\s*|\s*```$/g, "");
+  let parsed: { score?: unknown; issues?: unknown };
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`Unexpected QA response: ${text.slice(0, 200)}`);
+  }
+
+  const score = Number(parsed.score);
+  if (!Number.isFinite(score)) {
+    throw new Error(`QA response has no score: ${text.slice(0, 200)}`);
+  }
+  const clamped = Math.min(10, Math.max(0, Math.round(score * 10) / 10));
+  const issues = Array.isArray(parsed.issues)
+    ? parsed.issues.filter((issue): issue is string => typeof issue === "string" && issue.trim() !== "").map((issue) => issue.trim())
+    : [];
+  return { score: clamped, issues, flagged: clamped < QA_FLAG_THRESHOLD };
+}
+
+/** The image's review, if it is about the result on display. */
+export function currentReview(image: BatchImage): ImageReview | undefined {
+  return image.review && image.review.url === image.result?.url ? image.review : undefined;
+}
+
+/** Gallery search: every word must appear in the prompt, the prompt it was expanded from or the caption. */
+export function matchesImageSearch(image: BatchImage, query: string): boolean {
+  const haystack = [image.rawPrompt, image.originalPrompt, currentReview(image)?.caption].filter(Boolean).join(" ").toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
@@ -0,0 +1,104 @@
+import { loadJob, readJobEvents } from "@/lib/file-utils";
+import { kickBatchJob, needsWorker } from "@/lib/batch-worker";
+import {
+  JOB_EVENT_POLL_INTERVAL_MS,
+  JOB_LEASE_MS,
+  JOB_SUBSCRIPTION_MAX_MS,
+  SSE_HEARTBEAT_INTERVAL_MS,
+} from "@/lib/constants";
+import type { GenerationEvent } from "@/types/generation";
+
+interface JobStreamOptions {
+  signal: AbortSignal;
+  origin: string;
+  /** Set when the caller just kicked the worker, so the stream doesn't kick it again right away */
+  workerKicked?: boolean;
+  /** Id of the last event the client received (from the Last-Event-ID header) */
+  lastEventId?: number | null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Parse a Last-Event-ID header / query value. Returns null if absent or invalid. */
+export function parseLastEventId(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const id = Number(value);
+  return Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+/**
+ * SSE subscription to a batch job's event log. Each event carries its log
+ * position as `id:`, so a reconnecting client sending Last-Event-ID gets
+ * exactly the events it missed. Without one, the current run is replayed from
+ * the start. Heartbeat comments keep idle connections open through proxies.
+ */
+export function createJobEventStream(batchId: string, options: JobStreamOptions): ReadableStream {
+  const { signal, origin } = options;
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream closed
+        }
+      };
+      const sendEvent = (event: GenerationEvent, id?: number) => {
+        write(`${id !== undefined ? `id: ${id}\n` : ""}data: ${JSON.stringify(event)}\n\n`);
+      };
+
+      const startedAt = Date.now();
+      let lastKickAt = options.workerKicked ? Date.now() : 0;
+      let lastWriteAt = Date.now();
+      let cursor: number | null = null;
+
+      while (!signal.aborted && Date.now() - startedAt < JOB_SUBSCRIPTION_MAX_MS) {
+        // Load the job before reading events so a terminal state never hides its last events
+        const job = await loadJob(batchId);
+        if (!job) {
+          sendEvent({ type: "batch_error", error: `Job ${batchId} not found` });
+          break;
+        }
+        if (cursor === null) {
+          cursor =
+            options.lastEventId != null
+              ? Math.max(options.lastEventId + 1, job.runEventOffset)
+              : job.runEventOffset;
+        }
+
+        const events = await readJobEvents(batchId, cursor);
+        for (const event of events) {
+          sendEvent(event, cursor);
+          cursor++;
+        }
+        if (events.length > 0) {
+          lastWriteAt = Date.now();
+        } else if (Date.now() - lastWriteAt >= SSE_HEARTBEAT_INTERVAL_MS) {
+          write(": heartbeat\n\n");
+          lastWriteAt = Date.now();
+        }
+
+        const isTerminal = job.status === "completed" || job.status === "cancelled";
+        if (isTerminal && !job.lease) break;
+
+        // Self-heal: restart processing if the worker died
+        if (needsWorker(job) && Date.now() - lastKickAt > JOB_LEASE_MS) {
+          lastKickAt = Date.now();
+          await kickBatchJob(batchId, origin);
+        }
+
+        await sleep(JOB_EVENT_POLL_INTERVAL_MS);
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Already closed
+      }
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { LogEntry, LogQuery } from "@/types/log";
+
+// Logs are stored under <cwd>/data
+let dataRoot: string;
+let logQuery: typeof import("./log-query");
+
+function makeEntry(timestamp: string, prompt: string, overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    timestamp,
+    batchId: "batch-1",
+    imageIndex: 0,
+    prompt,
+    parameters: {
+      provider: "fal",
+      resolution: "1K",
+      aspectRatio: "1:1",
+      outputFormat: "png",
+      safetyTolerance: 4,
+      numImages: 1,
+      enableWebSearch: false,
+      hasReferenceImages: false,
+    },
+    status: "completed",
+    durationMs: 1000,
+    requestId: `req-${prompt.replace(/\W+/g, "-")}`,
+    cost: 0.54,
+    ...overrides,
+  };
+}
+
+function parse(params: Record<string, string>): LogQuery {
+  const query = logQuery.parseLogQuery(new URLSearchParams(params));
+  if ("error" in query) throw new Error(query.error);
+  return query;
+}
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-logs-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.stubEnv("VERCEL", "");
+
+  const { appendLog } = await import("./file-utils");
+  logQuery = await import("./log-query");
+
+  await appendLog(makeEntry("2026-04-01T09:00:00.000Z", "a red fox"));
+  await appendLog(makeEntry("2026-04-01T09:01:00.000Z", "a blue whale", { status: "failed", errorCategory: "timeout" }));
+  await appendLog(makeEntry("2026-04-03T12:00:00.000Z", "A Red Panda", { parameters: { ...makeEntry("", "").parameters, provider: "kie" } }));
+  await appendLog(makeEntry("2026-04-03T12:05:00.000Z", "a green frog"));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("parseLogQuery", () => {
+  it("treats date as a single-day range", () => {
+    expect(parse({ date: "2026-04-01" })).toMatchObject({ from: "2026-04-01", to: "2026-04-01" });
+  });
+
+  it.each([
+    [{ from: "2026-04-03", to: "2026-04-01" }, "from <= to"],
+    [{ status: "done" }, "status must be"],
+    [{ cursor: "not-a-cursor" }, "Invalid cursor"],
+  ])("rejects %o", (params, message) => {
+    expect(logQuery.parseLogQuery(new URLSearchParams(params))).toEqual({ error: expect.stringContaining(message) });
+  });
+});
+
+describe("queryLogsPage", () => {
+  const range = { from: "2026-04-01", to: "2026-04-03" };
+
+  it("pages across days with a cursor", async () => {
+    const first = await logQuery.queryLogsPage(parse(range), 3);
+    expect(first.entries.map((e) => e.prompt)).toEqual(["a red fox", "a blue whale", "A Red Panda"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await logQuery.queryLogsPage(parse({ ...range, cursor: first.nextCursor! }), 3);
+    expect(second.entries.map((e) => e.prompt)).toEqual(["a green frog"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("filters by prompt substring, ignoring case", async () => {
+    const page = await logQuery.queryLogsPage(parse({ ...range, q: "red" }), 10);
+    expect(page.entries.map((e) => e.prompt)).toEqual(["a red fox", "A Red Panda"]);
+  });
+
+  it("filters by provider, status and requestId", async () => {
+    expect((await logQuery.queryLogsPage(parse({ ...range, provider: "kie" }), 10)).entries).toHaveLength(1);
+    expect((await logQuery.queryLogsPage(parse({ ...range, status: "failed" }), 10)).entries[0].prompt).toBe("a blue whale");
+    const byRequest = await logQuery.queryLogsPage(parse({ ...range, requestId: "req-a-green-frog" }), 10);
+    expect(byRequest.entries.map((e) => e.prompt)).toEqual(["a green frog"]);
+  });
+
+  it("returns nothing outside the range", async () => {
+    const page = await logQuery.queryLogsPage(parse({ from: "2026-03-01", to: "2026-03-31" }), 10);
+    expect(page).toEqual({ entries: [], nextCursor: null });
+  });
+});
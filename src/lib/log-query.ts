@@ -0,0 +1,112 @@
+import { findLogDate, iterateIndexedLogs, iterateLogs, listLogDates, parseLogRange } from "@/lib/file-utils";
+import type { LogIndex } from "@/lib/file-utils";
+import type { LogEntry, LogPage, LogQuery } from "@/types/log";
+
+const CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}):(\d+)$/;
+
+function encodeCursor(date: string, offset: number): string {
+  return Buffer.from(`${date}:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { date: string; offset: number } | null {
+  const match = CURSOR_PATTERN.exec(Buffer.from(cursor, "base64url").toString());
+  return match ? { date: match[1], offset: Number(match[2]) } : null;
+}
+
+/**
+ * Reads a LogQuery from /api/logs/search params. `date` is accepted as a
+ * single-day range.
+ */
+export function parseLogQuery(params: URLSearchParams): LogQuery | { error: string } {
+  const today = new Date().toISOString().slice(0, 10);
+  const date = params.get("date");
+  const rangeParams = new URLSearchParams(params);
+  if (date && !params.has("from") && !params.has("to")) {
+    rangeParams.set("from", date);
+    rangeParams.set("to", date);
+  }
+  const range = parseLogRange(rangeParams, today);
+  if ("error" in range) return range;
+
+  const status = params.get("status");
+  if (status && status !== "submitted" && status !== "completed" && status !== "failed") {
+    return { error: "status must be submitted, completed or failed" };
+  }
+  const kind = params.get("kind");
+  if (kind && kind !== "image" && kind !== "video") {
+    return { error: "kind must be image or video" };
+  }
+  const cursor = params.get("cursor");
+  if (cursor && !decodeCursor(cursor)) {
+    return { error: "Invalid cursor" };
+  }
+
+  return {
+    ...range,
+    provider: params.get("provider") || undefined,
+    status: (status || undefined) as LogQuery["status"],
+    kind: (kind || undefined) as LogQuery["kind"],
+    batchId: params.get("batchId") || undefined,
+    requestId: params.get("requestId") || undefined,
+    q: params.get("q") || undefined,
+    cursor: cursor || undefined,
+  };
+}
+
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.provider && (entry.parameters.provider ?? "fal") !== query.provider) return false;
+  if (query.status && entry.status !== query.status) return false;
+  if (query.kind && (entry.kind ?? "image") !== query.kind) return false;
+  if (query.batchId && entry.batchId !== query.batchId) return false;
+  if (query.requestId && entry.requestId !== query.requestId) return false;
+  if (query.q && !entry.prompt.toLowerCase().includes(query.q.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * Matching entries in log order, each with the cursor that resumes after it.
+ * Days without logs are skipped, a requestId lookup goes straight to the
+ * indexed day when the store has one, and a batchId or status filter reads
+ * that index's entries only (batchId first, as it narrows more).
+ */
+export async function* queryLogs(query: LogQuery): AsyncGenerator<{ entry: LogEntry; cursor: string }> {
+  const start = query.cursor ? decodeCursor(query.cursor) : null;
+  let from = start && start.date > query.from ? start.date : query.from;
+  let to = query.to;
+
+  if (query.requestId) {
+    const indexed = await findLogDate(query.requestId);
+    if (indexed) {
+      if (indexed < from || indexed > to) return;
+      from = to = indexed;
+    }
+  }
+
+  const index: LogIndex | null = query.batchId
+    ? { batchId: query.batchId }
+    : query.status
+      ? { status: query.status }
+      : null;
+
+  for (const date of await listLogDates(from, to)) {
+    const offset = start && date === start.date ? start.offset : 0;
+    const entries = index ? iterateIndexedLogs(date, index, offset) : iterateLogs(date, offset);
+    for await (const { entry, offset: position } of entries) {
+      if (matchesLogQuery(entry, query)) {
+        yield { entry, cursor: encodeCursor(date, position + 1) };
+      }
+    }
+  }
+}
+
+/** Up to `limit` matching entries and the cursor for the next page. */
+export async function queryLogsPage(query: LogQuery, limit: number): Promise<LogPage> {
+  const entries: LogEntry[] = [];
+  for await (const { entry, cursor } of queryLogs(query)) {
+    entries.push(entry);
+    if (entries.length >= limit) {
+      return { entries, nextCursor: cursor };
+    }
+  }
+  return { entries, nextCursor: null };
+}
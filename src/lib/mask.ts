@@ -0,0 +1,73 @@
+/**
+ * Inpainting masks are painted in the edit dialog onto a transparent canvas
+ * at the image's natural size. Providers expect an opaque black/white image
+ * instead: white where the image should be repainted.
+ */
+
+/** Draw a round-capped stroke segment; erasing clears instead of painting. */
+export function drawMaskStroke(
+  canvas: HTMLCanvasElement,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  size: number,
+  erase: boolean
+): void {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.globalCompositeOperation = erase ? "destination-out" : "source-over";
+  ctx.strokeStyle = "#ef4444";
+  ctx.lineWidth = size;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+}
+
+function isBlank(canvas: HTMLCanvasElement): boolean {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+}
+
+/** The painted strokes as a black/white PNG, or null if nothing is painted. */
+export async function exportMask(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  if (canvas.width === 0 || isBlank(canvas)) return null;
+
+  // Strokes become white, then go over an opaque black background
+  const strokes = document.createElement("canvas");
+  strokes.width = canvas.width;
+  strokes.height = canvas.height;
+  const strokesCtx = strokes.getContext("2d")!;
+  strokesCtx.drawImage(canvas, 0, 0);
+  strokesCtx.globalCompositeOperation = "source-in";
+  strokesCtx.fillStyle = "#fff";
+  strokesCtx.fillRect(0, 0, strokes.width, strokes.height);
+
+  const mask = document.createElement("canvas");
+  mask.width = canvas.width;
+  mask.height = canvas.height;
+  const maskCtx = mask.getContext("2d")!;
+  maskCtx.fillStyle = "#000";
+  maskCtx.fillRect(0, 0, mask.width, mask.height);
+  maskCtx.drawImage(strokes, 0, 0);
+
+  return new Promise((resolve) => mask.toBlob(resolve, "image/png"));
+}
+
+/** Upload a mask through /api/upload and return its URL. */
+export async function uploadMask(mask: Blob): Promise<string> {
+  const formData = new FormData();
+  formData.append("file", new File([mask], "mask.png", { type: "image/png" }));
+  const res = await fetch("/api/upload", { method: "POST", body: formData });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || "Mask upload failed");
+  }
+  return (await res.json()).url;
+}
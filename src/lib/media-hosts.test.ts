@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isAllowedMediaUrl } from "./media-hosts";
+
+describe("isAllowedMediaUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts the app's storage and provider CDNs", () => {
+    vi.stubEnv("SUPABASE_URL", "https://project.supabase.co");
+    expect(isAllowedMediaUrl("https://project.supabase.co/storage/v1/object/public/generated-files/videos/a.mp4")).toBe(true);
+    expect(isAllowedMediaUrl("https://v3.fal.media/files/clip.mp4")).toBe(true);
+    expect(isAllowedMediaUrl("https://tempfile.aiquickdraw.com/clip.mp4")).toBe(true);
+  });
+
+  it("refuses other hosts, look-alikes and non-HTTPS URLs", () => {
+    vi.stubEnv("SUPABASE_URL", "https://project.supabase.co");
+    expect(isAllowedMediaUrl("http://169.254.169.254/latest/meta-data/")).toBe(false);
+    expect(isAllowedMediaUrl("https://evilfal.media/clip.mp4")).toBe(false);
+    expect(isAllowedMediaUrl("https://other.supabase.co/clip.mp4")).toBe(false);
+    expect(isAllowedMediaUrl("http://v3.fal.media/clip.mp4")).toBe(false);
+    expect(isAllowedMediaUrl("file:///etc/passwd")).toBe(false);
+    expect(isAllowedMediaUrl("not a url")).toBe(false);
+  });
+
+  it("accepts the mock video's host only with the mock enabled", () => {
+    vi.stubEnv("MOCK_VIDEO_URL", "https://videos.example.com/mock.mp4");
+    expect(isAllowedMediaUrl("https://videos.example.com/mock.mp4")).toBe(false);
+    vi.stubEnv("MOCK_VIDEO", "true");
+    expect(isAllowedMediaUrl("https://videos.example.com/mock.mp4")).toBe(true);
+  });
+});
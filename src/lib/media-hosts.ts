@@ -0,0 +1,33 @@
+import { MOCK_PROVIDER_ENABLED, MOCK_VIDEO_URL, PROVIDER_MEDIA_HOSTS } from "@/lib/constants";
+
+function hostOf(url: string | undefined): string[] {
+  try {
+    return url ? [new URL(url).hostname] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether the server may download media from `url`: HTTPS on the app's
+ * storage, a provider CDN, or (with the mock enabled) the mock video's host.
+ * Routes that fetch URLs sent by the client refuse anything else.
+ */
+export function isAllowedMediaUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:") return false;
+
+  const mockEnabled = MOCK_PROVIDER_ENABLED || process.env.MOCK_VIDEO === "true";
+  const hosts = [
+    ...PROVIDER_MEDIA_HOSTS,
+    ...hostOf(process.env.SUPABASE_URL),
+    ...(mockEnabled ? hostOf(process.env.MOCK_VIDEO_URL || MOCK_VIDEO_URL) : []),
+  ];
+  const host = parsed.hostname.toLowerCase();
+  return hosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import sharp from "sharp";
+import { cropRegion } from "./postprocess";
+import { MAX_LOCAL_UPSCALE_DIMENSION } from "./constants";
+
+async function pngDataUrl(width: number, height: number): Promise<string> {
+  const buffer = await sharp({
+    create: { width, height, channels: 4, background: { r: 200, g: 40, b: 40, alpha: 0.5 } },
+  }).png().toBuffer();
+  return `data:image/png;base64,${buffer.toString("base64")}`;
+}
+
+function decode(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.split(",")[1], "base64");
+}
+
+describe("cropRegion", () => {
+  it("trims the sides of a wider image", () => {
+    expect(cropRegion(1600, 900, "1:1")).toEqual({ left: 350, top: 0, width: 900, height: 900 });
+  });
+
+  it("trims top and bottom for a wider ratio", () => {
+    expect(cropRegion(1000, 1000, "16:9")).toEqual({ left: 0, top: 218, width: 1000, height: 563 });
+  });
+
+  it("keeps the whole image for an unparseable ratio", () => {
+    expect(cropRegion(640, 480, "auto")).toEqual({ left: 0, top: 0, width: 640, height: 480 });
+  });
+});
+
+describe("runPostProcess", () => {
+  let runPostProcess: typeof import("./postprocess").runPostProcess;
+
+  beforeAll(async () => {
+    // No storage configured: results come back inline
+    vi.stubEnv("SUPABASE_URL", "");
+    vi.stubEnv("MOCK_DELAY_MS", "0");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ({ runPostProcess } = await import("./postprocess"));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("applies local steps in order", async () => {
+    const source = await pngDataUrl(400, 200);
+
+    const result = await runPostProcess(source, [
+      { type: "crop", aspectRatio: "1:1" },
+      { type: "upscale", scale: 2 },
+      { type: "convert", format: "jpeg" },
+      { type: "compress", quality: 50 },
+    ], "kie");
+
+    expect(result.image).toMatchObject({ contentType: "image/jpeg", width: 400, height: 400 });
+    expect(result.costUsd).toBe(0);
+    const meta = await sharp(decode(result.image.url)).metadata();
+    expect(meta).toMatchObject({ format: "jpeg", width: 400, height: 400, hasAlpha: false });
+  });
+
+  it("counts steps run on provider models", async () => {
+    const source = await pngDataUrl(64, 64);
+
+    const onProviderStep = vi.fn(async () => undefined);
+
+    const result = await runPostProcess(source, [{ type: "remove_background" }, { type: "convert", format: "webp" }], "mock", onProviderStep);
+
+    expect(result.requestIds).toHaveLength(1);
+    expect(onProviderStep).toHaveBeenCalledOnce();
+    expect(onProviderStep).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: { type: "remove_background" }, requestId: result.requestIds[0] })
+    );
+    expect(result.image).toMatchObject({ contentType: "image/webp", width: 64, height: 64 });
+  });
+
+  it("rejects background removal on a provider without a model for it", async () => {
+    const source = await pngDataUrl(32, 32);
+
+    await expect(runPostProcess(source, [{ type: "remove_background" }], "kie")).rejects.toMatchObject({
+      category: "invalid_input",
+    });
+  });
+
+  it("caps the local upscale at the maximum dimension", async () => {
+    const source = await pngDataUrl(3000, 100);
+
+    const result = await runPostProcess(source, [{ type: "upscale", scale: 4 }], "kie");
+
+    expect(result.image).toMatchObject({ width: MAX_LOCAL_UPSCALE_DIMENSION, height: 273 });
+  });
+
+  it("refuses to fetch an image from a host off the allowlist", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    await expect(runPostProcess("http://169.254.169.254/latest/meta-data/", [{ type: "compress", quality: 50 }], "kie")).rejects.toThrow(
+      "not on an allowed host"
+    );
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
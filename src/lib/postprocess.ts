@@ -0,0 +1,186 @@
+import sharp from "sharp";
+import { getProvider, ProviderError } from "@/lib/providers";
+import { persistFile, uploadFile } from "@/lib/supabase-storage";
+import { isAllowedMediaUrl } from "@/lib/media-hosts";
+import { MAX_LOCAL_UPSCALE_DIMENSION, POSTPROCESS_PRICING } from "@/lib/constants";
+import { extensionForContentType } from "@/lib/format-utils";
+import type { ImageProvider } from "@/lib/providers";
+import type { Provider } from "@/types/generation";
+import type { PostProcessOperation } from "@/types/postprocess";
+
+/** The chain's intermediate image. */
+interface WorkingImage {
+  buffer: Buffer;
+  contentType: string;
+  /** Hosted copy of exactly this buffer, if there is one (e.g. a provider's output) */
+  url?: string;
+}
+
+export interface PostProcessResult {
+  image: { url: string; contentType: string; width: number; height: number };
+  /** Estimated USD for the steps that ran on provider models */
+  costUsd: number;
+  requestIds: string[];
+}
+
+/** A step that ran on a provider model. It is billed even if a later step fails. */
+export interface PostProcessProviderStep {
+  operation: PostProcessOperation;
+  requestId: string;
+  costUsd: number;
+  durationMs: number;
+}
+
+/** Largest centred region of a width x height image with the given aspect ratio ("W:H"). */
+export function cropRegion(
+  width: number,
+  height: number,
+  aspectRatio: string
+): { left: number; top: number; width: number; height: number } {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h) return { left: 0, top: 0, width, height };
+
+  const cropWidth = Math.min(width, Math.round((height * w) / h));
+  const cropHeight = Math.min(height, Math.round((width * h) / w));
+  return {
+    left: Math.floor((width - cropWidth) / 2),
+    top: Math.floor((height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+/**
+ * Whether a chain may start from `url`: an inline image (results stay inline
+ * when storage is unavailable) or media on an allowed host. The URL comes
+ * from the client and the result is stored publicly, so nothing else is fetched.
+ */
+export function isAllowedSourceUrl(url: string): boolean {
+  return url.startsWith("data:image/") || isAllowedMediaUrl(url);
+}
+
+/** Fetch an image. Vector input (the mock provider's placeholders) is rasterised to PNG. */
+async function loadImage(url: string): Promise<WorkingImage> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: HTTP ${response.status}`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const { format } = await sharp(buffer).metadata();
+  if (format === "svg") {
+    return { buffer: await sharp(buffer).png().toBuffer(), contentType: "image/png" };
+  }
+  return { buffer, contentType: `image/${format ?? "png"}`, url };
+}
+
+/** Encode in the given format; quality only applies when set. */
+function encode(pipeline: sharp.Sharp, contentType: string, quality?: number): Promise<Buffer> {
+  switch (extensionForContentType(contentType)) {
+    case "jpeg":
+      return pipeline.jpeg({ quality }).toBuffer();
+    case "webp":
+      return pipeline.webp({ quality }).toBuffer();
+    default:
+      return pipeline.png(quality !== undefined ? { palette: true, quality } : {}).toBuffer();
+  }
+}
+
+/** A URL the provider can read the image from: its hosted copy, an upload, or a data URL as a last resort. */
+async function hostedUrl(image: WorkingImage): Promise<string> {
+  if (image.url) return image.url;
+  const blob = new Blob([new Uint8Array(image.buffer)], { type: image.contentType });
+  const uploaded = await uploadFile(blob, "edits");
+  return uploaded ?? `data:${image.contentType};base64,${image.buffer.toString("base64")}`;
+}
+
+async function applyOperation(
+  image: WorkingImage,
+  op: PostProcessOperation,
+  provider: ImageProvider,
+  providerName: Provider
+): Promise<{ image: WorkingImage; requestId?: string }> {
+  switch (op.type) {
+    case "upscale": {
+      if (provider.upscaleImage) {
+        const result = await provider.upscaleImage(await hostedUrl(image), op.scale);
+        return { image: await loadImage(result.images[0].url), requestId: result.requestId };
+      }
+      // The local fallback stops at MAX_LOCAL_UPSCALE_DIMENSION rather than building a huge image in memory
+      const { width, height } = await sharp(image.buffer).metadata();
+      const scale = Math.min(op.scale, MAX_LOCAL_UPSCALE_DIMENSION / Math.max(width, height));
+      if (scale <= 1) return { image };
+      const pipeline = sharp(image.buffer).resize({ width: Math.round(width * scale), kernel: "lanczos3" });
+      return { image: { buffer: await encode(pipeline, image.contentType), contentType: image.contentType } };
+    }
+
+    case "remove_background": {
+      if (!provider.removeBackground) {
+        throw new ProviderError(`${providerName} has no background removal model`, { category: "invalid_input", provider: providerName });
+      }
+      const result = await provider.removeBackground(await hostedUrl(image));
+      return { image: await loadImage(result.images[0].url), requestId: result.requestId };
+    }
+
+    case "crop": {
+      const { width, height } = await sharp(image.buffer).metadata();
+      const pipeline = sharp(image.buffer).extract(cropRegion(width, height, op.aspectRatio));
+      return { image: { buffer: await encode(pipeline, image.contentType), contentType: image.contentType } };
+    }
+
+    case "convert": {
+      const contentType = `image/${op.format}`;
+      // JPEG has no alpha channel; transparent areas become white rather than black
+      const pipeline = op.format === "jpeg" ? sharp(image.buffer).flatten({ background: "#ffffff" }) : sharp(image.buffer);
+      return { image: { buffer: await encode(pipeline, contentType), contentType } };
+    }
+
+    case "compress": {
+      const buffer = await encode(sharp(image.buffer), image.contentType, op.quality);
+      return { image: { buffer, contentType: image.contentType } };
+    }
+  }
+}
+
+/**
+ * Run a chain of operations on an image, each on the previous one's output,
+ * and store the result. Upscaling and background removal use the provider's
+ * models where it has them (upscaling falls back to a local resize); the
+ * remaining steps run locally. `onProviderStep` hears of each provider step
+ * as it finishes, e.g. to log its cost.
+ */
+export async function runPostProcess(
+  imageUrl: string,
+  operations: PostProcessOperation[],
+  providerName: Provider = "fal",
+  onProviderStep?: (step: PostProcessProviderStep) => Promise<void>
+): Promise<PostProcessResult> {
+  if (!isAllowedSourceUrl(imageUrl)) {
+    throw new Error(`Image URL is not on an allowed host: ${imageUrl}`);
+  }
+  const provider = getProvider(providerName);
+  const pricing = POSTPROCESS_PRICING[providerName] ?? {};
+
+  let image = await loadImage(imageUrl);
+  let costUsd = 0;
+  const requestIds: string[] = [];
+
+  for (const op of operations) {
+    const startTime = Date.now();
+    const step = await applyOperation(image, op, provider, providerName);
+    image = step.image;
+    if (step.requestId) {
+      const stepCostUsd = pricing[op.type] ?? 0;
+      requestIds.push(step.requestId);
+      costUsd += stepCostUsd;
+      await onProviderStep?.({ operation: op, requestId: step.requestId, costUsd: stepCostUsd, durationMs: Date.now() - startTime });
+    }
+  }
+
+  const { width, height } = await sharp(image.buffer).metadata();
+  // Provider output is copied to storage; local output is uploaded, or inlined when storage is unavailable
+  const url = image.url
+    ? ((await persistFile(image.url, "edits", image.contentType)) ?? image.url)
+    : await hostedUrl(image);
+
+  return { image: { url, contentType: image.contentType, width, height }, costUsd, requestIds };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { applyOverrides, describeOverrides, estimatePromptsCost, parsePromptOverrides } from "./prompt-overrides";
+import { DEFAULT_SETTINGS, estimateCost } from "./constants";
+import type { GenerationSettings } from "@/types/generation";
+
+describe("parsePromptOverrides", () => {
+  it("strips flags from anywhere in the line", () => {
+    expect(parsePromptOverrides("--ar 16:9 a red car --res 2k --seed 42")).toEqual({
+      prompt: "a red car",
+      overrides: { aspectRatio: "16:9", resolution: "2K", seed: 42 },
+      invalid: [],
+    });
+  });
+
+  it("collects repeated references in order", () => {
+    const { overrides } = parsePromptOverrides("a cat --ref https://a.png --ref http://b.png");
+    expect(overrides?.referenceImageUrls).toEqual(["https://a.png", "http://b.png"]);
+  });
+
+  it("accepts known providers and models", () => {
+    expect(parsePromptOverrides("a cat --provider kie --model nano-banana").overrides).toEqual({
+      provider: "kie",
+      model: "nano-banana",
+    });
+  });
+
+  it("reports unknown flags and ignores them", () => {
+    expect(parsePromptOverrides("a cat --zoom 2 --ar 1:1")).toEqual({
+      prompt: "a cat",
+      overrides: { aspectRatio: "1:1" },
+      invalid: ["--zoom 2"],
+    });
+  });
+
+  it.each([
+    ["--ar 5:1"],
+    ["--res 8K"],
+    ["--seed -1"],
+    ["--seed 1.5"],
+    ["--ref ftp://a.png"],
+    ["--provider midjourney"],
+    ["--model sdxl"],
+    ["--n 0"],
+    ["--n 5"],
+    ["--n 2.5"],
+  ])("rejects the out-of-range value in %s", (flag) => {
+    expect(parsePromptOverrides(`a cat ${flag}`)).toEqual({ prompt: "a cat", overrides: undefined, invalid: [flag] });
+  });
+
+  it("keeps double dashes that aren't followed by a value", () => {
+    expect(parsePromptOverrides("a well--lit room --")).toEqual({ prompt: "a well--lit room --", overrides: undefined, invalid: [] });
+  });
+});
+
+describe("applyOverrides", () => {
+  const settings: GenerationSettings = { ...DEFAULT_SETTINGS, provider: "fal", model: "nano-banana-pro", resolution: "4K" };
+
+  it("applies overrides on top of the batch settings", () => {
+    expect(applyOverrides(settings, { aspectRatio: "16:9", seed: 7 })).toMatchObject({
+      aspectRatio: "16:9",
+      seed: 7,
+      resolution: "4K",
+    });
+  });
+
+  it("clamps to what the overriding model supports", () => {
+    const applied = applyOverrides({ ...settings, seed: 7 }, { model: "nano-banana" });
+    expect(applied.resolution).toBe("1K");
+    expect(applied.seed).toBeUndefined();
+  });
+});
+
+describe("estimatePromptsCost", () => {
+  it("prices each prompt with its own overrides", () => {
+    const settings: GenerationSettings = { ...DEFAULT_SETTINGS, provider: "fal", model: "nano-banana-pro", resolution: "1K", numImages: 1 };
+    const cost = estimatePromptsCost(settings, [undefined, { resolution: "4K", numImages: 2 }], 3.6);
+    expect(cost).toBeCloseTo(
+      estimateCost(1, 1, "1K", settings.enableWebSearch, "fal", "nano-banana-pro", 3.6) +
+        estimateCost(1, 2, "4K", settings.enableWebSearch, "fal", "nano-banana-pro", 3.6)
+    );
+  });
+});
+
+describe("describeOverrides", () => {
+  it("lists overrides in a fixed order", () => {
+    expect(
+      describeOverrides({ seed: 42, aspectRatio: "16:9", provider: "kie", numImages: 2, referenceImageUrls: ["https://a.png"] })
+    ).toBe("Kie AI · 16:9 · ×2 · seed 42 · 1 ref");
+  });
+});
@@ -0,0 +1,104 @@
+import { ASPECT_RATIOS, IMAGE_MODELS, IMAGE_PROVIDERS, RESOLUTIONS, USD_TO_ILS, constrainToModel, estimateCost } from "@/lib/constants";
+import type { GenerationSettings, PromptOverrides, Provider } from "@/types/generation";
+
+// `--flag value` pairs, e.g. "a red car --ar 16:9 --res 2K"
+const FLAG_PATTERN = /(?:^|\s)--([\w-]+)\s+(\S+)/g;
+
+/**
+ * Split a prompt line into its text and per-prompt overrides.
+ * Supported flags: --ar, --res, --seed, --ref (repeatable), --provider, --model, --n.
+ * Unknown flags or invalid values are returned in `invalid` and ignored.
+ */
+export function parsePromptOverrides(line: string): {
+  prompt: string;
+  overrides?: PromptOverrides;
+  invalid: string[];
+} {
+  const overrides: PromptOverrides = {};
+  const invalid: string[] = [];
+
+  const prompt = line
+    .replace(FLAG_PATTERN, (whole, flag: string, value: string) => {
+      switch (flag) {
+        case "ar":
+          if ((ASPECT_RATIOS as readonly string[]).includes(value)) overrides.aspectRatio = value;
+          else invalid.push(whole.trim());
+          break;
+        case "res": {
+          const resolution = value.toUpperCase();
+          if ((RESOLUTIONS as readonly string[]).includes(resolution)) {
+            overrides.resolution = resolution as GenerationSettings["resolution"];
+          } else invalid.push(whole.trim());
+          break;
+        }
+        case "seed":
+          if (/^\d+$/.test(value)) overrides.seed = Number(value);
+          else invalid.push(whole.trim());
+          break;
+        case "ref":
+          if (/^https?:\/\//.test(value)) {
+            overrides.referenceImageUrls = [...(overrides.referenceImageUrls ?? []), value];
+          } else invalid.push(whole.trim());
+          break;
+        case "provider":
+          if (IMAGE_PROVIDERS.some((p) => p.value === value)) overrides.provider = value as Provider;
+          else invalid.push(whole.trim());
+          break;
+        case "model":
+          if (IMAGE_MODELS.some((m) => m.id === value)) overrides.model = value;
+          else invalid.push(whole.trim());
+          break;
+        case "n": {
+          const n = Number(value);
+          if (Number.isInteger(n) && n >= 1 && n <= 4) overrides.numImages = n;
+          else invalid.push(whole.trim());
+          break;
+        }
+        default:
+          invalid.push(whole.trim());
+      }
+      return "";
+    })
+    .trim();
+
+  return {
+    prompt,
+    overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+    invalid,
+  };
+}
+
+/**
+ * Batch settings with a prompt's overrides applied, clamped to what the
+ * resulting model supports (same rules as the settings panel).
+ */
+export function applyOverrides(settings: GenerationSettings, overrides?: PromptOverrides): GenerationSettings {
+  return constrainToModel({ ...settings, ...overrides });
+}
+
+/** Estimated cost (ILS) of a batch where each prompt may override pricing-relevant settings. */
+export function estimatePromptsCost(
+  settings: GenerationSettings,
+  overrides: Array<PromptOverrides | undefined>,
+  usdToIls = USD_TO_ILS
+): number {
+  return overrides.reduce((sum, override) => {
+    const s = applyOverrides(settings, override);
+    return sum + estimateCost(1, s.numImages, s.resolution, s.enableWebSearch, s.provider, s.model, usdToIls);
+  }, 0);
+}
+
+/** Short human-readable summary of overrides for display, e.g. "16:9 · 2K · seed 42". */
+export function describeOverrides(overrides: PromptOverrides): string {
+  const parts: string[] = [];
+  if (overrides.provider) {
+    parts.push(IMAGE_PROVIDERS.find((p) => p.value === overrides.provider)?.label ?? overrides.provider);
+  }
+  if (overrides.model) parts.push(overrides.model);
+  if (overrides.aspectRatio) parts.push(overrides.aspectRatio);
+  if (overrides.resolution) parts.push(overrides.resolution);
+  if (overrides.numImages) parts.push(`×${overrides.numImages}`);
+  if (overrides.seed !== undefined) parts.push(`seed ${overrides.seed}`);
+  if (overrides.referenceImageUrls?.length) parts.push(`${overrides.referenceImageUrls.length} ref`);
+  return parts.join(" · ");
+}
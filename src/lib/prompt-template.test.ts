@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { expandPrompts, parseDelimited } from "./prompt-template";
+import { MAX_EXPANDED_PROMPTS } from "./constants";
+import type { TemplateData } from "@/types/template";
+
+const products: TemplateData = {
+  fileName: "products.csv",
+  columns: ["product", "color"],
+  rows: [
+    { product: "mug", color: "red" },
+    { product: "lamp", color: "green" },
+  ],
+};
+
+describe("expandPrompts", () => {
+  it("combines value lists in order, the last one changing fastest", () => {
+    const text = "@animal = fox | owl\n{{animal}} in {snow|rain}";
+    expect(expandPrompts(text).prompts).toEqual(["fox in snow", "fox in rain", "owl in snow", "owl in rain"]);
+  });
+
+  it("pairs values by position in zip mode, stopping at the shortest list", () => {
+    const text = "@animal = fox | owl | bear\n{{animal}} in {snow|rain}";
+    expect(expandPrompts(text, "zip").prompts).toEqual(["fox in snow", "owl in rain"]);
+  });
+
+  it("moves CSV columns together as one row", () => {
+    const expanded = expandPrompts("a {{color}} {{product}}, {studio|outdoor}", "cartesian", products);
+    expect(expanded.prompts).toEqual([
+      "a red mug, studio",
+      "a red mug, outdoor",
+      "a green lamp, studio",
+      "a green lamp, outdoor",
+    ]);
+  });
+
+  it("prefers a definition over a CSV column of the same name", () => {
+    expect(expandPrompts("@color = blue\na {{color}} {{product}}", "cartesian", products).prompts).toEqual([
+      "a blue mug",
+      "a blue lamp",
+    ]);
+  });
+
+  it("reports unknown placeholders and leaves them in place", () => {
+    const expanded = expandPrompts("a {{size}} {red|blue} car");
+    expect(expanded.unknownVariables).toEqual(["size"]);
+    expect(expanded.prompts).toEqual(["a {{size}} red car", "a {{size}} blue car"]);
+  });
+
+  it("passes lines without placeholders through and skips comments", () => {
+    expect(expandPrompts("# notes\na  plain   prompt\n{single}").prompts).toEqual(["a  plain   prompt", "{single}"]);
+  });
+
+  it("collapses the gap an empty alternative leaves", () => {
+    expect(expandPrompts("a {|shiny} car").prompts).toEqual(["a car", "a shiny car"]);
+  });
+
+  it("splits overrides off after expansion, so flags can use placeholders", () => {
+    const expanded = expandPrompts("a castle --ar {16:9|9:16} --zoom 2");
+    expect(expanded.prompts).toEqual(["a castle", "a castle"]);
+    expect(expanded.overrides).toEqual([{ aspectRatio: "16:9" }, { aspectRatio: "9:16" }]);
+    expect(expanded.invalidOverrides).toEqual(["--zoom 2"]);
+  });
+
+  it("drops lines that hold only flags", () => {
+    expect(expandPrompts("--ar 16:9\na tree").prompts).toEqual(["a tree"]);
+  });
+
+  it("stops at the prompt limit and says so", () => {
+    const values = Array.from({ length: 40 }, (_, i) => `v${i}`).join("|");
+    const expanded = expandPrompts(`{${values}} {${values}}`);
+    expect(expanded.prompts).toHaveLength(MAX_EXPANDED_PROMPTS);
+    expect(expanded.truncated).toBe(true);
+  });
+});
+
+describe("parseDelimited", () => {
+  it("reads quoted fields with delimiters, escaped quotes and newlines", () => {
+    const csv = 'product,caption\r\nmug,"a ""hand-made"", glazed mug"\nlamp,"two\nlines"\n';
+    expect(parseDelimited(csv, "p.csv")).toEqual({
+      fileName: "p.csv",
+      columns: ["product", "caption"],
+      rows: [
+        { product: "mug", caption: 'a "hand-made", glazed mug' },
+        { product: "lamp", caption: "two\nlines" },
+      ],
+    });
+  });
+
+  it("detects tabs from the header and fills missing cells", () => {
+    const data = parseDelimited("product\tcolor\n mug \t red\nlamp\n\n", "p.tsv");
+    expect(data.columns).toEqual(["product", "color"]);
+    expect(data.rows).toEqual([
+      { product: "mug", color: "red" },
+      { product: "lamp", color: "" },
+    ]);
+  });
+
+  it("keeps quotes inside an unquoted field", () => {
+    expect(parseDelimited('size\n12" pizza', "p.csv").rows).toEqual([{ size: '12" pizza' }]);
+  });
+});
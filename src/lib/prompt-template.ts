@@ -0,0 +1,166 @@
+import { MAX_EXPANDED_PROMPTS, parsePrompts } from "@/lib/constants";
+import { parsePromptOverrides } from "@/lib/prompt-overrides";
+import type { ExpandedPrompts, ExpansionMode, TemplateData } from "@/types/template";
+
+// `@name = a | b | c` defines a value list for `{{name}}`
+const DEFINITION_PATTERN = /^@([\w-]+)\s*=\s*(.*)$/;
+// `{{name}}` placeholder, or `{a|b|c}` inline alternation
+const TOKEN_PATTERN = /\{\{\s*([\w-]+)\s*\}\}|\{([^{}]*\|[^{}]*)\}/g;
+
+function splitAlternatives(text: string): string[] {
+  return text.split("|").map((v) => v.trim());
+}
+
+/**
+ * Expand prompt templates into concrete prompts.
+ *
+ * Each line is a template. Its value lists are the inline alternations, the
+ * `@name = ...` definitions it references and (if it references any CSV
+ * column) the CSV rows, which always move together. "cartesian" produces every
+ * combination; "zip" takes the i-th value of each list, stopping at the shortest.
+ * Lines without placeholders pass through unchanged. Per-prompt `--flag value`
+ * overrides are split off after expansion, so they can use placeholders too.
+ */
+export function expandPrompts(
+  text: string,
+  mode: ExpansionMode = "cartesian",
+  data: TemplateData | null = null
+): ExpandedPrompts {
+  const definitions = new Map<string, string[]>();
+  const templates: string[] = [];
+  for (const line of parsePrompts(text)) {
+    const definition = line.match(DEFINITION_PATTERN);
+    if (definition) {
+      const values = splitAlternatives(definition[2]).filter(Boolean);
+      if (values.length > 0) definitions.set(definition[1], values);
+    } else {
+      templates.push(line);
+    }
+  }
+
+  const csvColumns = new Set(data?.columns ?? []);
+  const unknownVariables = new Set<string>();
+  const prompts: string[] = [];
+  let truncated = false;
+
+  for (const template of templates) {
+    // Value list sizes keyed by dimension: "var:<name>", "csv", or "alt:<n>"
+    const dimensions = new Map<string, number>();
+    let altCount = 0;
+    for (const match of template.matchAll(TOKEN_PATTERN)) {
+      const [, variable, alternation] = match;
+      if (alternation !== undefined) {
+        dimensions.set(`alt:${altCount++}`, splitAlternatives(alternation).length);
+      } else if (definitions.has(variable)) {
+        dimensions.set(`var:${variable}`, definitions.get(variable)!.length);
+      } else if (csvColumns.has(variable) && data) {
+        dimensions.set("csv", data.rows.length);
+      } else {
+        unknownVariables.add(variable);
+      }
+    }
+
+    const keys = Array.from(dimensions.keys());
+    const sizes = keys.map((key) => dimensions.get(key)!);
+    const total =
+      keys.length === 0 ? 1 : mode === "zip" ? Math.min(...sizes) : sizes.reduce((a, b) => a * b, 1);
+
+    for (let n = 0; n < total; n++) {
+      if (prompts.length >= MAX_EXPANDED_PROMPTS) {
+        truncated = true;
+        break;
+      }
+
+      // Pick a value index per dimension (mixed-radix counter for cartesian)
+      const picks = new Map<string, number>();
+      let rest = n;
+      for (let d = keys.length - 1; d >= 0; d--) {
+        picks.set(keys[d], mode === "zip" ? n : rest % sizes[d]);
+        rest = Math.floor(rest / sizes[d]);
+      }
+
+      let altIndex = 0;
+      const prompt = template.replace(TOKEN_PATTERN, (whole, variable?: string, alternation?: string) => {
+        if (alternation !== undefined) {
+          return splitAlternatives(alternation)[picks.get(`alt:${altIndex++}`)!];
+        }
+        if (definitions.has(variable!)) {
+          return definitions.get(variable!)![picks.get(`var:${variable}`)!];
+        }
+        if (picks.has("csv") && csvColumns.has(variable!)) {
+          return data!.rows[picks.get("csv")!][variable!] ?? "";
+        }
+        return whole;
+      });
+      // Empty alternatives (e.g. `{|red}`) can leave double spaces behind
+      prompts.push(keys.length > 0 ? prompt.replace(/\s+/g, " ").trim() : prompt);
+    }
+  }
+
+  // A line holding only flags has no prompt left to generate
+  const parsed = prompts.map(parsePromptOverrides).filter((p) => p.prompt.length > 0);
+  return {
+    prompts: parsed.map((p) => p.prompt),
+    overrides: parsed.map((p) => p.overrides),
+    invalidOverrides: Array.from(new Set(parsed.flatMap((p) => p.invalid))),
+    unknownVariables: Array.from(unknownVariables),
+    truncated,
+  };
+}
+
+/**
+ * Parse CSV or TSV text (delimiter detected from the header line). The first
+ * row is the header. Supports quoted fields with escaped quotes and newlines.
+ */
+export function parseDelimited(text: string, fileName: string): TemplateData {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const delimiter = firstLine.includes("\t") ? "\t" : ",";
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((cell) => cell.trim() !== ""));
+  const [header = [], ...body] = nonEmpty;
+  const columns = header.map((name) => name.trim());
+
+  return {
+    fileName,
+    columns,
+    rows: body.map((cells) =>
+      Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? "").trim()]))
+    ),
+  };
+}
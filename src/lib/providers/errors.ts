@@ -0,0 +1,84 @@
+import type { ProviderErrorCategory } from "@/types/generation";
+
+interface ProviderErrorOptions {
+  category: ProviderErrorCategory;
+  provider: string;
+  /** HTTP status or provider-specific code (e.g. Kie failCode) */
+  code?: number | string;
+  /** Request the provider had already accepted when following it failed; it may still finish and be billed */
+  requestId?: string;
+  cause?: unknown;
+}
+
+/** A failed provider call, tagged with the cause category. */
+export class ProviderError extends Error {
+  readonly category: ProviderErrorCategory;
+  readonly provider: string;
+  readonly code?: number | string;
+  readonly requestId?: string;
+
+  constructor(message: string, options: ProviderErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = "ProviderError";
+    this.category = options.category;
+    this.provider = options.provider;
+    this.code = options.code;
+    this.requestId = options.requestId;
+  }
+}
+
+const CONTENT_POLICY_PATTERN = /content.?policy|safety|nsfw|sensitive|prohibited|violat|flagged|blocked/i;
+const QUOTA_PATTERN = /insufficient|balance|credits?|quota|exhausted|payment/i;
+
+/** Map an HTTP status (and message, for ambiguous ones) to a category. */
+export function categorizeStatus(status: number, message = ""): ProviderErrorCategory {
+  if (status === 429) return "rate_limited";
+  if (status === 402) return "quota_exhausted";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500) return "upstream_5xx";
+  if (CONTENT_POLICY_PATTERN.test(message)) return "content_policy";
+  if (QUOTA_PATTERN.test(message)) return "quota_exhausted";
+  if (status === 400 || status === 404 || status === 413 || status === 422) return "invalid_input";
+  return "unknown";
+}
+
+/** Categorize an error from its message alone (Kie failMsg, SDK errors without a status). */
+export function categorizeMessage(message: string): ProviderErrorCategory {
+  if (CONTENT_POLICY_PATTERN.test(message)) return "content_policy";
+  if (/rate.?limit|too many requests/i.test(message)) return "rate_limited";
+  if (QUOTA_PATTERN.test(message)) return "quota_exhausted";
+  if (/timed? ?out/i.test(message)) return "timeout";
+  if (/network|fetch failed|ECONNRESET|ENOTFOUND|socket hang up/i.test(message)) return "network";
+  if (/invalid|unsupported|validation|must be/i.test(message)) return "invalid_input";
+  return "unknown";
+}
+
+/**
+ * Wrap any thrown value as a ProviderError. Errors that already are one pass
+ * through; SDK errors with a numeric `status` are categorized by it.
+ */
+export function toProviderError(error: unknown, provider: string): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+
+  if (typeof status === "number") {
+    // Fal puts the useful detail (e.g. content_policy_violation) in the body
+    const body = (error as { body?: unknown }).body;
+    const detail = body ? `${message} ${JSON.stringify(body)}` : message;
+    return new ProviderError(message, {
+      category: categorizeStatus(status, detail),
+      provider,
+      code: status,
+      cause: error,
+    });
+  }
+
+  return new ProviderError(message, { category: categorizeMessage(message), provider, cause: error });
+}
+
+/** Category of any thrown value ("unknown" if it can't be told). */
+export function getErrorCategory(error: unknown): ProviderErrorCategory {
+  return toProviderError(error, "unknown").category;
+}
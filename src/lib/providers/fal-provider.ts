@@ -1,60 +1,140 @@
 import { fal } from "@/lib/fal-server";
-import { FAL_MODEL_TEXT_TO_IMAGE, FAL_MODEL_IMAGE_EDIT } from "@/lib/constants";
-import type { ImageProvider, ProviderGenerateInput, ProviderGenerateResult, OnStatusUpdate } from "./types";
+import { FAL_MODEL_REMOVE_BACKGROUND, FAL_MODEL_UPSCALE, getImageModel, getImageModels, getMaskModel, getVideoModel } from "@/lib/constants";
+import { ProviderError, categorizeMessage, toProviderError } from "./errors";
+import { videoRequest } from "./video-input";
+import type {
+  ImageProvider,
+  ProviderCallback,
+  ProviderGenerateInput,
+  ProviderGenerateResult,
+  OnStatusUpdate,
+  VideoGenerateInput,
+  VideoProvider,
+  VideoTaskStatus,
+} from "./types";
 
-export class FalProvider implements ImageProvider {
+type FalImageData = {
+  images: Array<{ url: string; content_type: string; width: number; height: number }>;
+  seed?: number;
+};
+
+type FalVideoData = {
+  video?: { url: string };
+};
+
+/**
+ * Fal video task ids carry the model id, so polling knows which endpoint's
+ * queue to ask: `fal-<model id>-<request id>`.
+ */
+const FAL_TASK_ID = /^fal-(.+)-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+export function isFalTaskId(taskId: string): boolean {
+  return FAL_TASK_ID.test(taskId);
+}
+
+/** Single-image utilities (upscaler, background removal) answer with `image` rather than `images`. */
+type FalSingleImageData = {
+  image: { url: string; content_type: string; width: number; height: number };
+};
+
+/** Inpainting request: the first reference image is repainted where the mask is white. */
+function maskRequest(input: ProviderGenerateInput): { endpoint: string; input: Record<string, unknown> } {
+  const model = getMaskModel("fal", input.model);
+  const imageUrl = input.referenceImageUrls?.[0];
+  if (!model?.maskEndpoint || !imageUrl) {
+    throw new ProviderError("Fal inpainting needs an image and a mask-capable model", { category: "invalid_input", provider: "fal" });
+  }
+
+  const falInput: Record<string, unknown> = {
+    prompt: input.prompt,
+    image_url: imageUrl,
+    mask_url: input.maskUrl,
+    num_images: 1,
+    output_format: input.outputFormat === "webp" ? "png" : input.outputFormat,
+    safety_tolerance: String(input.safetyTolerance ?? 4),
+  };
+  if (input.seed !== undefined) {
+    falInput.seed = input.seed;
+  }
+  return { endpoint: model.maskEndpoint, input: falInput };
+}
+
+/** Endpoint and input of a request. Reference images route to an edit-capable model, masks to an inpainting one. */
+function imageRequest(input: ProviderGenerateInput): { endpoint: string; input: Record<string, unknown> } {
+  if (input.maskUrl) return maskRequest(input);
+
+  const isEdit = (input.referenceImageUrls?.length ?? 0) > 0;
+  let model = getImageModel("fal", input.model);
+  // Text-only models hand edits to the default edit-capable model
+  if (isEdit && !model.editEndpoint) {
+    model = getImageModels("fal").find((m) => m.editEndpoint) ?? model;
+  }
+  const endpoint = isEdit ? model.editEndpoint! : model.endpoint;
+
+  const falInput: Record<string, unknown> = {
+    prompt: input.prompt,
+    num_images: Math.min(input.numImages ?? 1, model.maxImages),
+    [model.aspectRatioParam ?? "aspect_ratio"]: input.aspectRatio,
+    output_format: input.outputFormat,
+  };
+
+  // Only send parameters the model accepts
+  if (model.resolutions.length > 1) {
+    falInput.resolution = input.resolution;
+  }
+  if (model.supportsSafetyTolerance) {
+    falInput.safety_tolerance = String(input.safetyTolerance ?? 4);
+  }
+  if (model.supportsWebSearch) {
+    falInput.enable_web_search = input.enableWebSearch ?? false;
+  }
+  if (model.supportsSeed && input.seed !== undefined) {
+    falInput.seed = input.seed;
+  }
+
+  if (input.referenceImageUrls && input.referenceImageUrls.length > 0) {
+    falInput.image_urls = input.referenceImageUrls;
+  }
+
+  return { endpoint, input: falInput };
+}
+
+function imageResult(data: FalImageData, requestId: string): ProviderGenerateResult {
+  return {
+    images: data.images.map((img) => ({
+      url: img.url,
+      contentType: img.content_type,
+      width: img.width,
+      height: img.height,
+    })),
+    seed: data.seed,
+    requestId,
+  };
+}
+
+export class FalProvider implements ImageProvider, VideoProvider {
   async generateImage(
     input: ProviderGenerateInput,
     onStatusUpdate?: OnStatusUpdate
   ): Promise<ProviderGenerateResult> {
-    const endpoint =
-      (input.referenceImageUrls?.length ?? 0) > 0
-        ? FAL_MODEL_IMAGE_EDIT
-        : FAL_MODEL_TEXT_TO_IMAGE;
-
-    const falInput: Record<string, unknown> = {
-      prompt: input.prompt,
-      num_images: input.numImages ?? 1,
-      resolution: input.resolution,
-      aspect_ratio: input.aspectRatio,
-      output_format: input.outputFormat,
-      safety_tolerance: String(input.safetyTolerance ?? 4),
-      enable_web_search: input.enableWebSearch ?? false,
-    };
+    const request = imageRequest(input);
 
-    if (input.seed !== undefined) {
-      falInput.seed = input.seed;
+    let result;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      result = await (fal as any).subscribe(request.endpoint, {
+        input: request.input,
+        onQueueUpdate: (update: { status: string }) => {
+          if (update.status === "IN_PROGRESS" && onStatusUpdate) {
+            onStatusUpdate("processing");
+          }
+        },
+      });
+    } catch (error) {
+      throw toProviderError(error, "fal");
     }
 
-    if (input.referenceImageUrls && input.referenceImageUrls.length > 0) {
-      falInput.image_urls = input.referenceImageUrls;
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await (fal as any).subscribe(endpoint, {
-      input: falInput,
-      onQueueUpdate: (update: { status: string }) => {
-        if (update.status === "IN_PROGRESS" && onStatusUpdate) {
-          onStatusUpdate("processing");
-        }
-      },
-    });
-
-    const data = result.data as {
-      images: Array<{ url: string; content_type: string; width: number; height: number }>;
-      seed?: number;
-    };
-
-    return {
-      images: data.images.map((img) => ({
-        url: img.url,
-        contentType: img.content_type,
-        width: img.width,
-        height: img.height,
-      })),
-      seed: data.seed,
-      requestId: result.requestId,
-    };
+    return imageResult(result.data as FalImageData, result.requestId);
   }
 
   async editImage(
@@ -66,4 +146,102 @@ export class FalProvider implements ImageProvider {
       onStatusUpdate
     );
   }
+
+  async upscaleImage(imageUrl: string, scale: number): Promise<ProviderGenerateResult> {
+    return this.runUtility(FAL_MODEL_UPSCALE, { image_url: imageUrl, scale });
+  }
+
+  async removeBackground(imageUrl: string): Promise<ProviderGenerateResult> {
+    return this.runUtility(FAL_MODEL_REMOVE_BACKGROUND, { image_url: imageUrl });
+  }
+
+  private async runUtility(endpoint: string, input: Record<string, unknown>): Promise<ProviderGenerateResult> {
+    let result;
+    try {
+      result = await fal.subscribe(endpoint, { input });
+    } catch (error) {
+      throw toProviderError(error, "fal");
+    }
+
+    const { image } = result.data as FalSingleImageData;
+    return imageResult({ images: [image] }, result.requestId);
+  }
+
+  /** Enqueue a request whose result Fal POSTs to `callbackUrl`. */
+  async submitImage(input: ProviderGenerateInput, callbackUrl: string): Promise<{ requestId: string }> {
+    const request = imageRequest(input);
+    try {
+      const { request_id } = await fal.queue.submit(request.endpoint, { input: request.input, webhookUrl: callbackUrl });
+      return { requestId: request_id };
+    } catch (error) {
+      throw toProviderError(error, "fal");
+    }
+  }
+
+  /** Fal queue webhooks carry `{ request_id, status: "OK" | "ERROR", payload, error }`. */
+  parseCallback(body: unknown): ProviderCallback {
+    const { request_id, status, payload, error } = (body ?? {}) as {
+      request_id?: string;
+      status?: string;
+      payload?: FalImageData & { detail?: unknown };
+      error?: string;
+    };
+    if (!request_id) {
+      throw new Error("Fal callback has no request_id");
+    }
+
+    if (status !== "OK" || !payload?.images?.length) {
+      const detail = error ?? (payload?.detail ? JSON.stringify(payload.detail) : "Fal request failed");
+      return {
+        requestId: request_id,
+        error: new ProviderError(`Fal request failed: ${detail}`, { category: categorizeMessage(detail), provider: "fal" }),
+      };
+    }
+    return { requestId: request_id, result: imageResult(payload, request_id) };
+  }
+
+  async createVideoTask(input: VideoGenerateInput): Promise<{ taskId: string }> {
+    const model = getVideoModel(input.model);
+    if (model.provider !== "fal") {
+      throw new ProviderError(`${model.label} is not a Fal model`, { category: "invalid_input", provider: "fal" });
+    }
+    const request = videoRequest(model, input);
+    try {
+      const { request_id } = await fal.queue.submit(request.endpoint, { input: request.input });
+      return { taskId: `fal-${model.id}-${request_id}` };
+    } catch (error) {
+      throw toProviderError(error, "fal");
+    }
+  }
+
+  async pollVideoTask(taskId: string): Promise<VideoTaskStatus> {
+    const match = FAL_TASK_ID.exec(taskId);
+    if (!match) {
+      return { taskId, state: "error", error: "Invalid Fal task id" };
+    }
+    // Queue status and results are addressed by app, so this also serves text-to-video requests
+    const endpoint = getVideoModel(match[1]).endpoint;
+    const requestId = match[2];
+
+    let status: string;
+    try {
+      ({ status } = await fal.queue.status(endpoint, { requestId }));
+    } catch (error) {
+      return { taskId, state: "error", error: error instanceof Error ? error.message : String(error) };
+    }
+    if (status === "IN_QUEUE") return { taskId, state: "queuing" };
+    if (status !== "COMPLETED") return { taskId, state: "generating" };
+
+    // A completed request that failed throws when its result is fetched
+    try {
+      const result = await fal.queue.result(endpoint, { requestId });
+      const videoUrl = (result.data as FalVideoData).video?.url;
+      if (!videoUrl) {
+        return { taskId, state: "fail", error: "Fal returned no video" };
+      }
+      return { taskId, state: "success", videoUrl };
+    } catch (error) {
+      return { taskId, state: "fail", error: toProviderError(error, "fal").message };
+    }
+  }
 }
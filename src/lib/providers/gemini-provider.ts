@@ -1,5 +1,6 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, type Part } from "@google/genai";
 import { GEMINI_MODEL } from "@/lib/constants";
+import { ProviderError, categorizeStatus, toProviderError } from "./errors";
 
 function getGeminiKey(): string {
   const key = process.env.GEMINI_KEY;
@@ -18,31 +19,62 @@ export class GeminiProvider {
     imageUrl: string;
     systemPrompt: string;
   }): Promise<string> {
-    // Fetch image and convert to base64 (Gemini requires inline data)
-    const response = await fetch(input.imageUrl);
+    return this.generate([await this.imagePart(input.imageUrl), { text: input.systemPrompt }]);
+  }
+
+  /** Text-only request: the instructions, then the user's text. */
+  async generateText(input: { systemPrompt: string; text: string }): Promise<string> {
+    return this.generate([{ text: input.systemPrompt }, { text: input.text }]);
+  }
+
+  /** Image, instructions and prompt in one request, answered as JSON (unparsed). */
+  async compareImage(input: { imageUrl: string; systemPrompt: string; prompt: string }): Promise<string> {
+    return this.generate(
+      [await this.imagePart(input.imageUrl), { text: input.systemPrompt }, { text: `Prompt: ${input.prompt}` }],
+      "application/json"
+    );
+  }
+
+  /** Fetch an image and inline it (Gemini requires inline data) */
+  private async imagePart(imageUrl: string): Promise<Part> {
+    let response: Response;
+    try {
+      response = await fetch(imageUrl);
+    } catch (error) {
+      throw toProviderError(error, "gemini");
+    }
     if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.status}`);
+      throw new ProviderError(`Failed to fetch image: ${response.status}`, {
+        category: categorizeStatus(response.status),
+        provider: "gemini",
+        code: response.status,
+      });
     }
     const arrayBuffer = await response.arrayBuffer();
     const base64Data = Buffer.from(arrayBuffer).toString("base64");
     const contentType = response.headers.get("content-type") || "image/png";
+    return { inlineData: { mimeType: contentType, data: base64Data } };
+  }
 
-    const result = await this.client.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { inlineData: { mimeType: contentType, data: base64Data } },
-            { text: input.systemPrompt },
-          ],
-        },
-      ],
-    });
+  private async generate(parts: Part[], responseMimeType?: string): Promise<string> {
+    let result;
+    try {
+      result = await this.client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: [{ role: "user", parts }],
+        ...(responseMimeType && { config: { responseMimeType } }),
+      });
+    } catch (error) {
+      throw toProviderError(error, "gemini");
+    }
 
     const text = result.text?.trim();
     if (!text) {
-      throw new Error("Gemini returned empty response");
+      const blockReason = result.promptFeedback?.blockReason;
+      throw new ProviderError(
+        blockReason ? `Gemini blocked the request: ${blockReason}` : "Gemini returned empty response",
+        { category: blockReason ? "content_policy" : "unknown", provider: "gemini" }
+      );
     }
 
     return text;
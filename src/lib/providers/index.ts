@@ -1,15 +1,59 @@
-import type { ImageProvider } from "./types";
+import type { ImageProvider, VideoProvider } from "./types";
 import type { Provider } from "@/types/generation";
+import type { VideoProviderName } from "@/types/video";
+import { MOCK_PROVIDER_ENABLED } from "@/lib/constants";
 import { FalProvider } from "./fal-provider";
 import { KieProvider } from "./kie-provider";
+import { MockProvider } from "./mock-provider";
 
-const providerInstances: Record<Provider, ImageProvider> = {
-  fal: new FalProvider(),
-  kie: new KieProvider(),
-};
+const providerInstances = new Map<Provider, ImageProvider>();
+
+/** Make a provider available to getProvider. Its models are declared in IMAGE_MODELS. */
+export function registerProvider(name: Provider, provider: ImageProvider): void {
+  providerInstances.set(name, provider);
+}
 
 export function getProvider(provider: Provider): ImageProvider {
-  return providerInstances[provider];
+  const instance = providerInstances.get(provider);
+  if (!instance) throw new Error(`Unknown provider: ${provider}`);
+  return instance;
+}
+
+/** Whether this deployment serves the provider (e.g. the mock is absent from production builds). */
+export function hasProvider(provider: Provider): boolean {
+  return providerInstances.has(provider);
+}
+
+const videoProviderInstances = new Map<VideoProviderName, VideoProvider>();
+
+/** Make a video provider available to getVideoProvider. Its models are declared in VIDEO_MODELS. */
+export function registerVideoProvider(name: VideoProviderName, provider: VideoProvider): void {
+  videoProviderInstances.set(name, provider);
+}
+
+export function getVideoProvider(provider: VideoProviderName): VideoProvider {
+  const instance = videoProviderInstances.get(provider);
+  if (!instance) throw new Error(`Unknown video provider: ${provider}`);
+  return instance;
+}
+
+const fal = new FalProvider();
+const kie = new KieProvider();
+
+registerProvider("fal", fal);
+registerProvider("kie", kie);
+
+registerVideoProvider("fal", fal);
+registerVideoProvider("kie", kie);
+
+// The mock's results are free, so production deployments only serve it when a mock flag is set
+const mockEnabled =
+  MOCK_PROVIDER_ENABLED || process.env.MOCK_VIDEO === "true" || process.env.NODE_ENV !== "production";
+if (mockEnabled) {
+  const mock = new MockProvider();
+  registerProvider("mock", mock);
+  registerVideoProvider("mock", mock);
 }
 
-export type { ImageProvider, ProviderGenerateInput, ProviderGenerateResult, OnStatusUpdate } from "./types";
+export type { ImageProvider, VideoProvider, ProviderCallback, ProviderGenerateInput, ProviderGenerateResult, OnStatusUpdate } from "./types";
+export { ProviderError, toProviderError, getErrorCategory } from "./errors";
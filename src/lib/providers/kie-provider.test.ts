@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { extractImageUrls, extractVideoUrl, KieProvider } from "./kie-provider";
+
+describe("extractImageUrls", () => {
+  it("parses resultJson sent as a JSON string", () => {
+    expect(extractImageUrls('{"resultUrls":["https://a.png","https://b.png"]}')).toEqual([
+      "https://a.png",
+      "https://b.png",
+    ]);
+  });
+
+  it("accepts an already-parsed object", () => {
+    expect(extractImageUrls({ resultUrls: ["https://a.png"] })).toEqual(["https://a.png"]);
+  });
+
+  it.each([
+    ["result_urls", { result_urls: ["https://a.png"] }],
+    ["urls", { urls: ["https://a.png"] }],
+    ["images", { images: ["https://a.png"] }],
+    ["url", { url: "https://a.png" }],
+  ])("reads the %s field", (_, resultJson) => {
+    expect(extractImageUrls(resultJson)).toEqual(["https://a.png"]);
+  });
+
+  it("falls back to url when the list is empty", () => {
+    const resultJson = { resultUrls: [], url: "https://a.png" };
+    expect(extractImageUrls(resultJson)).toEqual(["https://a.png"]);
+    expect(resultJson.resultUrls).toEqual([]);
+  });
+
+  it("rejects invalid JSON strings", () => {
+    expect(() => extractImageUrls("{not json")).toThrow("invalid resultJson");
+  });
+
+  it.each([null, undefined, 42])("rejects a %s resultJson", (raw) => {
+    expect(() => extractImageUrls(raw)).toThrow("unexpected resultJson type");
+  });
+
+  it("lists the keys it saw when no URL is present", () => {
+    expect(() => extractImageUrls({ status: "ok", meta: {} })).toThrow("Keys: status, meta");
+  });
+});
+
+describe("extractVideoUrl", () => {
+  it.each([
+    ["video_url", { video_url: "https://v.mp4" }],
+    ["videoUrl", { videoUrl: "https://v.mp4" }],
+    ["url", { url: "https://v.mp4" }],
+    ["resultUrls", { resultUrls: ["https://v.mp4"] }],
+    ["result_urls", { result_urls: ["https://v.mp4"] }],
+  ])("reads the %s field", (_, resultJson) => {
+    expect(extractVideoUrl(resultJson)).toBe("https://v.mp4");
+    expect(extractVideoUrl(JSON.stringify(resultJson))).toBe("https://v.mp4");
+  });
+
+  it("throws when no URL is present", () => {
+    expect(() => extractVideoUrl({ resultUrls: [] })).toThrow("No video URL found");
+  });
+});
+
+describe("KieProvider.pollVideoTask", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  function stubRecordInfo(data: unknown) {
+    vi.stubEnv("KIE_KEY", "test-key");
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ code: 200, data })));
+  }
+
+  it("returns the video URL of a finished task", async () => {
+    stubRecordInfo({ state: "success", resultJson: '{"resultUrls":["https://v.mp4"]}' });
+    await expect(new KieProvider().pollVideoTask("t1")).resolves.toEqual({
+      taskId: "t1",
+      state: "success",
+      videoUrl: "https://v.mp4",
+    });
+  });
+
+  it("reports unusable resultJson as an error state instead of throwing", async () => {
+    stubRecordInfo({ state: "success", resultJson: "not json" });
+    const status = await new KieProvider().pollVideoTask("t1");
+    expect(status.state).toBe("error");
+    expect(status.error).toContain("invalid resultJson");
+  });
+
+  it("passes through the failure message", async () => {
+    stubRecordInfo({ state: "fail", failMsg: "Content policy violation", failCode: 400 });
+    await expect(new KieProvider().pollVideoTask("t1")).resolves.toEqual({
+      taskId: "t1",
+      state: "fail",
+      error: "Content policy violation (code: 400)",
+    });
+  });
+
+  it("treats a missing state as waiting", async () => {
+    stubRecordInfo({});
+    await expect(new KieProvider().pollVideoTask("t1")).resolves.toEqual({ taskId: "t1", state: "waiting" });
+  });
+});
+
+describe("KieProvider image tasks", () => {
+  const input = { prompt: "a lighthouse at dusk", resolution: "1K", aspectRatio: "1:1", outputFormat: "png" };
+  const createTask = vi.fn(async () => Response.json({ code: 200, data: { taskId: "t-slow" } }));
+
+  function stubKie(recordInfo: unknown) {
+    vi.useFakeTimers();
+    vi.stubEnv("KIE_KEY", "test-key");
+    createTask.mockClear();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url.endsWith("/createTask") ? createTask() : Response.json({ code: 200, data: recordInfo })
+      )
+    );
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("times out with the task id, since the task may still finish", async () => {
+    stubKie({ state: "generating" });
+    const result = expect(new KieProvider().generateImage(input)).rejects.toMatchObject({
+      category: "timeout",
+      requestId: "t-slow",
+    });
+    await vi.runAllTimersAsync();
+    await result;
+  });
+
+  it("resumes the original task instead of creating another", async () => {
+    stubKie({ state: "success", resultJson: '{"resultUrls":["https://a.png"]}' });
+    const result = new KieProvider().resumeImage("t-slow");
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toMatchObject({ images: [{ url: "https://a.png" }], requestId: "t-slow" });
+    expect(createTask).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,7 @@
-import { KIE_MODEL_TEXT_TO_IMAGE, KIE_MODEL_IMAGE_EDIT, KIE_MODEL_IMAGE_TO_VIDEO_PRO, KIE_POLL_INTERVAL_MS, KIE_MAX_POLL_ATTEMPTS } from "@/lib/constants";
-import type { ImageProvider, ProviderGenerateInput, ProviderGenerateResult, OnStatusUpdate, VideoGenerateInput, VideoGenerateResult, VideoTaskStatus } from "./types";
+import { KIE_POLL_INTERVAL_MS, KIE_MAX_POLL_ATTEMPTS, getImageModel, getImageModels, getVideoModel } from "@/lib/constants";
+import { ProviderError, categorizeMessage, categorizeStatus } from "./errors";
+import { videoRequest } from "./video-input";
+import type { ImageProvider, ProviderCallback, ProviderGenerateInput, ProviderGenerateResult, OnStatusUpdate, VideoGenerateInput, VideoGenerateResult, VideoProvider, VideoTaskStatus } from "./types";
 
 const KIE_API_BASE = "https://api.kie.ai/api/v1/jobs";
 
@@ -13,22 +15,65 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function createTaskError(message: string, status: number, detail: string): ProviderError {
+  return new ProviderError(message, { category: categorizeStatus(status, detail), provider: "kie", code: status });
+}
+
+/** Task-level failure: the message (e.g. a policy rejection) says more than failCode. */
+function taskFailedError(prefix: string, data: { failMsg?: string; failCode?: string | number }): ProviderError {
+  const failMsg = data.failMsg ?? "Unknown error";
+  const fromMessage = categorizeMessage(failMsg);
+  const status = Number(data.failCode);
+  return new ProviderError(`${prefix}: ${failMsg} (code: ${data.failCode})`, {
+    category: fromMessage !== "unknown" || !Number.isFinite(status) ? fromMessage : categorizeStatus(status, failMsg),
+    provider: "kie",
+    code: data.failCode,
+  });
+}
+
 function mapOutputFormat(format: string): string {
   if (format === "webp") return "png";
   if (format === "jpeg") return "jpg";
   return format;
 }
 
+/** resultJson can be either a JSON string or an already-parsed object */
 function parseResultJson(raw: unknown): Record<string, unknown> {
   if (typeof raw === "string") {
-    return JSON.parse(raw);
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new Error(`Kie AI returned invalid resultJson: ${raw.slice(0, 200)}`);
+    }
   } else if (raw && typeof raw === "object") {
     return raw as Record<string, unknown>;
   }
-  throw new Error(`Unexpected resultJson type: ${typeof raw}`);
+  throw new Error(`Kie AI returned unexpected resultJson type: ${typeof raw}`);
+}
+
+/** Result URLs of a finished image task. Kie has used several field names for them. */
+export function extractImageUrls(resultJson: unknown): string[] {
+  const data = parseResultJson(resultJson);
+  const urls: string[] = [
+    ...((data.resultUrls as string[]) ??
+      (data.result_urls as string[]) ??
+      (data.urls as string[]) ??
+      (data.images as string[]) ??
+      []),
+  ];
+
+  // If resultData has an image/url field directly (single result)
+  if (urls.length === 0 && typeof data.url === "string") {
+    urls.push(data.url);
+  }
+
+  if (urls.length === 0) {
+    throw new Error(`Kie AI returned success but no result URLs. Keys: ${Object.keys(data).join(", ")}`);
+  }
+  return urls;
 }
 
-function extractVideoUrl(resultJson: unknown): string {
+export function extractVideoUrl(resultJson: unknown): string {
   const data = parseResultJson(resultJson);
   const url =
     (data.video_url as string) ??
@@ -43,52 +88,104 @@ function extractVideoUrl(resultJson: unknown): string {
   return url;
 }
 
-export class KieProvider implements ImageProvider {
+/** Model and input of an image task. Reference images route to an edit-capable model. */
+function imageTask(input: ProviderGenerateInput): { model: string; input: Record<string, unknown> } {
+  if (input.maskUrl) {
+    throw new ProviderError("Kie AI has no inpainting model", { category: "invalid_input", provider: "kie" });
+  }
+  const imageUrls = input.referenceImageUrls ?? [];
+  let model = getImageModel("kie", input.model);
+
+  if (imageUrls.length > 0) {
+    if (!model.editEndpoint) {
+      model = getImageModels("kie").find((m) => m.editEndpoint) ?? model;
+    }
+    return {
+      model: model.editEndpoint!,
+      input: { prompt: input.prompt, image_urls: imageUrls, output_format: mapOutputFormat(input.outputFormat) },
+    };
+  }
+
+  const kieInput: Record<string, unknown> = {
+    prompt: input.prompt,
+    [model.aspectRatioParam ?? "aspect_ratio"]: input.aspectRatio,
+    output_format: mapOutputFormat(input.outputFormat),
+  };
+  if (model.resolutions.length > 1) {
+    kieInput.resolution = input.resolution;
+  }
+  return { model: model.endpoint, input: kieInput };
+}
+
+function imageResult(urls: string[], taskId: string): ProviderGenerateResult {
+  return {
+    images: urls.map((url) => ({
+      url,
+      contentType: "image/png",
+      width: 0,
+      height: 0,
+    })),
+    requestId: taskId,
+  };
+}
+
+export class KieProvider implements ImageProvider, VideoProvider {
   async generateImage(
     input: ProviderGenerateInput,
     onStatusUpdate?: OnStatusUpdate
   ): Promise<ProviderGenerateResult> {
-    // If reference images exist, route to edit model
-    if (input.referenceImageUrls && input.referenceImageUrls.length > 0) {
-      return this.editImage(
-        { ...input, imageUrls: input.referenceImageUrls },
-        onStatusUpdate
-      );
-    }
-
-    const kieInput: Record<string, unknown> = {
-      prompt: input.prompt,
-      resolution: input.resolution,
-      aspect_ratio: input.aspectRatio,
-      output_format: mapOutputFormat(input.outputFormat),
-    };
-
-    return this.createAndPoll(KIE_MODEL_TEXT_TO_IMAGE, kieInput, onStatusUpdate);
+    const task = imageTask(input);
+    return this.createAndPoll(task.model, task.input, onStatusUpdate);
   }
 
   async editImage(
     input: ProviderGenerateInput & { imageUrls: string[] },
     onStatusUpdate?: OnStatusUpdate
   ): Promise<ProviderGenerateResult> {
-    const kieInput: Record<string, unknown> = {
-      prompt: input.prompt,
-      image_urls: input.imageUrls,
-      output_format: mapOutputFormat(input.outputFormat),
+    return this.generateImage({ ...input, referenceImageUrls: input.imageUrls }, onStatusUpdate);
+  }
+
+  /** Kie bills a task once it is created, so a retry keeps polling the original task. */
+  async resumeImage(taskId: string, onStatusUpdate?: OnStatusUpdate): Promise<ProviderGenerateResult> {
+    return this.pollImageTask(taskId, onStatusUpdate);
+  }
+
+  /** Create an image task whose result Kie POSTs to `callbackUrl`. */
+  async submitImage(input: ProviderGenerateInput, callbackUrl: string): Promise<{ requestId: string }> {
+    const task = imageTask(input);
+    return { requestId: await this.createTask(task.model, task.input, callbackUrl) };
+  }
+
+  /** Kie posts the same `{ code, msg, data }` shape as recordInfo. */
+  parseCallback(body: unknown): ProviderCallback {
+    const { code, msg, data } = (body ?? {}) as {
+      code?: number;
+      msg?: string;
+      data?: { taskId?: string; state?: string; resultJson?: unknown; failMsg?: string; failCode?: string | number };
     };
+    if (!data?.taskId) {
+      throw new Error("Kie AI callback has no taskId");
+    }
+    const taskId = data.taskId;
 
-    return this.createAndPoll(KIE_MODEL_IMAGE_EDIT, kieInput, onStatusUpdate);
+    if (code !== 200 || data.state === "fail") {
+      return {
+        requestId: taskId,
+        error: taskFailedError("Kie AI task failed", { failMsg: data.failMsg ?? msg, failCode: data.failCode ?? code }),
+      };
+    }
+    try {
+      return { requestId: taskId, result: imageResult(extractImageUrls(data.resultJson), taskId) };
+    } catch (error) {
+      return { requestId: taskId, error: error as Error };
+    }
   }
 
   async generateVideo(
     input: VideoGenerateInput,
     onStatusUpdate?: OnStatusUpdate
   ): Promise<VideoGenerateResult> {
-    const kieInput: Record<string, unknown> = {
-      prompt: input.prompt,
-      image_url: input.imageUrl,
-      duration: input.duration,
-      resolution: input.resolution,
-    };
+    const request = videoRequest(getVideoModel(input.model), input);
 
     const createRes = await fetch(`${KIE_API_BASE}/createTask`, {
       method: "POST",
@@ -96,17 +193,17 @@ export class KieProvider implements ImageProvider {
         Authorization: `Bearer ${getKieKey()}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ model: input.model || KIE_MODEL_IMAGE_TO_VIDEO_PRO, input: kieInput }),
+      body: JSON.stringify({ model: request.endpoint, input: request.input }),
     });
 
     if (!createRes.ok) {
       const errText = await createRes.text();
-      throw new Error(`Kie AI video createTask failed (${createRes.status}): ${errText}`);
+      throw createTaskError(`Kie AI video createTask failed (${createRes.status}): ${errText}`, createRes.status, errText);
     }
 
     const createData = await createRes.json();
     if (createData.code !== 200) {
-      throw new Error(`Kie AI video createTask error: ${createData.msg}`);
+      throw createTaskError(`Kie AI video createTask error: ${createData.msg}`, createData.code, createData.msg ?? "");
     }
 
     const taskId = createData.data.taskId as string;
@@ -128,7 +225,7 @@ export class KieProvider implements ImageProvider {
         consecutiveErrors++;
         console.warn(`[Kie] Video poll error for ${taskId}:`, fetchErr);
         if (consecutiveErrors >= 5) {
-          throw new Error(`Kie AI video polling failed: 5 consecutive network errors`);
+          throw new ProviderError(`Kie AI video polling failed: 5 consecutive network errors`, { category: "network", provider: "kie" });
         }
         continue;
       }
@@ -137,7 +234,7 @@ export class KieProvider implements ImageProvider {
         consecutiveErrors++;
         console.warn(`[Kie] Video poll HTTP ${pollRes.status} for ${taskId}`);
         if (consecutiveErrors >= 5) {
-          throw new Error(`Kie AI video polling failed: 5 consecutive HTTP errors`);
+          throw createTaskError(`Kie AI video polling failed: 5 consecutive HTTP errors`, pollRes.status, "");
         }
         continue;
       }
@@ -153,25 +250,19 @@ export class KieProvider implements ImageProvider {
         console.log(`[Kie] Video task ${taskId} completed`);
         return { videoUrl, taskId };
       } else if (state === "fail") {
-        throw new Error(
-          `Kie AI video failed: ${pollData.data.failMsg ?? "Unknown error"} (code: ${pollData.data.failCode})`
-        );
+        throw taskFailedError("Kie AI video failed", pollData.data);
       }
     }
 
-    throw new Error(
-      `Kie AI video timed out after ${(KIE_MAX_POLL_ATTEMPTS * KIE_POLL_INTERVAL_MS) / 1000}s`
+    throw new ProviderError(
+      `Kie AI video timed out after ${(KIE_MAX_POLL_ATTEMPTS * KIE_POLL_INTERVAL_MS) / 1000}s`,
+      { category: "timeout", provider: "kie" }
     );
   }
 
   /** Create a video task on Kie AI without polling. Returns taskId immediately. */
   async createVideoTask(input: VideoGenerateInput): Promise<{ taskId: string }> {
-    const kieInput: Record<string, unknown> = {
-      prompt: input.prompt,
-      image_url: input.imageUrl,
-      duration: input.duration,
-      resolution: input.resolution,
-    };
+    const request = videoRequest(getVideoModel(input.model), input);
 
     const createRes = await fetch(`${KIE_API_BASE}/createTask`, {
       method: "POST",
@@ -179,17 +270,17 @@ export class KieProvider implements ImageProvider {
         Authorization: `Bearer ${getKieKey()}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ model: input.model || KIE_MODEL_IMAGE_TO_VIDEO_PRO, input: kieInput }),
+      body: JSON.stringify({ model: request.endpoint, input: request.input }),
     });
 
     if (!createRes.ok) {
       const errText = await createRes.text();
-      throw new Error(`Kie AI createTask failed (${createRes.status}): ${errText}`);
+      throw createTaskError(`Kie AI createTask failed (${createRes.status}): ${errText}`, createRes.status, errText);
     }
 
     const createData = await createRes.json();
     if (createData.code !== 200) {
-      throw new Error(`Kie AI createTask error: ${createData.msg}`);
+      throw createTaskError(`Kie AI createTask error: ${createData.msg}`, createData.code, createData.msg ?? "");
     }
 
     const taskId = createData.data.taskId as string;
@@ -235,34 +326,47 @@ export class KieProvider implements ImageProvider {
     return { taskId, state: (state as VideoTaskStatus["state"]) || "waiting" };
   }
 
-  private async createAndPoll(
-    model: string,
-    input: Record<string, unknown>,
-    onStatusUpdate?: OnStatusUpdate
-  ): Promise<ProviderGenerateResult> {
+  private async createTask(model: string, input: Record<string, unknown>, callBackUrl?: string): Promise<string> {
     const createRes = await fetch(`${KIE_API_BASE}/createTask`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${getKieKey()}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ model, input }),
+      body: JSON.stringify({ model, input, ...(callBackUrl && { callBackUrl }) }),
     });
 
     if (!createRes.ok) {
       const errText = await createRes.text();
-      throw new Error(`Kie AI createTask failed (${createRes.status}): ${errText}`);
+      throw createTaskError(`Kie AI createTask failed (${createRes.status}): ${errText}`, createRes.status, errText);
     }
 
     const createData = await createRes.json();
     if (createData.code !== 200) {
-      throw new Error(`Kie AI createTask error: ${createData.msg}`);
+      throw createTaskError(`Kie AI createTask error: ${createData.msg}`, createData.code, createData.msg ?? "");
     }
 
     const taskId = createData.data.taskId as string;
     console.log(`[Kie] Task created: ${taskId} for model ${model}`);
+    return taskId;
+  }
+
+  private async createAndPoll(
+    model: string,
+    input: Record<string, unknown>,
+    onStatusUpdate?: OnStatusUpdate
+  ): Promise<ProviderGenerateResult> {
+    const taskId = await this.createTask(model, input);
     onStatusUpdate?.("queued");
+    return this.pollImageTask(taskId, onStatusUpdate);
+  }
 
+  /**
+   * Poll an image task until it finishes. When polling gives up (network,
+   * HTTP errors, timeout) the task may still complete, so those errors carry
+   * its id for resumeImage.
+   */
+  private async pollImageTask(taskId: string, onStatusUpdate?: OnStatusUpdate): Promise<ProviderGenerateResult> {
     let consecutiveErrors = 0;
 
     for (let attempt = 0; attempt < KIE_MAX_POLL_ATTEMPTS; attempt++) {
@@ -282,7 +386,11 @@ export class KieProvider implements ImageProvider {
         consecutiveErrors++;
         console.warn(`[Kie] Poll fetch error for ${taskId} (attempt ${attempt}):`, fetchErr);
         if (consecutiveErrors >= 5) {
-          throw new Error(`Kie AI polling failed: 5 consecutive network errors for task ${taskId}`);
+          throw new ProviderError(`Kie AI polling failed: 5 consecutive network errors for task ${taskId}`, {
+            category: "network",
+            provider: "kie",
+            requestId: taskId,
+          });
         }
         continue;
       }
@@ -291,7 +399,12 @@ export class KieProvider implements ImageProvider {
         consecutiveErrors++;
         console.warn(`[Kie] Poll HTTP ${pollRes.status} for ${taskId} (attempt ${attempt})`);
         if (consecutiveErrors >= 5) {
-          throw new Error(`Kie AI polling failed: 5 consecutive HTTP errors (last: ${pollRes.status})`);
+          throw new ProviderError(`Kie AI polling failed: 5 consecutive HTTP errors (last: ${pollRes.status})`, {
+            category: categorizeStatus(pollRes.status),
+            provider: "kie",
+            code: pollRes.status,
+            requestId: taskId,
+          });
         }
         continue;
       }
@@ -303,62 +416,25 @@ export class KieProvider implements ImageProvider {
       if (state === "generating") {
         onStatusUpdate?.("processing");
       } else if (state === "success") {
-        // resultJson can be either a JSON string or an already-parsed object
-        let resultData: Record<string, unknown>;
-        const raw = pollData.data.resultJson;
-        if (typeof raw === "string") {
-          try {
-            resultData = JSON.parse(raw);
-          } catch {
-            console.error(`[Kie] Failed to parse resultJson string for ${taskId}:`, raw);
-            throw new Error(`Kie AI returned invalid resultJson for task ${taskId}`);
-          }
-        } else if (raw && typeof raw === "object") {
-          resultData = raw as Record<string, unknown>;
-        } else {
-          console.error(`[Kie] Unexpected resultJson type for ${taskId}:`, typeof raw, raw);
-          throw new Error(`Kie AI returned unexpected resultJson type: ${typeof raw}`);
-        }
-
-        // Try multiple possible field names for the result URLs
-        const urls: string[] =
-          (resultData.resultUrls as string[]) ??
-          (resultData.result_urls as string[]) ??
-          (resultData.urls as string[]) ??
-          (resultData.images as string[]) ??
-          [];
-
-        // If resultData has an image/url field directly (single result)
-        if (urls.length === 0 && typeof resultData.url === "string") {
-          urls.push(resultData.url as string);
-        }
-
-        if (urls.length === 0) {
-          console.error(`[Kie] No result URLs found in resultJson for ${taskId}:`, JSON.stringify(resultData));
-          throw new Error(`Kie AI returned success but no result URLs. Keys: ${Object.keys(resultData).join(", ")}`);
+        let urls: string[];
+        try {
+          urls = extractImageUrls(pollData.data.resultJson);
+        } catch (err) {
+          console.error(`[Kie] Unusable resultJson for ${taskId}:`, pollData.data.resultJson);
+          throw err;
         }
 
         console.log(`[Kie] Task ${taskId} completed with ${urls.length} image(s)`);
-
-        return {
-          images: urls.map((url) => ({
-            url,
-            contentType: "image/png",
-            width: 0,
-            height: 0,
-          })),
-          requestId: taskId,
-        };
+        return imageResult(urls, taskId);
       } else if (state === "fail") {
-        throw new Error(
-          `Kie AI task failed: ${pollData.data.failMsg ?? "Unknown error"} (code: ${pollData.data.failCode})`
-        );
+        throw taskFailedError("Kie AI task failed", pollData.data);
       }
       // "waiting" or "queuing" — keep polling
     }
 
-    throw new Error(
-      `Kie AI task timed out after ${(KIE_MAX_POLL_ATTEMPTS * KIE_POLL_INTERVAL_MS) / 1000}s`
+    throw new ProviderError(
+      `Kie AI task ${taskId} timed out after ${(KIE_MAX_POLL_ATTEMPTS * KIE_POLL_INTERVAL_MS) / 1000}s`,
+      { category: "timeout", provider: "kie", requestId: taskId }
     );
   }
 }
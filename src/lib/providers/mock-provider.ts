@@ -0,0 +1,178 @@
+import { MOCK_DEFAULT_DELAY_MS, MOCK_VIDEO_DURATION_MS, MOCK_VIDEO_URL } from "@/lib/constants";
+import { ProviderError } from "./errors";
+import type { ProviderErrorCategory } from "@/types/generation";
+import type { ImageProvider, ProviderGenerateInput, ProviderGenerateResult, OnStatusUpdate, VideoGenerateInput, VideoProvider, VideoTaskStatus } from "./types";
+
+const ERROR_CATEGORIES: ProviderErrorCategory[] = [
+  "content_policy", "rate_limited", "quota_exhausted", "timeout", "invalid_input", "upstream_5xx", "network", "unknown",
+];
+
+// `[mock:fail=rate_limited]` in a prompt forces that failure (useful in tests)
+const FORCED_FAILURE_PATTERN = /\[mock:fail=(\w+)\]/;
+
+const BASE_SIZES: Record<string, number> = { "1K": 1024, "2K": 2048, "4K": 4096 };
+
+interface MockConfig {
+  delayMs: number;
+  failureRate: number;
+  errorCategories: ProviderErrorCategory[];
+}
+
+/**
+ * Read mock behaviour from env on every call so tests can change it at runtime:
+ * MOCK_DELAY_MS, MOCK_FAILURE_RATE (0-1), MOCK_ERROR_TYPES (comma-separated categories).
+ */
+function getMockConfig(): MockConfig {
+  const delayMs = Number(process.env.MOCK_DELAY_MS ?? MOCK_DEFAULT_DELAY_MS);
+  const failureRate = Number(process.env.MOCK_FAILURE_RATE ?? 0);
+  const errorCategories = (process.env.MOCK_ERROR_TYPES ?? "upstream_5xx")
+    .split(",")
+    .map((c) => c.trim())
+    .filter((c): c is ProviderErrorCategory => (ERROR_CATEGORIES as string[]).includes(c));
+  return {
+    delayMs: Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : MOCK_DEFAULT_DELAY_MS,
+    failureRate: Number.isFinite(failureRate) ? Math.min(Math.max(failureRate, 0), 1) : 0,
+    errorCategories: errorCategories.length > 0 ? errorCategories : ["upstream_5xx"],
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** FNV-1a, so the same prompt always gets the same placeholder */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function dimensionsFor(resolution: string, aspectRatio: string): { width: number; height: number } {
+  const base = BASE_SIZES[resolution] ?? 1024;
+  const [w, h] = aspectRatio === "auto" ? [1, 1] : aspectRatio.split(":").map(Number);
+  if (!w || !h) return { width: base, height: base };
+  return w >= h
+    ? { width: base, height: Math.round((base * h) / w) }
+    : { width: Math.round((base * w) / h), height: base };
+}
+
+/** Deterministic SVG placeholder (as a data URL) labelled with the prompt. */
+function placeholderImage(prompt: string, seed: number, width: number, height: number): string {
+  const hue = (hashString(prompt) + seed) % 360;
+  const label = escapeXml(prompt.length > 80 ? `${prompt.slice(0, 77)}...` : prompt);
+  const fontSize = Math.round(Math.min(width, height) / 24);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},70%,60%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,35%)"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="100%" height="100%" fill="url(#g)"/>` +
+    `<text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle">${label}</text>` +
+    `<text x="50%" y="${height - fontSize}" fill="white" opacity="0.7" font-family="monospace" font-size="${Math.round(fontSize * 0.6)}" text-anchor="middle">MOCK · seed ${seed}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+/** Decide whether this call fails: forced by the prompt, or at the configured rate. */
+function pickFailure(prompt: string, config: MockConfig): ProviderErrorCategory | null {
+  const forced = prompt.match(FORCED_FAILURE_PATTERN)?.[1];
+  if (forced) {
+    return (ERROR_CATEGORIES as string[]).includes(forced) ? (forced as ProviderErrorCategory) : "unknown";
+  }
+  if (Math.random() < config.failureRate) {
+    return config.errorCategories[Math.floor(Math.random() * config.errorCategories.length)];
+  }
+  return null;
+}
+
+function mockError(category: ProviderErrorCategory): ProviderError {
+  return new ProviderError(`Mock provider simulated failure: ${category}`, { category, provider: "mock" });
+}
+
+/**
+ * Offline stand-in for Fal/Kie. Images are deterministic SVG placeholders,
+ * videos point at MOCK_VIDEO_URL. Video task state is encoded in the task id
+ * (creation time + outcome), so polling works across serverless invocations.
+ */
+export class MockProvider implements ImageProvider, VideoProvider {
+  async generateImage(
+    input: ProviderGenerateInput,
+    onStatusUpdate?: OnStatusUpdate
+  ): Promise<ProviderGenerateResult> {
+    const config = getMockConfig();
+
+    onStatusUpdate?.("queued");
+    await sleep(config.delayMs / 2);
+    onStatusUpdate?.("processing");
+    await sleep(config.delayMs / 2);
+
+    const failure = pickFailure(input.prompt, config);
+    if (failure) throw mockError(failure);
+
+    const { width, height } = dimensionsFor(input.resolution, input.aspectRatio);
+    const seed = input.seed ?? hashString(input.prompt) % 100000;
+    const count = input.numImages ?? 1;
+
+    return {
+      images: Array.from({ length: count }, (_, i) => ({
+        url: placeholderImage(input.prompt, seed + i, width, height),
+        contentType: "image/svg+xml",
+        width,
+        height,
+      })),
+      seed,
+      requestId: `mock-${crypto.randomUUID()}`,
+    };
+  }
+
+  async editImage(
+    input: ProviderGenerateInput & { imageUrls: string[] },
+    onStatusUpdate?: OnStatusUpdate
+  ): Promise<ProviderGenerateResult> {
+    const mode = input.maskUrl ? "inpaint" : "edit";
+    return this.generateImage({ ...input, prompt: `[${mode}] ${input.prompt}` }, onStatusUpdate);
+  }
+
+  /** Returns the input unchanged after the usual delay. (Upscaling is left to the local fallback.) */
+  async removeBackground(imageUrl: string): Promise<ProviderGenerateResult> {
+    await sleep(getMockConfig().delayMs);
+    return {
+      images: [{ url: imageUrl, contentType: "image/png", width: 1024, height: 1024 }],
+      requestId: `mock-${crypto.randomUUID()}`,
+    };
+  }
+
+  async createVideoTask(input: VideoGenerateInput): Promise<{ taskId: string }> {
+    const config = getMockConfig();
+    await sleep(Math.min(config.delayMs, 500));
+    const failure = pickFailure(input.prompt, config);
+    return { taskId: `mock-${Date.now()}-${failure ?? "ok"}-${hashString(input.imageUrl ?? input.prompt).toString(36)}` };
+  }
+
+  async pollVideoTask(taskId: string): Promise<VideoTaskStatus> {
+    const [, createdAt, outcome] = taskId.split("-");
+    const elapsed = Date.now() - Number(createdAt);
+    if (!Number.isFinite(elapsed)) {
+      return { taskId, state: "error", error: "Invalid mock task id" };
+    }
+
+    if (elapsed < MOCK_VIDEO_DURATION_MS / 3) return { taskId, state: "queuing" };
+    if (elapsed < MOCK_VIDEO_DURATION_MS) return { taskId, state: "generating" };
+    if (outcome !== "ok") {
+      return { taskId, state: "fail", error: `Mock provider simulated failure: ${outcome}` };
+    }
+    return { taskId, state: "success", videoUrl: process.env.MOCK_VIDEO_URL || MOCK_VIDEO_URL };
+  }
+}
+
+/** Mock video task ids are recognisable, so polling can route them without extra state. */
+export function isMockTaskId(taskId: string): boolean {
+  return taskId.startsWith("mock-");
+}
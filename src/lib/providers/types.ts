@@ -1,4 +1,8 @@
+import type { VideoTaskState } from "@/types/video";
+
 export interface ProviderGenerateInput {
+  /** Model id within the provider (defaults to the provider's default model) */
+  model?: string;
   prompt: string;
   resolution: string;
   aspectRatio: string;
@@ -8,6 +12,8 @@ export interface ProviderGenerateInput {
   seed?: number;
   enableWebSearch?: boolean;
   referenceImageUrls?: string[];
+  /** Inpainting mask for the first image: white areas are repainted, black kept */
+  maskUrl?: string;
 }
 
 export interface ProviderGenerateResult {
@@ -23,6 +29,13 @@ export interface ProviderGenerateResult {
 
 export type OnStatusUpdate = (status: "queued" | "processing") => void;
 
+/** Outcome reported by a provider's completion callback. */
+export interface ProviderCallback {
+  requestId: string;
+  result?: ProviderGenerateResult;
+  error?: Error;
+}
+
 export interface ImageProvider {
   generateImage(
     input: ProviderGenerateInput,
@@ -33,15 +46,44 @@ export interface ImageProvider {
     input: ProviderGenerateInput & { imageUrls: string[] },
     onStatusUpdate?: OnStatusUpdate
   ): Promise<ProviderGenerateResult>;
+
+  /**
+   * Start a generation whose result is POSTed to `callbackUrl` instead of
+   * awaited. Only providers with completion callbacks implement this.
+   */
+  submitImage?(input: ProviderGenerateInput, callbackUrl: string): Promise<{ requestId: string }>;
+
+  /** Read the body of a (verified) completion callback. */
+  parseCallback?(body: unknown): ProviderCallback;
+
+  /**
+   * Follow a request an earlier attempt created (ProviderError.requestId)
+   * instead of submitting a new one. Providers that bill on submission
+   * implement this so a retry after a timeout isn't paid twice.
+   */
+  resumeImage?(requestId: string, onStatusUpdate?: OnStatusUpdate): Promise<ProviderGenerateResult>;
+
+  /** Upscale with the provider's model. Without one, post-processing upscales locally. */
+  upscaleImage?(imageUrl: string, scale: number): Promise<ProviderGenerateResult>;
+
+  /** Cut out the subject onto a transparent background. */
+  removeBackground?(imageUrl: string): Promise<ProviderGenerateResult>;
 }
 
-// --- Video generation types (Kie AI only) ---
+// --- Video generation types ---
 
 export interface VideoGenerateInput {
   prompt: string;
-  imageUrl: string;
-  duration: "6" | "10";
-  resolution: "768P" | "1080P";
+  /** Source image to animate; without one the model's text-to-video variant is used */
+  imageUrl?: string;
+  /** Last frame; only for models with an `endImageParam` */
+  endImageUrl?: string;
+  /** Intermediate keyframes in order; only for models with `keyframes` */
+  keyframeUrls?: string[];
+  duration: string;
+  resolution: string;
+  aspectRatio?: string;
+  /** Video model id (see VIDEO_MODELS); defaults to the first model */
   model?: string;
 }
 
@@ -52,7 +94,16 @@ export interface VideoGenerateResult {
 
 export interface VideoTaskStatus {
   taskId: string;
-  state: "waiting" | "queuing" | "generating" | "success" | "fail" | "error";
+  state: VideoTaskState;
   videoUrl?: string;
   error?: string;
 }
+
+/** Image-to-video on one provider. Models and their capabilities are declared in VIDEO_MODELS. */
+export interface VideoProvider {
+  /** Start a task and return its id without waiting for the video. */
+  createVideoTask(input: VideoGenerateInput): Promise<{ taskId: string }>;
+
+  /** Current state of a task. Failed polls resolve with state "error" rather than throwing. */
+  pollVideoTask(taskId: string): Promise<VideoTaskStatus>;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getVideoModel, KIE_MODEL_WAN_TURBO_IMAGE_TO_VIDEO, KIE_MODEL_WAN_TURBO_TEXT_TO_VIDEO } from "@/lib/constants";
+import { videoRequest } from "./video-input";
+
+describe("videoRequest", () => {
+  const wan = getVideoModel("wan-2-2-turbo");
+
+  it("animates the source image when there is one", () => {
+    const request = videoRequest(wan, {
+      prompt: "waves",
+      imageUrl: "https://example.com/a.png",
+      duration: "5",
+      resolution: "720p",
+      aspectRatio: "16:9",
+    });
+
+    expect(request).toEqual({
+      endpoint: KIE_MODEL_WAN_TURBO_IMAGE_TO_VIDEO,
+      // A single duration is not sent
+      input: { prompt: "waves", image_url: "https://example.com/a.png", resolution: "720p", aspect_ratio: "16:9" },
+    });
+  });
+
+  it("routes prompts without an image to the text-to-video variant", () => {
+    const request = videoRequest(wan, { prompt: "waves", duration: "5", resolution: "480p" });
+
+    expect(request.endpoint).toBe(KIE_MODEL_WAN_TURBO_TEXT_TO_VIDEO);
+    expect(request.input).not.toHaveProperty("image_url");
+  });
+
+  it("sends an end frame under the model's field name", () => {
+    const request = videoRequest(getVideoModel("hailuo-02-standard"), {
+      prompt: "morph",
+      imageUrl: "https://example.com/a.png",
+      endImageUrl: "https://example.com/b.png",
+      duration: "6",
+      resolution: "768P",
+    });
+
+    expect(request.input).toMatchObject({ image_url: "https://example.com/a.png", end_image_url: "https://example.com/b.png" });
+  });
+
+  it("caps keyframes at what the model takes and drops frames it does not", () => {
+    const keyframed = { ...wan, keyframes: { param: "keyframe_urls", max: 2 } };
+    const input = {
+      prompt: "walk",
+      imageUrl: "https://example.com/a.png",
+      endImageUrl: "https://example.com/d.png",
+      keyframeUrls: ["https://example.com/b.png", "https://example.com/c.png", "https://example.com/e.png"],
+      duration: "5",
+      resolution: "480p",
+    };
+
+    expect(videoRequest(keyframed, input).input).toMatchObject({
+      keyframe_urls: ["https://example.com/b.png", "https://example.com/c.png"],
+    });
+    expect(videoRequest(wan, input).input).not.toHaveProperty("keyframe_urls");
+    expect(Object.values(videoRequest(wan, input).input)).not.toContain("https://example.com/d.png");
+  });
+
+  it("rejects text-only requests to image-only models", () => {
+    expect(() => videoRequest(getVideoModel("kling-2-1-standard"), { prompt: "waves", duration: "5", resolution: "720P" })).toThrow(
+      expect.objectContaining({ category: "invalid_input", provider: "fal" })
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { ProviderError } from "./errors";
+import type { VideoModel } from "@/types/video";
+import type { VideoGenerateInput } from "./types";
+
+/**
+ * Endpoint and input of a video request, shared by the Kie and Fal models.
+ * Requests without a source image go to the model's text-to-video variant;
+ * end frames and keyframes use the field names the model declares.
+ * Like image models, only parameters the model offers a choice of are sent.
+ */
+export function videoRequest(model: VideoModel, input: VideoGenerateInput): { endpoint: string; input: Record<string, unknown> } {
+  const endpoint = input.imageUrl ? model.endpoint : model.textToVideoEndpoint;
+  if (!endpoint) {
+    throw new ProviderError(`${model.label} needs a source image`, { category: "invalid_input", provider: model.provider });
+  }
+
+  const body: Record<string, unknown> = { prompt: input.prompt };
+  if (input.imageUrl) {
+    body.image_url = input.imageUrl;
+  }
+  if (input.endImageUrl && model.endImageParam) {
+    body[model.endImageParam] = input.endImageUrl;
+  }
+  if (input.keyframeUrls?.length && model.keyframes) {
+    body[model.keyframes.param] = input.keyframeUrls.slice(0, model.keyframes.max);
+  }
+  if (model.durations.length > 1) {
+    body.duration = input.duration;
+  }
+  if (model.resolutions.length > 1) {
+    body.resolution = input.resolution;
+  }
+  if (model.aspectRatios.length > 0 && input.aspectRatio) {
+    body.aspect_ratio = input.aspectRatio;
+  }
+  return { endpoint, input: body };
+}
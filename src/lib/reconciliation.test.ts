@@ -0,0 +1,86 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { LogEntry } from "@/types/log";
+
+// Logs and billing are stored under <cwd>/data
+let dataRoot: string;
+let reconciliation: typeof import("./reconciliation");
+let fileUtils: typeof import("./file-utils");
+
+function makeEntry(requestId: string, overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    timestamp: "2026-03-02T10:00:00.000Z",
+    batchId: "batch-1",
+    imageIndex: 0,
+    prompt: "a cat",
+    parameters: {
+      provider: "fal",
+      resolution: "1K",
+      aspectRatio: "1:1",
+      outputFormat: "png",
+      safetyTolerance: 4,
+      numImages: 1,
+      enableWebSearch: false,
+      hasReferenceImages: false,
+    },
+    status: "completed",
+    durationMs: 1000,
+    requestId,
+    cost: 0.15 * 3.6,
+    costUsd: 0.15,
+    exchangeRate: 3.6,
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-recon-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.stubEnv("VERCEL", "");
+  vi.stubEnv("USD_TO_ILS_RATE", "3.6");
+
+  fileUtils = await import("./file-utils");
+  reconciliation = await import("./reconciliation");
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("estimatedUsd", () => {
+  it("converts entries without costUsd back from ILS", () => {
+    expect(reconciliation.estimatedUsd(makeEntry("r", { costUsd: undefined, cost: 1.8, exchangeRate: 3.6 }))).toBeCloseTo(0.5);
+  });
+});
+
+describe("buildReconciliationReport", () => {
+  it("compares matched entries and flags drift beyond the threshold", async () => {
+    await fileUtils.appendLog(makeEntry("fal-1"));
+    await fileUtils.appendLog(makeEntry("fal-2"));
+    await fileUtils.appendLog(makeEntry("fal-3"));
+    await fileUtils.appendLog(makeEntry("fal-4k", { parameters: { ...makeEntry("").parameters, resolution: "4K" }, costUsd: 0.3 }));
+    await fileUtils.appendLog(makeEntry("fal-failed", { status: "failed" }));
+    await fileUtils.saveBilledCosts("2026-03-02", [
+      { requestId: "fal-1", costUsd: 0.15 },
+      { requestId: "fal-2", costUsd: 0.16 },
+      { requestId: "fal-4k", costUsd: 0.4 },
+      { requestId: "fal-failed", costUsd: 0.15 },
+    ]);
+
+    const report = await reconciliation.buildReconciliationReport("2026-03-01", "2026-03-03");
+
+    expect(report.rows).toHaveLength(2);
+    const [fourK, oneK] = report.rows;
+    expect(fourK).toMatchObject({ resolution: "4K", count: 1, matched: 1, flagged: true });
+    expect(fourK.driftUsd).toBeCloseTo(0.1);
+    expect(oneK).toMatchObject({ resolution: "1K", count: 3, matched: 2, flagged: false });
+    expect(oneK.estimatedUsd).toBeCloseTo(0.3);
+    expect(oneK.billedUsd).toBeCloseTo(0.31);
+    expect(report.totals).toMatchObject({ count: 4, matched: 3 });
+    expect(report.exchangeRate).toMatchObject({ rate: 3.6, source: "env" });
+  });
+});
@@ -0,0 +1,105 @@
+import { getLogDates, loadBilledCosts, readLogs, saveBilledCosts } from "@/lib/file-utils";
+import { fetchFalBillingEvents } from "@/lib/fal-billing";
+import { getExchangeRate } from "@/lib/exchange-rate";
+import { RECONCILIATION_DRIFT_THRESHOLD, USD_TO_ILS } from "@/lib/constants";
+import type { BilledCost, ReconciliationReport, ReconciliationRow } from "@/types/billing";
+import type { LogEntry } from "@/types/log";
+
+/** Estimated USD of a log entry (entries written before costUsd existed are converted back from ILS). */
+export function estimatedUsd(entry: LogEntry): number {
+  return entry.costUsd ?? entry.cost / (entry.exchangeRate ?? USD_TO_ILS);
+}
+
+function nextDay(date: string): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Pull Fal billing events for the range and store the ones that match a logged
+ * request, under that entry's log date. Kie has no billing API, so its entries
+ * stay unmatched. Returns the number of matched requests, or null if Fal
+ * billing is unavailable.
+ */
+export async function syncFalBilling(from: string, to: string): Promise<number | null> {
+  const events = await fetchFalBillingEvents(`${from}T00:00:00Z`, `${nextDay(to)}T00:00:00Z`);
+  if (!events) return null;
+
+  const dateByRequestId = new Map<string, string>();
+  for (const date of getLogDates(from, to)) {
+    for (const entry of await readLogs(date)) {
+      if (entry.requestId && (entry.parameters.provider ?? "fal") === "fal") {
+        dateByRequestId.set(entry.requestId, date);
+      }
+    }
+  }
+
+  const byDate = new Map<string, BilledCost[]>();
+  for (const event of events) {
+    const date = dateByRequestId.get(event.requestId);
+    if (!date) continue;
+    byDate.set(date, [...(byDate.get(date) ?? []), event]);
+  }
+  await Promise.all(Array.from(byDate, ([date, costs]) => saveBilledCosts(date, costs)));
+  return Array.from(byDate.values()).reduce((sum, costs) => sum + costs.length, 0);
+}
+
+/** Estimated vs billed cost of completed requests, per provider/model/resolution. */
+export async function buildReconciliationReport(from: string, to: string): Promise<ReconciliationReport> {
+  const rows = new Map<string, ReconciliationRow>();
+
+  for (const date of getLogDates(from, to)) {
+    const [entries, billed] = await Promise.all([readLogs(date), loadBilledCosts(date)]);
+    for (const entry of entries) {
+      if (entry.status !== "completed") continue;
+      const provider = entry.parameters.provider ?? "fal";
+      const model = entry.parameters.model ?? "default";
+      const key = `${provider}/${model}/${entry.parameters.resolution}`;
+      const row = rows.get(key) ?? {
+        provider,
+        model,
+        resolution: entry.parameters.resolution,
+        count: 0,
+        matched: 0,
+        estimatedUsd: 0,
+        billedUsd: 0,
+        driftUsd: 0,
+        driftRatio: null,
+        flagged: false,
+      };
+      row.count++;
+      const bill = entry.requestId ? billed[entry.requestId] : undefined;
+      if (bill) {
+        row.matched++;
+        row.estimatedUsd += estimatedUsd(entry);
+        row.billedUsd += bill.costUsd;
+      }
+      rows.set(key, row);
+    }
+  }
+
+  const result = Array.from(rows.values()).map((row) => {
+    const driftUsd = row.billedUsd - row.estimatedUsd;
+    const driftRatio = row.matched > 0 && row.estimatedUsd > 0 ? driftUsd / row.estimatedUsd : null;
+    return {
+      ...row,
+      driftUsd,
+      driftRatio,
+      flagged: driftRatio !== null && Math.abs(driftRatio) > RECONCILIATION_DRIFT_THRESHOLD,
+    };
+  });
+  result.sort((a, b) => Math.abs(b.driftUsd) - Math.abs(a.driftUsd));
+
+  return {
+    from,
+    to,
+    rows: result,
+    totals: {
+      count: result.reduce((sum, r) => sum + r.count, 0),
+      matched: result.reduce((sum, r) => sum + r.matched, 0),
+      estimatedUsd: result.reduce((sum, r) => sum + r.estimatedUsd, 0),
+      billedUsd: result.reduce((sum, r) => sum + r.billedUsd, 0),
+      driftUsd: result.reduce((sum, r) => sum + r.driftUsd, 0),
+    },
+    exchangeRate: await getExchangeRate(),
+  };
+}
@@ -0,0 +1,24 @@
+import { DEFAULT_RETRY_POLICY, MAX_RETRY_ATTEMPTS } from "@/lib/constants";
+import { getErrorCategory } from "@/lib/providers/errors";
+import type { RetryPolicy } from "@/types/generation";
+
+/** Fill in missing fields (settings saved before the policy existed) and clamp attempts. */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const merged = { ...DEFAULT_RETRY_POLICY, ...policy };
+  return {
+    ...merged,
+    maxAttempts: Math.min(Math.max(Math.floor(merged.maxAttempts), 1), MAX_RETRY_ATTEMPTS),
+  };
+}
+
+/** Whether a failed attempt should be retried under the given policy. */
+export function shouldRetry(policy: RetryPolicy, attempt: number, error: unknown): boolean {
+  if (attempt >= policy.maxAttempts) return false;
+  return policy.retryOn.includes(getErrorCategory(error));
+}
+
+/** Exponential backoff before retry number `attempt` (1 = first retry), with ±20% jitter. */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.backoffMs * 2 ** (attempt - 1);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
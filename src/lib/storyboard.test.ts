@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { crossfadeOffsets, joinArgs, parseMediaInfo } from "./storyboard";
+
+describe("parseMediaInfo", () => {
+  it("reads duration and frame size from ffmpeg's input description", () => {
+    const log = [
+      "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'clip.mp4':",
+      "  Duration: 00:01:06.04, start: 0.000000, bitrate: 1205 kb/s",
+      "  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709, progressive), 1280x720 [SAR 1:1 DAR 16:9], 24 fps",
+    ].join("\n");
+
+    expect(parseMediaInfo(log)).toEqual({ duration: 66.04, width: 1280, height: 720 });
+  });
+
+  it("returns null without a video stream", () => {
+    expect(parseMediaInfo("  Duration: 00:00:03.00, start: 0.000000\n  Stream #0:0: Audio: aac, 44100 Hz")).toBeNull();
+  });
+});
+
+describe("crossfadeOffsets", () => {
+  it("starts each fade before the end of everything joined so far", () => {
+    expect(crossfadeOffsets([2, 6, 6], 0.5)).toEqual([1.5, 7]);
+  });
+
+  it("has no fades for a single segment", () => {
+    expect(crossfadeOffsets([6], 0.5)).toEqual([]);
+  });
+});
+
+describe("joinArgs", () => {
+  const segments = [
+    { file: "a.mp4", duration: 6 },
+    { file: "b.mp4", duration: 6 },
+    { file: "c.mp4", duration: 0.6 },
+  ];
+
+  const filterOf = (args: string[]) => args[args.indexOf("-filter_complex") + 1];
+
+  it("concatenates segments for cuts", () => {
+    const args = joinArgs(segments, "cut", "out.mp4");
+
+    expect(args.slice(0, 6)).toEqual(["-i", "a.mp4", "-i", "b.mp4", "-i", "c.mp4"]);
+    expect(filterOf(args)).toBe("[0:v][1:v][2:v]concat=n=3:v=1:a=0[v]");
+    expect(args.at(-1)).toBe("out.mp4");
+  });
+
+  it("chains crossfades, shortened to fit the shortest segment", () => {
+    expect(filterOf(joinArgs(segments, "crossfade", "out.mp4"))).toBe(
+      "[0:v][1:v]xfade=transition=fade:duration=0.3:offset=5.700[x1];" +
+        "[x1][2:v]xfade=transition=fade:duration=0.3:offset=11.400[v]"
+    );
+  });
+
+  it("falls back to a plain copy of a single segment", () => {
+    expect(filterOf(joinArgs(segments.slice(0, 1), "crossfade", "out.mp4"))).toBe("[0:v]concat=n=1:v=1:a=0[v]");
+  });
+});
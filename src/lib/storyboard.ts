@@ -0,0 +1,184 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import sharp from "sharp";
+import { uploadFile } from "@/lib/supabase-storage";
+import { isAllowedMediaUrl } from "@/lib/media-hosts";
+import { STORYBOARD_CROSSFADE_SECONDS, STORYBOARD_TITLE_CARD_SECONDS } from "@/lib/constants";
+import type { StoryboardClip, StoryboardTransition } from "@/types/video";
+
+const execFileAsync = promisify(execFile);
+
+/** Every segment is resampled to this rate so transitions line up. */
+const FPS = 30;
+
+// Reels are silent: clips from most models have no audio track, and title cards never do
+const ENCODE_ARGS = ["-an", "-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-pix_fmt", "yuv420p"];
+
+/** A clip or title card, re-encoded to the reel's size and frame rate. */
+export interface StoryboardSegment {
+  file: string;
+  /** Seconds */
+  duration: number;
+}
+
+export interface StoryboardResult {
+  url: string;
+  durationSec: number;
+}
+
+function ffmpegPath(): string {
+  return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+/** Run ffmpeg and return its log (stderr). */
+async function ffmpeg(args: string[]): Promise<string> {
+  try {
+    const { stderr } = await execFileAsync(ffmpegPath(), ["-hide_banner", "-y", ...args], { maxBuffer: 16 * 1024 * 1024 });
+    return stderr;
+  } catch (error) {
+    const { code, stderr } = error as NodeJS.ErrnoException & { stderr?: string };
+    if (code === "ENOENT") {
+      throw new Error(`ffmpeg not found at "${ffmpegPath()}"; install it or set FFMPEG_PATH`);
+    }
+    const lastLine = stderr?.trim().split("\n").pop();
+    throw new Error(`ffmpeg failed${lastLine ? `: ${lastLine}` : ""}`);
+  }
+}
+
+/** Duration and frame size from ffmpeg's description of an input. */
+export function parseMediaInfo(log: string): { duration: number; width: number; height: number } | null {
+  const duration = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(log);
+  const size = /Video:.*?\b(\d{2,5})x(\d{2,5})\b/.exec(log);
+  if (!duration || !size) return null;
+  return {
+    duration: Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]),
+    width: Number(size[1]),
+    height: Number(size[2]),
+  };
+}
+
+async function probe(file: string): Promise<{ duration: number; width: number; height: number }> {
+  // Decoding a single frame is enough for ffmpeg to describe the file
+  const info = parseMediaInfo(await ffmpeg(["-i", file, "-frames:v", "1", "-f", "null", "-"]));
+  if (!info) {
+    throw new Error(`Not a video: ${path.basename(file)}`);
+  }
+  return info;
+}
+
+/**
+ * Where each crossfade starts on the joined timeline. Every segment after the
+ * first fades in over the last `fade` seconds of everything before it.
+ */
+export function crossfadeOffsets(durations: number[], fade: number): number[] {
+  const offsets: number[] = [];
+  let end = durations[0] ?? 0;
+  for (const duration of durations.slice(1)) {
+    offsets.push(end - fade);
+    end += duration - fade;
+  }
+  return offsets;
+}
+
+/** ffmpeg arguments that join normalized segments, in order, into one MP4. */
+export function joinArgs(segments: StoryboardSegment[], transition: StoryboardTransition, output: string): string[] {
+  const inputs = segments.flatMap((segment) => ["-i", segment.file]);
+
+  let filter: string;
+  if (transition === "cut" || segments.length < 2) {
+    filter = `${segments.map((_, i) => `[${i}:v]`).join("")}concat=n=${segments.length}:v=1:a=0[v]`;
+  } else {
+    // A fade can't be longer than half of the shortest segment it touches
+    const fade = Math.min(STORYBOARD_CROSSFADE_SECONDS, Math.min(...segments.map((s) => s.duration)) / 2);
+    const offsets = crossfadeOffsets(segments.map((s) => s.duration), fade);
+    let previous = "[0:v]";
+    filter = offsets
+      .map((offset, i) => {
+        const label = i === offsets.length - 1 ? "[v]" : `[x${i + 1}]`;
+        const step = `${previous}[${i + 1}:v]xfade=transition=fade:duration=${fade}:offset=${offset.toFixed(3)}${label}`;
+        previous = label;
+        return step;
+      })
+      .join(";");
+  }
+
+  return [...inputs, "-filter_complex", filter, "-map", "[v]", ...ENCODE_ARGS, "-movflags", "+faststart", output];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** White text centred on black, at the reel's frame size. */
+async function renderTitleCard(title: string, width: number, height: number, file: string): Promise<void> {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="#000"/>` +
+    `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${Math.round(height / 12)}" ` +
+    `text-anchor="middle" dominant-baseline="middle">${escapeXml(title)}</text></svg>`;
+  await sharp(Buffer.from(svg)).png().toFile(file);
+}
+
+async function download(url: string, file: string): Promise<void> {
+  if (!isAllowedMediaUrl(url)) {
+    throw new Error(`Clip URL is not on an allowed host: ${url}`);
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download clip: HTTP ${response.status}`);
+  }
+  await fs.writeFile(file, Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Render clips into a single reel and store it. Every clip is scaled and
+ * letterboxed to the first clip's frame size; clips with a title get a title
+ * card before them. Rendering runs locally with ffmpeg (FFMPEG_PATH, or
+ * `ffmpeg` on the PATH).
+ */
+export async function renderStoryboard(clips: StoryboardClip[], transition: StoryboardTransition): Promise<StoryboardResult> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "storyboard-"));
+  try {
+    const sources = clips.map((_, i) => path.join(dir, `source-${i}.mp4`));
+    await Promise.all(clips.map((clip, i) => download(clip.videoUrl, sources[i])));
+
+    const first = await probe(sources[0]);
+    // H.264 needs even dimensions
+    const width = first.width - (first.width % 2);
+    const height = first.height - (first.height % 2);
+    const scale =
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${FPS},format=yuv420p`;
+
+    const segments: StoryboardSegment[] = [];
+    for (const [i, clip] of clips.entries()) {
+      const title = clip.title?.trim();
+      if (title) {
+        const card = path.join(dir, `title-${i}.png`);
+        const file = path.join(dir, `title-${i}.mp4`);
+        await renderTitleCard(title, width, height, card);
+        await ffmpeg(["-loop", "1", "-t", String(STORYBOARD_TITLE_CARD_SECONDS), "-i", card, "-vf", scale, ...ENCODE_ARGS, file]);
+        segments.push({ file, duration: STORYBOARD_TITLE_CARD_SECONDS });
+      }
+      const file = path.join(dir, `clip-${i}.mp4`);
+      await ffmpeg(["-i", sources[i], "-vf", scale, ...ENCODE_ARGS, file]);
+      segments.push({ file, duration: (await probe(file)).duration });
+    }
+
+    const output = path.join(dir, "storyboard.mp4");
+    await ffmpeg(joinArgs(segments, transition, output));
+    const { duration } = await probe(output);
+
+    // Stored like provider videos. A reel is too large to hand back inline.
+    const url = await uploadFile(new Blob([new Uint8Array(await fs.readFile(output))], { type: "video/mp4" }), "videos");
+    if (!url) {
+      throw new Error("Failed to store the storyboard reel");
+    }
+    return { url, durationSec: duration };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -37,6 +37,7 @@ function extensionFromContentType(contentType: string): string {
     "image/jpeg": "jpeg",
     "image/jpg": "jpg",
     "image/webp": "webp",
+    "image/svg+xml": "svg",
     "video/mp4": "mp4",
     "application/octet-stream": "bin",
   };
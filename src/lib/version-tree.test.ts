@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { buildVersionTree, displayedVersion, parentOf, versionLineage, type VersionNode } from "./version-tree";
+import type { BatchImage, ImageVersion } from "@/types/batch";
+
+function makeVersion(versionNumber: number, parentVersion?: number): ImageVersion {
+  return {
+    versionNumber,
+    ...(parentVersion !== undefined && { parentVersion }),
+    url: `https://example.com/v${versionNumber}.png`,
+    contentType: "image/png",
+    width: 512,
+    height: 512,
+    editPrompt: `edit ${versionNumber}`,
+    createdAt: "2026-01-02T00:00:00.000Z",
+  };
+}
+
+const shape = (nodes: VersionNode[]): unknown[] =>
+  nodes.map((node) => [node.version.versionNumber, shape(node.children)]);
+
+describe("parentOf", () => {
+  it("uses the recorded parent", () => {
+    expect(parentOf(makeVersion(4, 2))).toBe(2);
+  });
+
+  it("reads versions without a parent as a linear chain", () => {
+    expect(parentOf(makeVersion(1))).toBeUndefined();
+    expect(parentOf(makeVersion(3))).toBe(2);
+  });
+});
+
+describe("buildVersionTree", () => {
+  it("nests branches under the version they were edited from", () => {
+    const versions = [makeVersion(1), makeVersion(2, 1), makeVersion(3, 2), makeVersion(4, 1), makeVersion(5, 2)];
+
+    expect(shape(buildVersionTree(versions))).toEqual([
+      [1, [[2, [[3, []], [5, []]]], [4, []]]],
+    ]);
+  });
+
+  it("keeps legacy flat histories as a single chain", () => {
+    const versions = [makeVersion(1), makeVersion(2), makeVersion(3)];
+
+    expect(shape(buildVersionTree(versions))).toEqual([[1, [[2, [[3, []]]]]]]);
+  });
+
+  it("turns versions with a missing parent into roots", () => {
+    const versions = [makeVersion(1), makeVersion(3, 7)];
+
+    expect(shape(buildVersionTree(versions))).toEqual([[1, []], [3, []]]);
+  });
+});
+
+describe("versionLineage", () => {
+  const versions = [makeVersion(1), makeVersion(2, 1), makeVersion(3, 2), makeVersion(4, 1), makeVersion(5, 4)];
+
+  it("walks from the root to the version", () => {
+    expect(versionLineage(versions, 5)).toEqual([1, 4, 5]);
+    expect(versionLineage(versions, 3)).toEqual([1, 2, 3]);
+  });
+
+  it("is empty for an unknown version", () => {
+    expect(versionLineage(versions, 9)).toEqual([]);
+  });
+
+  it("stops on a cycle", () => {
+    expect(versionLineage([makeVersion(1, 2), makeVersion(2, 1)], 2)).toEqual([1, 2]);
+  });
+});
+
+describe("displayedVersion", () => {
+  const base = { id: "img-0", index: 0, rawPrompt: "p", fullPrompt: "p", status: "completed" } as BatchImage;
+
+  it("is the chosen version, else the latest", () => {
+    const versions = [makeVersion(1), makeVersion(2, 1), makeVersion(3, 1)];
+    expect(displayedVersion({ ...base, versions, currentVersion: 2 })).toBe(2);
+    expect(displayedVersion({ ...base, versions })).toBe(3);
+  });
+
+  it("is V1 for an image that was never edited", () => {
+    expect(displayedVersion(base)).toBe(1);
+  });
+});
@@ -0,0 +1,63 @@
+import type { BatchImage, ImageVersion } from "@/types/batch";
+
+export interface VersionNode {
+  version: ImageVersion;
+  children: VersionNode[];
+}
+
+/**
+ * Version a version was edited from. Versions saved before the graph existed
+ * carry no parent and are read as a linear chain.
+ */
+export function parentOf(version: ImageVersion): number | undefined {
+  if (version.parentVersion !== undefined) return version.parentVersion;
+  return version.versionNumber > 1 ? version.versionNumber - 1 : undefined;
+}
+
+/** Version currently displayed for an image (the latest when none was picked). */
+export function displayedVersion(image: BatchImage): number {
+  const versions = image.versions ?? [];
+  if (versions.length === 0) return 1;
+  return image.currentVersion ?? versions[versions.length - 1].versionNumber;
+}
+
+/** Number for an image's next version; the original becomes V1 on the first edit. */
+export function nextVersionNumber(image: BatchImage): number {
+  const count = image.versions?.length ?? 0;
+  return count > 0 ? count + 1 : 2;
+}
+
+/**
+ * Arrange versions into trees, children in creation order. A version whose
+ * parent is missing becomes a root of its own.
+ */
+export function buildVersionTree(versions: ImageVersion[]): VersionNode[] {
+  const nodes = new Map<number, VersionNode>();
+  for (const version of versions) nodes.set(version.versionNumber, { version, children: [] });
+
+  const roots: VersionNode[] = [];
+  for (const version of versions) {
+    const node = nodes.get(version.versionNumber)!;
+    const parentNumber = parentOf(version);
+    const parent = parentNumber !== undefined && parentNumber !== version.versionNumber ? nodes.get(parentNumber) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/** Version numbers from the root down to `versionNumber`, inclusive. */
+export function versionLineage(versions: ImageVersion[], versionNumber: number): number[] {
+  const byNumber = new Map(versions.map((v) => [v.versionNumber, v]));
+  const lineage: number[] = [];
+  let current = byNumber.get(versionNumber);
+  while (current && !lineage.includes(current.versionNumber)) {
+    lineage.unshift(current.versionNumber);
+    const parentNumber = parentOf(current);
+    current = parentNumber !== undefined ? byNumber.get(parentNumber) : undefined;
+  }
+  return lineage;
+}
@@ -0,0 +1,79 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { VideoTaskInput } from "./video-log";
+
+// Task records and logs are stored under <cwd>/data
+let dataRoot: string;
+let videoLog: typeof import("./video-log");
+let readLogs: typeof import("./file-utils").readLogs;
+
+const input: VideoTaskInput = {
+  provider: "kie",
+  batchId: "video-batch",
+  index: 2,
+  prompt: "slow zoom in",
+  imageUrl: "https://example.com/source.png",
+  duration: "6",
+  resolution: "768P",
+  model: "pro",
+  costUsd: 0.22,
+  exchangeRate: 3.6,
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-video-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.stubEnv("VERCEL", "");
+
+  videoLog = await import("./video-log");
+  ({ readLogs } = await import("./file-utils"));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("video task logging", () => {
+  it("logs submission and a single completion with the estimated cost", async () => {
+    await videoLog.recordVideoTaskCreated("task-ok", input);
+    await videoLog.recordVideoTaskStatus({ taskId: "task-ok", state: "generating" });
+    await videoLog.recordVideoTaskStatus({ taskId: "task-ok", state: "error", error: "HTTP 502" });
+    await Promise.all([
+      videoLog.recordVideoTaskStatus({ taskId: "task-ok", state: "success", videoUrl: "https://example.com/v.mp4" }),
+      videoLog.recordVideoTaskStatus({ taskId: "task-ok", state: "success", videoUrl: "https://example.com/v.mp4" }),
+    ]);
+
+    const entries = (await readLogs(today(), "video-batch")).filter((e) => e.requestId === "task-ok");
+    expect(entries.map((e) => e.status)).toEqual(["submitted", "completed"]);
+    expect(entries[0]).toMatchObject({ kind: "video", cost: 0, imageIndex: 2 });
+    expect(entries[1]).toMatchObject({
+      kind: "video",
+      costUsd: 0.22,
+      exchangeRate: 3.6,
+      resultUrl: "https://example.com/v.mp4",
+      parameters: { provider: "kie", resolution: "768P" },
+      video: { duration: "6", sourceImageUrl: "https://example.com/source.png" },
+    });
+    expect(entries[1].cost).toBeCloseTo(0.22 * 3.6);
+    expect(entries[1].video!.transitions.map((t) => t.state)).toEqual(["waiting", "generating", "success"]);
+  });
+
+  it("logs failed tasks without cost", async () => {
+    await videoLog.recordVideoTaskCreated("task-fail", input);
+    await videoLog.recordVideoTaskStatus({ taskId: "task-fail", state: "fail", error: "Content policy violation (code: 400)" });
+
+    const [, failed] = (await readLogs(today(), "video-batch")).filter((e) => e.requestId === "task-fail");
+    expect(failed).toMatchObject({ status: "failed", cost: 0, errorCategory: "content_policy" });
+  });
+
+  it("ignores tasks it never registered", async () => {
+    await videoLog.recordVideoTaskStatus({ taskId: "unknown-task", state: "success", videoUrl: "https://example.com/x.mp4" });
+    expect((await readLogs(today())).some((e) => e.requestId === "unknown-task")).toBe(false);
+  });
+});
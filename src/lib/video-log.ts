@@ -0,0 +1,149 @@
+import { appendLog, saveVideoTask, updateVideoBatch, updateVideoTask } from "@/lib/file-utils";
+import { releaseBudget } from "@/lib/budget";
+import { getVideoModel, VIDEO_TASK_FINISH_CLAIM_MS } from "@/lib/constants";
+import { categorizeMessage, getErrorCategory } from "@/lib/providers/errors";
+import type { VideoTaskStatus } from "@/lib/providers/types";
+import type { LogEntry } from "@/types/log";
+import type { VideoTask, VideoTaskState } from "@/types/video";
+
+export type VideoTaskInput = Omit<VideoTask, "taskId" | "createdAt" | "state" | "transitions">;
+
+const TERMINAL_STATES: VideoTaskState[] = ["success", "fail"];
+
+export function isTerminalVideoState(state: VideoTaskState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+function videoLogEntry(
+  task: VideoTaskInput & Partial<VideoTask>,
+  fields: Pick<LogEntry, "status" | "durationMs" | "cost"> & Partial<LogEntry>
+): LogEntry {
+  return {
+    kind: "video",
+    timestamp: new Date().toISOString(),
+    batchId: task.batchId ?? "",
+    imageIndex: task.index,
+    prompt: task.prompt,
+    parameters: {
+      provider: task.provider,
+      model: getVideoModel(task.model).endpoint,
+      resolution: task.resolution,
+      aspectRatio: task.aspectRatio ?? "source",
+      outputFormat: "mp4",
+      safetyTolerance: 0,
+      numImages: 1,
+      enableWebSearch: false,
+      hasReferenceImages: !!task.imageUrl,
+    },
+    requestId: task.taskId,
+    video: {
+      duration: task.duration,
+      sourceImageUrl: task.imageUrl,
+      transitions: task.transitions ?? [],
+    },
+    ...fields,
+  };
+}
+
+/**
+ * Register a newly created task (and add it to its batch) and log its
+ * submission, at no cost; see recordVideoTaskStatus.
+ */
+export async function recordVideoTaskCreated(taskId: string, input: VideoTaskInput): Promise<VideoTask> {
+  const createdAt = new Date().toISOString();
+  const task: VideoTask = {
+    ...input,
+    taskId,
+    createdAt,
+    state: "waiting",
+    transitions: [{ state: "waiting", at: createdAt }],
+  };
+  await saveVideoTask(task);
+  if (task.batchId) {
+    await updateVideoBatch(task.batchId, (batch) => ({
+      ...(batch ?? { batchId: task.batchId!, updatedAt: createdAt }),
+      taskIds: [...(batch?.taskIds ?? []), taskId],
+    }));
+  }
+  await appendLog(videoLogEntry(task, { status: "submitted", durationMs: 0, cost: 0 }));
+  return task;
+}
+
+/** Log a task the provider refused to create. */
+export async function recordVideoTaskRejected(input: VideoTaskInput, error: unknown): Promise<void> {
+  await appendLog(
+    videoLogEntry(input, {
+      status: "failed",
+      durationMs: 0,
+      cost: 0,
+      error: error instanceof Error ? error.message : String(error),
+      errorCategory: getErrorCategory(error),
+    })
+  );
+}
+
+/**
+ * Claim the right to finish a task: store its result, then record it. The
+ * browser and the server poller can both see a task finish, and only one of
+ * them gets the claim. A claim whose holder died expires, so another poll can
+ * take over. Returns false for finished or unregistered tasks.
+ */
+export async function claimVideoTaskFinish(taskId: string): Promise<boolean> {
+  let claimed = false;
+  await updateVideoTask(taskId, (current) => {
+    claimed = false;
+    if (!current || isTerminalVideoState(current.state)) return null;
+    if (current.finishingUntil && current.finishingUntil > Date.now()) return null;
+    claimed = true;
+    return { ...current, finishingUntil: Date.now() + VIDEO_TASK_FINISH_CLAIM_MS };
+  });
+  return claimed;
+}
+
+/** Give up a finish claim (e.g. storing the result failed), so the next poll can retry. */
+export async function releaseVideoTaskFinish(taskId: string): Promise<void> {
+  await updateVideoTask(taskId, (current) =>
+    current?.finishingUntil && !isTerminalVideoState(current.state) ? { ...current, finishingUntil: undefined } : null
+  );
+}
+
+/**
+ * Record a polled status: new states are appended to the task's transitions,
+ * and the update that moves the task to a terminal state writes the final log
+ * entry and releases the task's spend hold. Finished tasks keep their state.
+ * Kie charges for delivered videos only, so the estimated cost is logged on
+ * success. Tasks created before task records existed are ignored.
+ */
+export async function recordVideoTaskStatus(status: VideoTaskStatus): Promise<void> {
+  // "error" is a failed poll, not a task state
+  if (status.state === "error") return;
+
+  let finished = false;
+  const task = await updateVideoTask(status.taskId, (current) => {
+    finished = false;
+    if (!current || current.state === status.state || isTerminalVideoState(current.state)) return null;
+    finished = isTerminalVideoState(status.state);
+    return {
+      ...current,
+      state: status.state,
+      transitions: [...current.transitions, { state: status.state, at: new Date().toISOString() }],
+      videoUrl: status.videoUrl,
+      error: status.error,
+      finishingUntil: undefined,
+    };
+  });
+  if (!task || !finished) return;
+
+  const succeeded = status.state === "success";
+  const error = status.error ?? "Video generation failed";
+  await appendLog(
+    videoLogEntry(task, {
+      status: succeeded ? "completed" : "failed",
+      durationMs: Date.now() - new Date(task.createdAt).getTime(),
+      cost: succeeded ? task.costUsd * task.exchangeRate : 0,
+      ...(succeeded && { costUsd: task.costUsd, exchangeRate: task.exchangeRate, resultUrl: status.videoUrl }),
+      ...(!succeeded && { error, errorCategory: categorizeMessage(error) }),
+    })
+  );
+  await releaseBudget(task.reservationId);
+}
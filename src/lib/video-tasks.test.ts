@@ -0,0 +1,123 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { VideoTaskInput } from "./video-log";
+
+// Task records and logs are stored under <cwd>/data
+let dataRoot: string;
+let videoTasks: typeof import("./video-tasks");
+let videoLog: typeof import("./video-log");
+let fileUtils: typeof import("./file-utils");
+
+const fetchMock = vi.fn<typeof fetch>(async () => new Response("not found", { status: 404 }));
+
+function input(index: number, batchId = "video-batch"): VideoTaskInput {
+  return {
+    provider: "mock",
+    batchId,
+    index,
+    prompt: `shot ${index}`,
+    imageUrl: `https://example.com/${index}.png`,
+    duration: "6",
+    resolution: "768P",
+    model: "pro",
+    costUsd: 0,
+    exchangeRate: 3.6,
+  };
+}
+
+/** Mock task ids encode their creation time; an old one has already finished. */
+function mockTaskId(outcome: string, ageMs: number): string {
+  return `mock-${Date.now() - ageMs}-${outcome}-${Math.random().toString(36).slice(2)}`;
+}
+
+beforeAll(async () => {
+  dataRoot = await fs.mkdtemp(path.join(os.tmpdir(), "fal-automation-video-tasks-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataRoot);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  vi.stubEnv("VERCEL", "");
+  vi.stubEnv("SUPABASE_URL", "");
+  vi.stubEnv("MOCK_VIDEO_URL", "https://example.com/mock.mp4");
+  vi.stubGlobal("fetch", fetchMock);
+
+  videoTasks = await import("./video-tasks");
+  videoLog = await import("./video-log");
+  fileUtils = await import("./file-utils");
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await fs.rm(dataRoot, { recursive: true, force: true });
+});
+
+describe("video task registry", () => {
+  it("lists a batch's tasks and flags when nothing is polling them", async () => {
+    const running = mockTaskId("ok", 0);
+    await videoLog.recordVideoTaskCreated(running, input(0, "batch-status"));
+
+    const status = await videoTasks.getVideoBatchStatus("batch-status");
+    expect(status.tasks.map((t) => [t.index, t.taskId, t.state])).toEqual([[0, running, "waiting"]]);
+    expect(status).toMatchObject({ polling: false, needsPoller: true });
+  });
+
+  it("answers finished tasks from their record", async () => {
+    const taskId = mockTaskId("ok", 60000);
+    await videoLog.recordVideoTaskCreated(taskId, input(1, "batch-refresh"));
+
+    await expect(videoTasks.refreshVideoTask(taskId)).resolves.toMatchObject({
+      state: "success",
+      videoUrl: "https://example.com/mock.mp4",
+    });
+    fetchMock.mockClear();
+    await expect(videoTasks.refreshVideoTask(taskId)).resolves.toEqual({
+      taskId,
+      state: "success",
+      videoUrl: "https://example.com/mock.mp4",
+      error: undefined,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("stores and logs a finished task once when two polls see it finish", async () => {
+    const taskId = mockTaskId("ok", 60000);
+    await videoLog.recordVideoTaskCreated(taskId, input(3, "batch-race"));
+    fetchMock.mockClear();
+
+    // e.g. the browser's poll and the server poller
+    await Promise.all([videoTasks.refreshVideoTask(taskId), videoTasks.refreshVideoTask(taskId)]);
+
+    expect(fetchMock.mock.calls.filter(([url]) => String(url) === "https://example.com/mock.mp4")).toHaveLength(1);
+    const task = await fileUtils.loadVideoTask(taskId);
+    expect(task?.transitions.map((t) => t.state)).toEqual(["waiting", "success"]);
+    expect(task?.finishingUntil).toBeUndefined();
+    const logged = await fileUtils.readLogs(undefined, "batch-race");
+    expect(logged.map((e) => e.status)).toEqual(["submitted", "completed"]);
+  });
+
+  it("polls a batch until every task has finished, then releases it", { timeout: 15000 }, async () => {
+    const ok = mockTaskId("ok", 60000);
+    const failed = mockTaskId("content_policy", 60000);
+    await videoLog.recordVideoTaskCreated(ok, input(0, "batch-poller"));
+    await videoLog.recordVideoTaskCreated(failed, input(1, "batch-poller"));
+
+    await videoTasks.runVideoPoller("batch-poller", "http://localhost:3000");
+
+    const { tasks, polling, needsPoller } = await videoTasks.getVideoBatchStatus("batch-poller");
+    expect(tasks.map((t) => t.state)).toEqual(["success", "fail"]);
+    expect(tasks[1].error).toContain("content_policy");
+    expect(polling).toBe(false);
+    expect(needsPoller).toBe(false);
+
+    // Both tasks are polled at once, so they finish in either order
+    const logged = await fileUtils.readLogs(undefined, "batch-poller");
+    expect(logged.map((e) => [e.imageIndex, e.status]).sort()).toEqual([
+      [0, "completed"],
+      [0, "submitted"],
+      [1, "failed"],
+      [1, "submitted"],
+    ]);
+  });
+});
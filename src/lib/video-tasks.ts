@@ -0,0 +1,151 @@
+import { listVideoTasks, loadVideoBatch, loadVideoTask, updateVideoBatch } from "@/lib/file-utils";
+import {
+  VIDEO_POLL_INTERVAL_MS,
+  VIDEO_POLLER_BUDGET_MS,
+  VIDEO_POLLER_LEASE_MS,
+  VIDEO_TASK_MAX_AGE_MS,
+} from "@/lib/constants";
+import { getVideoProvider } from "@/lib/providers";
+import { isFalTaskId } from "@/lib/providers/fal-provider";
+import { isMockTaskId } from "@/lib/providers/mock-provider";
+import { persistFile } from "@/lib/supabase-storage";
+import {
+  claimVideoTaskFinish,
+  isTerminalVideoState,
+  recordVideoTaskStatus,
+  releaseVideoTaskFinish,
+} from "@/lib/video-log";
+import type { VideoTaskStatus } from "@/lib/providers/types";
+import type { VideoBatch, VideoProviderName, VideoTask } from "@/types/video";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function hasLiveLease(batch: VideoBatch, now = Date.now()): boolean {
+  return !!batch.lease && batch.lease.expiresAt > now;
+}
+
+/** Unfinished tasks the poller still tracks. */
+function isTracked(task: VideoTask, now = Date.now()): boolean {
+  return !isTerminalVideoState(task.state) && now - new Date(task.createdAt).getTime() < VIDEO_TASK_MAX_AGE_MS;
+}
+
+/** True if the batch has tasks in flight but no poller is holding it. */
+export function needsVideoPoller(batch: VideoBatch | null, tasks: VideoTask[]): boolean {
+  return !!batch && !hasLiveLease(batch) && tasks.some((task) => isTracked(task));
+}
+
+/** Ask the poller route to track a batch's tasks in its own invocation. */
+export async function kickVideoPoller(batchId: string, origin: string): Promise<void> {
+  try {
+    await fetch(`${origin}/api/generate-video/poller`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ batchId }),
+    });
+  } catch (err) {
+    console.error(`[video-tasks] Failed to kick poller for ${batchId}:`, err);
+  }
+}
+
+/** Provider that created a task: from its record, else from the id (tasks predating the record field are Kie's). */
+function videoProviderOf(taskId: string, task: VideoTask | null): VideoProviderName {
+  if (task?.provider) return task.provider;
+  if (isMockTaskId(taskId)) return "mock";
+  if (isFalTaskId(taskId)) return "fal";
+  return "kie";
+}
+
+/**
+ * Current status of a task. Finished tasks are answered from their record;
+ * others are polled. The poll that claims a finished task copies a successful
+ * video to permanent storage and records the result; a concurrent poll keeps
+ * reporting the task's recorded state until then. Tasks without a record are
+ * polled as-is.
+ */
+export async function refreshVideoTask(taskId: string): Promise<VideoTaskStatus> {
+  const task = await loadVideoTask(taskId);
+  if (task && isTerminalVideoState(task.state)) {
+    return { taskId, state: task.state, videoUrl: task.videoUrl, error: task.error };
+  }
+
+  let status = await getVideoProvider(videoProviderOf(taskId, task)).pollVideoTask(taskId);
+  if (task && isTerminalVideoState(status.state) && !(await claimVideoTaskFinish(taskId))) {
+    const current = (await loadVideoTask(taskId)) ?? task;
+    return { taskId, state: current.state, videoUrl: current.videoUrl, error: current.error };
+  }
+
+  try {
+    if (status.state === "success" && status.videoUrl) {
+      const permanentUrl = await persistFile(status.videoUrl, "videos", "video/mp4");
+      status = { ...status, videoUrl: permanentUrl ?? status.videoUrl };
+    }
+    await recordVideoTaskStatus(status);
+  } catch (error) {
+    console.warn(`[video-tasks] Failed to record status of ${taskId}:`, error);
+    if (task && isTerminalVideoState(status.state)) await releaseVideoTaskFinish(taskId).catch(() => undefined);
+  }
+  return status;
+}
+
+/**
+ * Poll a batch's unfinished tasks until they are all done or this invocation
+ * runs out of time, in which case a fresh poller invocation takes over.
+ */
+export async function runVideoPoller(batchId: string, origin: string): Promise<void> {
+  const workerId = crypto.randomUUID();
+  const startedAt = Date.now();
+
+  const acquired = await updateVideoBatch(batchId, (current) => {
+    if (!current) return null;
+    if (hasLiveLease(current) && current.lease!.workerId !== workerId) return null;
+    return { ...current, lease: { workerId, expiresAt: Date.now() + VIDEO_POLLER_LEASE_MS } };
+  });
+  if (acquired?.lease?.workerId !== workerId) return;
+
+  const release = () =>
+    updateVideoBatch(batchId, (current) =>
+      current?.lease?.workerId === workerId ? { ...current, lease: undefined } : null
+    );
+
+  try {
+    while (true) {
+      const active = (await listVideoTasks(batchId)).filter((task) => isTracked(task));
+      if (active.length === 0) return;
+
+      if (Date.now() - startedAt > VIDEO_POLLER_BUDGET_MS) {
+        await release();
+        await kickVideoPoller(batchId, origin);
+        return;
+      }
+
+      await Promise.all(
+        active.map((task) =>
+          refreshVideoTask(task.taskId).catch((error) =>
+            console.warn(`[video-tasks] Poll of ${task.taskId} failed:`, error)
+          )
+        )
+      );
+
+      await updateVideoBatch(batchId, (current) =>
+        current?.lease?.workerId === workerId
+          ? { ...current, lease: { workerId, expiresAt: Date.now() + VIDEO_POLLER_LEASE_MS } }
+          : null
+      );
+      await sleep(VIDEO_POLL_INTERVAL_MS);
+    }
+  } finally {
+    await release();
+  }
+}
+
+/** A batch's registered tasks, and whether a poller is currently tracking them. */
+export async function getVideoBatchStatus(batchId: string): Promise<{ tasks: VideoTask[]; polling: boolean; needsPoller: boolean }> {
+  const [batch, tasks] = await Promise.all([loadVideoBatch(batchId), listVideoTasks(batchId)]);
+  return {
+    tasks,
+    polling: !!batch && hasLiveLease(batch),
+    needsPoller: needsVideoPoller(batch, tasks),
+  };
+}
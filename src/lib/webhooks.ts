@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Provider } from "@/types/generation";
+
+/** The attempt of a job item a callback URL was issued for. */
+export interface CallbackTarget {
+  batchId: string;
+  index: number;
+  attempt: number;
+}
+
+/**
+ * Callbacks need a public origin the providers can reach (WEBHOOK_BASE_URL)
+ * and a secret to sign callback URLs with (WEBHOOK_SECRET). Without both,
+ * the worker waits on each provider call instead.
+ */
+function getCallbackConfig(): { baseUrl: string; secret: string } | null {
+  const baseUrl = process.env.WEBHOOK_BASE_URL?.replace(/\/+$/, "");
+  const secret = process.env.WEBHOOK_SECRET;
+  return baseUrl && secret ? { baseUrl, secret } : null;
+}
+
+function sign(secret: string, provider: string, target: CallbackTarget): string {
+  return createHmac("sha256", secret)
+    .update(`${provider}:${target.batchId}:${target.index}:${target.attempt}`)
+    .digest("hex");
+}
+
+/** URL a provider should post one attempt's result to; null when callbacks are not configured. */
+export function buildCallbackUrl(provider: Provider, target: CallbackTarget): string | null {
+  const config = getCallbackConfig();
+  if (!config) return null;
+  const params = new URLSearchParams({
+    batchId: target.batchId,
+    index: String(target.index),
+    attempt: String(target.attempt),
+    token: sign(config.secret, provider, target),
+  });
+  return `${config.baseUrl}/api/webhooks/${provider}?${params}`;
+}
+
+/**
+ * The target of an incoming callback, or null unless its token is the one
+ * buildCallbackUrl signed. Kie doesn't sign its callbacks, so for both
+ * providers the signed URL itself is the credential.
+ */
+export function verifyCallback(provider: string, params: URLSearchParams): CallbackTarget | null {
+  const config = getCallbackConfig();
+  const batchId = params.get("batchId");
+  const index = Number(params.get("index") ?? NaN);
+  const attempt = Number(params.get("attempt") ?? NaN);
+  const token = params.get("token") ?? "";
+  if (!config || !batchId || !Number.isInteger(index) || !Number.isInteger(attempt)) return null;
+
+  const target = { batchId, index, attempt };
+  const expected = Buffer.from(sign(config.secret, provider, target));
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received) ? target : null;
+}
@@ -0,0 +1,44 @@
+import type { ProviderErrorCategory } from "./generation";
+
+/** Counts and spend shared by every breakdown row. Spend is in ILS, as logged. */
+export interface UsageStats {
+  count: number;
+  completed: number;
+  failed: number;
+  spend: number;
+}
+
+export interface DailyUsage extends UsageStats {
+  date: string;
+}
+
+export interface ProviderUsage extends UsageStats {
+  provider: string;
+  /** completed / count; null when there were no requests */
+  successRate: number | null;
+  /** Over completed requests; null when none completed */
+  medianDurationMs: number | null;
+  p95DurationMs: number | null;
+}
+
+export interface ResolutionUsage extends UsageStats {
+  resolution: string;
+}
+
+export interface FailureReason {
+  category: ProviderErrorCategory;
+  count: number;
+  /** Most recent error message in this category */
+  example?: string;
+}
+
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  totals: UsageStats & { successRate: number | null };
+  byDay: DailyUsage[];
+  byProvider: ProviderUsage[];
+  byResolution: ResolutionUsage[];
+  topFailures: FailureReason[];
+  video: UsageStats;
+}
@@ -1,25 +1,55 @@
+import type { GenerationSettings, PromptOverrides, Provider, ProviderErrorCategory } from "./generation";
+import type { Storyboard, VideoProviderName } from "./video";
+
 export type ImageStatus = "pending" | "queued" | "processing" | "completed" | "failed" | "editing";
 
 export type BatchStatus = "idle" | "running" | "completed" | "cancelled" | "error" | "interrupted";
 
 export type EditMode = "replace" | "duplicate" | "parallel";
 
+/** One node of an image's version graph; `versionNumber` is its id within the image */
 export interface ImageVersion {
   versionNumber: number;
+  /** Version this one was edited from. Absent on V1; versions saved before the graph follow V(n-1) */
+  parentVersion?: number;
   url: string;
   contentType: string;
   width: number;
   height: number;
   editPrompt: string;
+  /** Inpainting mask the edit was made with (white = repainted) */
+  maskUrl?: string;
+  seed?: number;
+  provider?: Provider;
+  model?: string;
   createdAt: string;
 }
 
+/** Gemini's look at one output: an alt-text caption and a score against its prompt */
+export interface ImageReview {
+  /** Result the review is about; another version on display makes it stale */
+  url: string;
+  /** Alt text, also matched by the gallery search */
+  caption?: string;
+  /** 0-10: how closely the image follows its prompt */
+  score?: number;
+  /** What doesn't match the prompt, in short phrases */
+  issues?: string[];
+  /** Score below QA_FLAG_THRESHOLD */
+  flagged?: boolean;
+  reviewedAt: string;
+}
+
 export interface BatchImage {
   /** Unique identifier for this image within the batch */
   id: string;
   index: number;
   rawPrompt: string;
   fullPrompt: string;
+  /** Prompt as written, when Gemini expanded it into rawPrompt before generation */
+  originalPrompt?: string;
+  /** Per-prompt settings that take precedence over the batch settings */
+  overrides?: PromptOverrides;
   status: ImageStatus;
   result?: {
     url: string;
@@ -30,29 +60,47 @@ export interface BatchImage {
   requestId?: string;
   seed?: number;
   error?: string;
+  errorCategory?: ProviderErrorCategory;
   startedAt?: string;
   completedAt?: string;
   durationMs?: number;
+  /** Current generation attempt (set by the server-side retry policy) */
+  attempt?: number;
   /** Version history (V1 = original). Only present if the image has been edited. */
   versions?: ImageVersion[];
   /** Which version is currently displayed. undefined = latest */
   currentVersion?: number;
   /** If this image was created via duplicate/parallel edit, references the source image index */
   sourceImageIndex?: number;
+  /** Image and version a duplicate/parallel edit was made from (sourceImageIndex is the family root) */
+  parentImageIndex?: number;
+  parentVersion?: number;
+  /** If this image was composed from several gallery images, their indices in input order */
+  sourceImageIndices?: number[];
   /** Edit label for images created from edits (e.g. "V2", "V3") */
   versionLabel?: string;
   /** URL of generated video (for video batches) */
   videoUrl?: string;
   /** URL of the source image used for video generation */
   sourceImageUrl?: string;
+  /** Image the clip should end on, for models that take a last frame */
+  endImageUrl?: string;
+  /** Images the clip should pass through between the first and last frame, in order */
+  keyframeUrls?: string[];
+  review?: ImageReview;
 }
 
 export type BatchType = "image" | "video";
 
 export interface VideoSettings {
+  provider?: VideoProviderName;
   duration: string;
   resolution: string;
+  aspectRatio?: string;
+  /** Video model id; batches from before the model registry hold the Kie model name */
   model: string;
+  /** Text-to-video: generate each clip's first frame with the batch's image settings, then animate it */
+  firstFrame?: boolean;
 }
 
 export interface Batch {
@@ -61,9 +109,11 @@ export interface Batch {
   type: BatchType;
   status: BatchStatus;
   images: BatchImage[];
-  settings: import("./generation").GenerationSettings;
+  settings: GenerationSettings;
   createdAt: string;
   completedAt?: string;
   estimatedCost: number;
   videoSettings?: VideoSettings;
+  /** Reel rendered from the batch's clips (video batches) */
+  storyboard?: Storyboard;
 }
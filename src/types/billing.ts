@@ -0,0 +1,47 @@
+export interface ExchangeRate {
+  /** ILS per USD */
+  rate: number;
+  /** "env" = USD_TO_ILS_RATE override, "api" = fetched, "default" = built-in fallback */
+  source: "env" | "api" | "default";
+  updatedAt: string;
+}
+
+/** Actual cost of one provider request, from the provider's billing API. */
+export interface BilledCost {
+  requestId: string;
+  costUsd: number;
+  endpoint?: string;
+  timestamp?: string;
+}
+
+export interface ReconciliationRow {
+  provider: string;
+  model: string;
+  resolution: string;
+  /** Completed requests in the range */
+  count: number;
+  /** Requests matched to a billing record by requestId */
+  matched: number;
+  /** Estimated and billed USD over the matched requests only */
+  estimatedUsd: number;
+  billedUsd: number;
+  driftUsd: number;
+  /** (billed - estimated) / estimated; null when nothing matched */
+  driftRatio: number | null;
+  /** Drift is beyond RECONCILIATION_DRIFT_THRESHOLD */
+  flagged: boolean;
+}
+
+export interface ReconciliationReport {
+  from: string;
+  to: string;
+  rows: ReconciliationRow[];
+  totals: {
+    count: number;
+    matched: number;
+    estimatedUsd: number;
+    billedUsd: number;
+    driftUsd: number;
+  };
+  exchangeRate: ExchangeRate;
+}
@@ -0,0 +1,39 @@
+export type BudgetScope = "batch" | "day" | "month";
+
+/** Spend caps in ILS (same unit as LogEntry.cost). null = no cap. */
+export type BudgetLimits = Record<BudgetScope, number | null>;
+
+export interface BudgetSpend {
+  day: number;
+  month: number;
+  /** Spend of one batch this month (only when checking a batch) */
+  batch?: number;
+}
+
+/** Spend held for work that has started but whose cost isn't logged yet (e.g. a running video task) */
+export interface SpendReservation {
+  /** ILS, like LogEntry.cost */
+  amount: number;
+  /** Log date (UTC) the hold counts toward */
+  date: string;
+  batchId?: string;
+  /** The hold lapses at this time (ms) if it is never released */
+  expiresAt: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Estimated cost of the work being checked */
+  requested: number;
+  /** The first cap that would be exceeded */
+  exceeded?: {
+    scope: BudgetScope;
+    limit: number;
+    spent: number;
+  };
+}
+
+export interface BudgetStatus {
+  limits: BudgetLimits;
+  spend: BudgetSpend;
+}
@@ -1,12 +1,66 @@
-import type { ImageStatus } from "./batch";
+import type { BatchType, ImageStatus, VideoSettings } from "./batch";
+import type { BudgetCheck } from "./budget";
 
-export type Provider = "fal" | "kie";
+export type Provider = "fal" | "kie" | "mock";
+
+export type Resolution = "1K" | "2K" | "4K";
+export type OutputFormat = "png" | "jpeg" | "webp";
+
+/** Capability metadata for one image model. Drives the settings UI, validation and pricing. */
+export interface ImageModel {
+  /** Unique within the provider; stored in `GenerationSettings.model` */
+  id: string;
+  provider: Provider;
+  label: string;
+  /** Provider endpoint / model name for text-to-image */
+  endpoint: string;
+  /** Endpoint used when reference images are given. Models without one fall back to the provider's default edit model. */
+  editEndpoint?: string;
+  /** Endpoint for mask-based inpainting. Models without one fall back to the provider's default inpainting model. */
+  maskEndpoint?: string;
+  aspectRatios: readonly string[];
+  resolutions: readonly Resolution[];
+  outputFormats: readonly OutputFormat[];
+  /** USD per image, by resolution */
+  pricing: Partial<Record<Resolution, number>>;
+  /** USD added per image when web search is enabled */
+  webSearchPrice?: number;
+  /** Max images per prompt (1 = no variations) */
+  maxImages: number;
+  supportsSeed: boolean;
+  supportsWebSearch: boolean;
+  supportsSafetyTolerance: boolean;
+  /** Input field name for the aspect ratio, if not `aspect_ratio` */
+  aspectRatioParam?: string;
+}
+
+/** Cause of a failed provider call, used to group failures and decide on retries */
+export type ProviderErrorCategory =
+  | "content_policy"
+  | "rate_limited"
+  | "quota_exhausted"
+  | "timeout"
+  | "invalid_input"
+  | "upstream_5xx"
+  | "network"
+  | "unknown";
+
+export interface RetryPolicy {
+  /** Total attempts per image, including the first (1 = no retries) */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles with each further retry */
+  backoffMs: number;
+  /** Error categories worth retrying (transient ones) */
+  retryOn: ProviderErrorCategory[];
+}
 
 export interface GenerationSettings {
   provider: Provider;
-  resolution: "1K" | "2K" | "4K";
+  /** Model id within the provider (see IMAGE_MODELS) */
+  model: string;
+  resolution: Resolution;
   aspectRatio: string;
-  outputFormat: "png" | "jpeg" | "webp";
+  outputFormat: OutputFormat;
   safetyTolerance: number;
   numImages: number;
   seed?: number;
@@ -15,17 +69,34 @@ export interface GenerationSettings {
   promptSuffix: string;
   referenceImageUrls: string[];
   concurrency: number;
+  retryPolicy: RetryPolicy;
   geminiSystemPrompt: string;
+  /** Have Gemini expand each prompt into a detailed one before generating */
+  expandPrompts?: boolean;
+  /** What a batch started from the prompts produces (default "image") */
+  outputType?: BatchType;
+  /** Clip settings for video batches started from the prompts */
+  video?: VideoSettings;
 }
 
+/** Settings a single prompt can override (via `--flag value` in its line) */
+export type PromptOverrides = Partial<
+  Pick<GenerationSettings, "provider" | "model" | "resolution" | "aspectRatio" | "seed" | "referenceImageUrls" | "numImages">
+>;
+
 export interface GenerationRequest {
   batchId: string;
   prompts: string[];
   settings: GenerationSettings;
+  /** Batch indices of the prompts (defaults to 0..n-1). Used when resuming a subset. */
+  indices?: number[];
+  /** Per-prompt overrides, aligned with `prompts` */
+  overrides?: Array<PromptOverrides | undefined>;
 }
 
 export interface GenerationEvent {
-  type: "image_update" | "batch_complete" | "batch_error";
+  /** batch_paused: the job stopped itself because a spend cap was reached */
+  type: "image_update" | "batch_complete" | "batch_error" | "batch_paused";
   index?: number;
   status?: ImageStatus;
   image?: {
@@ -37,5 +108,10 @@ export interface GenerationEvent {
   seed?: number;
   requestId?: string;
   error?: string;
+  errorCategory?: ProviderErrorCategory;
   durationMs?: number;
+  /** 1-based attempt number this update belongs to */
+  attempt?: number;
+  /** The cap that paused the batch (batch_paused only) */
+  budget?: BudgetCheck;
 }
@@ -2,3 +2,10 @@ export * from "./batch";
 export * from "./generation";
 export * from "./preset";
 export * from "./log";
+export * from "./job";
+export * from "./template";
+export * from "./budget";
+export * from "./billing";
+export * from "./analytics";
+export * from "./video";
+export * from "./postprocess";
@@ -0,0 +1,46 @@
+import type { GenerationSettings, PromptOverrides } from "./generation";
+
+export type JobStatus = "queued" | "running" | "completed" | "cancelled";
+
+/** "submitted": handed to a provider that reports back via /api/webhooks */
+export type JobItemStatus = "pending" | "running" | "submitted" | "done";
+
+export interface JobItem {
+  /** Index of the image within the client-side batch */
+  index: number;
+  prompt: string;
+  overrides?: PromptOverrides;
+  status: JobItemStatus;
+  /** Attempt in progress (1 when unset). Callbacks for other attempts are ignored. */
+  attempt?: number;
+  /** When the first attempt started (ms), so the logged duration spans retries */
+  startedAt?: number;
+  /** Earliest time the next attempt may be submitted (ms) */
+  retryAt?: number;
+  /** Provider request id and submission time while a callback is awaited */
+  requestId?: string;
+  submittedAt?: number;
+  /** When the callback arrived; set while its result is being recorded */
+  callbackAt?: number;
+  /** How a "done" item ended. Resubmitting requeues failed items only. */
+  outcome?: "completed" | "failed";
+}
+
+export interface BatchJob {
+  /** Same id as the client-side batch */
+  batchId: string;
+  status: JobStatus;
+  settings: GenerationSettings;
+  items: JobItem[];
+  createdAt: string;
+  updatedAt: string;
+  /** Bumped on every write; updates are compare-and-set on it (see updateJob) */
+  version?: number;
+  /** Position in the event log where the current run starts. Fresh subscriptions replay from here. */
+  runEventOffset: number;
+  /** Held by the worker invocation currently processing the job. Expires if that worker dies. */
+  lease?: {
+    workerId: string;
+    expiresAt: number;
+  };
+}
@@ -1,10 +1,27 @@
+import type { ProviderErrorCategory } from "./generation";
+import type { VideoStateTransition } from "./video";
+
+/** Video-only details; the provider's task id is also the entry's requestId. */
+export interface VideoLogDetails {
+  duration: string;
+  /** Absent for text-to-video */
+  sourceImageUrl?: string;
+  /** Provider task states seen while polling, oldest first */
+  transitions: VideoStateTransition[];
+}
+
 export interface LogEntry {
+  /** "video" for video generations; image entries omit it */
+  kind?: "image" | "video";
+  /** Set on edits (including compositions and inpainting) and post-processing steps; generations omit it */
+  operation?: "edit" | "postprocess";
   timestamp: string;
   batchId: string;
   imageIndex: number;
   prompt: string;
   parameters: {
     provider?: string;
+    model?: string;
     resolution: string;
     aspectRatio: string;
     outputFormat: string;
@@ -14,12 +31,43 @@ export interface LogEntry {
     enableWebSearch: boolean;
     hasReferenceImages: boolean;
   };
-  status: "completed" | "failed";
+  /** "submitted" marks a video task's creation; it is followed by a completed/failed entry */
+  status: "submitted" | "completed" | "failed";
   durationMs: number;
   resultUrl?: string;
   width?: number;
   height?: number;
   error?: string;
+  errorCategory?: ProviderErrorCategory;
   requestId?: string;
+  /** Number of attempts made (1 when the first try succeeded or failed permanently) */
+  attempts?: number;
+  /** Estimated cost in ILS (costUsd × exchangeRate) */
   cost: number;
+  /** Estimated cost in USD from the model's price table */
+  costUsd?: number;
+  /** ILS per USD used for `cost` */
+  exchangeRate?: number;
+  video?: VideoLogDetails;
+}
+
+/** Filters for /api/logs/search. Entries are returned oldest first. */
+export interface LogQuery {
+  from: string;
+  to: string;
+  provider?: string;
+  status?: LogEntry["status"];
+  kind?: NonNullable<LogEntry["kind"]>;
+  batchId?: string;
+  requestId?: string;
+  /** Case-insensitive substring of the prompt */
+  q?: string;
+  /** Opaque position returned as nextCursor by the previous page */
+  cursor?: string;
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  /** Null when the range is exhausted; a full page may be followed by an empty one */
+  nextCursor: string | null;
 }
@@ -0,0 +1,14 @@
+import type { OutputFormat } from "./generation";
+
+export type UpscaleFactor = 2 | 4;
+
+/** One step of a post-processing chain, applied to the previous step's output. */
+export type PostProcessOperation =
+  | { type: "upscale"; scale: UpscaleFactor }
+  | { type: "remove_background" }
+  | { type: "crop"; aspectRatio: string }
+  | { type: "convert"; format: OutputFormat }
+  /** Re-encode in the current format; quality 1-100 */
+  | { type: "compress"; quality: number };
+
+export type PostProcessOperationType = PostProcessOperation["type"];
@@ -0,0 +1,24 @@
+import type { PromptOverrides } from "./generation";
+
+/** How the value lists in a template line are combined */
+export type ExpansionMode = "cartesian" | "zip";
+
+/** Rows from an uploaded CSV/TSV file; each column fills a `{{column}}` placeholder */
+export interface TemplateData {
+  fileName: string;
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+export interface ExpandedPrompts {
+  /** Prompt text with any `--flag value` overrides stripped */
+  prompts: string[];
+  /** Per-prompt overrides, aligned with `prompts` */
+  overrides: Array<PromptOverrides | undefined>;
+  /** Override flags that were unknown or had invalid values */
+  invalidOverrides: string[];
+  /** `{{name}}` placeholders with no definition line or CSV column */
+  unknownVariables: string[];
+  /** True if expansion hit MAX_EXPANDED_PROMPTS and the rest was dropped */
+  truncated: boolean;
+}
@@ -0,0 +1,107 @@
+export type VideoProviderName = "kie" | "fal" | "mock";
+
+/** Capability metadata for one video model. Drives the video settings UI, validation and pricing. */
+export interface VideoModel {
+  /** Unique across providers; stored in `VideoSettings.model` and on task records */
+  id: string;
+  provider: VideoProviderName;
+  label: string;
+  /** Provider endpoint / model name (image-to-video) */
+  endpoint: string;
+  /** Text-to-video variant, for clips without a source image. Absent when the model needs one */
+  textToVideoEndpoint?: string;
+  /** Input field for the clip's last frame; absent when the model can't be told where to end */
+  endImageParam?: string;
+  /** Input field for intermediate keyframes (image URLs, in order) and how many the model takes */
+  keyframes?: { param: string; max: number };
+  /** Clip lengths in seconds. Only sent to the provider when there is a choice */
+  durations: readonly string[];
+  /** In the provider's own notation ("768P", "720p"). Only sent when there is a choice */
+  resolutions: readonly string[];
+  /** Empty when the clip keeps the source image's aspect ratio */
+  aspectRatios: readonly string[];
+  /** USD per clip, keyed `${duration}_${resolution}`; combinations without a price are unsupported */
+  pricing: Record<string, number>;
+}
+
+export type VideoTaskState = "waiting" | "queuing" | "generating" | "success" | "fail" | "error";
+
+export interface VideoStateTransition {
+  state: VideoTaskState;
+  at: string;
+}
+
+/** Server-side record of a video task, kept from creation until it is logged as finished. */
+export interface VideoTask {
+  taskId: string;
+  /** Provider the task runs on (the mock when MOCK_VIDEO is set) */
+  provider: VideoProviderName;
+  batchId?: string;
+  /** Index of the source image within the video batch */
+  index: number;
+  prompt: string;
+  /** Source image (a generated first frame included); absent for text-to-video */
+  imageUrl?: string;
+  endImageUrl?: string;
+  keyframeUrls?: string[];
+  duration: string;
+  resolution: string;
+  aspectRatio?: string;
+  /** Video model id (see VIDEO_MODELS); records from before the registry hold "pro" / "standard" */
+  model: string;
+  createdAt: string;
+  state: VideoTaskState;
+  transitions: VideoStateTransition[];
+  /** Estimated cost from the video price table, fixed at creation */
+  costUsd: number;
+  exchangeRate: number;
+  /** Spend held for the task until its cost is logged (see reserveBudget) */
+  reservationId?: string;
+  /** Persisted result, once the task succeeded */
+  videoUrl?: string;
+  error?: string;
+  /** Set while one poll stores the finished task's result; other polls leave it alone until then (see claimVideoTaskFinish) */
+  finishingUntil?: number;
+  updatedAt?: string;
+  /** Bumped on every update; updates are compare-and-set on it (see updateVideoTask) */
+  version?: number;
+}
+
+/** Tasks created for one video batch, and the server poller working on them. */
+export interface VideoBatch {
+  batchId: string;
+  taskIds: string[];
+  updatedAt: string;
+  /** Bumped on every write; updates are compare-and-set on it (see updateVideoBatch) */
+  version?: number;
+  /** Held by the poller invocation currently tracking the batch. Expires if that poller dies. */
+  lease?: {
+    workerId: string;
+    expiresAt: number;
+  };
+}
+
+/** GET /api/generate-video/batch */
+export interface VideoBatchStatus {
+  batchId: string;
+  /** A server poller is tracking the batch's unfinished tasks */
+  polling: boolean;
+  tasks: Array<Pick<VideoTask, "taskId" | "index" | "state" | "videoUrl" | "error" | "createdAt">>;
+}
+
+export type StoryboardTransition = "cut" | "crossfade";
+
+/** One clip of a storyboard reel, in playing order. */
+export interface StoryboardClip {
+  videoUrl: string;
+  /** Shown on a title card before the clip */
+  title?: string;
+}
+
+/** A single reel rendered from a video batch's clips (POST /api/generate-video/storyboard). */
+export interface Storyboard {
+  url: string;
+  transition: StoryboardTransition;
+  clipCount: number;
+  createdAt: string;
+}